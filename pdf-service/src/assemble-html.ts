@@ -1,9 +1,12 @@
 import fs from 'node:fs'
 import path from 'node:path'
+import { buildFeeRows, type FeeCurrency, type FeeData } from './fees.js'
+import { richTextToHtml } from './rich-text.js'
+import { fieldImageUrl, formatFieldValue } from './field-values.js'
 
 export interface SlideOrder {
   id: string
-  type: 'image' | 'context' | 'fee'
+  type: 'image' | 'context' | 'fee' | 'blank'
   imagePath?: string
   label: string
   editableFields?: EditableFieldDef[]
@@ -13,7 +16,7 @@ export interface EditableFieldDef {
   id: string
   name: string
   label: string
-  type: 'text' | 'textarea' | 'table'
+  type: 'text' | 'textarea' | 'table' | 'image' | 'date' | 'currency' | 'checkbox'
   x: number
   y: number
   width: number
@@ -24,6 +27,11 @@ export interface EditableFieldDef {
   color: string
   textAlign: 'left' | 'center' | 'right'
   autoFill?: string
+  richText?: boolean
+  minFontSize?: number
+  dateStyle?: 'long' | 'medium' | 'short'
+  currency?: FeeCurrency
+  imageFit?: 'contain' | 'cover'
 }
 
 export interface ProposalData {
@@ -34,12 +42,26 @@ export interface ProposalData {
   introSlidesCount: number
   selectedProducts: { id: string; name: string; slides: number }[]
   context: { situation: string; objectives: string; focus: string }
-  feeData: Record<string, unknown>
+  feeData: FeeData
   slideOrder?: SlideOrder[]
   editableFieldsData?: Record<string, Record<string, string>>
   staticAssetsBaseUrl: string
 }
 
+/** Resolve a slide's image path to an absolute URL (storage URLs pass through untouched). */
+export function resolveSlideImageUrl(imagePath: string | undefined, staticAssetsBaseUrl: string): string {
+  if (!imagePath) return ''
+  return imagePath.startsWith('http') ? imagePath : `${staticAssetsBaseUrl}${imagePath}`
+}
+
+/** Split a table field's value into rows of cells (rows on newlines, cells on `|`). */
+export function parseTableValue(value: string): string[][] {
+  return value
+    .split('\n')
+    .filter((r) => r.trim())
+    .map((row) => row.split('|').map((c) => c.trim()))
+}
+
 function escapeHtml(text: unknown): string {
   return String(text ?? '')
     .replace(/&/g, '&amp;')
@@ -49,6 +71,13 @@ function escapeHtml(text: unknown): string {
     .replace(/\n/g, '<br>')
 }
 
+/** Textarea and table text renders a little smaller than the field's design size */
+const FONT_SIZE_SCALE: Partial<Record<EditableFieldDef['type'], number>> = {
+  text: 1,
+  textarea: 0.9,
+  table: 0.85,
+}
+
 function renderImageSlide(imageUrl: string, label: string, overlayHtml = ''): string {
   return `
   <div class="slide">
@@ -59,7 +88,8 @@ function renderImageSlide(imageUrl: string, label: string, overlayHtml = ''): st
 function renderEditableFieldOverlays(
   slideId: string,
   fieldsData: Record<string, Record<string, string>>,
-  fieldsFromDb?: EditableFieldDef[]
+  fieldsFromDb: EditableFieldDef[] | undefined,
+  regionId: string
 ): string {
   if (!fieldsFromDb || fieldsFromDb.length === 0) {
     console.log(`[PDF:overlay] ${slideId}: no field defs`)
@@ -77,6 +107,12 @@ function renderEditableFieldOverlays(
       const value = slideValues[field.name]
       if (!value) return ''
 
+      const box = `position:absolute;left:${field.x}%;top:${field.y}%;width:${field.width}%;height:${field.height}%;`
+
+      if (field.type === 'image') {
+        return `<img src="${escapeHtml(fieldImageUrl(value))}" alt="" style="${box}object-fit:${field.imageFit ?? 'contain'};" />`
+      }
+
       const fontFamily =
         field.fontFamily === 'heading'
           ? "'FT Calhern', 'Helvetica Neue', sans-serif"
@@ -89,29 +125,45 @@ function renderEditableFieldOverlays(
         bold: '700',
       }
 
+      // Hooks for fitOverlayText in generate-pdf: which field this is and, if it may shrink, how far
+      const scale = FONT_SIZE_SCALE[field.type] ?? 1
+      const fitAttrs =
+        `data-field="${escapeHtml(`${slideId}/${field.name}`)}"` +
+        (field.minFontSize !== undefined && field.minFontSize < field.fontSize
+          ? ` data-fit-min="${Math.round(field.minFontSize * scale)}"`
+          : '')
+
       if (field.type === 'table') {
-        const rows = String(value ?? '').split('\n').filter((r) => r.trim())
-        const tableHtml = rows
-          .map((row) => {
-            const cells = row.split('|').map((c) => c.trim())
-            return `<tr>${cells.map((c) => `<td style="padding:2px 6px;border-bottom:1px solid rgba(0,0,0,0.1);font-size:${Math.round(field.fontSize * 0.85)}px;">${escapeHtml(c)}</td>`).join('')}</tr>`
-          })
+        const tableHtml = parseTableValue(String(value ?? ''))
+          .map((cells) => `<tr>${cells.map((c) => `<td style="padding:2px 6px;border-bottom:1px solid rgba(0,0,0,0.1);">${escapeHtml(c)}</td>`).join('')}</tr>`)
           .join('')
 
-        return `<div style="position:absolute;left:${field.x}%;top:${field.y}%;width:${field.width}%;height:${field.height}%;overflow:hidden;font-family:${fontFamily};color:${field.color};text-align:${field.textAlign};"><table style="width:100%;border-collapse:collapse;">${tableHtml}</table></div>`
+        return `<div ${fitAttrs} style="${box}overflow:hidden;font-family:${fontFamily};font-size:${Math.round(field.fontSize * scale)}px;color:${field.color};text-align:${field.textAlign};"><table style="width:100%;border-collapse:collapse;">${tableHtml}</table></div>`
       }
 
-      const escapedValue = escapeHtml(String(value ?? ''))
+      const escapedValue = escapeHtml(formatFieldValue(field, String(value ?? ''), regionId))
+      if (!escapedValue) return ''
 
       if (field.type === 'textarea') {
-        return `<div style="position:absolute;left:${field.x}%;top:${field.y}%;width:${field.width}%;height:${field.height}%;overflow:hidden;font-family:${fontFamily};font-size:${Math.round(field.fontSize * 0.9)}px;font-weight:${fontWeightMap[field.fontWeight] || '400'};color:${field.color};text-align:${field.textAlign};line-height:1.45;padding:2px 4px;white-space:pre-wrap;word-wrap:break-word;overflow-wrap:break-word;">${escapedValue}</div>`
+        const content = field.richText ? richTextToHtml(String(value ?? ''), escapeHtml) : escapedValue
+        return `<div ${fitAttrs} style="${box}overflow:hidden;font-family:${fontFamily};font-size:${Math.round(field.fontSize * scale)}px;font-weight:${fontWeightMap[field.fontWeight] || '400'};color:${field.color};text-align:${field.textAlign};line-height:1.45;padding:2px 4px;white-space:pre-wrap;word-wrap:break-word;overflow-wrap:break-word;">${content}</div>`
       }
 
-      return `<div style="position:absolute;left:${field.x}%;top:${field.y}%;width:${field.width}%;height:${field.height}%;display:flex;align-items:flex-start;overflow:hidden;font-family:${fontFamily};font-size:${field.fontSize}px;font-weight:${fontWeightMap[field.fontWeight] || '400'};color:${field.color};text-align:${field.textAlign};line-height:1.4;padding:2px 4px;white-space:nowrap;"><span style="width:100%;text-align:${field.textAlign};">${escapedValue}</span></div>`
+      return `<div ${fitAttrs} style="${box}display:flex;align-items:flex-start;overflow:hidden;font-family:${fontFamily};font-size:${field.fontSize}px;font-weight:${fontWeightMap[field.fontWeight] || '400'};color:${field.color};text-align:${field.textAlign};line-height:1.4;padding:2px 4px;white-space:nowrap;"><span style="width:100%;text-align:${field.textAlign};">${escapedValue}</span></div>`
     })
     .join('')
 }
 
+/** An adviser's blank branded slide — only the field overlays carry content */
+function renderBlankSlide(overlayHtml: string): string {
+  return `
+  <div class="slide">
+    <div class="slide-content">
+      <div class="client-header"></div>
+    </div>${overlayHtml}
+  </div>`
+}
+
 function renderContextSlide(
   context: { situation: string; objectives: string; focus: string },
   clientName: string
@@ -146,17 +198,17 @@ function renderContextSlide(
 }
 
 function renderFeeSlide(
-  feeData: Record<string, unknown>,
+  feeData: FeeData,
   clientName: string
 ): string {
-  const fees = Object.entries(feeData)
+  const fees = buildFeeRows(feeData)
 
   let tableRows = ''
   if (fees.length > 0) {
     tableRows = fees
       .map(
-        ([key, value]) =>
-          `<tr><td>${escapeHtml(key)}</td><td>${escapeHtml(String(value))}</td></tr>`
+        (row) =>
+          `<tr><td>${escapeHtml(row.label)}</td><td>${escapeHtml(row.value)}</td></tr>`
       )
       .join('\n')
   } else {
@@ -164,6 +216,10 @@ function renderFeeSlide(
       '<tr><td colspan="2" style="text-align:center; opacity:0.6;">Fee details to be confirmed</td></tr>'
   }
 
+  const notesHtml = feeData.notes.trim()
+    ? `<p class="fee-notes">${escapeHtml(feeData.notes)}</p>`
+    : ''
+
   return `
   <div class="slide">
     <div class="slide-content">
@@ -183,6 +239,7 @@ function renderFeeSlide(
           ${tableRows}
         </tbody>
       </table>
+      ${notesHtml}
     </div>
   </div>`
 }
@@ -203,14 +260,14 @@ export function assembleHtml(data: ProposalData): string {
             return renderContextSlide(data.context, data.clientName)
           case 'fee':
             return renderFeeSlide(data.feeData, data.clientName)
+          case 'blank':
+            return renderBlankSlide(
+              renderEditableFieldOverlays(slide.id, fieldsData, slide.editableFields, data.regionId)
+            )
           case 'image':
           default: {
-            const imageUrl = slide.imagePath
-              ? slide.imagePath.startsWith('http')
-                ? slide.imagePath
-                : `${staticAssetsBaseUrl}${slide.imagePath}`
-              : ''
-            const overlayHtml = renderEditableFieldOverlays(slide.id, fieldsData, slide.editableFields)
+            const imageUrl = resolveSlideImageUrl(slide.imagePath, staticAssetsBaseUrl)
+            const overlayHtml = renderEditableFieldOverlays(slide.id, fieldsData, slide.editableFields, data.regionId)
             return renderImageSlide(imageUrl, slide.label, overlayHtml)
           }
         }
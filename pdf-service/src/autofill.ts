@@ -0,0 +1,149 @@
+// Mirrors the evaluator in src/lib/autofill.ts in the web app — keep the
+// variables and functions in step so a field the adviser left empty fills in
+// the PDF exactly as the wizard would have filled it.
+//
+//   Prepared for {client_name | first_name} by {advisor_name}, {proposal_date | date:medium}
+
+import { regionFormat } from './field-values.js'
+import type { EditableFieldDef, SlideOrder } from './assemble-html.js'
+
+/** Raw variable values sent by the wizard. Dates are ISO (yyyy-mm-dd). */
+export type AutoFillContext = Record<string, string | undefined>
+
+const DATE_VARIABLES = new Set(['client_dob', 'date', 'proposal_date'])
+
+interface AutoFillFilter {
+  name: string
+  arg?: string
+}
+
+type AutoFillPart =
+  | { kind: 'text'; text: string }
+  | { kind: 'variable'; variable: string; filters: AutoFillFilter[] }
+
+const PLACEHOLDER_RE = /\{([^{}]*)\}/g
+
+function parsePlaceholder(body: string): AutoFillPart {
+  const [variable, ...filters] = body.split('|').map((s) => s.trim())
+  return {
+    kind: 'variable',
+    variable,
+    filters: filters.map((f) => {
+      const [name, arg] = f.split(':').map((s) => s.trim())
+      return arg === undefined ? { name } : { name, arg }
+    }),
+  }
+}
+
+function parseAutoFill(expression: string): AutoFillPart[] {
+  if (!expression.includes('{')) {
+    return [parsePlaceholder(expression.trim())]
+  }
+
+  const parts: AutoFillPart[] = []
+  let last = 0
+  for (const match of expression.matchAll(PLACEHOLDER_RE)) {
+    const index = match.index ?? 0
+    if (index > last) parts.push({ kind: 'text', text: expression.slice(last, index) })
+    parts.push(parsePlaceholder(match[1]))
+    last = index + match[0].length
+  }
+  if (last < expression.length) parts.push({ kind: 'text', text: expression.slice(last) })
+  return parts
+}
+
+function parseDate(value: string): Date | null {
+  const iso = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00Z`) : new Date(`${value} UTC`)
+  return Number.isNaN(iso.getTime()) ? null : iso
+}
+
+function formatDate(value: string, format: string, locale: string): string {
+  const date = parseDate(value)
+  if (!date) return value
+  if (format === 'year') return String(date.getUTCFullYear())
+  return new Intl.DateTimeFormat(locale, {
+    dateStyle: format as 'long' | 'medium' | 'short',
+    timeZone: 'UTC',
+  }).format(date)
+}
+
+function ageFrom(value: string, today: Date): string {
+  const dob = parseDate(value)
+  if (!dob) return ''
+  let age = today.getUTCFullYear() - dob.getUTCFullYear()
+  const beforeBirthday =
+    today.getUTCMonth() < dob.getUTCMonth() ||
+    (today.getUTCMonth() === dob.getUTCMonth() && today.getUTCDate() < dob.getUTCDate())
+  if (beforeBirthday) age -= 1
+  return age >= 0 ? String(age) : ''
+}
+
+function applyFilter(value: string, filter: AutoFillFilter, locale: string, today: Date): string {
+  switch (filter.name) {
+    case 'upper':
+      return value.toLocaleUpperCase(locale)
+    case 'lower':
+      return value.toLocaleLowerCase(locale)
+    case 'first_name':
+      return value.trim().split(/\s+/)[0] ?? ''
+    case 'age':
+      return ageFrom(value, today)
+    case 'date':
+      return formatDate(value, filter.arg ?? 'long', locale)
+    default:
+      return value
+  }
+}
+
+/** Evaluate an expression; '' when any placeholder has no value. */
+export function evaluateAutoFill(expression: string, context: AutoFillContext, regionId: string): string {
+  const { locale } = regionFormat(regionId)
+  const today = parseDate(context.date ?? '') ?? new Date()
+  let result = ''
+  for (const part of parseAutoFill(expression)) {
+    if (part.kind === 'text') {
+      result += part.text
+      continue
+    }
+    let value = context[part.variable] ?? ''
+    if (!value) return ''
+    for (const filter of part.filters) {
+      value = applyFilter(value, filter, locale, today)
+    }
+    const formatted = part.filters.some((f) => f.name === 'date' || f.name === 'age')
+    if (DATE_VARIABLES.has(part.variable) && !formatted) value = formatDate(value, 'long', locale)
+    if (!value) return ''
+    result += value
+  }
+  return result
+}
+
+/** The value to store for a field's autofill — date fields keep the ISO date. */
+export function autoFillFieldValue(field: EditableFieldDef, context: AutoFillContext, regionId: string): string {
+  if (!field.autoFill) return ''
+  if (field.type === 'date') {
+    const [part] = parseAutoFill(field.autoFill)
+    if (part?.kind !== 'variable' || !DATE_VARIABLES.has(part.variable)) return ''
+    const date = parseDate(context[part.variable] ?? '')
+    return date ? date.toISOString().slice(0, 10) : ''
+  }
+  return evaluateAutoFill(field.autoFill, context, regionId)
+}
+
+/** Fill every empty autofill field in the slide order. Values the adviser entered are kept. */
+export function applyAutoFill(
+  slideOrder: SlideOrder[],
+  fieldsData: Record<string, Record<string, string>>,
+  context: AutoFillContext,
+  regionId: string
+): Record<string, Record<string, string>> {
+  const filled = { ...fieldsData }
+  for (const slide of slideOrder) {
+    for (const field of slide.editableFields ?? []) {
+      if (!field.autoFill || filled[slide.id]?.[field.name]) continue
+      const value = autoFillFieldValue(field, context, regionId)
+      if (value) filled[slide.id] = { ...filled[slide.id], [field.name]: value }
+    }
+  }
+  return filled
+}
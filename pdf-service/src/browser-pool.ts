@@ -0,0 +1,100 @@
+import puppeteer, { type Browser } from 'puppeteer'
+
+const POOL_SIZE = Math.max(1, parseInt(process.env.PDF_BROWSER_POOL_SIZE || '2', 10) || 2)
+// Recycle a browser after this many renders to keep Chromium memory in check
+const MAX_USES = 50
+
+interface PooledBrowser {
+  browser: Browser
+  uses: number
+  busy: boolean
+}
+
+const pool: PooledBrowser[] = []
+// Launches in flight — they count towards POOL_SIZE so concurrent acquires can't overshoot
+let launching = 0
+const waiters: { resolve: (entry: PooledBrowser) => void; reject: (err: unknown) => void }[] = []
+
+async function launch(): Promise<Browser> {
+  return puppeteer.launch({
+    headless: true,
+    args: [
+      '--no-sandbox',
+      '--disable-setuid-sandbox',
+      '--disable-dev-shm-usage',
+      '--disable-gpu',
+    ],
+  })
+}
+
+/** Launch a browser into the pool. The slot is reserved before the first await. */
+async function createEntry(): Promise<PooledBrowser> {
+  launching++
+  let browser: Browser
+  try {
+    browser = await launch()
+  } finally {
+    launching--
+  }
+  const entry: PooledBrowser = { browser, uses: 0, busy: true }
+  entry.browser.on('disconnected', () => {
+    const idx = pool.indexOf(entry)
+    if (idx !== -1) pool.splice(idx, 1)
+    console.warn('[PDF:pool] Browser disconnected — removed from pool')
+  })
+  pool.push(entry)
+  console.log(`[PDF:pool] Launched browser (${pool.length}/${POOL_SIZE})`)
+  return entry
+}
+
+async function acquire(): Promise<PooledBrowser> {
+  const idle = pool.find((e) => !e.busy && e.browser.connected)
+  if (idle) {
+    idle.busy = true
+    return idle
+  }
+  if (pool.length + launching < POOL_SIZE) return createEntry()
+  return new Promise((resolve, reject) => waiters.push({ resolve, reject }))
+}
+
+async function release(entry: PooledBrowser): Promise<void> {
+  entry.uses++
+
+  if (entry.uses >= MAX_USES || !entry.browser.connected) {
+    const idx = pool.indexOf(entry)
+    if (idx !== -1) pool.splice(idx, 1)
+    await entry.browser.close().catch(() => {})
+    const next = waiters.shift()
+    if (next) createEntry().then(next.resolve, next.reject)
+    return
+  }
+
+  const next = waiters.shift()
+  if (next) {
+    next.resolve(entry)
+  } else {
+    entry.busy = false
+  }
+}
+
+/** Run `fn` with a browser from the pool. Waits when every browser is busy. */
+export async function withBrowser<T>(fn: (browser: Browser) => Promise<T>): Promise<T> {
+  const entry = await acquire()
+  try {
+    return await fn(entry.browser)
+  } finally {
+    await release(entry)
+  }
+}
+
+export function poolStats(): { size: number; busy: number; waiting: number } {
+  return {
+    size: pool.length,
+    busy: pool.filter((e) => e.busy).length,
+    waiting: waiters.length,
+  }
+}
+
+export async function closeBrowserPool(): Promise<void> {
+  await Promise.all(pool.splice(0).map((e) => e.browser.close().catch(() => {})))
+}
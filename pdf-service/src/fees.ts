@@ -0,0 +1,114 @@
+// Mirrors src/lib/fees.ts in the web app — keep the row labels in sync so the
+// PDF shows exactly what the adviser saw in the wizard.
+
+export type FeeCurrency = 'GBP' | 'USD' | 'EUR' | 'AUD' | 'SGD' | 'HKD' | 'JPY' | 'AED'
+
+export interface FeeBand {
+  upTo: number | null
+  percent: number
+}
+
+export interface FeeData {
+  currency: FeeCurrency
+  initialAdviceFee: number | null
+  ongoingPercent: number | null
+  aumBands: FeeBand[]
+  platformChargePercent: number | null
+  fundChargePercent: number | null
+  notes: string
+}
+
+export interface FeeRow {
+  label: string
+  value: string
+}
+
+const CURRENCIES: FeeCurrency[] = ['GBP', 'USD', 'EUR', 'AUD', 'SGD', 'HKD', 'JPY', 'AED']
+
+function toNumberOrNull(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null
+  const n = typeof value === 'number' ? value : Number(value)
+  return Number.isFinite(n) ? n : null
+}
+
+/** Coerce the request's feeData (possibly `{}` from older clients) into a full FeeData. */
+export function normaliseFeeData(raw: unknown): FeeData {
+  const obj = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {}
+  const aumBands: FeeBand[] = Array.isArray(obj.aumBands)
+    ? obj.aumBands
+        .filter((b): b is Record<string, unknown> => !!b && typeof b === 'object')
+        .map((b) => ({ upTo: toNumberOrNull(b.upTo), percent: toNumberOrNull(b.percent) ?? 0 }))
+    : []
+
+  return {
+    currency: CURRENCIES.includes(obj.currency as FeeCurrency) ? (obj.currency as FeeCurrency) : 'GBP',
+    initialAdviceFee: toNumberOrNull(obj.initialAdviceFee),
+    ongoingPercent: toNumberOrNull(obj.ongoingPercent),
+    aumBands,
+    platformChargePercent: toNumberOrNull(obj.platformChargePercent),
+    fundChargePercent: toNumberOrNull(obj.fundChargePercent),
+    notes: typeof obj.notes === 'string' ? obj.notes : '',
+  }
+}
+
+function formatAmount(amount: number, currency: FeeCurrency): string {
+  return new Intl.NumberFormat('en-GB', {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+  }).format(amount)
+}
+
+function formatPercent(percent: number): string {
+  return `${percent.toFixed(2).replace(/\.?0+$/, '')}% p.a.`
+}
+
+function bandLabel(bands: FeeBand[], index: number, currency: FeeCurrency): string {
+  const band = bands[index]
+  const from = index === 0 ? 0 : bands[index - 1].upTo ?? 0
+  if (band.upTo === null) {
+    return from === 0 ? 'All assets' : `Above ${formatAmount(from, currency)}`
+  }
+  if (from === 0) return `First ${formatAmount(band.upTo, currency)}`
+  return `${formatAmount(from, currency)} – ${formatAmount(band.upTo, currency)}`
+}
+
+export function buildFeeRows(fee: FeeData): FeeRow[] {
+  const rows: FeeRow[] = []
+
+  if (fee.initialAdviceFee !== null) {
+    rows.push({ label: 'Initial advice fee', value: formatAmount(fee.initialAdviceFee, fee.currency) })
+  }
+
+  if (fee.aumBands.length > 0) {
+    fee.aumBands.forEach((band, i) => {
+      rows.push({
+        label: `Ongoing advice fee — ${bandLabel(fee.aumBands, i, fee.currency)}`,
+        value: formatPercent(band.percent),
+      })
+    })
+  } else if (fee.ongoingPercent !== null) {
+    rows.push({ label: 'Ongoing advice fee', value: formatPercent(fee.ongoingPercent) })
+  }
+
+  if (fee.platformChargePercent !== null) {
+    rows.push({ label: 'Platform charge', value: formatPercent(fee.platformChargePercent) })
+  }
+
+  if (fee.fundChargePercent !== null) {
+    rows.push({ label: 'Fund charges (OCF)', value: formatPercent(fee.fundChargePercent) })
+  }
+
+  if (fee.aumBands.length === 0) {
+    const parts = [fee.ongoingPercent, fee.platformChargePercent, fee.fundChargePercent]
+      .filter((p): p is number => p !== null)
+    if (parts.length > 1) {
+      rows.push({
+        label: 'Total ongoing charges',
+        value: formatPercent(parts.reduce((sum, p) => sum + p, 0)),
+      })
+    }
+  }
+
+  return rows
+}
@@ -0,0 +1,71 @@
+// Mirrors src/lib/field-values.ts in the web app — keep the region table and
+// formatting in step so dates and amounts print as the adviser saw them.
+
+import type { FeeCurrency } from './fees.js'
+import type { EditableFieldDef } from './assemble-html.js'
+
+interface RegionFormat {
+  locale: string
+  currency: FeeCurrency
+}
+
+const REGION_FORMATS: Record<string, RegionFormat> = {
+  uk: { locale: 'en-GB', currency: 'GBP' },
+  asia: { locale: 'en-AU', currency: 'AUD' },
+  int: { locale: 'en-GB', currency: 'USD' },
+  jp: { locale: 'ja-JP', currency: 'JPY' },
+}
+
+const DEFAULT_FORMAT: RegionFormat = { locale: 'en-GB', currency: 'GBP' }
+
+export function regionFormat(regionId: string | undefined): RegionFormat {
+  return (regionId && REGION_FORMATS[regionId]) || DEFAULT_FORMAT
+}
+
+export const TICK = '✓'
+
+/** Types whose value is drawn as a line of text (after formatting) */
+export function isTextLikeField(type: EditableFieldDef['type']): boolean {
+  return type === 'text' || type === 'date' || type === 'currency' || type === 'checkbox'
+}
+
+function formatDateValue(value: string, style: EditableFieldDef['dateStyle'], locale: string): string {
+  const date = new Date(`${value}T00:00:00Z`)
+  if (Number.isNaN(date.getTime())) return value
+  return new Intl.DateTimeFormat(locale, { dateStyle: style ?? 'long', timeZone: 'UTC' }).format(date)
+}
+
+function formatCurrencyValue(value: string, currency: FeeCurrency, locale: string): string {
+  const amount = Number(value.replace(/[^0-9.-]/g, ''))
+  if (!value.trim() || Number.isNaN(amount)) return value
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+  }).format(amount)
+}
+
+/** The text a field shows for its stored value. Image fields return ''. */
+export function formatFieldValue(field: EditableFieldDef, value: string, regionId: string): string {
+  if (!value) return ''
+  const { locale, currency } = regionFormat(regionId)
+  switch (field.type) {
+    case 'date':
+      return formatDateValue(value, field.dateStyle, locale)
+    case 'currency':
+      return formatCurrencyValue(value, field.currency ?? currency, locale)
+    case 'checkbox':
+      return value === 'true' ? TICK : ''
+    case 'image':
+      return ''
+    default:
+      return value
+  }
+}
+
+/** Public URL for an image field's stored path in the slides bucket */
+export function fieldImageUrl(value: string): string {
+  return value.startsWith('http')
+    ? value
+    : `${process.env.SUPABASE_URL}/storage/v1/object/public/slides/${value}`
+}
@@ -1,95 +1,166 @@
-import puppeteer from 'puppeteer'
+import type { Page } from 'puppeteer'
 import { createClient } from '@supabase/supabase-js'
 import { assembleHtml, type ProposalData } from './assemble-html.js'
+import { withBrowser } from './browser-pool.js'
 
 export interface GenerateResult {
   pdfPath: string
 }
 
-export async function generatePdf(data: ProposalData): Promise<GenerateResult> {
-  const supabaseUrl = process.env.SUPABASE_URL!
-  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+/** Called as slides finish loading their images — `rendered` of `total` */
+export type ProgressCallback = (rendered: number, total: number) => void | Promise<void>
+
+const RENDER_TIMEOUT = 120_000
+const PROGRESS_INTERVAL = 500
+
+/**
+ * Wait until every slide's images have loaded, reporting progress along the way.
+ * Slides without images (context, fee) count as rendered immediately.
+ */
+async function waitForSlides(page: Page, onProgress?: ProgressCallback): Promise<void> {
+  const deadline = Date.now() + RENDER_TIMEOUT
+  let lastReported = -1
+
+  for (;;) {
+    const { rendered, total } = await page.evaluate(() => {
+      const slides = Array.from(document.querySelectorAll('.slide'))
+      const done = slides.filter((slide) =>
+        Array.from(slide.querySelectorAll('img')).every((img) => img.complete)
+      )
+      return { rendered: done.length, total: slides.length }
+    })
 
-  const html = assembleHtml(data)
+    if (rendered !== lastReported) {
+      lastReported = rendered
+      await onProgress?.(rendered, total)
+    }
+    if (rendered >= total) return
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out rendering slides (${rendered}/${total} loaded)`)
+    }
+    await new Promise((r) => setTimeout(r, PROGRESS_INTERVAL))
+  }
+}
 
-  // Launch Puppeteer
-  const browser = await puppeteer.launch({
-    headless: true,
-    args: [
-      '--no-sandbox',
-      '--disable-setuid-sandbox',
-      '--disable-dev-shm-usage',
-      '--disable-gpu',
-    ],
+/**
+ * Shrink editable-field text that overflows its box, down to each field's
+ * `data-fit-min`, and return the fields still clipped afterwards.
+ * Runs after fonts load so the measurements match the printed output.
+ */
+async function fitOverlayText(page: Page): Promise<string[]> {
+  return page.evaluate(() => {
+    const overflows = (el: HTMLElement) =>
+      el.scrollHeight > el.clientHeight + 1 || el.scrollWidth > el.clientWidth + 1
+    const clipped: string[] = []
+
+    for (const el of Array.from(document.querySelectorAll<HTMLElement>('[data-field]'))) {
+      if (!overflows(el)) continue
+      const min = Number(el.dataset.fitMin)
+      const max = parseFloat(el.style.fontSize)
+
+      if (min && max && min < max) {
+        el.style.fontSize = `${min}px`
+        if (!overflows(el)) {
+          // Binary search in whole pixels between the minimum (fits) and design size (doesn't)
+          let lo = min
+          let hi = max
+          while (hi - lo > 1) {
+            const mid = Math.floor((lo + hi) / 2)
+            el.style.fontSize = `${mid}px`
+            if (overflows(el)) hi = mid
+            else lo = mid
+          }
+          el.style.fontSize = `${lo}px`
+          continue
+        }
+      }
+      clipped.push(el.dataset.field ?? '')
+    }
+    return clipped
   })
+}
 
-  try {
-    const page = await browser.newPage()
-
-    // Set viewport to slide dimensions
-    await page.setViewport({ width: 1280, height: 720 })
+export async function generatePdf(data: ProposalData, onProgress?: ProgressCallback): Promise<GenerateResult> {
+  const supabaseUrl = process.env.SUPABASE_URL!
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
 
-    // Load the HTML content
-    await page.setContent(html, {
-      waitUntil: 'networkidle0',
-      timeout: 30_000,
-    })
+  const html = assembleHtml(data)
 
-    // Wait for fonts to load
-    await page.evaluate(() => document.fonts.ready)
+  const pdfBuffer = await withBrowser(async (browser) => {
+    const page = await browser.newPage()
 
-    // Generate PDF
-    const pdfBuffer = await page.pdf({
-      width: '1280px',
-      height: '720px',
-      printBackground: true,
-      margin: { top: 0, right: 0, bottom: 0, left: 0 },
-      preferCSSPageSize: true,
-    })
+    try {
+      // Set viewport to slide dimensions
+      await page.setViewport({ width: 1280, height: 720 })
 
-    console.log(`[PDF] PDF buffer size: ${pdfBuffer.byteLength} bytes`)
+      // Load the HTML content, then track images slide by slide
+      await page.setContent(html, {
+        waitUntil: 'domcontentloaded',
+        timeout: 30_000,
+      })
+      await waitForSlides(page, onProgress)
+
+      // Wait for fonts to load
+      await page.evaluate(() => document.fonts.ready)
+
+      const clipped = await fitOverlayText(page)
+      if (clipped.length > 0) {
+        console.warn(`[PDF] ${clipped.length} field(s) still overflow after fitting: ${clipped.join(', ')}`)
+      }
+
+      // Generate PDF
+      return await page.pdf({
+        width: '1280px',
+        height: '720px',
+        printBackground: true,
+        margin: { top: 0, right: 0, bottom: 0, left: 0 },
+        preferCSSPageSize: true,
+      })
+    } finally {
+      await page.close().catch(() => {})
+    }
+  })
 
-    // Upload to Supabase Storage using service role key
-    const supabase = createClient(supabaseUrl, supabaseKey, {
-      auth: { persistSession: false },
-    })
+  console.log(`[PDF] PDF buffer size: ${pdfBuffer.byteLength} bytes`)
 
-    // Convert Uint8Array to Buffer for Supabase compatibility
-    const buffer = Buffer.from(pdfBuffer)
+  // Upload to Supabase Storage using service role key
+  const supabase = createClient(supabaseUrl, supabaseKey, {
+    auth: { persistSession: false },
+  })
 
-    const timestamp = Date.now()
-    const safeName = data.clientName.replace(/[^a-zA-Z0-9-_]/g, '_')
-    const pdfPath = `${data.proposalId}/${safeName}_${timestamp}.pdf`
-    console.log(`[PDF] Uploading to bucket "proposals", path: ${pdfPath}, buffer size: ${buffer.byteLength}`)
+  // Convert Uint8Array to Buffer for Supabase compatibility
+  const buffer = Buffer.from(pdfBuffer)
 
-    const { error: uploadError, data: uploadData } = await supabase.storage
-      .from('proposals')
-      .upload(pdfPath, buffer, {
-        contentType: 'application/pdf',
-        upsert: true,
-      })
+  const timestamp = Date.now()
+  const safeName = data.clientName.replace(/[^a-zA-Z0-9-_]/g, '_')
+  const pdfPath = `${data.proposalId}/${safeName}_${timestamp}.pdf`
+  console.log(`[PDF] Uploading to bucket "proposals", path: ${pdfPath}, buffer size: ${buffer.byteLength}`)
 
-    if (uploadError) {
-      console.error('[PDF] Upload error details:', JSON.stringify(uploadError, null, 2))
-      throw new Error(`Storage upload failed: ${uploadError.message}`)
-    }
-    console.log('[PDF] Upload successful:', uploadData)
-
-    // Update the proposal record with just the storage path
-    const { error: updateError } = await supabase
-      .from('proposals')
-      .update({
-        pdf_path: pdfPath,
-        pdf_generated_at: new Date().toISOString(),
-      })
-      .eq('id', data.proposalId)
+  const { error: uploadError, data: uploadData } = await supabase.storage
+    .from('proposals')
+    .upload(pdfPath, buffer, {
+      contentType: 'application/pdf',
+      upsert: true,
+    })
 
-    if (updateError) {
-      console.error('[PDF] Failed to update proposal record:', updateError.message)
-    }
+  if (uploadError) {
+    console.error('[PDF] Upload error details:', JSON.stringify(uploadError, null, 2))
+    throw new Error(`Storage upload failed: ${uploadError.message}`)
+  }
+  console.log('[PDF] Upload successful:', uploadData)
+
+  // Update the proposal record with just the storage path
+  const { error: updateError } = await supabase
+    .from('proposals')
+    .update({
+      pdf_path: pdfPath,
+      pdf_generated_at: new Date().toISOString(),
+    })
+    .eq('id', data.proposalId)
 
-    return { pdfPath }
-  } finally {
-    await browser.close()
+  if (updateError) {
+    console.error('[PDF] Failed to update proposal record:', updateError.message)
   }
+
+  return { pdfPath }
 }
@@ -0,0 +1,371 @@
+import PptxGenJS from 'pptxgenjs'
+import {
+  parseTableValue,
+  resolveSlideImageUrl,
+  type EditableFieldDef,
+  type ProposalData,
+} from './assemble-html.js'
+import { buildFeeRows } from './fees.js'
+import { parseRichText, type RichTextLine } from './rich-text.js'
+import { fieldImageUrl, formatFieldValue } from './field-values.js'
+import { getServiceClient } from './proposal-data.js'
+
+export interface GeneratePptxResult {
+  pptxPath: string
+}
+
+type Slide = ReturnType<PptxGenJS['addSlide']>
+
+// Slides are authored at 1280×720px; LAYOUT_WIDE is 13.333×7.5in, so 96px = 1in = 72pt
+const PX_PER_INCH = 96
+const PT_PER_PX = 0.75
+
+const HEADING_FONT = 'FT Calhern'
+const BODY_FONT = 'Sentient'
+
+const COLORS = {
+  deep: '033839',
+  grey: 'D7E5E3',
+  mint: 'B8F4EF',
+  slate: '527C7E',
+  turquoise: '1AB0C4',
+}
+
+function inches(px: number): number {
+  return px / PX_PER_INCH
+}
+
+function points(px: number): number {
+  return Math.round(px * PT_PER_PX * 10) / 10
+}
+
+/** pptxgenjs wants bare 6-digit hex — accept #RGB / #RRGGBB and fall back to black */
+function toHexColor(color: string | undefined, fallback = '000000'): string {
+  const match = color?.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i)
+  if (!match) return fallback
+  const hex = match[1]
+  return (hex.length === 3 ? hex.split('').map((c) => c + c).join('') : hex).toUpperCase()
+}
+
+async function fetchImageData(url: string): Promise<string | null> {
+  try {
+    const res = await fetch(url)
+    if (!res.ok) {
+      console.warn(`[PDF:pptx] Image fetch failed (${res.status}): ${url}`)
+      return null
+    }
+    const contentType = res.headers.get('content-type')?.split(';')[0] || 'image/png'
+    const base64 = Buffer.from(await res.arrayBuffer()).toString('base64')
+    return `${contentType};base64,${base64}`
+  } catch (err) {
+    console.warn(`[PDF:pptx] Image fetch error for ${url}:`, err instanceof Error ? err.message : err)
+    return null
+  }
+}
+
+/* ── Slide builders ── */
+
+/** Rich-text value as pptx runs — one paragraph per line or list item, native bullets and numbering */
+function richTextRuns(value: string, fontSize: number): PptxGenJS.TextProps[] {
+  const result: PptxGenJS.TextProps[] = []
+
+  const addLine = (line: RichTextLine, paragraph: PptxGenJS.TextPropsOptions) => {
+    const previous = result[result.length - 1]
+    if (previous) previous.options = { ...previous.options, breakLine: true }
+    const runs = line.length > 0 ? line : [{ text: '' }]
+    runs.forEach((run) => {
+      result.push({
+        text: run.text,
+        options: {
+          ...paragraph,
+          bold: run.bold || undefined,
+          italic: run.italic || undefined,
+          hyperlink: run.href ? { url: run.href } : undefined,
+        },
+      })
+    })
+  }
+
+  parseRichText(value).forEach((block, bi) => {
+    // Matches the 0.4em block gap in the HTML overlay
+    const gap = bi > 0 ? { paraSpaceBefore: fontSize * 0.4 } : {}
+    if (block.type === 'paragraph') {
+      block.lines.forEach((line, li) => addLine(line, li === 0 ? gap : {}))
+    } else {
+      const bullet = block.type === 'numbered' ? { type: 'number' as const, numberStartAt: block.start } : true
+      block.items.forEach((item, ii) => addLine(item, { bullet, ...(ii === 0 ? gap : {}) }))
+    }
+  })
+
+  return result
+}
+
+/** Place each editable field as a native text box / table / picture at the same percentage geometry as the PDF overlay */
+async function addEditableFields(
+  slide: Slide,
+  fields: EditableFieldDef[],
+  values: Record<string, string>,
+  regionId: string
+) {
+  for (const field of fields) {
+    const value = values[field.name]
+    if (!value) continue
+
+    if (field.type === 'image') {
+      const data = await fetchImageData(fieldImageUrl(value))
+      if (!data) continue
+      const w = inches((field.width / 100) * 1280)
+      const h = inches((field.height / 100) * 720)
+      slide.addImage({
+        data,
+        x: inches((field.x / 100) * 1280),
+        y: inches((field.y / 100) * 720),
+        w,
+        h,
+        sizing: { type: field.imageFit ?? 'contain', w, h },
+      })
+      continue
+    }
+
+    const box = {
+      x: `${field.x}%` as const,
+      y: `${field.y}%` as const,
+      w: `${field.width}%` as const,
+      h: `${field.height}%` as const,
+    }
+    const fontFace = field.fontFamily === 'heading' ? HEADING_FONT : BODY_FONT
+    const color = toHexColor(field.color)
+    const bold = field.fontWeight === 'semibold' || field.fontWeight === 'bold'
+
+    if (field.type === 'table') {
+      const rows = parseTableValue(value)
+      if (rows.length === 0) continue
+      slide.addTable(
+        rows.map((cells) => cells.map((text) => ({ text }))),
+        {
+          x: box.x,
+          y: box.y,
+          w: box.w,
+          fontFace,
+          fontSize: points(field.fontSize * 0.85),
+          color,
+          align: field.textAlign,
+          border: { type: 'solid', pt: 0.5, color: 'D9D9D9' },
+          margin: 0.03,
+        }
+      )
+      continue
+    }
+
+    const richText = field.type === 'textarea' && field.richText
+    const fontSize = points(field.type === 'textarea' ? field.fontSize * 0.9 : field.fontSize)
+    const text = formatFieldValue(field, value, regionId)
+    if (!text) continue
+
+    slide.addText(richText ? richTextRuns(value, fontSize) : text, {
+      ...box,
+      fontFace,
+      fontSize,
+      bold,
+      color,
+      align: field.textAlign,
+      valign: 'top',
+      margin: points(4),
+      lineSpacingMultiple: field.type === 'textarea' ? 1.45 : 1.4,
+      wrap: field.type === 'textarea',
+      // PowerPoint applies its own shrink-on-overflow when the deck is opened
+      fit: field.minFontSize !== undefined && field.minFontSize < field.fontSize ? 'shrink' : undefined,
+    })
+  }
+}
+
+/** Title, subtitle and accent rule shared by the context and fee slides */
+function addContentHeader(slide: Slide, title: string, clientName: string) {
+  slide.background = { color: COLORS.deep }
+  slide.addText(title, {
+    x: inches(80), y: inches(60), w: inches(1120), h: inches(50),
+    fontFace: HEADING_FONT, fontSize: points(36), bold: true, color: COLORS.mint, margin: 0,
+  })
+  slide.addText(`Prepared for ${clientName}`, {
+    x: inches(80), y: inches(118), w: inches(1120), h: inches(26),
+    fontFace: BODY_FONT, fontSize: points(16), color: COLORS.slate, margin: 0,
+  })
+  slide.addShape('rect', {
+    x: inches(80), y: inches(170), w: inches(60), h: inches(3),
+    fill: { color: COLORS.turquoise }, line: { color: COLORS.turquoise, width: 0 },
+  })
+}
+
+function addContextSlide(pptx: PptxGenJS, data: ProposalData) {
+  const slide = pptx.addSlide()
+  addContentHeader(slide, 'Summary of Context', data.clientName)
+
+  const sections = [
+    { heading: 'Current Situation', text: data.context.situation },
+    { heading: 'Objectives', text: data.context.objectives },
+    { heading: 'Areas of Focus', text: data.context.focus },
+  ].filter((s) => s.text?.trim())
+
+  if (sections.length === 0) return
+
+  slide.addText(
+    sections.flatMap((s, i) => [
+      {
+        text: s.heading,
+        options: {
+          fontFace: HEADING_FONT, fontSize: points(24), bold: true, color: COLORS.mint,
+          breakLine: true, paraSpaceBefore: i === 0 ? 0 : points(24),
+        },
+      },
+      {
+        text: s.text,
+        options: {
+          fontFace: BODY_FONT, fontSize: points(18), color: COLORS.grey,
+          breakLine: true, lineSpacingMultiple: 1.6, paraSpaceBefore: points(8),
+        },
+      },
+    ]),
+    { x: inches(80), y: inches(205), w: inches(1120), h: inches(455), valign: 'top', margin: 0 }
+  )
+}
+
+function addFeeSlide(pptx: PptxGenJS, data: ProposalData) {
+  const slide = pptx.addSlide()
+  addContentHeader(slide, 'Fee Structure', data.clientName)
+
+  const fees = buildFeeRows(data.feeData)
+  const headerCell = (text: string) => ({
+    text,
+    options: { fontFace: HEADING_FONT, fontSize: points(14), bold: true, color: COLORS.mint },
+  })
+  const bodyCell = (text: string, extra: { colspan?: number; align?: 'center' } = {}) => ({
+    text,
+    options: { fontFace: BODY_FONT, fontSize: points(15), color: COLORS.grey, ...extra },
+  })
+
+  const rows = [
+    [headerCell('Description'), headerCell('Details')],
+    ...(fees.length > 0
+      ? fees.map((row) => [bodyCell(row.label), bodyCell(row.value)])
+      : [[bodyCell('Fee details to be confirmed', { colspan: 2, align: 'center' })]]),
+  ]
+
+  slide.addTable(rows, {
+    x: inches(80), y: inches(205), w: inches(1120),
+    border: { type: 'solid', pt: 0.75, color: COLORS.slate },
+    margin: [inches(10), inches(16), inches(10), inches(16)],
+  })
+
+  if (data.feeData.notes.trim()) {
+    slide.addText(data.feeData.notes, {
+      x: inches(80), y: inches(600), w: inches(1120), h: inches(60),
+      fontFace: BODY_FONT, fontSize: points(13), color: COLORS.slate, valign: 'top', margin: 0,
+    })
+  }
+}
+
+async function addBlankSlide(
+  pptx: PptxGenJS,
+  fields: EditableFieldDef[] | undefined,
+  values: Record<string, string> | undefined,
+  regionId: string
+) {
+  const slide = pptx.addSlide()
+  slide.background = { color: COLORS.deep }
+  slide.addShape('rect', {
+    x: 0, y: 0, w: inches(1280), h: inches(4),
+    fill: { color: COLORS.turquoise }, line: { color: COLORS.turquoise, width: 0 },
+  })
+
+  if (fields?.length && values) await addEditableFields(slide, fields, values, regionId)
+}
+
+async function addImageSlide(
+  pptx: PptxGenJS,
+  imageUrl: string,
+  fields: EditableFieldDef[] | undefined,
+  values: Record<string, string> | undefined,
+  regionId: string
+) {
+  const slide = pptx.addSlide()
+  const imageData = imageUrl ? await fetchImageData(imageUrl) : null
+  slide.background = imageData ? { data: imageData } : { color: 'FFFFFF' }
+
+  if (fields?.length && values) await addEditableFields(slide, fields, values, regionId)
+}
+
+/* ── Export ── */
+
+/**
+ * Build an editable PowerPoint deck from the same slide order the PDF uses —
+ * template images become slide backgrounds and editable fields become real
+ * text boxes / tables — then store it next to the PDF in the proposals bucket.
+ */
+export async function generatePptx(data: ProposalData): Promise<GeneratePptxResult> {
+  if (!data.slideOrder || data.slideOrder.length === 0) {
+    throw new Error('PPTX export requires a slide order')
+  }
+
+  const pptx = new PptxGenJS()
+  pptx.layout = 'LAYOUT_WIDE'
+  pptx.title = `Proposal — ${data.clientName}`
+  pptx.company = 'Hoxton Wealth'
+
+  const fieldsData = data.editableFieldsData || {}
+
+  // Sequential so slides keep their order; images are fetched one at a time
+  for (const slide of data.slideOrder) {
+    switch (slide.type) {
+      case 'context':
+        addContextSlide(pptx, data)
+        break
+      case 'fee':
+        addFeeSlide(pptx, data)
+        break
+      case 'blank':
+        await addBlankSlide(pptx, slide.editableFields, fieldsData[slide.id], data.regionId)
+        break
+      case 'image':
+      default:
+        await addImageSlide(
+          pptx,
+          resolveSlideImageUrl(slide.imagePath, data.staticAssetsBaseUrl),
+          slide.editableFields,
+          fieldsData[slide.id],
+          data.regionId
+        )
+    }
+  }
+
+  const buffer = (await pptx.write({ outputType: 'nodebuffer' })) as Buffer
+  console.log(`[PDF:pptx] PPTX buffer size: ${buffer.byteLength} bytes (${data.slideOrder.length} slides)`)
+
+  const supabase = getServiceClient()
+  const safeName = data.clientName.replace(/[^a-zA-Z0-9-_]/g, '_')
+  const pptxPath = `${data.proposalId}/${safeName}_${Date.now()}.pptx`
+
+  const { error: uploadError } = await supabase.storage
+    .from('proposals')
+    .upload(pptxPath, buffer, {
+      contentType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      upsert: true,
+    })
+
+  if (uploadError) {
+    throw new Error(`Storage upload failed: ${uploadError.message}`)
+  }
+
+  const { error: updateError } = await supabase
+    .from('proposals')
+    .update({
+      pptx_path: pptxPath,
+      pptx_generated_at: new Date().toISOString(),
+    })
+    .eq('id', data.proposalId)
+
+  if (updateError) {
+    console.error('[PDF:pptx] Failed to update proposal record:', updateError.message)
+  }
+
+  return { pptxPath }
+}
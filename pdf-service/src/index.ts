@@ -1,9 +1,11 @@
 import 'dotenv/config'
 import express from 'express'
 import cors from 'cors'
-import { createClient } from '@supabase/supabase-js'
 import { generatePdf } from './generate-pdf.js'
-import type { ProposalData, SlideOrder } from './assemble-html.js'
+import { generatePptx } from './generate-pptx.js'
+import { buildProposalData, validateGenerateRequest, type GenerateRequest } from './proposal-data.js'
+import { enqueueJob, getJob, toJobView, startJobWorker, stopJobWorker } from './job-queue.js'
+import { closeBrowserPool, poolStats } from './browser-pool.js'
 
 const app = express()
 const PORT = parseInt(process.env.PORT || '3001', 10)
@@ -59,125 +61,62 @@ setInterval(() => {
   }
 }, 5 * 60_000)
 
-/**
- * Fetch editable field definitions from DB and merge into slideOrder.
- * Uses service role key to bypass RLS.
- */
-async function enrichSlideOrderWithFieldDefs(
-  slideOrder: SlideOrder[],
-  regionId: string
-): Promise<SlideOrder[]> {
-  if (!slideOrder || slideOrder.length === 0) return slideOrder
-
-  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
-    auth: { persistSession: false },
-  })
+// Health check
+app.get('/health', (_req, res) => {
+  res.json({ status: 'ok', service: 'hoxton-pdf-service', version: '1.0.0', browsers: poolStats() })
+})
 
-  const fieldMap: Record<string, unknown[]> = {}
+// PDF generation endpoint
+app.post('/generate', async (req, res) => {
+  // Rate limiting
+  const clientIp = req.ip || req.socket.remoteAddress || 'unknown'
+  if (!rateLimit(clientIp)) {
+    res.status(429).json({
+      success: false,
+      error: 'Too many requests. Please wait a moment before trying again.',
+    })
+    return
+  }
 
-  // Fetch intro slide fields
   try {
-    const { data: introPack } = await supabase
-      .from('intro_packs')
-      .select('id')
-      .eq('region_id', regionId)
-      .eq('is_active', true)
-      .single()
-
-    if (introPack) {
-      const { data: introSlides } = await supabase
-        .from('intro_slides')
-        .select('slide_number, editable_fields')
-        .eq('intro_pack_id', introPack.id)
-
-      if (introSlides) {
-        for (const s of introSlides) {
-          const fields = Array.isArray(s.editable_fields) ? s.editable_fields : []
-          if (fields.length > 0) {
-            fieldMap[`intro-${s.slide_number}`] = fields
-          }
-        }
-      }
+    const body = req.body as GenerateRequest
+    const validationError = validateGenerateRequest(body)
+    if (validationError) {
+      res.status(400).json({ success: false, error: validationError })
+      return
     }
-  } catch (err) {
-    console.warn('[PDF] Failed to fetch intro field defs:', err)
-  }
 
-  // Fetch product slide fields — extract unique module IDs from slide order
-  const productModuleIds = new Set<string>()
-  for (const slide of slideOrder) {
-    const match = slide.id?.match(/^product-(.+)-(\d+)$/)
-    if (match) productModuleIds.add(match[1])
-  }
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      res.status(500).json({
+        success: false,
+        error: 'Server misconfigured: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set in environment',
+      })
+      return
+    }
 
-  for (const modId of productModuleIds) {
-    try {
-      const { data: productSlides } = await supabase
-        .from('product_slides')
-        .select('slide_number, editable_fields')
-        .eq('module_id', modId)
+    const proposalData = await buildProposalData(body)
 
-      if (productSlides) {
-        for (const s of productSlides) {
-          const fields = Array.isArray(s.editable_fields) ? s.editable_fields : []
-          if (fields.length > 0) {
-            fieldMap[`product-${modId}-${s.slide_number}`] = fields
-          }
-        }
-      }
-    } catch (err) {
-      console.warn(`[PDF] Failed to fetch product field defs for ${modId}:`, err)
-    }
-  }
+    console.log(
+      `[PDF] Generating for proposal ${body.proposalId} (${body.clientName}, ${body.selectedProducts.length} products)`
+    )
 
-  // Fetch closing slide fields
-  try {
-    const { data: closingPack } = await supabase
-      .from('closing_packs')
-      .select('id')
-      .eq('region_id', regionId)
-      .eq('is_active', true)
-      .single()
+    const result = await generatePdf(proposalData)
 
-    if (closingPack) {
-      const { data: closingSlides } = await supabase
-        .from('closing_slides')
-        .select('slide_number, editable_fields')
-        .eq('closing_pack_id', closingPack.id)
+    console.log(`[PDF] Generated successfully: ${result.pdfPath}`)
 
-      if (closingSlides) {
-        for (const s of closingSlides) {
-          const fields = Array.isArray(s.editable_fields) ? s.editable_fields : []
-          if (fields.length > 0) {
-            fieldMap[`closing-${s.slide_number}`] = fields
-          }
-        }
-      }
-    }
+    res.json({
+      success: true,
+      pdfPath: result.pdfPath,
+    })
   } catch (err) {
-    console.warn('[PDF] Failed to fetch closing field defs:', err)
+    const message = err instanceof Error ? err.message : 'Unknown error'
+    console.error('[PDF] Generation failed:', message)
+    res.status(500).json({ success: false, error: message })
   }
-
-  console.log(`[PDF] Field defs from DB: ${Object.keys(fieldMap).length} slides have fields`)
-
-  // Merge: prefer client-sent defs, fall back to DB defs
-  return slideOrder.map((slide) => ({
-    ...slide,
-    editableFields:
-      (slide.editableFields && slide.editableFields.length > 0)
-        ? slide.editableFields
-        : (fieldMap[slide.id] as SlideOrder['editableFields']) || undefined,
-  }))
-}
-
-// Health check
-app.get('/health', (_req, res) => {
-  res.json({ status: 'ok', service: 'hoxton-pdf-service', version: '1.0.0' })
 })
 
-// PDF generation endpoint
-app.post('/generate', async (req, res) => {
-  // Rate limiting
+// PowerPoint export — same payload as /generate; slides become editable PPTX
+app.post('/generate-pptx', async (req, res) => {
   const clientIp = req.ip || req.socket.remoteAddress || 'unknown'
   if (!rateLimit(clientIp)) {
     res.status(429).json({
@@ -188,26 +127,10 @@ app.post('/generate', async (req, res) => {
   }
 
   try {
-    const {
-      proposalId,
-      clientName,
-      advisorName,
-      regionId,
-      introSlidesCount,
-      selectedProducts,
-      context,
-      feeData,
-      slideOrder,
-      editableFieldsData,
-      staticAssetsBaseUrl,
-    } = req.body
-
-    // Validate required fields
-    if (!proposalId || !clientName || !regionId) {
-      res.status(400).json({
-        success: false,
-        error: 'Missing required fields: proposalId, clientName, regionId',
-      })
+    const body = req.body as GenerateRequest
+    const validationError = validateGenerateRequest(body)
+    if (validationError) {
+      res.status(400).json({ success: false, error: validationError })
       return
     }
 
@@ -219,63 +142,76 @@ app.post('/generate', async (req, res) => {
       return
     }
 
-    if (!selectedProducts || !Array.isArray(selectedProducts)) {
-      res.status(400).json({
-        success: false,
-        error: 'selectedProducts must be an array',
-      })
-      return
-    }
-
-    // Enrich slide order with field definitions from DB (service role bypasses RLS)
-    const enrichedSlideOrder = slideOrder
-      ? await enrichSlideOrderWithFieldDefs(slideOrder, regionId)
-      : undefined
+    const proposalData = await buildProposalData(body)
 
-    const fieldsDataObj = editableFieldsData || {}
-    console.log(
-      `[PDF] editableFieldsData keys: ${Object.keys(fieldsDataObj).join(', ') || '(none)'}`
-    )
-    for (const [slideId, values] of Object.entries(fieldsDataObj)) {
-      console.log(`[PDF]   ${slideId}: ${Object.keys(values as Record<string, unknown>).join(', ')}`)
-    }
+    console.log(`[PDF:pptx] Exporting proposal ${body.proposalId} (${body.clientName})`)
 
-    const proposalData: ProposalData = {
-      proposalId,
-      clientName,
-      advisorName: advisorName || '',
-      regionId,
-      introSlidesCount: introSlidesCount ?? 0,
-      selectedProducts,
-      context: context || { situation: '', objectives: '', focus: '' },
-      feeData: feeData || {},
-      slideOrder: enrichedSlideOrder,
-      editableFieldsData: fieldsDataObj,
-      staticAssetsBaseUrl: staticAssetsBaseUrl || process.env.STATIC_ASSETS_BASE_URL || '',
-    }
+    const result = await generatePptx(proposalData)
 
-    console.log(
-      `[PDF] Generating for proposal ${proposalId} (${clientName}, ${selectedProducts.length} products)`
-    )
-
-    const result = await generatePdf(proposalData)
-
-    console.log(`[PDF] Generated successfully: ${result.pdfPath}`)
+    console.log(`[PDF:pptx] Exported successfully: ${result.pptxPath}`)
 
     res.json({
       success: true,
-      pdfPath: result.pdfPath,
+      pptxPath: result.pptxPath,
     })
   } catch (err) {
     const message = err instanceof Error ? err.message : 'Unknown error'
-    console.error('[PDF] Generation failed:', message)
+    console.error('[PDF:pptx] Export failed:', message)
     res.status(500).json({ success: false, error: message })
   }
 })
 
+// Queue a PDF job — returns immediately; poll GET /jobs/:id for progress
+app.post('/jobs', async (req, res) => {
+  const clientIp = req.ip || req.socket.remoteAddress || 'unknown'
+  if (!rateLimit(clientIp)) {
+    res.status(429).json({
+      success: false,
+      error: 'Too many requests. Please wait a moment before trying again.',
+    })
+    return
+  }
+
+  const body = req.body as GenerateRequest
+  const validationError = validateGenerateRequest(body)
+  if (validationError) {
+    res.status(400).json({ success: false, error: validationError })
+    return
+  }
+
+  try {
+    const job = await enqueueJob(body)
+    res.status(202).json({ success: true, job: toJobView(job) })
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error'
+    console.error('[PDF:queue] Enqueue failed:', message)
+    res.status(500).json({ success: false, error: message })
+  }
+})
+
+app.get('/jobs/:id', async (req, res) => {
+  const job = await getJob(req.params.id)
+  if (!job) {
+    res.status(404).json({ success: false, error: 'Job not found' })
+    return
+  }
+  res.json({ success: true, job: toJobView(job) })
+})
+
+async function shutdown(signal: string) {
+  console.log(`[PDF Service] ${signal} received — shutting down`)
+  stopJobWorker()
+  await closeBrowserPool()
+  process.exit(0)
+}
+
+process.on('SIGTERM', () => void shutdown('SIGTERM'))
+process.on('SIGINT', () => void shutdown('SIGINT'))
+
 app.listen(Number(PORT), '0.0.0.0', () => {
   console.log(`[PDF Service] Running on 0.0.0.0:${PORT}`)
   console.log(`[PDF] Supabase URL: ${SUPABASE_URL}`)
   console.log(`[PDF] Service role key: ${SUPABASE_SERVICE_ROLE_KEY ? 'set' : 'MISSING'}`)
   console.log(`[PDF] Allowed origins: ${allowedOrigins.join(', ')}`)
+  if (SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY) startJobWorker()
 })
@@ -0,0 +1,177 @@
+import { generatePdf } from './generate-pdf.js'
+import { buildProposalData, getServiceClient, type GenerateRequest } from './proposal-data.js'
+
+export type PdfJobStatus = 'queued' | 'processing' | 'completed' | 'failed'
+
+export interface PdfJob {
+  id: string
+  proposal_id: string
+  status: PdfJobStatus
+  payload: GenerateRequest
+  slides_total: number
+  slides_rendered: number
+  attempts: number
+  max_attempts: number
+  run_after: string
+  locked_at: string | null
+  error: string | null
+  pdf_path: string | null
+  created_at: string
+  started_at: string | null
+  completed_at: string | null
+}
+
+/** Shape returned by GET /jobs/:id */
+export interface PdfJobView {
+  id: string
+  proposalId: string
+  status: PdfJobStatus
+  progress: { rendered: number; total: number }
+  attempts: number
+  maxAttempts: number
+  error: string | null
+  pdfPath: string | null
+}
+
+const CONCURRENCY = Math.max(1, parseInt(process.env.PDF_JOB_CONCURRENCY || '2', 10) || 2)
+const POLL_INTERVAL = 2_000
+const RETRY_BASE_DELAY = 10_000 // 10s, 20s, 40s…
+
+let running = 0
+let polling = false
+let pollTimer: NodeJS.Timeout | null = null
+
+export function toJobView(job: PdfJob): PdfJobView {
+  return {
+    id: job.id,
+    proposalId: job.proposal_id,
+    status: job.status,
+    progress: { rendered: job.slides_rendered, total: job.slides_total },
+    attempts: job.attempts,
+    maxAttempts: job.max_attempts,
+    error: job.error,
+    pdfPath: job.pdf_path,
+  }
+}
+
+/* ── Queue API ── */
+
+export async function enqueueJob(payload: GenerateRequest): Promise<PdfJob> {
+  const supabase = getServiceClient()
+  const { data, error } = await supabase
+    .from('pdf_jobs')
+    .insert({
+      proposal_id: payload.proposalId,
+      payload,
+      slides_total: payload.slideOrder?.length ?? 0,
+    })
+    .select('*')
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to enqueue PDF job: ${error?.message ?? 'no row returned'}`)
+  }
+
+  console.log(`[PDF:queue] Enqueued job ${data.id} for proposal ${payload.proposalId}`)
+  // Don't wait for the next poll tick if a worker slot is free
+  void pollOnce()
+  return data as PdfJob
+}
+
+export async function getJob(id: string): Promise<PdfJob | null> {
+  const supabase = getServiceClient()
+  const { data } = await supabase.from('pdf_jobs').select('*').eq('id', id).maybeSingle()
+  return (data as PdfJob | null) ?? null
+}
+
+/* ── Worker ── */
+
+async function updateJob(id: string, updates: Partial<PdfJob>): Promise<void> {
+  const { error } = await getServiceClient().from('pdf_jobs').update(updates).eq('id', id)
+  if (error) console.error(`[PDF:queue] Failed to update job ${id}:`, error.message)
+}
+
+async function runJob(job: PdfJob): Promise<void> {
+  if (job.attempts > job.max_attempts) {
+    await updateJob(job.id, {
+      status: 'failed',
+      error: job.error ?? 'Job exceeded its retry limit',
+      completed_at: new Date().toISOString(),
+    })
+    return
+  }
+
+  console.log(`[PDF:queue] Running job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`)
+
+  try {
+    const proposalData = await buildProposalData(job.payload)
+    const result = await generatePdf(proposalData, (rendered, total) =>
+      updateJob(job.id, { slides_rendered: rendered, slides_total: total, locked_at: new Date().toISOString() })
+    )
+
+    await updateJob(job.id, {
+      status: 'completed',
+      pdf_path: result.pdfPath,
+      error: null,
+      completed_at: new Date().toISOString(),
+    })
+    console.log(`[PDF:queue] Job ${job.id} completed: ${result.pdfPath}`)
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error'
+    const retry = job.attempts < job.max_attempts
+
+    console.error(`[PDF:queue] Job ${job.id} failed (attempt ${job.attempts}): ${message}${retry ? ' — will retry' : ''}`)
+
+    await updateJob(job.id, retry
+      ? {
+          status: 'queued',
+          error: message,
+          locked_at: null,
+          run_after: new Date(Date.now() + RETRY_BASE_DELAY * 2 ** (job.attempts - 1)).toISOString(),
+        }
+      : {
+          status: 'failed',
+          error: message,
+          completed_at: new Date().toISOString(),
+        })
+  }
+}
+
+async function pollOnce(): Promise<void> {
+  // Timer ticks, new jobs and finished jobs all trigger a poll — only one claims at a time
+  if (polling) return
+  polling = true
+
+  try {
+    while (running < CONCURRENCY) {
+      const { data, error } = await getServiceClient().rpc('claim_pdf_job')
+      if (error) {
+        console.error('[PDF:queue] Failed to claim job:', error.message)
+        return
+      }
+
+      const job = (data as PdfJob[] | null)?.[0]
+      if (!job) return
+
+      running++
+      runJob(job).finally(() => {
+        running--
+        void pollOnce()
+      })
+    }
+  } finally {
+    polling = false
+  }
+}
+
+export function startJobWorker(): void {
+  if (pollTimer) return
+  console.log(`[PDF:queue] Worker started (concurrency ${CONCURRENCY})`)
+  pollTimer = setInterval(() => void pollOnce(), POLL_INTERVAL)
+  void pollOnce()
+}
+
+export function stopJobWorker(): void {
+  if (pollTimer) clearInterval(pollTimer)
+  pollTimer = null
+}
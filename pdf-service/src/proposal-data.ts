@@ -0,0 +1,302 @@
+import { createClient } from '@supabase/supabase-js'
+import { normaliseFeeData } from './fees.js'
+import { applyAutoFill, type AutoFillContext } from './autofill.js'
+import type { ProposalData, SlideOrder } from './assemble-html.js'
+
+const SUPABASE_URL = process.env.SUPABASE_URL || ''
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+
+/** Private bucket for advisers' uploads (ad-hoc slides and image fields) */
+const ADHOC_BUCKET = 'adhoc-slides'
+/** Long enough for the browser to load every image while the job renders */
+const SIGNED_URL_SECONDS = 3600
+
+/** Body accepted by POST /generate, POST /generate-pptx and POST /jobs */
+export interface GenerateRequest {
+  proposalId: string
+  clientName: string
+  advisorName?: string
+  regionId: string
+  introSlidesCount?: number
+  selectedProducts: { id: string; name: string; slides: number }[]
+  context?: ProposalData['context']
+  feeData?: unknown
+  slideOrder?: SlideOrder[]
+  editableFieldsData?: Record<string, Record<string, string>>
+  /** Raw autofill variables from the wizard, used for fields the adviser left empty */
+  autoFillContext?: AutoFillContext
+  /** Proposal language — used when the saved proposal doesn't say */
+  locale?: string
+  staticAssetsBaseUrl?: string
+}
+
+export function getServiceClient() {
+  return createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false },
+  })
+}
+
+/** Returns an error message for a malformed request, or null if it's usable. */
+export function validateGenerateRequest(body: Partial<GenerateRequest> | undefined): string | null {
+  if (!body?.proposalId || !body.clientName || !body.regionId) {
+    return 'Missing required fields: proposalId, clientName, regionId'
+  }
+  if (!body.selectedProducts || !Array.isArray(body.selectedProducts)) {
+    return 'selectedProducts must be an array'
+  }
+  return null
+}
+
+interface SlideRow {
+  slide_number: number
+  image_path?: string | null
+  editable_fields?: unknown
+}
+
+interface ProposalPins {
+  locale: string | null
+  intro_pack_id: string | null
+  closing_pack_id: string | null
+  product_slides_snapshot: Record<string, SlideRow[]> | null
+  custom_slides: { id: string; imagePath: string | null }[] | null
+}
+
+function isAdhocPath(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith('adhoc/')
+}
+
+/** Signed URLs for ad-hoc uploads, keyed by path. Paths that can't be signed are left out. */
+async function signAdhocPaths(paths: string[]): Promise<Record<string, string>> {
+  if (paths.length === 0) return {}
+  const { data, error } = await getServiceClient()
+    .storage.from(ADHOC_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_SECONDS)
+  if (error) {
+    console.warn('[PDF] Failed to sign ad-hoc images:', error.message)
+    return {}
+  }
+  const urls: Record<string, string> = {}
+  for (const item of data ?? []) {
+    if (item.path && item.signedUrl) urls[item.path] = item.signedUrl
+  }
+  return urls
+}
+
+/** Swap ad-hoc image field values for signed URLs; fieldImageUrl passes URLs through. */
+async function signFieldImages(
+  fieldsData: Record<string, Record<string, string>>
+): Promise<Record<string, Record<string, string>>> {
+  const paths = Object.values(fieldsData).flatMap((values) => Object.values(values).filter(isAdhocPath))
+  const urls = await signAdhocPaths([...new Set(paths)])
+  return Object.fromEntries(
+    Object.entries(fieldsData).map(([slideId, values]) => [
+      slideId,
+      Object.fromEntries(Object.entries(values).map(([name, value]) => [name, urls[value] ?? value])),
+    ])
+  )
+}
+
+/**
+ * Fetch editable field definitions and image paths from DB and merge into slideOrder.
+ * Proposals pinned to a pack version / product snapshot render against that;
+ * otherwise the region's active packs in the proposal's language are used, falling
+ * back to English where there's no translation. Uses service role key to bypass RLS.
+ */
+export async function enrichSlideOrderWithFieldDefs(
+  slideOrder: SlideOrder[],
+  regionId: string,
+  proposalId: string,
+  requestLocale?: string
+): Promise<SlideOrder[]> {
+  if (!slideOrder || slideOrder.length === 0) return slideOrder
+
+  const supabase = getServiceClient()
+
+  const fieldMap: Record<string, unknown[]> = {}
+  const imageMap: Record<string, string> = {}
+
+  function collect(prefix: string, rows: SlideRow[]) {
+    for (const s of rows) {
+      const fields = Array.isArray(s.editable_fields) ? s.editable_fields : []
+      if (fields.length > 0) {
+        fieldMap[`${prefix}-${s.slide_number}`] = fields
+      }
+      if (s.image_path) {
+        imageMap[`${prefix}-${s.slide_number}`] = s.image_path
+      }
+    }
+  }
+
+  const { data: pins } = await supabase
+    .from('proposals')
+    .select('locale, intro_pack_id, closing_pack_id, product_slides_snapshot, custom_slides')
+    .eq('id', proposalId)
+    .maybeSingle<ProposalPins>()
+
+  // Most preferred first — English is always the fallback
+  const locale = pins?.locale ?? requestLocale ?? 'en'
+  const locales = locale === 'en' ? ['en'] : [locale, 'en']
+
+  async function resolvePackId(
+    table: 'intro_packs' | 'closing_packs',
+    slidesTable: 'intro_slides' | 'closing_slides',
+    pinnedId: string | null | undefined
+  ) {
+    if (pinnedId) return pinnedId
+    for (const candidate of locales) {
+      const { data: pack } = await supabase
+        .from(table)
+        .select('id')
+        .eq('region_id', regionId)
+        .eq('locale', candidate)
+        .eq('is_active', true)
+        .maybeSingle()
+      if (!pack) continue
+      if (candidate === 'en') return pack.id as string
+
+      // A translation pack with no slides yet doesn't replace the English one
+      const { count } = await supabase
+        .from(slidesTable)
+        .select('id', { count: 'exact', head: true })
+        .eq(table === 'intro_packs' ? 'intro_pack_id' : 'closing_pack_id', pack.id)
+      if (count) return pack.id as string
+    }
+    return null
+  }
+
+  // Fetch intro slide fields
+  try {
+    const introPackId = await resolvePackId('intro_packs', 'intro_slides', pins?.intro_pack_id)
+    if (introPackId) {
+      console.log(`[PDF] Intro pack: ${introPackId}${pins?.intro_pack_id ? ' (pinned)' : ''}`)
+      const { data: introSlides } = await supabase
+        .from('intro_slides')
+        .select('slide_number, image_path, editable_fields')
+        .eq('intro_pack_id', introPackId)
+
+      if (introSlides) collect('intro', introSlides)
+    }
+  } catch (err) {
+    console.warn('[PDF] Failed to fetch intro field defs:', err)
+  }
+
+  // Fetch product slide fields — extract unique module IDs from slide order
+  const productModuleIds = new Set<string>()
+  for (const slide of slideOrder) {
+    const match = slide.id?.match(/^product-(.+)-(\d+)$/)
+    if (match) productModuleIds.add(match[1])
+  }
+
+  for (const modId of productModuleIds) {
+    const pinned = pins?.product_slides_snapshot?.[modId]
+    if (pinned) {
+      collect(`product-${modId}`, pinned)
+      continue
+    }
+
+    try {
+      const { data: productSlides } = await supabase
+        .from('product_slides')
+        .select('slide_number, image_path, editable_fields, locale')
+        .eq('module_id', modId)
+        .in('locale', locales)
+
+      const rows = productSlides ?? []
+      const preferred = locales.map((l) => rows.filter((r) => r.locale === l)).find((r) => r.length > 0)
+      if (preferred) collect(`product-${modId}`, preferred)
+    } catch (err) {
+      console.warn(`[PDF] Failed to fetch product field defs for ${modId}:`, err)
+    }
+  }
+
+  // Fetch closing slide fields
+  try {
+    const closingPackId = await resolvePackId('closing_packs', 'closing_slides', pins?.closing_pack_id)
+    if (closingPackId) {
+      console.log(`[PDF] Closing pack: ${closingPackId}${pins?.closing_pack_id ? ' (pinned)' : ''}`)
+      const { data: closingSlides } = await supabase
+        .from('closing_slides')
+        .select('slide_number, image_path, editable_fields')
+        .eq('closing_pack_id', closingPackId)
+
+      if (closingSlides) collect('closing', closingSlides)
+    }
+  } catch (err) {
+    console.warn('[PDF] Failed to fetch closing field defs:', err)
+  }
+
+  console.log(`[PDF] Field defs from DB: ${Object.keys(fieldMap).length} slides have fields`)
+
+  const slideBase = `${SUPABASE_URL}/storage/v1/object/public/slides`
+  for (const [id, path] of Object.entries(imageMap)) {
+    imageMap[id] = `${slideBase}/${path}`
+  }
+
+  // Ad-hoc slides are private — sign the images the saved proposal points at
+  const customSlides = (pins?.custom_slides ?? []).filter((c) => isAdhocPath(c.imagePath))
+  const signed = await signAdhocPaths(customSlides.map((c) => c.imagePath as string))
+  for (const c of customSlides) {
+    const url = signed[c.imagePath as string]
+    if (url) imageMap[c.id] = url
+  }
+
+  // Merge: images come from the resolved version; prefer client-sent field defs, fall back to DB defs
+  return slideOrder.map((slide) => ({
+    ...slide,
+    imagePath: imageMap[slide.id] ?? slide.imagePath,
+    editableFields:
+      (slide.editableFields && slide.editableFields.length > 0)
+        ? slide.editableFields
+        : (fieldMap[slide.id] as SlideOrder['editableFields']) || undefined,
+  }))
+}
+
+/** Turn a validated request into the data the HTML assembler needs. */
+export async function buildProposalData(body: GenerateRequest): Promise<ProposalData> {
+  const {
+    proposalId,
+    clientName,
+    advisorName,
+    regionId,
+    introSlidesCount,
+    selectedProducts,
+    context,
+    feeData,
+    slideOrder,
+    editableFieldsData,
+    autoFillContext,
+    locale,
+    staticAssetsBaseUrl,
+  } = body
+
+  // Enrich slide order with field definitions from DB (service role bypasses RLS)
+  const enrichedSlideOrder = slideOrder
+    ? await enrichSlideOrderWithFieldDefs(slideOrder, regionId, proposalId, locale)
+    : undefined
+
+  const fieldsDataObj = await signFieldImages(
+    enrichedSlideOrder && autoFillContext
+      ? applyAutoFill(enrichedSlideOrder, editableFieldsData || {}, autoFillContext, regionId)
+      : editableFieldsData || {}
+  )
+  console.log(
+    `[PDF] editableFieldsData keys: ${Object.keys(fieldsDataObj).join(', ') || '(none)'}`
+  )
+  for (const [slideId, values] of Object.entries(fieldsDataObj)) {
+    console.log(`[PDF]   ${slideId}: ${Object.keys(values as Record<string, unknown>).join(', ')}`)
+  }
+
+  return {
+    proposalId,
+    clientName,
+    advisorName: advisorName || '',
+    regionId,
+    introSlidesCount: introSlidesCount ?? 0,
+    selectedProducts,
+    context: context || { situation: '', objectives: '', focus: '' },
+    feeData: normaliseFeeData(feeData),
+    slideOrder: enrichedSlideOrder,
+    editableFieldsData: fieldsDataObj,
+    staticAssetsBaseUrl: staticAssetsBaseUrl || process.env.STATIC_ASSETS_BASE_URL || '',
+  }
+}
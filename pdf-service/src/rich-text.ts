@@ -0,0 +1,103 @@
+// Mirrors the parser in src/lib/rich-text.ts in the web app — keep the two in
+// step so rich-text fields render in the PDF exactly as the adviser saw them.
+//
+//   **bold**   *italic*   [label](https://…)
+//   - bullet item
+//   1. numbered item
+
+export interface RichTextRun {
+  text: string
+  bold?: boolean
+  italic?: boolean
+  href?: string
+}
+
+export type RichTextLine = RichTextRun[]
+
+export type RichTextBlock =
+  | { type: 'paragraph'; lines: RichTextLine[] }
+  | { type: 'bullet'; items: RichTextLine[] }
+  | { type: 'numbered'; items: RichTextLine[]; start: number }
+
+const BULLET_RE = /^\s*[-*•]\s+(.*)$/
+const NUMBERED_RE = /^\s*(\d{1,3})[.)]\s+(.*)$/
+const INLINE_RE = /\*\*(.+?)\*\*|\*(?!\s)(.+?)\*|\[([^\]]+)\]\(([^)\s]+)\)/g
+const SAFE_HREF_RE = /^(https?:\/\/|mailto:)/i
+
+// Same em-based spacing as RichTextContent in the web app
+const BLOCK_GAP = '0.4em'
+const LIST_INDENT = '1.2em'
+
+function parseInline(text: string, marks: Omit<RichTextRun, 'text'> = {}): RichTextLine {
+  const runs: RichTextLine = []
+  let last = 0
+  for (const match of text.matchAll(INLINE_RE)) {
+    const index = match.index ?? 0
+    if (index > last) runs.push({ ...marks, text: text.slice(last, index) })
+    const [, bold, italic, label, href] = match
+    if (bold !== undefined) runs.push(...parseInline(bold, { ...marks, bold: true }))
+    else if (italic !== undefined) runs.push(...parseInline(italic, { ...marks, italic: true }))
+    else if (SAFE_HREF_RE.test(href.trim())) runs.push(...parseInline(label, { ...marks, href: href.trim() }))
+    else runs.push(...parseInline(label, marks))
+    last = index + match[0].length
+  }
+  if (last < text.length) runs.push({ ...marks, text: text.slice(last) })
+  return runs
+}
+
+export function parseRichText(value: string): RichTextBlock[] {
+  const blocks: RichTextBlock[] = []
+  let current: RichTextBlock | null = null
+
+  for (const line of value.replace(/\r\n?/g, '\n').split('\n')) {
+    const bullet = line.match(BULLET_RE)
+    const numbered = bullet ? null : line.match(NUMBERED_RE)
+
+    if (bullet) {
+      if (current?.type !== 'bullet') blocks.push((current = { type: 'bullet', items: [] }))
+      current.items.push(parseInline(bullet[1]))
+    } else if (numbered) {
+      if (current?.type !== 'numbered') {
+        blocks.push((current = { type: 'numbered', items: [], start: parseInt(numbered[1], 10) }))
+      }
+      current.items.push(parseInline(numbered[2]))
+    } else if (!line.trim()) {
+      current = null
+    } else {
+      if (current?.type !== 'paragraph') blocks.push((current = { type: 'paragraph', lines: [] }))
+      current.lines.push(parseInline(line))
+    }
+  }
+
+  return blocks
+}
+
+/** Render a rich-text value as HTML. `escape` is the caller's HTML escaper. */
+export function richTextToHtml(value: string, escape: (text: string) => string): string {
+  const runs = (line: RichTextLine) =>
+    line
+      .map((run) => {
+        const style = `${run.bold ? 'font-weight:700;' : ''}${run.italic ? 'font-style:italic;' : ''}`
+        const text = escape(run.text)
+        return run.href
+          ? `<a href="${escape(run.href)}" style="${style}color:inherit;text-decoration:underline;">${text}</a>`
+          : `<span style="${style}">${text}</span>`
+      })
+      .join('')
+
+  const blocks = parseRichText(value)
+    .map((block, i) => {
+      const gap = i > 0 ? BLOCK_GAP : '0'
+      if (block.type === 'paragraph') {
+        return `<div style="margin-top:${gap};">${block.lines.map((l) => `<div>${runs(l)}</div>`).join('')}</div>`
+      }
+      const tag = block.type === 'bullet' ? 'ul' : 'ol'
+      const start = block.type === 'numbered' ? ` start="${block.start}"` : ''
+      const listStyle = block.type === 'bullet' ? 'disc' : 'decimal'
+      const items = block.items.map((item) => `<li>${runs(item)}</li>`).join('')
+      return `<${tag}${start} style="margin:${gap} 0 0 0;padding-left:${LIST_INDENT};list-style-type:${listStyle};">${items}</${tag}>`
+    })
+    .join('')
+
+  return `<div style="width:100%;white-space:normal;">${blocks}</div>`
+}
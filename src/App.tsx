@@ -14,6 +14,8 @@ const ProposalDetailPage = lazy(() => import('./pages/ProposalDetailPage').then(
 const AdminUsersPage = lazy(() => import('./pages/AdminUsersPage').then((m) => ({ default: m.AdminUsersPage })))
 const AdminTemplatesPage = lazy(() => import('./pages/AdminTemplatesPage').then((m) => ({ default: m.AdminTemplatesPage })))
 const ClientProposalsPage = lazy(() => import('./pages/ClientProposalsPage').then((m) => ({ default: m.ClientProposalsPage })))
+const AdminApprovalRulesPage = lazy(() => import('./pages/AdminApprovalRulesPage').then((m) => ({ default: m.AdminApprovalRulesPage })))
+const AdminEmailTemplatesPage = lazy(() => import('./pages/AdminEmailTemplatesPage').then((m) => ({ default: m.AdminEmailTemplatesPage })))
 const AdminAuditLogPage = lazy(() => import('./pages/AdminAuditLogPage').then((m) => ({ default: m.AdminAuditLogPage })))
 const ProposalViewerPage = lazy(() => import('./pages/ProposalViewerPage').then((m) => ({ default: m.ProposalViewerPage })))
 
@@ -58,6 +60,22 @@ export default function App() {
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/admin/approval-rules"
+                element={
+                  <ProtectedRoute requiredRole="system_admin">
+                    <AdminApprovalRulesPage />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/admin/email-templates"
+                element={
+                  <ProtectedRoute requiredRole="system_admin">
+                    <AdminEmailTemplatesPage />
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="/admin/audit-log"
                 element={
@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react'
+import { Loader2, Newspaper, Save } from 'lucide-react'
+import { useAuth } from '../../lib/auth'
+import {
+  DEFAULT_DIGEST_SETTINGS,
+  getDigestSettings,
+  getRecentDigestRuns,
+  saveDigestSettings,
+  type DigestSettingsInput,
+} from '../../lib/digests'
+import { useToast } from '../ui/Toast'
+
+const numberClass =
+  'w-20 rounded-lg border border-hoxton-grey bg-hoxton-light px-3 py-2 text-sm font-body text-hoxton-deep focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise'
+
+const checkboxClass = 'rounded border-gray-300 text-hoxton-turquoise focus:ring-hoxton-turquoise'
+
+type CountField = 'every_days' | 'stale_draft_days' | 'expiring_within_days'
+
+const COUNT_FIELDS: { key: CountField; label: string; suffix: string; max: number }[] = [
+  { key: 'every_days', label: 'Send a digest every', suffix: 'days', max: 31 },
+  { key: 'stale_draft_days', label: 'List drafts untouched for', suffix: 'days', max: 90 },
+  { key: 'expiring_within_days', label: 'List links expiring within', suffix: 'days', max: 30 },
+]
+
+/** Schedule for the send-analytics-digests job */
+export function DigestSettingsCard() {
+  const { user } = useAuth()
+  const { addToast } = useToast()
+
+  const [settings, setSettings] = useState<DigestSettingsInput | null>(null)
+  const [lastSentAt, setLastSentAt] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    getDigestSettings().then((row) =>
+      setSettings(
+        row
+          ? {
+              enabled: row.enabled,
+              every_days: row.every_days,
+              adviser_digest: row.adviser_digest,
+              team_digest: row.team_digest,
+              stale_draft_days: row.stale_draft_days,
+              expiring_within_days: row.expiring_within_days,
+            }
+          : DEFAULT_DIGEST_SETTINGS
+      )
+    )
+    getRecentDigestRuns(1).then((runs) => setLastSentAt(runs[0]?.created_at ?? null))
+  }, [])
+
+  function update<K extends keyof DigestSettingsInput>(key: K, value: DigestSettingsInput[K]) {
+    setSettings((prev) => (prev ? { ...prev, [key]: value } : prev))
+  }
+
+  async function handleSave() {
+    if (!user || !settings) return
+    setSaving(true)
+    const result = await saveDigestSettings(settings, user.id)
+    setSaving(false)
+    if (result.error) {
+      addToast('error', `Failed to save digest schedule: ${result.error}`)
+      return
+    }
+    addToast('success', 'Digest schedule saved')
+  }
+
+  if (!settings) {
+    return (
+      <div className="flex items-center justify-center rounded-2xl border border-gray-100 bg-white py-10">
+        <Loader2 className="h-5 w-5 animate-spin text-hoxton-turquoise" />
+      </div>
+    )
+  }
+
+  const invalid = COUNT_FIELDS.some((f) => !(settings[f.key] >= 1 && settings[f.key] <= f.max))
+
+  return (
+    <div className="rounded-2xl border border-gray-100 bg-white p-6">
+      <div className="mb-1 flex items-center gap-2">
+        <Newspaper className="h-5 w-5 text-hoxton-turquoise" />
+        <h2 className="font-heading font-semibold text-hoxton-deep">Analytics digests</h2>
+      </div>
+      <p className="mb-4 text-sm font-body text-hoxton-slate">
+        A summary email of proposals opened, downloads, approvals, stale drafts and expiring links.
+        {lastSentAt && ` Last sent ${new Date(lastSentAt).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}.`}
+      </p>
+
+      <label className="mb-4 flex items-center gap-2 text-sm font-body text-hoxton-deep">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => update('enabled', e.target.checked)}
+          className={checkboxClass}
+        />
+        Send analytics digests
+      </label>
+
+      <div className={`space-y-3 ${settings.enabled ? '' : 'pointer-events-none opacity-50'}`}>
+        {COUNT_FIELDS.map((f) => (
+          <div key={f.key} className="flex items-center justify-between gap-4">
+            <span className="text-sm font-body text-hoxton-slate">{f.label}</span>
+            <span className="flex items-center gap-2">
+              <input
+                type="number"
+                min={1}
+                max={f.max}
+                value={settings[f.key]}
+                onChange={(e) => update(f.key, Number(e.target.value))}
+                className={numberClass}
+              />
+              <span className="w-16 text-xs font-body text-gray-400">{f.suffix}</span>
+            </span>
+          </div>
+        ))}
+
+        <div className="flex flex-wrap gap-4 pt-2">
+          <label className="flex items-center gap-2 text-sm font-body text-hoxton-deep">
+            <input
+              type="checkbox"
+              checked={settings.adviser_digest}
+              onChange={(e) => update('adviser_digest', e.target.checked)}
+              className={checkboxClass}
+            />
+            Email each adviser their own digest
+          </label>
+          <label className="flex items-center gap-2 text-sm font-body text-hoxton-deep">
+            <input
+              type="checkbox"
+              checked={settings.team_digest}
+              onChange={(e) => update('team_digest', e.target.checked)}
+              className={checkboxClass}
+            />
+            Email planner admins a team digest
+          </label>
+        </div>
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={saving || invalid}
+        className="mt-6 inline-flex items-center gap-2 rounded-lg bg-hoxton-turquoise px-4 py-2.5 text-sm font-heading font-semibold text-white transition-colors hover:bg-hoxton-turquoise/90 disabled:opacity-50"
+      >
+        {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+        Save Digest Schedule
+      </button>
+    </div>
+  )
+}
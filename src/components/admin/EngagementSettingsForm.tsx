@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react'
+import { Loader2, Save } from 'lucide-react'
+import { useAuth } from '../../lib/auth'
+import {
+  DEFAULT_ENGAGEMENT_SETTINGS,
+  ENGAGEMENT_SIGNAL_LABELS,
+  getEngagementSettings,
+  saveEngagementSettings,
+  weightKey,
+  type EngagementSettingsInput,
+} from '../../lib/engagement'
+import { useToast } from '../ui/Toast'
+import type { EngagementSignal } from '../../types'
+
+const numberClass =
+  'w-20 rounded-lg border border-hoxton-grey bg-hoxton-light px-3 py-2 text-sm font-body text-hoxton-deep focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise'
+
+const SIGNALS = Object.keys(ENGAGEMENT_SIGNAL_LABELS) as EngagementSignal[]
+
+/** Admin weights for proposal engagement scores */
+export function EngagementSettingsForm({ onSaved }: { onSaved?: () => void }) {
+  const { user } = useAuth()
+  const { addToast } = useToast()
+
+  const [settings, setSettings] = useState<EngagementSettingsInput | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    getEngagementSettings().then((row) =>
+      setSettings(
+        row
+          ? {
+              recency_weight: row.recency_weight,
+              repeat_visits_weight: row.repeat_visits_weight,
+              fee_time_weight: row.fee_time_weight,
+              product_time_weight: row.product_time_weight,
+              completion_weight: row.completion_weight,
+              download_weight: row.download_weight,
+              new_device_weight: row.new_device_weight,
+              recency_window_days: row.recency_window_days,
+            }
+          : DEFAULT_ENGAGEMENT_SETTINGS
+      )
+    )
+  }, [])
+
+  function update(key: keyof EngagementSettingsInput, value: number) {
+    setSettings((prev) => (prev ? { ...prev, [key]: value } : prev))
+  }
+
+  async function handleSave() {
+    if (!user || !settings) return
+    setSaving(true)
+    const result = await saveEngagementSettings(settings, user.id)
+    setSaving(false)
+    if (result.error) {
+      addToast('error', `Failed to save scoring: ${result.error}`)
+      return
+    }
+    addToast('success', 'Engagement scoring saved')
+    onSaved?.()
+  }
+
+  if (!settings) {
+    return (
+      <div className="flex items-center justify-center py-10">
+        <Loader2 className="h-5 w-5 animate-spin text-hoxton-turquoise" />
+      </div>
+    )
+  }
+
+  const weights = SIGNALS.map((s) => settings[weightKey(s)])
+  const invalid =
+    weights.some((w) => !(Number.isInteger(w) && w >= 0 && w <= 10)) ||
+    weights.every((w) => w === 0) ||
+    !(settings.recency_window_days >= 1 && settings.recency_window_days <= 90)
+
+  return (
+    <div>
+      <p className="mb-4 text-sm font-body text-hoxton-slate">
+        How much each signal counts towards a proposal&apos;s score, from 0 (ignored) to 10.
+      </p>
+
+      <div className="space-y-3">
+        {SIGNALS.map((signal) => (
+          <div key={signal} className="flex items-center justify-between gap-4">
+            <span className="text-sm font-body text-hoxton-deep">{ENGAGEMENT_SIGNAL_LABELS[signal]}</span>
+            <input
+              type="number"
+              min={0}
+              max={10}
+              value={settings[weightKey(signal)]}
+              onChange={(e) => update(weightKey(signal), Number(e.target.value))}
+              className={numberClass}
+            />
+          </div>
+        ))}
+
+        <div className="flex items-center justify-between gap-4 border-t border-gray-100 pt-3">
+          <span className="text-sm font-body text-hoxton-slate">A view stops counting as recent after</span>
+          <span className="flex items-center gap-2">
+            <input
+              type="number"
+              min={1}
+              max={90}
+              value={settings.recency_window_days}
+              onChange={(e) => update('recency_window_days', Number(e.target.value))}
+              className={numberClass}
+            />
+            <span className="w-8 text-xs font-body text-gray-400">days</span>
+          </span>
+        </div>
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={saving || invalid}
+        className="mt-6 inline-flex items-center gap-2 rounded-lg bg-hoxton-turquoise px-4 py-2.5 text-sm font-heading font-semibold text-white transition-colors hover:bg-hoxton-turquoise/90 disabled:opacity-50"
+      >
+        {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+        Save Scoring
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react'
+import { BellRing, Loader2, Save } from 'lucide-react'
+import { useAuth } from '../../lib/auth'
+import { getFollowUpSettings, saveFollowUpSettings, type FollowUpSettingsInput } from '../../lib/follow-ups'
+import { useToast } from '../ui/Toast'
+
+const numberClass =
+  'w-20 rounded-lg border border-hoxton-grey bg-hoxton-light px-3 py-2 text-sm font-body text-hoxton-deep focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise'
+
+const checkboxClass = 'rounded border-gray-300 text-hoxton-turquoise focus:ring-hoxton-turquoise'
+
+const DEFAULT_SETTINGS: FollowUpSettingsInput = {
+  enabled: true,
+  unopened_after_days: 3,
+  low_completion_after_days: 5,
+  repeat_every_days: 7,
+  max_reminders: 2,
+  email_client: true,
+  notify_adviser: true,
+}
+
+type CountField = 'unopened_after_days' | 'low_completion_after_days' | 'repeat_every_days' | 'max_reminders'
+
+const COUNT_FIELDS: { key: CountField; label: string; suffix: string; max: number }[] = [
+  { key: 'unopened_after_days', label: 'Remind when a link hasn’t been opened after', suffix: 'days', max: 60 },
+  { key: 'low_completion_after_days', label: 'Remind when a client stopped part-way, after', suffix: 'days', max: 60 },
+  { key: 'repeat_every_days', label: 'Wait between reminders for the same link', suffix: 'days', max: 60 },
+  { key: 'max_reminders', label: 'Stop after', suffix: 'reminders', max: 10 },
+]
+
+/** Schedule for the send-follow-up-reminders job */
+export function FollowUpSettingsCard() {
+  const { user } = useAuth()
+  const { addToast } = useToast()
+
+  const [settings, setSettings] = useState<FollowUpSettingsInput | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    getFollowUpSettings().then((row) =>
+      setSettings(
+        row
+          ? {
+              enabled: row.enabled,
+              unopened_after_days: row.unopened_after_days,
+              low_completion_after_days: row.low_completion_after_days,
+              repeat_every_days: row.repeat_every_days,
+              max_reminders: row.max_reminders,
+              email_client: row.email_client,
+              notify_adviser: row.notify_adviser,
+            }
+          : DEFAULT_SETTINGS
+      )
+    )
+  }, [])
+
+  function update<K extends keyof FollowUpSettingsInput>(key: K, value: FollowUpSettingsInput[K]) {
+    setSettings((prev) => (prev ? { ...prev, [key]: value } : prev))
+  }
+
+  async function handleSave() {
+    if (!user || !settings) return
+    setSaving(true)
+    const result = await saveFollowUpSettings(settings, user.id)
+    setSaving(false)
+    if (result.error) {
+      addToast('error', `Failed to save schedule: ${result.error}`)
+      return
+    }
+    addToast('success', 'Follow-up schedule saved')
+  }
+
+  if (!settings) {
+    return (
+      <div className="flex items-center justify-center rounded-2xl border border-gray-100 bg-white py-10">
+        <Loader2 className="h-5 w-5 animate-spin text-hoxton-turquoise" />
+      </div>
+    )
+  }
+
+  const invalid = COUNT_FIELDS.some((f) => !(settings[f.key] >= 1 && settings[f.key] <= f.max))
+
+  return (
+    <div className="rounded-2xl border border-gray-100 bg-white p-6">
+      <div className="mb-4 flex items-center gap-2">
+        <BellRing className="h-5 w-5 text-hoxton-turquoise" />
+        <h2 className="font-heading font-semibold text-hoxton-deep">Reminder schedule</h2>
+      </div>
+
+      <label className="mb-4 flex items-center gap-2 text-sm font-body text-hoxton-deep">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => update('enabled', e.target.checked)}
+          className={checkboxClass}
+        />
+        Send automatic follow-up reminders
+      </label>
+
+      <div className={`space-y-3 ${settings.enabled ? '' : 'pointer-events-none opacity-50'}`}>
+        {COUNT_FIELDS.map((f) => (
+          <div key={f.key} className="flex items-center justify-between gap-4">
+            <span className="text-sm font-body text-hoxton-slate">{f.label}</span>
+            <span className="flex items-center gap-2">
+              <input
+                type="number"
+                min={1}
+                max={f.max}
+                value={settings[f.key]}
+                onChange={(e) => update(f.key, Number(e.target.value))}
+                className={numberClass}
+              />
+              <span className="w-16 text-xs font-body text-gray-400">{f.suffix}</span>
+            </span>
+          </div>
+        ))}
+
+        <p className="pt-2 text-xs font-body text-gray-400">
+          A link counts as read through once a single visit covers 80% of the slides.
+        </p>
+
+        <div className="flex flex-wrap gap-4 pt-2">
+          <label className="flex items-center gap-2 text-sm font-body text-hoxton-deep">
+            <input
+              type="checkbox"
+              checked={settings.email_client}
+              onChange={(e) => update('email_client', e.target.checked)}
+              className={checkboxClass}
+            />
+            Email the client a reminder
+          </label>
+          <label className="flex items-center gap-2 text-sm font-body text-hoxton-deep">
+            <input
+              type="checkbox"
+              checked={settings.notify_adviser}
+              onChange={(e) => update('notify_adviser', e.target.checked)}
+              className={checkboxClass}
+            />
+            Notify the adviser
+          </label>
+        </div>
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={saving || invalid}
+        className="mt-6 inline-flex items-center gap-2 rounded-lg bg-hoxton-turquoise px-4 py-2.5 text-sm font-heading font-semibold text-white transition-colors hover:bg-hoxton-turquoise/90 disabled:opacity-50"
+      >
+        {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+        Save Schedule
+      </button>
+    </div>
+  )
+}
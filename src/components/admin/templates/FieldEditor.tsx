@@ -1,7 +1,33 @@
 import { useState, useRef, useCallback, useEffect } from 'react'
-import { X, Plus, Trash2, Save, Loader2, Type, AlignLeft, Table, CheckCircle2, AlertCircle, Eye } from 'lucide-react'
+import {
+  X,
+  Plus,
+  Trash2,
+  Save,
+  Loader2,
+  Type,
+  AlignLeft,
+  Table,
+  CheckCircle2,
+  AlertCircle,
+  Eye,
+  Image,
+  Calendar,
+  Banknote,
+  SquareCheck,
+} from 'lucide-react'
 import { Portal } from '../../ui/Portal'
-import type { EditableFieldDef } from '../../../types'
+import { RichTextContent } from '../../ui/RichText'
+import { fitSlideFields, type FieldFit } from '../../../lib/text-fit'
+import { FIELD_TYPE_LABELS, fieldImageUrl, formatFieldValue } from '../../../lib/field-values'
+import { FEE_CURRENCIES } from '../../../lib/fees'
+import {
+  AUTO_FILL_FUNCTIONS,
+  autoFillFieldValue,
+  validateAutoFill,
+  type AutoFillContext,
+} from '../../../lib/autofill'
+import type { EditableFieldDef, EditableFieldType } from '../../../types'
 
 interface SaveResult {
   success: boolean
@@ -41,6 +67,15 @@ const AUTO_FILL_GROUPS = [
       { value: 'client_risk_profile', label: 'Risk Profile' },
     ],
   },
+  {
+    label: 'From the Call',
+    options: [
+      { value: 'client_age', label: 'Client Age' },
+      { value: 'client_pension_value', label: 'Pension Value' },
+      { value: 'client_residency', label: 'Residency' },
+      { value: 'client_dependants', label: 'Dependants' },
+    ],
+  },
   {
     label: 'Adviser Details',
     options: [
@@ -71,23 +106,43 @@ const AUTO_FILL_GROUPS = [
 
 const TEXTAREA_AUTO_FILLS = new Set(['situation', 'objectives', 'focus'])
 
-const SAMPLE_AUTO_FILL: Record<string, string> = {
+const FIELD_TYPE_ICONS: Record<EditableFieldType, typeof Type> = {
+  text: Type,
+  textarea: AlignLeft,
+  table: Table,
+  image: Image,
+  date: Calendar,
+  currency: Banknote,
+  checkbox: SquareCheck,
+}
+
+function FieldTypeIcon({ type, className }: { type: EditableFieldType; className: string }) {
+  const Icon = FIELD_TYPE_ICONS[type]
+  return <Icon className={className} />
+}
+
+/** Sample proposal used to evaluate autofill expressions in the test preview */
+const SAMPLE_AUTO_FILL: AutoFillContext = {
   client_name: 'James & Sarah Mitchell',
   client_email: 'james.mitchell@email.com',
   hxt_reference: 'HXT-10001',
-  client_dob: '15 March 1978',
+  client_dob: '1978-03-15',
   client_nationality: 'British',
   client_address: '42 Kensington Gardens, London W8 4PX',
   client_employer: 'Barclays Investment Bank',
   client_risk_profile: 'Balanced',
+  client_age: '47',
+  client_pension_value: '£850,000 across three UK workplace pensions',
+  client_residency: 'UAE resident since 2019',
+  client_dependants: 'Two children, aged 12 and 15',
   advisor_name: 'Chris Ball',
   advisor_email: 'chris.ball@hoxtonwealth.com',
   advisor_phone: '+44 20 7946 0958',
   region_name: 'United Kingdom',
   company_name: 'Hoxton Wealth',
-  date: new Date().toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' }),
+  date: new Date().toISOString().slice(0, 10),
   year: new Date().getFullYear().toString(),
-  proposal_date: new Date().toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' }),
+  proposal_date: new Date().toISOString().slice(0, 10),
   situation: 'Based on our conversation, you are in a strong financial position with a clear desire to optimise your wealth management strategy for the next phase of your lives.',
   objectives: '\u2022 Optimise pension arrangements\n\u2022 Explore tax-efficient investment options\n\u2022 Plan for intergenerational wealth transfer',
   focus: '\u2022 International SIPP\n\u2022 Offshore bond\n\u2022 Trust planning',
@@ -280,6 +335,12 @@ export function FieldEditor({
   }
 
   async function handleSave() {
+    const invalid = fields.find((f) => validateAutoFill(f.autoFill ?? '').length > 0)
+    if (invalid) {
+      setSelectedFieldId(invalid.id)
+      setSaveStatus({ type: 'error', message: `Fix the auto-fill expression on "${invalid.label}" before saving` })
+      return
+    }
     setSaving(true)
     setSaveStatus(null)
     const result = await onSave(fields)
@@ -295,11 +356,7 @@ export function FieldEditor({
   function openTestPreview() {
     const initial: Record<string, string> = {}
     for (const field of fields) {
-      if (field.autoFill && SAMPLE_AUTO_FILL[field.autoFill]) {
-        initial[field.id] = SAMPLE_AUTO_FILL[field.autoFill]
-      } else {
-        initial[field.id] = ''
-      }
+      initial[field.id] = autoFillFieldValue(field, SAMPLE_AUTO_FILL)
     }
     setTestValues(initial)
     setShowTestPreview(true)
@@ -512,9 +569,10 @@ export function FieldEditor({
                               {field.type} {field.autoFill ? `(${field.autoFill})` : ''}
                             </p>
                           </div>
-                          {field.type === 'text' && <Type className="h-3 w-3 text-gray-400" />}
-                          {field.type === 'textarea' && <AlignLeft className="h-3 w-3 text-gray-400" />}
-                          {field.type === 'table' && <Table className="h-3 w-3 text-gray-400" />}
+                          {validateAutoFill(field.autoFill ?? '').length > 0 && (
+                            <AlertCircle className="h-3 w-3 text-amber-500" />
+                          )}
+                          <FieldTypeIcon type={field.type} className="h-3 w-3 text-gray-400" />
                         </button>
                       ))}
                     </div>
@@ -608,6 +666,19 @@ function TestPreviewModal({
 }) {
   const containerRef = useRef<HTMLDivElement>(null)
   const [scale, setScale] = useState(1)
+  const [fits, setFits] = useState<Record<string, FieldFit>>({})
+
+  // Same shrink-to-fit the wizard and PDF apply
+  useEffect(() => {
+    let cancelled = false
+    const values = Object.fromEntries(fields.map((f) => [f.name, testValues[f.id] ?? '']))
+    fitSlideFields(fields, values).then((result) => {
+      if (!cancelled) setFits(result)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [fields, testValues])
 
   // Calculate scale to fit 1280x720 within the available space
   useEffect(() => {
@@ -682,6 +753,32 @@ function TestPreviewModal({
                 : "'Sentient', Georgia, serif"
             const isEmpty = !value
 
+            if (field.type === 'image') {
+              return (
+                <div
+                  key={field.id}
+                  style={{
+                    position: 'absolute',
+                    left: `${field.x}%`,
+                    top: `${field.y}%`,
+                    width: `${field.width}%`,
+                    height: `${field.height}%`,
+                  }}
+                  className={isEmpty ? 'flex items-center justify-center border-2 border-dashed border-gray-400/60 text-gray-400' : ''}
+                >
+                  {isEmpty ? (
+                    <Image className="h-8 w-8" />
+                  ) : (
+                    <img
+                      src={fieldImageUrl(value)}
+                      alt=""
+                      style={{ width: '100%', height: '100%', objectFit: field.imageFit ?? 'contain' }}
+                    />
+                  )}
+                </div>
+              )
+            }
+
             if (field.type === 'table' && value) {
               const rows = value.split('\n').filter((r) => r.trim())
               return (
@@ -711,7 +808,7 @@ function TestPreviewModal({
                                 style={{
                                   padding: '2px 6px',
                                   borderBottom: '1px solid rgba(0,0,0,0.1)',
-                                  fontSize: Math.round(field.fontSize * 0.85),
+                                  fontSize: Math.round((fits[field.name]?.fontSize ?? field.fontSize) * 0.85),
                                 }}
                               >
                                 {c}
@@ -739,7 +836,7 @@ function TestPreviewModal({
                   alignItems: 'flex-start',
                   overflow: 'hidden',
                   fontFamily,
-                  fontSize: field.fontSize,
+                  fontSize: fits[field.name]?.fontSize ?? field.fontSize,
                   fontWeight: FONT_WEIGHT_MAP[field.fontWeight] || '400',
                   color: isEmpty ? 'rgba(128,128,128,0.5)' : field.color,
                   fontStyle: isEmpty ? 'italic' : 'normal',
@@ -749,9 +846,13 @@ function TestPreviewModal({
                   whiteSpace: 'pre-wrap',
                 }}
               >
-                <span style={{ width: '100%', textAlign: field.textAlign }}>
-                  {value || field.label}
-                </span>
+                {field.type === 'textarea' && field.richText && value ? (
+                  <RichTextContent value={value} />
+                ) : (
+                  <span style={{ width: '100%', textAlign: field.textAlign }}>
+                    {formatFieldValue(field, value ?? '') || field.label}
+                  </span>
+                )}
               </div>
             )
           })}
@@ -768,10 +869,22 @@ function TestPreviewModal({
             <div className="grid grid-cols-2 gap-x-6 gap-y-2 lg:grid-cols-3">
               {fields.map((field) => (
                 <div key={field.id} className="flex items-start gap-2">
-                  <label className="mt-2 w-28 shrink-0 truncate text-right text-xs font-heading font-medium text-white/60">
+                  <label
+                    title={fits[field.name]?.overflows ? 'Too long — this text will be cut off' : undefined}
+                    className={`mt-2 w-28 shrink-0 truncate text-right text-xs font-heading font-medium ${
+                      fits[field.name]?.overflows ? 'text-amber-300' : 'text-white/60'
+                    }`}
+                  >
                     {field.label}
                   </label>
-                  {field.type === 'textarea' || field.type === 'table' ? (
+                  {field.type === 'checkbox' ? (
+                    <input
+                      type="checkbox"
+                      checked={testValues[field.id] === 'true'}
+                      onChange={(e) => onUpdateValue(field.id, e.target.checked ? 'true' : '')}
+                      className="mt-2 rounded border-white/30 bg-white/10 text-hoxton-turquoise focus:ring-hoxton-turquoise"
+                    />
+                  ) : field.type === 'textarea' || field.type === 'table' ? (
                     <textarea
                       value={testValues[field.id] || ''}
                       onChange={(e) => onUpdateValue(field.id, e.target.value)}
@@ -781,10 +894,16 @@ function TestPreviewModal({
                     />
                   ) : (
                     <input
-                      type="text"
+                      type={field.type === 'date' ? 'date' : field.type === 'currency' ? 'number' : 'text'}
                       value={testValues[field.id] || ''}
                       onChange={(e) => onUpdateValue(field.id, e.target.value)}
-                      placeholder={field.autoFill ? `(${field.autoFill})` : 'Type test text...'}
+                      placeholder={
+                        field.type === 'image'
+                          ? 'Image URL'
+                          : field.autoFill
+                            ? `(${field.autoFill})`
+                            : 'Type test text...'
+                      }
                       className="min-w-0 flex-1 rounded border border-white/20 bg-white/10 px-2 py-1.5 text-xs text-white placeholder:text-white/30 focus:border-hoxton-turquoise focus:outline-none"
                     />
                   )}
@@ -863,55 +982,88 @@ function FieldProperties({
           <label className="mb-1 block text-xs font-heading font-medium text-gray-500">
             Type
           </label>
-          <div className="grid grid-cols-3 gap-1">
-            {(['text', 'textarea', 'table'] as const).map((t) => (
+          <div className="grid grid-cols-4 gap-1">
+            {(Object.keys(FIELD_TYPE_LABELS) as EditableFieldType[]).map((t) => (
               <button
                 key={t}
-                onClick={() => onUpdate({ type: t })}
+                onClick={() =>
+                  onUpdate({
+                    type: t,
+                    // Drop options that only apply to the previous type
+                    richText: t === 'textarea' ? field.richText : undefined,
+                    dateStyle: t === 'date' ? field.dateStyle : undefined,
+                    currency: t === 'currency' ? field.currency : undefined,
+                    imageFit: t === 'image' ? field.imageFit : undefined,
+                  })
+                }
                 className={`rounded-lg px-3 py-2 text-xs font-heading font-medium transition-colors ${
                   field.type === t
                     ? 'bg-hoxton-turquoise text-white'
                     : 'bg-white text-gray-500 hover:bg-gray-100'
                 }`}
               >
-                {t === 'text' && <Type className="mx-auto mb-0.5 h-3.5 w-3.5" />}
-                {t === 'textarea' && <AlignLeft className="mx-auto mb-0.5 h-3.5 w-3.5" />}
-                {t === 'table' && <Table className="mx-auto mb-0.5 h-3.5 w-3.5" />}
-                {t.charAt(0).toUpperCase() + t.slice(1)}
+                <FieldTypeIcon type={t} className="mx-auto mb-0.5 h-3.5 w-3.5" />
+                {FIELD_TYPE_LABELS[t]}
               </button>
             ))}
           </div>
+          {field.type === 'textarea' && (
+            <label className="mt-2 flex items-center gap-2 text-xs font-body text-gray-500">
+              <input
+                type="checkbox"
+                checked={!!field.richText}
+                onChange={(e) => onUpdate({ richText: e.target.checked || undefined })}
+                className="rounded border-gray-300 text-hoxton-turquoise focus:ring-hoxton-turquoise"
+              />
+              Rich text (bold, italic, lists, links)
+            </label>
+          )}
+          {field.type === 'date' && (
+            <select
+              value={field.dateStyle ?? 'long'}
+              onChange={(e) => onUpdate({ dateStyle: e.target.value as EditableFieldDef['dateStyle'] })}
+              className="mt-2 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm font-body text-hoxton-deep focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise"
+            >
+              <option value="long">Long — {formatFieldValue({ type: 'date', dateStyle: 'long' }, '2026-03-15')}</option>
+              <option value="medium">Medium — {formatFieldValue({ type: 'date', dateStyle: 'medium' }, '2026-03-15')}</option>
+              <option value="short">Short — {formatFieldValue({ type: 'date', dateStyle: 'short' }, '2026-03-15')}</option>
+            </select>
+          )}
+          {field.type === 'currency' && (
+            <select
+              value={field.currency ?? ''}
+              onChange={(e) => onUpdate({ currency: (e.target.value || undefined) as EditableFieldDef['currency'] })}
+              className="mt-2 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm font-body text-hoxton-deep focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise"
+            >
+              <option value="">Region's currency</option>
+              {FEE_CURRENCIES.map((c) => (
+                <option key={c.value} value={c.value}>
+                  {c.label}
+                </option>
+              ))}
+            </select>
+          )}
+          {field.type === 'image' && (
+            <div className="mt-2 grid grid-cols-2 gap-1">
+              {(['contain', 'cover'] as const).map((fit) => (
+                <button
+                  key={fit}
+                  onClick={() => onUpdate({ imageFit: fit })}
+                  className={`rounded-lg px-3 py-1.5 text-xs font-heading font-medium transition-colors ${
+                    (field.imageFit ?? 'contain') === fit
+                      ? 'bg-hoxton-turquoise text-white'
+                      : 'bg-white text-gray-500 hover:bg-gray-100'
+                  }`}
+                >
+                  {fit === 'contain' ? 'Fit inside' : 'Fill & crop'}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Auto-fill */}
-        <div>
-          <label className="mb-1 block text-xs font-heading font-medium text-gray-500">
-            Auto-fill Source
-          </label>
-          <select
-            value={field.autoFill || ''}
-            onChange={(e) => {
-              const val = (e.target.value || undefined) as EditableFieldDef['autoFill']
-              const updates: Partial<EditableFieldDef> = { autoFill: val }
-              if (val && TEXTAREA_AUTO_FILLS.has(val)) {
-                updates.type = 'textarea'
-              }
-              onUpdate(updates)
-            }}
-            className="w-full rounded-lg border border-gray-200 px-3 py-2 text-sm font-body text-hoxton-deep focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise"
-          >
-            <option value="">None (manual)</option>
-            {AUTO_FILL_GROUPS.map((group) => (
-              <optgroup key={group.label} label={group.label}>
-                {group.options.map((opt) => (
-                  <option key={opt.value} value={opt.value}>
-                    {opt.label}
-                  </option>
-                ))}
-              </optgroup>
-            ))}
-          </select>
-        </div>
+        <AutoFillInput field={field} onUpdate={onUpdate} />
 
         {/* Font */}
         <div className="grid grid-cols-2 gap-3">
@@ -943,6 +1095,29 @@ function FieldProperties({
           </div>
         </div>
 
+        {/* Shrink to fit */}
+        <div>
+          <label className="mb-1 block text-xs font-heading font-medium text-gray-500">
+            Shrink to fit <span className="text-gray-400">(min px)</span>
+          </label>
+          <input
+            type="number"
+            min={6}
+            max={field.fontSize}
+            value={field.minFontSize ?? ''}
+            placeholder="Off"
+            onChange={(e) =>
+              onUpdate({
+                minFontSize: e.target.value ? Math.min(parseInt(e.target.value) || 6, field.fontSize) : undefined,
+              })
+            }
+            className="w-full rounded-lg border border-gray-200 px-3 py-2 text-sm font-body text-hoxton-deep focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise"
+          />
+          <p className="mt-1 text-[10px] font-body text-gray-400">
+            Long text shrinks down to this size before it gets cut off
+          </p>
+        </div>
+
         {/* Font Weight + Color */}
         <div className="grid grid-cols-2 gap-3">
           <div>
@@ -1018,3 +1193,88 @@ function FieldProperties({
     </div>
   )
 }
+
+/* ── Auto-fill expression ── */
+
+function AutoFillInput({
+  field,
+  onUpdate,
+}: {
+  field: EditableFieldDef
+  onUpdate: (updates: Partial<EditableFieldDef>) => void
+}) {
+  const expression = field.autoFill ?? ''
+  const problems = validateAutoFill(expression)
+  const preview = problems.length === 0 && expression ? autoFillFieldValue(field, SAMPLE_AUTO_FILL) : ''
+
+  function insertVariable(variable: string) {
+    if (!variable) return
+    if (!expression.trim()) {
+      // A lone variable stays in the short form; AI summary sources need a textarea
+      const updates: Partial<EditableFieldDef> = { autoFill: variable }
+      if (TEXTAREA_AUTO_FILLS.has(variable)) updates.type = 'textarea'
+      onUpdate(updates)
+      return
+    }
+    const base = expression.includes('{') ? expression : `{${expression.trim()}}`
+    onUpdate({ autoFill: `${base} {${variable}}` })
+  }
+
+  return (
+    <div>
+      <label className="mb-1 block text-xs font-heading font-medium text-gray-500">
+        Auto-fill
+      </label>
+      <input
+        type="text"
+        value={expression}
+        onChange={(e) => onUpdate({ autoFill: e.target.value || undefined })}
+        placeholder="None (manual) — e.g. Prepared for {client_name}"
+        className={`w-full rounded-lg border px-3 py-2 font-mono text-xs text-hoxton-deep placeholder:font-body placeholder:text-gray-300 focus:outline-none focus:ring-1 ${
+          problems.length > 0
+            ? 'border-amber-300 focus:border-amber-400 focus:ring-amber-400'
+            : 'border-gray-200 focus:border-hoxton-turquoise focus:ring-hoxton-turquoise'
+        }`}
+      />
+      <select
+        value=""
+        onChange={(e) => insertVariable(e.target.value)}
+        className="mt-1.5 w-full rounded-lg border border-gray-200 px-3 py-1.5 text-xs font-body text-hoxton-slate focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise"
+      >
+        <option value="">Insert variable…</option>
+        {AUTO_FILL_GROUPS.map((group) => (
+          <optgroup key={group.label} label={group.label}>
+            {group.options.map((opt) => (
+              <option key={opt.value} value={opt.value}>
+                {opt.label}
+              </option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+      {problems.length > 0 ? (
+        <ul className="mt-1.5 space-y-0.5">
+          {problems.map((problem) => (
+            <li key={problem} className="flex items-start gap-1 text-[11px] font-body text-amber-700">
+              <AlertCircle className="mt-px h-3 w-3 shrink-0" />
+              {problem}
+            </li>
+          ))}
+        </ul>
+      ) : preview ? (
+        <p className="mt-1.5 truncate text-[11px] font-body text-gray-400" title={preview}>
+          Sample: {preview}
+        </p>
+      ) : null}
+      <p className="mt-1 text-[10px] font-body text-gray-400">
+        Functions:{' '}
+        {Object.entries(AUTO_FILL_FUNCTIONS).map(([name, description]) => (
+          <span key={name} title={description} className="mr-1.5 cursor-help font-mono">
+            {name}
+          </span>
+        ))}
+        — e.g. {'{client_dob | age}'}, {'{proposal_date | date:short}'}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+import { Languages } from 'lucide-react'
+import { DEFAULT_LOCALE, PROPOSAL_LOCALES } from '../../../lib/locales'
+import type { ProposalLocale } from '../../../types'
+
+interface LocaleTabsProps {
+  value: ProposalLocale
+  onChange: (locale: ProposalLocale) => void
+  disabled?: boolean
+}
+
+/** Language switcher for template modals — each locale keeps its own slides */
+export function LocaleTabs({ value, onChange, disabled }: LocaleTabsProps) {
+  return (
+    <div className="flex items-center gap-3 border-b border-gray-100 px-6 py-2.5">
+      <Languages className="h-4 w-4 text-gray-400" />
+      <div className="flex gap-1">
+        {PROPOSAL_LOCALES.map((locale) => (
+          <button
+            key={locale.value}
+            onClick={() => onChange(locale.value)}
+            disabled={disabled}
+            className={`rounded-lg px-3 py-1 text-xs font-heading font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-40 ${
+              value === locale.value
+                ? 'bg-hoxton-turquoise text-white'
+                : 'text-gray-500 hover:bg-gray-100'
+            }`}
+          >
+            {locale.label}
+          </button>
+        ))}
+      </div>
+      {value !== DEFAULT_LOCALE && (
+        <span className="text-xs font-body text-gray-400">
+          Proposals use the English slides until this translation has its own
+        </span>
+      )}
+    </div>
+  )
+}
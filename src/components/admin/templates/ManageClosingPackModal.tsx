@@ -14,18 +14,22 @@ import {
   sortableKeyboardCoordinates,
   verticalListSortingStrategy,
 } from '@dnd-kit/sortable'
-import { X, Loader2 } from 'lucide-react'
+import { X, Loader2, Lock, Send } from 'lucide-react'
 import { Portal } from '../../ui/Portal'
 import { SortableSlideItem } from './SortableSlideItem'
 import { SlideDropZone } from './SlideDropZone'
 import { FieldEditor } from './FieldEditor'
+import { PackVersionsPanel } from './PackVersionsPanel'
+import { LocaleTabs } from './LocaleTabs'
 import { supabase } from '../../../lib/supabase'
 import { getSlideUrl } from '../../../lib/storage'
 import { uploadSlides, replaceSingleSlide, deleteSlideFile } from '../../../lib/upload'
+import { packStoragePath, publishPackVersion, countPinnedProposals } from '../../../lib/packs'
+import { DEFAULT_LOCALE, localeLabel } from '../../../lib/locales'
 import { logAudit } from '../../../lib/audit'
 import { logger } from '../../../lib/logger'
 import { useToast } from '../../ui/Toast'
-import type { DbRegion, DbClosingPack, DbClosingSlide, EditableFieldDef } from '../../../types'
+import type { DbRegion, DbClosingPack, DbClosingSlide, EditableFieldDef, ProposalLocale } from '../../../types'
 import type { UploadProgress } from '../../../lib/upload'
 
 /** Robustly extract EditableFieldDef[] from whatever Supabase returns for a JSONB column */
@@ -77,6 +81,8 @@ interface SlideItem {
 export function ManageClosingPackModal({ region, userId, onClose, onRefresh }: ManageClosingPackModalProps) {
   const { addToast } = useToast()
   const [closingPack, setClosingPack] = useState<DbClosingPack | null>(null)
+  // Each language is its own pack with its own versions
+  const [locale, setLocale] = useState<ProposalLocale>(DEFAULT_LOCALE)
   const [slides, setSlides] = useState<SlideItem[]>([])
   const [loading, setLoading] = useState(true)
   const [uploading, setUploading] = useState(false)
@@ -84,6 +90,10 @@ export function ManageClosingPackModal({ region, userId, onClose, onRefresh }: M
   const [replacingSlide, setReplacingSlide] = useState<number | null>(null)
   const [saving, setSaving] = useState(false)
   const [hasReordered, setHasReordered] = useState(false)
+  // Versions pinned by proposals are read-only — edits go into a newly published version
+  const [pinnedCount, setPinnedCount] = useState(0)
+  const [publishing, setPublishing] = useState(false)
+  const [versionsKey, setVersionsKey] = useState(0)
   // Field editor state — snapshots captured at click time so refetches can't clobber them
   const [editingFieldsSlide, setEditingFieldsSlide] = useState<SlideItem | null>(null)
   const [editingInitialFields, setEditingInitialFields] = useState<EditableFieldDef[]>([])
@@ -93,23 +103,27 @@ export function ManageClosingPackModal({ region, userId, onClose, onRefresh }: M
     useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
   )
 
-  const storagePath = `closing-${region.id}`
+  const isEnglish = locale === DEFAULT_LOCALE
+  const storagePath = packStoragePath('closing', region.id, closingPack?.version ?? 1, locale)
+  const locked = pinnedCount > 0
 
   const fetchData = useCallback(async (silent = false) => {
     if (!silent) setLoading(true)
 
-    // Get or create closing pack for this region
+    // Get or create closing pack for this region and language
     let { data: pack } = await supabase
       .from('closing_packs')
       .select('*')
       .eq('region_id', region.id)
+      .eq('locale', locale)
       .eq('is_active', true)
       .single()
 
     if (!pack) {
+      const name = `${region.display_name} Closing Pack${isEnglish ? '' : ` (${localeLabel(locale)})`}`
       const { data: newPack } = await supabase
         .from('closing_packs')
-        .insert({ region_id: region.id, name: `${region.display_name} Closing Pack` })
+        .insert({ region_id: region.id, locale, name })
         .select('*')
         .single()
       pack = newPack
@@ -117,6 +131,8 @@ export function ManageClosingPackModal({ region, userId, onClose, onRefresh }: M
 
     if (pack) {
       setClosingPack(pack as DbClosingPack)
+      setPinnedCount(await countPinnedProposals('closing', pack.id))
+      const packPath = packStoragePath('closing', region.id, pack.version, locale)
 
       // Fetch slides via Edge Function (service role) to bypass RLS
       logger.log('[fetchData] Calling get-slide-fields with parentId:', pack.id)
@@ -143,7 +159,7 @@ export function ManageClosingPackModal({ region, userId, onClose, onRefresh }: M
       const dbMap = new Map(dbSlides.map((s) => [s.slide_number, s]))
 
       // Use whichever is larger: DB record count or closing_slides_count
-      const totalSlides = Math.max(dbSlides.length, region.closing_slides_count)
+      const totalSlides = isEnglish ? Math.max(dbSlides.length, region.closing_slides_count) : dbSlides.length
 
       if (totalSlides > 0) {
         setSlides(
@@ -155,7 +171,7 @@ export function ManageClosingPackModal({ region, userId, onClose, onRefresh }: M
               id: `slide-${num}`,
               dbId: db?.id ?? null,
               slideNumber: num,
-              imagePath: db?.image_path || `${storagePath}/Slide${num}.PNG`,
+              imagePath: db?.image_path || `${packPath}/Slide${num}.PNG`,
               editableFields: fields,
             }
           })
@@ -166,7 +182,7 @@ export function ManageClosingPackModal({ region, userId, onClose, onRefresh }: M
     }
 
     setLoading(false)
-  }, [region, storagePath])
+  }, [region, locale, isEnglish])
 
   useEffect(() => {
     fetchData()
@@ -246,11 +262,14 @@ export function ManageClosingPackModal({ region, userId, onClose, onRefresh }: M
     }
 
     // Update slide count on regions table
+    // Region counts track the English pack
     const newTotal = replaceAll ? successfulUploads.length : existingCount + successfulUploads.length
-    await supabase
-      .from('regions')
-      .update({ closing_slides_count: newTotal })
-      .eq('id', region.id)
+    if (isEnglish) {
+      await supabase
+        .from('regions')
+        .update({ closing_slides_count: newTotal })
+        .eq('id', region.id)
+    }
 
     await logAudit('slide_bulk_uploaded', 'closing_pack', region.id, {
       slides_uploaded: successfulUploads.length,
@@ -287,8 +306,15 @@ export function ManageClosingPackModal({ region, userId, onClose, onRefresh }: M
     setReplacingSlide(slideNumber)
 
     const result = await replaceSingleSlide(file, storagePath, slideNumber)
+    const slide = slides.find((s) => s.slideNumber === slideNumber)
 
     if (!result.error) {
+      // A newly published version still points at the previous version's image —
+      // repoint the row at this version's own copy
+      if (slide?.dbId && slide.imagePath.split('?')[0] !== result.path) {
+        await supabase.from('closing_slides').update({ image_path: result.path }).eq('id', slide.dbId)
+      }
+
       await logAudit('slide_replaced', 'closing_pack', region.id, {
         slide_number: slideNumber,
       }, userId)
@@ -297,7 +323,7 @@ export function ManageClosingPackModal({ region, userId, onClose, onRefresh }: M
       setSlides((prev) =>
         prev.map((s) =>
           s.slideNumber === slideNumber
-            ? { ...s, imagePath: `${storagePath}/Slide${slideNumber}.PNG?t=${Date.now()}` }
+            ? { ...s, imagePath: `${result.path}?t=${Date.now()}` }
             : s
         )
       )
@@ -309,7 +335,11 @@ export function ManageClosingPackModal({ region, userId, onClose, onRefresh }: M
   async function handleDeleteSlide(slideNumber: number) {
     if (!closingPack) return
 
-    await deleteSlideFile(storagePath, slideNumber)
+    // Only remove the image if this version owns it — earlier versions may share it
+    const slide = slides.find((s) => s.slideNumber === slideNumber)
+    if (slide?.imagePath.split('?')[0] === `${storagePath}/Slide${slideNumber}.PNG`) {
+      await deleteSlideFile(storagePath, slideNumber)
+    }
 
     // Delete the DB record
     await supabase
@@ -333,11 +363,13 @@ export function ManageClosingPackModal({ region, userId, onClose, onRefresh }: M
     })
 
     // Update count
-    const newCount = slides.length - 1
-    await supabase
-      .from('regions')
-      .update({ closing_slides_count: newCount })
-      .eq('id', region.id)
+    if (isEnglish) {
+      const newCount = slides.length - 1
+      await supabase
+        .from('regions')
+        .update({ closing_slides_count: newCount })
+        .eq('id', region.id)
+    }
 
     await onRefresh()
   }
@@ -402,6 +434,25 @@ export function ManageClosingPackModal({ region, userId, onClose, onRefresh }: M
     }
   }
 
+  async function handlePublishVersion() {
+    if (!closingPack) return
+    setPublishing(true)
+
+    const { pack, error } = await publishPackVersion('closing', region.id, userId, locale)
+
+    setPublishing(false)
+    if (error || !pack) {
+      addToast('error', `Failed to publish new version: ${error ?? 'Unknown error'}`)
+      return
+    }
+
+    addToast('success', `Version ${pack.version} published — existing proposals stay on v${closingPack.version}`)
+    setHasReordered(false)
+    setVersionsKey((k) => k + 1)
+    await onRefresh()
+    await fetchData(true)
+  }
+
   async function handleSaveOrder() {
     if (!closingPack || !hasReordered) return
     setSaving(true)
@@ -444,17 +495,29 @@ export function ManageClosingPackModal({ region, userId, onClose, onRefresh }: M
                 {region.display_name} — Closing Pack
               </h3>
               <p className="text-sm font-body text-gray-400">
-                {slides.length} slides
+                {closingPack ? `Version ${closingPack.version} · ` : ''}{slides.length} slides
               </p>
             </div>
-            <button
-              onClick={onClose}
-              className="rounded-lg p-2 text-gray-400 hover:bg-gray-100 hover:text-hoxton-deep"
-            >
-              <X className="h-5 w-5" />
-            </button>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={handlePublishVersion}
+                disabled={!closingPack || publishing || uploading}
+                className="inline-flex items-center gap-1.5 rounded-lg border border-hoxton-grey bg-white px-3.5 py-2 text-sm font-heading font-medium text-hoxton-deep transition-colors hover:bg-hoxton-light disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                {publishing ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Send className="h-3.5 w-3.5" />}
+                Publish New Version
+              </button>
+              <button
+                onClick={onClose}
+                className="rounded-lg p-2 text-gray-400 hover:bg-gray-100 hover:text-hoxton-deep"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
           </div>
 
+          <LocaleTabs value={locale} onChange={setLocale} disabled={uploading || publishing || hasReordered} />
+
           {/* Body */}
           <div className="flex-1 overflow-y-auto p-6">
             {loading ? (
@@ -463,12 +526,23 @@ export function ManageClosingPackModal({ region, userId, onClose, onRefresh }: M
               </div>
             ) : (
               <>
+                {locked && (
+                  <div className="mb-4 flex items-start gap-3 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3">
+                    <Lock className="mt-0.5 h-4 w-4 shrink-0 text-amber-600" />
+                    <p className="text-sm font-body text-amber-800">
+                      Version {closingPack?.version} is used by {pinnedCount} generated proposal{pinnedCount !== 1 ? 's' : ''} and can't be edited.
+                      Publish a new version to make changes — those proposals will keep rendering this one.
+                    </p>
+                  </div>
+                )}
+
                 {/* Drop zone / upload area */}
                 <SlideDropZone
                   existingSlideCount={slides.length}
                   uploading={uploading}
                   uploadProgress={uploadProgress}
                   onUpload={handleBulkUpload}
+                  disabled={locked}
                 />
 
                 {/* Slide list */}
@@ -504,6 +578,7 @@ export function ManageClosingPackModal({ region, userId, onClose, onRefresh }: M
                               }}
                               fieldCount={slide.editableFields.length}
                               isReplacing={replacingSlide === slide.slideNumber}
+                              locked={locked}
                             />
                           ))}
                         </div>
@@ -511,6 +586,8 @@ export function ManageClosingPackModal({ region, userId, onClose, onRefresh }: M
                     </DndContext>
                   </div>
                 )}
+
+                <PackVersionsPanel kind="closing" regionId={region.id} locale={locale} refreshKey={versionsKey} />
               </>
             )}
           </div>
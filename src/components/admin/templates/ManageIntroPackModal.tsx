@@ -14,18 +14,25 @@ import {
   sortableKeyboardCoordinates,
   verticalListSortingStrategy,
 } from '@dnd-kit/sortable'
-import { X, Upload, Loader2 } from 'lucide-react'
+import { X, Upload, Loader2, Lock, Send } from 'lucide-react'
 import { Portal } from '../../ui/Portal'
 import { SortableSlideItem } from './SortableSlideItem'
 import { SlideDropZone } from './SlideDropZone'
 import { FieldEditor } from './FieldEditor'
+import { SlideRuleEditor } from './SlideRuleEditor'
+import { PackVersionsPanel } from './PackVersionsPanel'
+import { LocaleTabs } from './LocaleTabs'
 import { supabase } from '../../../lib/supabase'
 import { getSlideUrl } from '../../../lib/storage'
 import { uploadSlides, replaceSingleSlide, deleteSlideFile } from '../../../lib/upload'
+import { packStoragePath, publishPackVersion, countPinnedProposals } from '../../../lib/packs'
+import { DEFAULT_LOCALE, localeLabel } from '../../../lib/locales'
 import { logAudit } from '../../../lib/audit'
 import { logger } from '../../../lib/logger'
+import { describeRule } from '../../../lib/slide-rules'
+import { useCatalog } from '../../../hooks/useCatalog'
 import { useToast } from '../../ui/Toast'
-import type { DbRegion, DbIntroPack, DbIntroSlide, EditableFieldDef } from '../../../types'
+import type { DbRegion, DbIntroPack, DbIntroSlide, EditableFieldDef, SlideInclusionRule, ProposalLocale } from '../../../types'
 import type { UploadProgress } from '../../../lib/upload'
 
 /** Robustly extract EditableFieldDef[] from whatever Supabase returns for a JSONB column */
@@ -74,11 +81,15 @@ interface SlideItem {
   slideNumber: number
   imagePath: string
   editableFields: EditableFieldDef[]
+  includeRule: SlideInclusionRule | null
 }
 
 export function ManageIntroPackModal({ region, userId, onClose, onRefresh }: ManageIntroPackModalProps) {
   const { addToast } = useToast()
+  const catalog = useCatalog()
   const [introPack, setIntroPack] = useState<DbIntroPack | null>(null)
+  // Each language is its own pack with its own versions
+  const [locale, setLocale] = useState<ProposalLocale>(DEFAULT_LOCALE)
   const [slides, setSlides] = useState<SlideItem[]>([])
   const [loading, setLoading] = useState(true)
   const [uploading, setUploading] = useState(false)
@@ -86,32 +97,41 @@ export function ManageIntroPackModal({ region, userId, onClose, onRefresh }: Man
   const [replacingSlide, setReplacingSlide] = useState<number | null>(null)
   const [saving, setSaving] = useState(false)
   const [hasReordered, setHasReordered] = useState(false)
+  // Versions pinned by proposals are read-only — edits go into a newly published version
+  const [pinnedCount, setPinnedCount] = useState(0)
+  const [publishing, setPublishing] = useState(false)
+  const [versionsKey, setVersionsKey] = useState(0)
   // Field editor state — snapshots captured at click time so refetches can't clobber them
   const [editingFieldsSlide, setEditingFieldsSlide] = useState<SlideItem | null>(null)
   const [editingInitialFields, setEditingInitialFields] = useState<EditableFieldDef[]>([])
+  const [editingRuleSlide, setEditingRuleSlide] = useState<SlideItem | null>(null)
 
   const sensors = useSensors(
     useSensor(PointerSensor),
     useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
   )
 
-  const storagePath = `intro-${region.id}`
+  const isEnglish = locale === DEFAULT_LOCALE
+  const storagePath = packStoragePath('intro', region.id, introPack?.version ?? 1, locale)
+  const locked = pinnedCount > 0
 
   const fetchData = useCallback(async (silent = false) => {
     if (!silent) setLoading(true)
 
-    // Get or create intro pack for this region
+    // Get or create intro pack for this region and language
     let { data: pack } = await supabase
       .from('intro_packs')
       .select('*')
       .eq('region_id', region.id)
+      .eq('locale', locale)
       .eq('is_active', true)
       .single()
 
     if (!pack) {
+      const name = `${region.display_name} Intro Pack${isEnglish ? '' : ` (${localeLabel(locale)})`}`
       const { data: newPack } = await supabase
         .from('intro_packs')
-        .insert({ region_id: region.id, name: `${region.display_name} Intro Pack` })
+        .insert({ region_id: region.id, locale, name })
         .select('*')
         .single()
       pack = newPack
@@ -119,6 +139,8 @@ export function ManageIntroPackModal({ region, userId, onClose, onRefresh }: Man
 
     if (pack) {
       setIntroPack(pack as DbIntroPack)
+      setPinnedCount(await countPinnedProposals('intro', pack.id))
+      const packPath = packStoragePath('intro', region.id, pack.version, locale)
 
       // Fetch slides via Edge Function (service role) to bypass RLS
       logger.log('[fetchData] Calling get-slide-fields with parentId:', pack.id)
@@ -146,7 +168,7 @@ export function ManageIntroPackModal({ region, userId, onClose, onRefresh }: Man
       const dbMap = new Map(dbSlides.map((s) => [s.slide_number, s]))
 
       // Use whichever is larger: DB record count or intro_slides_count
-      const totalSlides = Math.max(dbSlides.length, region.intro_slides_count)
+      const totalSlides = isEnglish ? Math.max(dbSlides.length, region.intro_slides_count) : dbSlides.length
 
       if (totalSlides > 0) {
         setSlides(
@@ -159,8 +181,9 @@ export function ManageIntroPackModal({ region, userId, onClose, onRefresh }: Man
               id: `slide-${num}`,
               dbId: db?.id ?? null,
               slideNumber: num,
-              imagePath: db?.image_path || `${storagePath}/Slide${num}.PNG`,
+              imagePath: db?.image_path || `${packPath}/Slide${num}.PNG`,
               editableFields: fields,
+              includeRule: db?.include_rule ?? null,
             }
           })
         )
@@ -170,20 +193,20 @@ export function ManageIntroPackModal({ region, userId, onClose, onRefresh }: Man
     }
 
     setLoading(false)
-  }, [region, storagePath])
+  }, [region, locale, isEnglish])
 
   useEffect(() => {
     fetchData()
   }, [fetchData])
 
-  // Escape key to close (only when FieldEditor is not open)
+  // Escape key to close (only when FieldEditor / SlideRuleEditor is not open)
   useEffect(() => {
     function handleKeyDown(e: KeyboardEvent) {
-      if (e.key === 'Escape' && !editingFieldsSlide) onClose()
+      if (e.key === 'Escape' && !editingFieldsSlide && !editingRuleSlide) onClose()
     }
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [editingFieldsSlide, onClose])
+  }, [editingFieldsSlide, editingRuleSlide, onClose])
 
   function handleDragEnd(event: DragEndEvent) {
     const { active, over } = event
@@ -250,11 +273,14 @@ export function ManageIntroPackModal({ region, userId, onClose, onRefresh }: Man
     }
 
     // Update slide count on regions table
+    // Region counts track the English pack
     const newTotal = replaceAll ? successfulUploads.length : existingCount + successfulUploads.length
-    await supabase
-      .from('regions')
-      .update({ intro_slides_count: newTotal })
-      .eq('id', region.id)
+    if (isEnglish) {
+      await supabase
+        .from('regions')
+        .update({ intro_slides_count: newTotal })
+        .eq('id', region.id)
+    }
 
     await logAudit('slide_bulk_uploaded', 'intro_pack', region.id, {
       slides_uploaded: successfulUploads.length,
@@ -276,6 +302,7 @@ export function ManageIntroPackModal({ region, userId, onClose, onRefresh }: Man
           slideNumber: r.slideNumber,
           imagePath: r.path,
           editableFields: [] as EditableFieldDef[],
+          includeRule: null,
         })),
       ])
     }
@@ -291,8 +318,15 @@ export function ManageIntroPackModal({ region, userId, onClose, onRefresh }: Man
     setReplacingSlide(slideNumber)
 
     const result = await replaceSingleSlide(file, storagePath, slideNumber)
+    const slide = slides.find((s) => s.slideNumber === slideNumber)
 
     if (!result.error) {
+      // A newly published version still points at the previous version's image —
+      // repoint the row at this version's own copy
+      if (slide?.dbId && slide.imagePath.split('?')[0] !== result.path) {
+        await supabase.from('intro_slides').update({ image_path: result.path }).eq('id', slide.dbId)
+      }
+
       await logAudit('slide_replaced', 'intro_pack', region.id, {
         slide_number: slideNumber,
       }, userId)
@@ -301,7 +335,7 @@ export function ManageIntroPackModal({ region, userId, onClose, onRefresh }: Man
       setSlides((prev) =>
         prev.map((s) =>
           s.slideNumber === slideNumber
-            ? { ...s, imagePath: `${storagePath}/Slide${slideNumber}.PNG?t=${Date.now()}` }
+            ? { ...s, imagePath: `${result.path}?t=${Date.now()}` }
             : s
         )
       )
@@ -313,7 +347,11 @@ export function ManageIntroPackModal({ region, userId, onClose, onRefresh }: Man
   async function handleDeleteSlide(slideNumber: number) {
     if (!introPack) return
 
-    await deleteSlideFile(storagePath, slideNumber)
+    // Only remove the image if this version owns it — earlier versions may share it
+    const slide = slides.find((s) => s.slideNumber === slideNumber)
+    if (slide?.imagePath.split('?')[0] === `${storagePath}/Slide${slideNumber}.PNG`) {
+      await deleteSlideFile(storagePath, slideNumber)
+    }
 
     // Delete the DB record
     await supabase
@@ -337,11 +375,13 @@ export function ManageIntroPackModal({ region, userId, onClose, onRefresh }: Man
     })
 
     // Update count
-    const newCount = slides.length - 1
-    await supabase
-      .from('regions')
-      .update({ intro_slides_count: newCount })
-      .eq('id', region.id)
+    if (isEnglish) {
+      const newCount = slides.length - 1
+      await supabase
+        .from('regions')
+        .update({ intro_slides_count: newCount })
+        .eq('id', region.id)
+    }
 
     await onRefresh()
   }
@@ -406,6 +446,64 @@ export function ManageIntroPackModal({ region, userId, onClose, onRefresh }: Man
     }
   }
 
+  async function handleSaveRule(slideItem: SlideItem, rule: SlideInclusionRule | null): Promise<{ success: boolean; error?: string }> {
+    if (!introPack) return { success: false, error: 'No intro pack for this region' }
+
+    const { data, error } = await supabase.functions.invoke('save-slide-fields', {
+      body: {
+        slideType: 'intro',
+        slideId: slideItem.dbId,
+        includeRule: rule,
+        parentId: introPack.id,
+        slideNumber: slideItem.slideNumber,
+        imagePath: slideItem.imagePath,
+      },
+    })
+
+    if (error || data?.error) {
+      const msg = data?.error ?? (typeof error === 'object' && 'message' in error ? (error as { message: string }).message : String(error))
+      logger.error('[SaveRule] Failed to save inclusion rule:', msg)
+      return { success: false, error: msg }
+    }
+
+    const newDbId = data?.data?.id || slideItem.dbId
+    setSlides((prev) =>
+      prev.map((s) =>
+        s.slideNumber === slideItem.slideNumber
+          ? { ...s, includeRule: rule, dbId: newDbId }
+          : s
+      )
+    )
+
+    await logAudit('slide_rule_updated', 'intro_pack', region.id, {
+      slide_number: slideItem.slideNumber,
+      old_rule: slideItem.includeRule,
+      new_rule: rule,
+    }, userId)
+
+    addToast('success', rule ? 'Inclusion rule saved' : 'Inclusion rule removed')
+    return { success: true }
+  }
+
+  async function handlePublishVersion() {
+    if (!introPack) return
+    setPublishing(true)
+
+    const { pack, error } = await publishPackVersion('intro', region.id, userId, locale)
+
+    setPublishing(false)
+    if (error || !pack) {
+      addToast('error', `Failed to publish new version: ${error ?? 'Unknown error'}`)
+      return
+    }
+
+    addToast('success', `Version ${pack.version} published — existing proposals stay on v${introPack.version}`)
+    setHasReordered(false)
+    setVersionsKey((k) => k + 1)
+    await onRefresh()
+    await fetchData(true)
+  }
+
   async function handleSaveOrder() {
     if (!introPack || !hasReordered) return
     setSaving(true)
@@ -448,17 +546,29 @@ export function ManageIntroPackModal({ region, userId, onClose, onRefresh }: Man
                 {region.display_name} — Intro Pack
               </h3>
               <p className="text-sm font-body text-gray-400">
-                {slides.length} slides
+                {introPack ? `Version ${introPack.version} · ` : ''}{slides.length} slides
               </p>
             </div>
-            <button
-              onClick={onClose}
-              className="rounded-lg p-2 text-gray-400 hover:bg-gray-100 hover:text-hoxton-deep"
-            >
-              <X className="h-5 w-5" />
-            </button>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={handlePublishVersion}
+                disabled={!introPack || publishing || uploading}
+                className="inline-flex items-center gap-1.5 rounded-lg border border-hoxton-grey bg-white px-3.5 py-2 text-sm font-heading font-medium text-hoxton-deep transition-colors hover:bg-hoxton-light disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                {publishing ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Send className="h-3.5 w-3.5" />}
+                Publish New Version
+              </button>
+              <button
+                onClick={onClose}
+                className="rounded-lg p-2 text-gray-400 hover:bg-gray-100 hover:text-hoxton-deep"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
           </div>
 
+          <LocaleTabs value={locale} onChange={setLocale} disabled={uploading || publishing || hasReordered} />
+
           {/* Body */}
           <div className="flex-1 overflow-y-auto p-6">
             {loading ? (
@@ -467,12 +577,23 @@ export function ManageIntroPackModal({ region, userId, onClose, onRefresh }: Man
               </div>
             ) : (
               <>
+                {locked && (
+                  <div className="mb-4 flex items-start gap-3 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3">
+                    <Lock className="mt-0.5 h-4 w-4 shrink-0 text-amber-600" />
+                    <p className="text-sm font-body text-amber-800">
+                      Version {introPack?.version} is used by {pinnedCount} generated proposal{pinnedCount !== 1 ? 's' : ''} and can't be edited.
+                      Publish a new version to make changes — those proposals will keep rendering this one.
+                    </p>
+                  </div>
+                )}
+
                 {/* Drop zone / upload area */}
                 <SlideDropZone
                   existingSlideCount={slides.length}
                   uploading={uploading}
                   uploadProgress={uploadProgress}
                   onUpload={handleBulkUpload}
+                  disabled={locked}
                 />
 
                 {/* Slide list */}
@@ -507,7 +628,10 @@ export function ManageIntroPackModal({ region, userId, onClose, onRefresh }: Man
                                 setEditingInitialFields([...slide.editableFields])
                               }}
                               fieldCount={slide.editableFields.length}
+                              onEditRule={() => setEditingRuleSlide(slide)}
+                              ruleSummary={slide.includeRule ? describeRule(slide.includeRule, catalog) : null}
                               isReplacing={replacingSlide === slide.slideNumber}
+                              locked={locked}
                             />
                           ))}
                         </div>
@@ -515,6 +639,8 @@ export function ManageIntroPackModal({ region, userId, onClose, onRefresh }: Man
                     </DndContext>
                   </div>
                 )}
+
+                <PackVersionsPanel kind="intro" regionId={region.id} locale={locale} refreshKey={versionsKey} />
               </>
             )}
           </div>
@@ -551,6 +677,16 @@ export function ManageIntroPackModal({ region, userId, onClose, onRefresh }: Man
           onClose={() => setEditingFieldsSlide(null)}
         />
       )}
+
+      {editingRuleSlide && (
+        <SlideRuleEditor
+          key={`intro-rule-${editingRuleSlide.slideNumber}`}
+          slideLabel={`${region.display_name} Intro — Slide ${editingRuleSlide.slideNumber}`}
+          initialRule={editingRuleSlide.includeRule}
+          onSave={(rule) => handleSaveRule(editingRuleSlide, rule)}
+          onClose={() => setEditingRuleSlide(null)}
+        />
+      )}
     </Portal>
   )
 }
@@ -19,13 +19,26 @@ import { Portal } from '../../ui/Portal'
 import { SortableSlideItem } from './SortableSlideItem'
 import { SlideDropZone } from './SlideDropZone'
 import { FieldEditor } from './FieldEditor'
+import { SlideRuleEditor } from './SlideRuleEditor'
+import { LocaleTabs } from './LocaleTabs'
 import { supabase } from '../../../lib/supabase'
 import { getSlideUrl } from '../../../lib/storage'
 import { uploadSlides, replaceSingleSlide, deleteSlideFile } from '../../../lib/upload'
+import { isProductModulePinned } from '../../../lib/packs'
+import { DEFAULT_LOCALE } from '../../../lib/locales'
 import { logAudit } from '../../../lib/audit'
 import { logger } from '../../../lib/logger'
+import { describeRule } from '../../../lib/slide-rules'
+import { useCatalog } from '../../../hooks/useCatalog'
 import { useToast } from '../../ui/Toast'
-import type { DbProductModule, DbProductSlide, DbRegion, EditableFieldDef } from '../../../types'
+import type {
+  DbProductModule,
+  DbProductSlide,
+  DbRegion,
+  EditableFieldDef,
+  ProposalLocale,
+  SlideInclusionRule,
+} from '../../../types'
 import type { UploadProgress } from '../../../lib/upload'
 
 /** Robustly extract EditableFieldDef[] from whatever Supabase returns for a JSONB column */
@@ -59,6 +72,11 @@ function parseEditableFields(raw: unknown): EditableFieldDef[] {
   return []
 }
 
+/** A fresh folder under the module's path, so pinned proposals keep their images */
+function revisionFolder(storagePath: string): string {
+  return `${storagePath}/r${Date.now()}`
+}
+
 interface ManageProductModalProps {
   module: DbProductModule
   regions: DbRegion[]
@@ -73,11 +91,15 @@ interface SlideItem {
   slideNumber: number
   imagePath: string
   editableFields: EditableFieldDef[]
+  includeRule: SlideInclusionRule | null
 }
 
 export function ManageProductModal({ module: mod, regions, userId, onClose, onRefresh }: ManageProductModalProps) {
   const { addToast } = useToast()
+  const catalog = useCatalog()
   const [slides, setSlides] = useState<SlideItem[]>([])
+  // Translations are separate slide sets; slides_count tracks the English one
+  const [locale, setLocale] = useState<ProposalLocale>(DEFAULT_LOCALE)
   const [managedRegions, setManagedRegions] = useState<string[]>([...mod.regions])
   const [loading, setLoading] = useState(true)
   const [uploading, setUploading] = useState(false)
@@ -85,16 +107,20 @@ export function ManageProductModal({ module: mod, regions, userId, onClose, onRe
   const [replacingSlide, setReplacingSlide] = useState<number | null>(null)
   const [saving, setSaving] = useState(false)
   const [hasReordered, setHasReordered] = useState(false)
+  // Set when generated proposals have this module's slides pinned — their images must not be overwritten
+  const [pinned, setPinned] = useState(false)
   // Field editor state — snapshots captured at click time so refetches can't clobber them
   const [editingFieldsSlide, setEditingFieldsSlide] = useState<SlideItem | null>(null)
   const [editingInitialFields, setEditingInitialFields] = useState<EditableFieldDef[]>([])
+  const [editingRuleSlide, setEditingRuleSlide] = useState<SlideItem | null>(null)
 
   const sensors = useSensors(
     useSensor(PointerSensor),
     useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
   )
 
-  const storagePath = `products/${mod.id}`
+  const isEnglish = locale === DEFAULT_LOCALE
+  const storagePath = isEnglish ? `products/${mod.id}` : `products/${mod.id}/${locale}`
 
   const fetchSlides = useCallback(async (silent = false) => {
     if (!silent) setLoading(true)
@@ -104,7 +130,7 @@ export function ManageProductModal({ module: mod, regions, userId, onClose, onRe
     let dbSlides: DbProductSlide[] = []
     try {
       const { data: fnResult, error: fnError } = await supabase.functions.invoke('get-slide-fields', {
-        body: { slideType: 'product', parentId: mod.id },
+        body: { slideType: 'product', parentId: mod.id, locale, fallback: false },
       })
 
       logger.log('[fetchSlides] get-slide-fields response — error:', fnError, '| data type:', typeof fnResult, '| data:', JSON.stringify(fnResult)?.slice(0, 500))
@@ -122,9 +148,10 @@ export function ManageProductModal({ module: mod, regions, userId, onClose, onRe
 
     logger.log('[fetchSlides] Parsed dbSlides count:', dbSlides.length, dbSlides.length > 0 ? '| first slide id: ' + dbSlides[0]?.id + ', fields: ' + (Array.isArray(dbSlides[0]?.editable_fields) ? dbSlides[0].editable_fields.length : 0) : '')
     const dbMap = new Map(dbSlides.map((s) => [s.slide_number, s]))
+    setPinned(await isProductModulePinned(mod.id))
 
-    // Use whichever is larger: DB record count or slides_count
-    const totalSlides = Math.max(dbSlides.length, mod.slides_count)
+    // Use whichever is larger: DB record count or slides_count (translations only have DB rows)
+    const totalSlides = isEnglish ? Math.max(dbSlides.length, mod.slides_count) : dbSlides.length
 
     if (totalSlides > 0) {
       setSlides(
@@ -139,6 +166,7 @@ export function ManageProductModal({ module: mod, regions, userId, onClose, onRe
             slideNumber: num,
             imagePath: db?.image_path || `${storagePath}/Slide${num}.PNG`,
             editableFields: fields,
+            includeRule: db?.include_rule ?? null,
           }
         })
       )
@@ -147,20 +175,20 @@ export function ManageProductModal({ module: mod, regions, userId, onClose, onRe
     }
 
     setLoading(false)
-  }, [mod.id, mod.slides_count, storagePath])
+  }, [mod.id, mod.slides_count, storagePath, locale, isEnglish])
 
   useEffect(() => {
     fetchSlides()
   }, [fetchSlides])
 
-  // Escape key to close (only when FieldEditor is not open)
+  // Escape key to close (only when FieldEditor / SlideRuleEditor is not open)
   useEffect(() => {
     function handleKeyDown(e: KeyboardEvent) {
-      if (e.key === 'Escape' && !editingFieldsSlide) onClose()
+      if (e.key === 'Escape' && !editingFieldsSlide && !editingRuleSlide) onClose()
     }
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [editingFieldsSlide, onClose])
+  }, [editingFieldsSlide, editingRuleSlide, onClose])
 
   function toggleRegion(regionId: string) {
     setManagedRegions((prev) =>
@@ -190,9 +218,11 @@ export function ManageProductModal({ module: mod, regions, userId, onClose, onRe
 
     const existingCount = slides.length
     const startNumber = replaceAll ? 1 : existingCount + 1
-    console.log(`[Product Upload] Starting: files=${files.length}, storagePath=${storagePath}, startNumber=${startNumber}, replaceAll=${replaceAll}, moduleId=${mod.id}`)
+    // Pinned modules upload into a fresh folder so pinned proposals keep their images
+    const targetPath = pinned ? revisionFolder(storagePath) : storagePath
+    console.log(`[Product Upload] Starting: files=${files.length}, storagePath=${targetPath}, startNumber=${startNumber}, replaceAll=${replaceAll}, moduleId=${mod.id}`)
 
-    const results = await uploadSlides(files, storagePath, startNumber, setUploadProgress)
+    const results = await uploadSlides(files, targetPath, startNumber, setUploadProgress)
 
     const errors = results.filter((r) => r.error)
     if (errors.length > 0) {
@@ -212,12 +242,13 @@ export function ManageProductModal({ module: mod, regions, userId, onClose, onRe
 
     if (replaceAll) {
       // Delete existing slide records
-      await supabase.from('product_slides').delete().eq('module_id', mod.id)
+      await supabase.from('product_slides').delete().eq('module_id', mod.id).eq('locale', locale)
     }
 
     // Create new slide records
     const records = successfulUploads.map((r) => ({
       module_id: mod.id,
+      locale,
       slide_number: r.slideNumber,
       title: `Slide ${r.slideNumber}`,
       slide_type: 'static' as const,
@@ -236,15 +267,18 @@ export function ManageProductModal({ module: mod, regions, userId, onClose, onRe
 
     // Update slide count
     const newTotal = replaceAll ? successfulUploads.length : existingCount + successfulUploads.length
-    await supabase
-      .from('product_modules')
-      .update({ slides_count: newTotal })
-      .eq('id', mod.id)
+    if (isEnglish) {
+      await supabase
+        .from('product_modules')
+        .update({ slides_count: newTotal })
+        .eq('id', mod.id)
+    }
 
     await logAudit('slide_bulk_uploaded', 'product_module', mod.id, {
       slides_uploaded: successfulUploads.length,
       errors: errors.length,
       mode: replaceAll ? 'replace' : 'append',
+      locale,
     }, userId)
 
     setUploading(false)
@@ -261,6 +295,7 @@ export function ManageProductModal({ module: mod, regions, userId, onClose, onRe
           slideNumber: r.slideNumber,
           imagePath: r.path,
           editableFields: [] as EditableFieldDef[],
+          includeRule: null,
         })),
       ])
     }
@@ -275,9 +310,15 @@ export function ManageProductModal({ module: mod, regions, userId, onClose, onRe
   async function handleReplaceSlide(slideNumber: number, file: File) {
     setReplacingSlide(slideNumber)
 
-    const result = await replaceSingleSlide(file, storagePath, slideNumber)
+    const targetPath = pinned ? revisionFolder(storagePath) : storagePath
+    const result = await replaceSingleSlide(file, targetPath, slideNumber)
+    const slide = slides.find((s) => s.slideNumber === slideNumber)
 
     if (!result.error) {
+      if (slide?.dbId && slide.imagePath.split('?')[0] !== result.path) {
+        await supabase.from('product_slides').update({ image_path: result.path }).eq('id', slide.dbId)
+      }
+
       await logAudit('slide_replaced', 'product_module', mod.id, {
         slide_number: slideNumber,
       }, userId)
@@ -286,7 +327,7 @@ export function ManageProductModal({ module: mod, regions, userId, onClose, onRe
       setSlides((prev) =>
         prev.map((s) =>
           s.slideNumber === slideNumber
-            ? { ...s, imagePath: `${storagePath}/Slide${slideNumber}.PNG?t=${Date.now()}` }
+            ? { ...s, imagePath: `${result.path}?t=${Date.now()}` }
             : s
         )
       )
@@ -296,13 +337,15 @@ export function ManageProductModal({ module: mod, regions, userId, onClose, onRe
   }
 
   async function handleDeleteSlide(slideNumber: number) {
-    await deleteSlideFile(storagePath, slideNumber)
+    // Pinned proposals may still reference the image — keep the file
+    if (!pinned) await deleteSlideFile(storagePath, slideNumber)
 
     // Delete DB record
     await supabase
       .from('product_slides')
       .delete()
       .eq('module_id', mod.id)
+      .eq('locale', locale)
       .eq('slide_number', slideNumber)
 
     await logAudit('slide_deleted', 'product_module', mod.id, {
@@ -320,11 +363,13 @@ export function ManageProductModal({ module: mod, regions, userId, onClose, onRe
     })
 
     // Update count
-    const newCount = slides.length - 1
-    await supabase
-      .from('product_modules')
-      .update({ slides_count: newCount })
-      .eq('id', mod.id)
+    if (isEnglish) {
+      const newCount = slides.length - 1
+      await supabase
+        .from('product_modules')
+        .update({ slides_count: newCount })
+        .eq('id', mod.id)
+    }
 
     await onRefresh()
   }
@@ -381,6 +426,7 @@ export function ManageProductModal({ module: mod, regions, userId, onClose, onRe
         slideId: slideItem.dbId,
         editableFields: fields,
         parentId: mod.id,
+        locale,
         slideNumber: slideItem.slideNumber,
         imagePath: slideItem.imagePath,
       }
@@ -430,6 +476,44 @@ export function ManageProductModal({ module: mod, regions, userId, onClose, onRe
     }
   }
 
+  async function handleSaveRule(slideItem: SlideItem, rule: SlideInclusionRule | null): Promise<{ success: boolean; error?: string }> {
+    const { data, error } = await supabase.functions.invoke('save-slide-fields', {
+      body: {
+        slideType: 'product',
+        slideId: slideItem.dbId,
+        includeRule: rule,
+        parentId: mod.id,
+        locale,
+        slideNumber: slideItem.slideNumber,
+        imagePath: slideItem.imagePath,
+      },
+    })
+
+    if (error || data?.error) {
+      const msg = data?.error ?? (typeof error === 'object' && 'message' in error ? (error as { message: string }).message : String(error))
+      logger.error('[SaveRule] Failed to save inclusion rule:', msg)
+      return { success: false, error: msg }
+    }
+
+    const newDbId = data?.data?.id || slideItem.dbId
+    setSlides((prev) =>
+      prev.map((s) =>
+        s.slideNumber === slideItem.slideNumber
+          ? { ...s, includeRule: rule, dbId: newDbId }
+          : s
+      )
+    )
+
+    await logAudit('slide_rule_updated', 'product_module', mod.id, {
+      slide_number: slideItem.slideNumber,
+      old_rule: slideItem.includeRule,
+      new_rule: rule,
+    }, userId)
+
+    addToast('success', rule ? 'Inclusion rule saved' : 'Inclusion rule removed')
+    return { success: true }
+  }
+
   const hasChanges = hasReordered || JSON.stringify([...mod.regions].sort()) !== JSON.stringify([...managedRegions].sort())
 
   return (
@@ -460,6 +544,8 @@ export function ManageProductModal({ module: mod, regions, userId, onClose, onRe
             </button>
           </div>
 
+          <LocaleTabs value={locale} onChange={setLocale} disabled={uploading || saving || hasReordered} />
+
           {/* Body */}
           <div className="flex-1 overflow-y-auto p-6">
             {loading ? (
@@ -538,6 +624,8 @@ export function ManageProductModal({ module: mod, regions, userId, onClose, onRe
                                 setEditingInitialFields([...slide.editableFields])
                               }}
                               fieldCount={slide.editableFields.length}
+                              onEditRule={() => setEditingRuleSlide(slide)}
+                              ruleSummary={slide.includeRule ? describeRule(slide.includeRule, catalog) : null}
                               isReplacing={replacingSlide === slide.slideNumber}
                             />
                           ))}
@@ -580,6 +668,16 @@ export function ManageProductModal({ module: mod, regions, userId, onClose, onRe
           onClose={() => setEditingFieldsSlide(null)}
         />
       )}
+
+      {editingRuleSlide && (
+        <SlideRuleEditor
+          key={`product-rule-${editingRuleSlide.slideNumber}`}
+          slideLabel={`${mod.name} — Slide ${editingRuleSlide.slideNumber}`}
+          initialRule={editingRuleSlide.includeRule}
+          onSave={(rule) => handleSaveRule(editingRuleSlide, rule)}
+          onClose={() => setEditingRuleSlide(null)}
+        />
+      )}
     </Portal>
   )
 }
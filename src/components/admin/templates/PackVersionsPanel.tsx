@@ -0,0 +1,97 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { Loader2, History } from 'lucide-react'
+import { Badge } from '../../ui/Badge'
+import { StatusBadge } from '../../ui/StatusBadge'
+import { getPackVersionUsage, type PackVersionUsage } from '../../../lib/packs'
+import type { PackKind, ProposalLocale } from '../../../types'
+
+interface PackVersionsPanelProps {
+  kind: PackKind
+  regionId: string
+  locale: ProposalLocale
+  /** Bumped by the parent after publishing so the list refetches */
+  refreshKey: number
+}
+
+function formatDate(dateStr: string | null): string {
+  if (!dateStr) return '—'
+  return new Date(dateStr).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })
+}
+
+export function PackVersionsPanel({ kind, regionId, locale, refreshKey }: PackVersionsPanelProps) {
+  const [versions, setVersions] = useState<PackVersionUsage[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    getPackVersionUsage(kind, regionId, locale).then((data) => {
+      if (cancelled) return
+      setVersions(data)
+      setLoading(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [kind, regionId, locale, refreshKey])
+
+  return (
+    <div className="mt-6">
+      <h4 className="mb-3 flex items-center gap-1.5 text-xs font-heading font-semibold uppercase tracking-wider text-gray-400">
+        <History className="h-3.5 w-3.5" />
+        Versions
+      </h4>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-hoxton-turquoise" />
+        </div>
+      ) : versions.length === 0 ? (
+        <p className="text-sm font-body text-gray-400 italic">No versions yet</p>
+      ) : (
+        <div className="space-y-2">
+          {versions.map(({ pack, proposals }) => (
+            <div key={pack.id} className="rounded-xl border border-gray-100 px-4 py-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-heading font-semibold text-hoxton-deep">
+                    v{pack.version}
+                  </span>
+                  {pack.is_active && <Badge variant="success">Active</Badge>}
+                  <span className="text-xs font-body text-gray-400">
+                    Published {formatDate(pack.published_at ?? pack.created_at)}
+                  </span>
+                </div>
+                <span className="text-xs font-body text-hoxton-slate">
+                  {proposals.length} proposal{proposals.length !== 1 ? 's' : ''}
+                </span>
+              </div>
+
+              {/* Proposals still rendering against an older version */}
+              {!pack.is_active && proposals.length > 0 && (
+                <ul className="mt-2 space-y-1 border-t border-gray-50 pt-2">
+                  {proposals.map((p) => (
+                    <li key={p.id} className="flex items-center justify-between gap-3">
+                      <Link
+                        to={`/proposals/${p.id}`}
+                        className="truncate text-sm font-body text-hoxton-turquoise hover:underline"
+                      >
+                        {p.client_name}
+                      </Link>
+                      <div className="flex shrink-0 items-center gap-2">
+                        <span className="text-xs font-body text-gray-400">
+                          {formatDate(p.templates_pinned_at)}
+                        </span>
+                        <StatusBadge status={p.status} />
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,281 @@
+import { useEffect, useState } from 'react'
+import { X, Plus, Trash2, Save, Loader2, Filter, AlertCircle } from 'lucide-react'
+import { Portal } from '../../ui/Portal'
+import { useCatalog } from '../../../hooks/useCatalog'
+import { FEE_COMPONENT_LABELS, SLIDE_CONDITION_LABELS, describeRule } from '../../../lib/slide-rules'
+import type { FeeComponent, SlideCondition, SlideConditionType, SlideInclusionRule } from '../../../types'
+
+interface SaveResult {
+  success: boolean
+  error?: string
+}
+
+interface SlideRuleEditorProps {
+  slideLabel: string
+  initialRule: SlideInclusionRule | null
+  onSave: (rule: SlideInclusionRule | null) => Promise<SaveResult>
+  onClose: () => void
+}
+
+/** Free-text conditions keep the raw input so commas can be typed */
+interface ConditionDraft {
+  type: SlideConditionType
+  values: string[]
+  text: string
+  negate: boolean
+}
+
+const FREE_TEXT_TYPES = new Set<SlideConditionType>(['client_nationality', 'client_risk_profile'])
+
+const TEXT_PLACEHOLDERS: Partial<Record<SlideConditionType, string>> = {
+  client_nationality: 'e.g. British, Irish',
+  client_risk_profile: 'e.g. Cautious, Balanced',
+}
+
+const inputClass =
+  'rounded-lg border border-hoxton-grey bg-hoxton-light px-3 py-2 text-sm font-body text-hoxton-deep focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise'
+
+const checkboxClass = 'rounded border-gray-300 text-hoxton-turquoise focus:ring-hoxton-turquoise'
+
+function toDraft(condition: SlideCondition): ConditionDraft {
+  return {
+    type: condition.type,
+    values: condition.values,
+    text: condition.values.join(', '),
+    negate: !!condition.negate,
+  }
+}
+
+function fromDraft(draft: ConditionDraft): SlideCondition {
+  const values = FREE_TEXT_TYPES.has(draft.type)
+    ? draft.text.split(',').map((v) => v.trim()).filter(Boolean)
+    : draft.values
+  return draft.negate ? { type: draft.type, values, negate: true } : { type: draft.type, values }
+}
+
+export function SlideRuleEditor({ slideLabel, initialRule, onSave, onClose }: SlideRuleEditorProps) {
+  const catalog = useCatalog()
+  const [match, setMatch] = useState<SlideInclusionRule['match']>(initialRule?.match ?? 'all')
+  const [conditions, setConditions] = useState<ConditionDraft[]>(() => (initialRule?.conditions ?? []).map(toDraft))
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape' && !saving) onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [saving, onClose])
+
+  const rule: SlideInclusionRule | null =
+    conditions.length > 0 ? { match, conditions: conditions.map(fromDraft) } : null
+  const incomplete = rule?.conditions.some((c) => c.values.length === 0) ?? false
+
+  function updateCondition(index: number, patch: Partial<ConditionDraft>) {
+    setConditions((prev) => prev.map((c, i) => (i === index ? { ...c, ...patch } : c)))
+  }
+
+  function toggleValue(index: number, value: string) {
+    setConditions((prev) =>
+      prev.map((c, i) =>
+        i === index
+          ? { ...c, values: c.values.includes(value) ? c.values.filter((v) => v !== value) : [...c.values, value] }
+          : c
+      )
+    )
+  }
+
+  async function handleSave() {
+    setSaving(true)
+    setError(null)
+    const result = await onSave(rule)
+    setSaving(false)
+    if (!result.success) {
+      setError(result.error ?? 'Failed to save rule')
+      return
+    }
+    onClose()
+  }
+
+  const moduleOptions = catalog.modules.filter((m) => m.isActive)
+
+  return (
+    <Portal>
+      <div
+        className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4 backdrop-blur-sm"
+        onClick={() => !saving && onClose()}
+      >
+        <div
+          className="relative flex max-h-[90vh] w-full max-w-2xl flex-col rounded-2xl bg-white shadow-2xl"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between border-b border-gray-100 px-6 py-4">
+            <div>
+              <h3 className="font-heading font-semibold text-hoxton-deep">
+                Inclusion Rule — {slideLabel}
+              </h3>
+              <p className="text-sm font-body text-gray-400">
+                Slides with a rule are left out of new proposals unless it matches. Advisers can still override.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="rounded-lg p-2 text-gray-400 hover:bg-gray-100 hover:text-hoxton-deep"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          {/* Body */}
+          <div className="flex-1 space-y-4 overflow-y-auto p-6">
+            {conditions.length > 1 && (
+              <div className="flex items-center gap-2 text-sm font-body text-hoxton-slate">
+                Include when
+                <select
+                  value={match}
+                  onChange={(e) => setMatch(e.target.value as SlideInclusionRule['match'])}
+                  className={inputClass}
+                >
+                  <option value="all">all conditions match</option>
+                  <option value="any">any condition matches</option>
+                </select>
+              </div>
+            )}
+
+            {conditions.length === 0 && (
+              <p className="rounded-xl border border-dashed border-gray-200 px-4 py-6 text-center text-sm font-body text-gray-400">
+                No conditions — this slide is always included.
+              </p>
+            )}
+
+            {conditions.map((condition, index) => (
+              <div key={index} className="space-y-3 rounded-xl border border-gray-100 bg-hoxton-light/30 p-4">
+                <div className="flex items-center gap-2">
+                  <select
+                    value={condition.type}
+                    onChange={(e) =>
+                      updateCondition(index, { type: e.target.value as SlideConditionType, values: [], text: '' })
+                    }
+                    className={`${inputClass} flex-1`}
+                  >
+                    {(Object.keys(SLIDE_CONDITION_LABELS) as SlideConditionType[]).map((type) => (
+                      <option key={type} value={type}>
+                        {SLIDE_CONDITION_LABELS[type]}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={condition.negate ? 'not' : 'is'}
+                    onChange={(e) => updateCondition(index, { negate: e.target.value === 'not' })}
+                    className={inputClass}
+                  >
+                    <option value="is">is</option>
+                    <option value="not">is not</option>
+                  </select>
+                  <button
+                    onClick={() => setConditions((prev) => prev.filter((_, i) => i !== index))}
+                    className="rounded-md border border-gray-200 bg-white p-2 text-gray-400 transition-colors hover:border-red-200 hover:bg-red-50 hover:text-red-500"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+
+                {FREE_TEXT_TYPES.has(condition.type) && (
+                  <input
+                    type="text"
+                    value={condition.text}
+                    onChange={(e) => updateCondition(index, { text: e.target.value })}
+                    placeholder={TEXT_PLACEHOLDERS[condition.type]}
+                    className={`${inputClass} w-full`}
+                  />
+                )}
+
+                {condition.type === 'product_selected' && (
+                  <div className="grid grid-cols-2 gap-2">
+                    {moduleOptions.map((m) => (
+                      <label key={m.id} className="flex items-center gap-2 text-sm font-body text-hoxton-deep">
+                        <input
+                          type="checkbox"
+                          checked={condition.values.includes(m.id)}
+                          onChange={() => toggleValue(index, m.id)}
+                          className={checkboxClass}
+                        />
+                        {m.name}
+                      </label>
+                    ))}
+                  </div>
+                )}
+
+                {condition.type === 'fee_present' && (
+                  <div className="grid grid-cols-2 gap-2">
+                    {(Object.keys(FEE_COMPONENT_LABELS) as FeeComponent[]).map((component) => (
+                      <label key={component} className="flex items-center gap-2 text-sm font-body text-hoxton-deep">
+                        <input
+                          type="checkbox"
+                          checked={condition.values.includes(component)}
+                          onChange={() => toggleValue(index, component)}
+                          className={checkboxClass}
+                        />
+                        {FEE_COMPONENT_LABELS[component]}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+
+            <button
+              onClick={() =>
+                setConditions((prev) => [...prev, { type: 'client_nationality', values: [], text: '', negate: false }])
+              }
+              className="inline-flex items-center gap-1.5 rounded-lg border border-dashed border-hoxton-turquoise/40 px-3 py-2 text-sm font-heading font-medium text-hoxton-turquoise transition-colors hover:bg-hoxton-turquoise/5"
+            >
+              <Plus className="h-4 w-4" />
+              Add Condition
+            </button>
+
+            {rule && !incomplete && (
+              <p className="flex items-start gap-2 text-xs font-body text-hoxton-slate">
+                <Filter className="mt-0.5 h-3.5 w-3.5 shrink-0 text-hoxton-turquoise" />
+                {describeRule(rule, catalog)}
+              </p>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="flex items-center justify-between gap-3 border-t border-gray-100 px-6 py-4">
+            {error ? (
+              <div className="flex items-center gap-2 text-sm font-body text-red-600">
+                <AlertCircle className="h-4 w-4" />
+                {error}
+              </div>
+            ) : incomplete ? (
+              <p className="text-sm font-body text-gray-400">Every condition needs at least one value.</p>
+            ) : (
+              <div />
+            )}
+            <div className="flex items-center gap-3">
+              <button
+                onClick={onClose}
+                disabled={saving}
+                className="rounded-lg px-4 py-2.5 text-sm font-heading font-medium text-hoxton-slate hover:bg-hoxton-light hover:text-hoxton-deep disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving || incomplete}
+                className="inline-flex items-center gap-2 rounded-lg bg-hoxton-turquoise px-4 py-2.5 text-sm font-heading font-semibold text-white transition-colors hover:bg-hoxton-turquoise/90 disabled:opacity-50"
+              >
+                {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                Save Rule
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </Portal>
+  )
+}
@@ -1,7 +1,7 @@
 import { useRef } from 'react'
 import { useSortable } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
-import { GripVertical, Image, Trash2, Loader2, Pencil } from 'lucide-react'
+import { GripVertical, Image, Trash2, Loader2, Pencil, Filter } from 'lucide-react'
 import { SlideThumb } from './SlideThumb'
 
 interface SortableSlideItemProps {
@@ -14,7 +14,12 @@ interface SortableSlideItemProps {
   onDelete: () => void
   onEditFields?: () => void
   fieldCount?: number
+  onEditRule?: () => void
+  /** Summary of the slide's inclusion rule, if it has one */
+  ruleSummary?: string | null
   isReplacing?: boolean
+  /** Read-only: the pack version is pinned by proposals */
+  locked?: boolean
 }
 
 export function SortableSlideItem({
@@ -27,7 +32,10 @@ export function SortableSlideItem({
   onDelete,
   onEditFields,
   fieldCount,
+  onEditRule,
+  ruleSummary,
   isReplacing,
+  locked,
 }: SortableSlideItemProps) {
   const fileInputRef = useRef<HTMLInputElement>(null)
 
@@ -38,7 +46,7 @@ export function SortableSlideItem({
     transform,
     transition,
     isDragging,
-  } = useSortable({ id })
+  } = useSortable({ id, disabled: locked })
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -66,7 +74,8 @@ export function SortableSlideItem({
       <button
         {...attributes}
         {...listeners}
-        className="shrink-0 cursor-grab rounded p-0.5 text-gray-400 hover:text-gray-600 active:cursor-grabbing"
+        disabled={locked}
+        className="shrink-0 cursor-grab rounded p-0.5 text-gray-400 hover:text-gray-600 active:cursor-grabbing disabled:cursor-not-allowed disabled:opacity-40"
       >
         <GripVertical className="h-4 w-4" />
       </button>
@@ -95,16 +104,32 @@ export function SortableSlideItem({
         {onEditFields && (
           <button
             onClick={onEditFields}
+            disabled={locked}
             className={`inline-flex items-center gap-1 rounded-md border px-2.5 py-1.5 text-xs font-heading font-medium transition-colors ${
               fieldCount && fieldCount > 0
                 ? 'border-hoxton-turquoise/30 bg-hoxton-turquoise/5 text-hoxton-turquoise hover:bg-hoxton-turquoise/10'
                 : 'border-gray-200 bg-white text-hoxton-slate hover:bg-gray-50'
-            }`}
+            } disabled:opacity-40 disabled:cursor-not-allowed`}
           >
             <Pencil className="h-3 w-3" />
             {fieldCount && fieldCount > 0 ? `${fieldCount} Fields` : 'Fields'}
           </button>
         )}
+        {onEditRule && (
+          <button
+            onClick={onEditRule}
+            disabled={locked}
+            title={ruleSummary ?? 'Always included — add a rule to include this slide conditionally'}
+            className={`inline-flex items-center gap-1 rounded-md border px-2.5 py-1.5 text-xs font-heading font-medium transition-colors ${
+              ruleSummary
+                ? 'border-amber-300 bg-amber-50 text-amber-700 hover:bg-amber-100'
+                : 'border-gray-200 bg-white text-hoxton-slate hover:bg-gray-50'
+            } disabled:opacity-40 disabled:cursor-not-allowed`}
+          >
+            <Filter className="h-3 w-3" />
+            {ruleSummary ? 'Rule' : 'Always'}
+          </button>
+        )}
         <input
           ref={fileInputRef}
           type="file"
@@ -114,7 +139,7 @@ export function SortableSlideItem({
         />
         <button
           onClick={() => fileInputRef.current?.click()}
-          disabled={isReplacing}
+          disabled={isReplacing || locked}
           className="inline-flex items-center gap-1 rounded-md border border-gray-200 bg-white px-2.5 py-1.5 text-xs font-heading font-medium text-hoxton-slate transition-colors hover:bg-gray-50 disabled:opacity-50"
         >
           {isReplacing ? (
@@ -126,7 +151,8 @@ export function SortableSlideItem({
         </button>
         <button
           onClick={onDelete}
-          className="rounded-md border border-gray-200 bg-white p-1.5 text-gray-400 transition-colors hover:border-red-200 hover:bg-red-50 hover:text-red-500"
+          disabled={locked}
+          className="rounded-md border border-gray-200 bg-white p-1.5 text-gray-400 transition-colors hover:border-red-200 hover:bg-red-50 hover:text-red-500 disabled:opacity-40 disabled:pointer-events-none"
         >
           <Trash2 className="h-3 w-3" />
         </button>
@@ -0,0 +1,257 @@
+import { useEffect, useState } from 'react'
+import { BarChart3, ChevronDown, ChevronRight, Loader2 } from 'lucide-react'
+import {
+  getTemplatePerformance,
+  SKIP_SECONDS,
+  type TemplateAnalyticsFilters,
+  type TemplateSectionKind,
+  type TemplateSectionStats,
+} from '../../../lib/template-analytics'
+import type { DbProductModule, DbRegion } from '../../../types'
+
+interface TemplateAnalyticsTabProps {
+  regions: DbRegion[]
+  productModules: DbProductModule[]
+}
+
+/* ── Helpers ── */
+
+const inputClass =
+  'rounded-lg border border-gray-200 px-3 py-2 text-sm font-body text-hoxton-deep focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise'
+
+const SECTION_TITLES: Record<TemplateSectionKind, string> = {
+  intro: 'Intro Packs',
+  product: 'Product Modules',
+  closing: 'Closing Packs',
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)}s`
+  const m = Math.floor(seconds / 60)
+  const s = Math.round(seconds % 60)
+  return s > 0 ? `${m}m ${s}s` : `${m}m`
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function defaultFilters(): TemplateAnalyticsFilters {
+  const from = new Date()
+  from.setDate(from.getDate() - 90)
+  return { regionId: '', from: isoDate(from), to: isoDate(new Date()) }
+}
+
+function rateClass(rate: number): string {
+  if (rate >= 50) return 'text-red-600'
+  if (rate >= 25) return 'text-amber-600'
+  return 'text-hoxton-slate'
+}
+
+/* ── Section card ── */
+
+function SectionCard({ name, stats }: { name: string; stats: TemplateSectionStats }) {
+  const [expanded, setExpanded] = useState(false)
+  const maxDwell = Math.max(...stats.slides.map((s) => s.avgDwell), 1)
+
+  return (
+    <div className="rounded-2xl border border-gray-100 bg-white">
+      <button
+        onClick={() => setExpanded((v) => !v)}
+        className="flex w-full items-center gap-4 px-5 py-4 text-left"
+      >
+        {expanded ? (
+          <ChevronDown className="h-4 w-4 shrink-0 text-gray-400" />
+        ) : (
+          <ChevronRight className="h-4 w-4 shrink-0 text-gray-400" />
+        )}
+        <div className="min-w-0 flex-1">
+          <p className="truncate text-sm font-heading font-semibold text-hoxton-deep">{name}</p>
+          <p className="text-xs font-body text-gray-400">
+            {stats.views} visit{stats.views !== 1 ? 's' : ''} · {stats.slides.length} slide
+            {stats.slides.length !== 1 ? 's' : ''} seen
+          </p>
+        </div>
+        <div className="grid shrink-0 grid-cols-4 gap-6 text-right">
+          <div>
+            <p className="text-[10px] font-heading font-semibold uppercase tracking-wider text-gray-400">Avg Time</p>
+            <p className="text-sm font-heading font-semibold tabular-nums text-hoxton-deep">
+              {formatDuration(stats.avgDwell)}
+            </p>
+          </div>
+          <div>
+            <p className="text-[10px] font-heading font-semibold uppercase tracking-wider text-gray-400">Skipped</p>
+            <p className={`text-sm font-heading font-semibold tabular-nums ${rateClass(stats.skipRate)}`}>
+              {stats.skipRate}%
+            </p>
+          </div>
+          <div>
+            <p className="text-[10px] font-heading font-semibold uppercase tracking-wider text-gray-400">Drop-off</p>
+            <p className={`text-sm font-heading font-semibold tabular-nums ${rateClass(stats.dropOffRate)}`}>
+              {stats.dropOffRate}%
+            </p>
+          </div>
+          <div>
+            <p className="text-[10px] font-heading font-semibold uppercase tracking-wider text-gray-400">Most Exits</p>
+            <p className="text-sm font-heading font-semibold tabular-nums text-hoxton-deep">
+              {stats.dropOffSlide != null ? `Slide ${stats.dropOffSlide}` : '—'}
+            </p>
+          </div>
+        </div>
+      </button>
+
+      {expanded && (
+        <div className="border-t border-gray-50 px-5 py-3">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-[10px] font-heading font-semibold uppercase tracking-wider text-gray-400">
+                <th className="py-2 pr-4">Slide</th>
+                <th className="py-2 pr-4 text-right">Visits</th>
+                <th className="w-1/3 py-2 pr-4">Avg Time</th>
+                <th className="py-2 pr-4 text-right">Skipped</th>
+                <th className="py-2 text-right">Drop-off</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-50">
+              {stats.slides.map((slide) => (
+                <tr
+                  key={slide.slideNumber}
+                  className={slide.slideNumber === stats.dropOffSlide ? 'bg-red-50/40' : undefined}
+                >
+                  <td className="py-2 pr-4">
+                    <span className="font-heading font-medium text-hoxton-deep">{slide.slideNumber}</span>
+                    <span className="ml-2 font-body text-gray-500">{slide.slideTitle}</span>
+                  </td>
+                  <td className="py-2 pr-4 text-right font-body tabular-nums text-hoxton-slate">{slide.views}</td>
+                  <td className="py-2 pr-4">
+                    <div className="flex items-center gap-2">
+                      <div className="h-1.5 flex-1 rounded-full bg-gray-100">
+                        <div
+                          className="h-full rounded-full bg-hoxton-turquoise"
+                          style={{ width: `${(slide.avgDwell / maxDwell) * 100}%` }}
+                        />
+                      </div>
+                      <span className="w-14 text-right font-body tabular-nums text-hoxton-slate">
+                        {formatDuration(slide.avgDwell)}
+                      </span>
+                    </div>
+                  </td>
+                  <td className={`py-2 pr-4 text-right font-body tabular-nums ${rateClass(slide.skipRate)}`}>
+                    {slide.skipRate}%
+                  </td>
+                  <td className={`py-2 text-right font-body tabular-nums ${rateClass(slide.dropOffRate)}`}>
+                    {slide.dropOffRate}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/* ── Tab ── */
+
+export function TemplateAnalyticsTab({ regions, productModules }: TemplateAnalyticsTabProps) {
+  const [filters, setFilters] = useState<TemplateAnalyticsFilters>(defaultFilters)
+  const [result, setResult] = useState<{
+    filters: TemplateAnalyticsFilters
+    sections: TemplateSectionStats[]
+  } | null>(null)
+
+  useEffect(() => {
+    getTemplatePerformance({ ...filters, regionId: filters.regionId || undefined }).then((sections) =>
+      setResult({ filters, sections })
+    )
+  }, [filters])
+
+  const loading = result?.filters !== filters
+
+  const regionName = new Map(regions.map((r) => [r.id, r.display_name]))
+  const moduleName = new Map(productModules.map((m) => [m.id, m.name]))
+  function sectionName(stats: TemplateSectionStats): string {
+    if (stats.kind === 'product') return moduleName.get(stats.id) ?? stats.id
+    return regionName.get(stats.id) ?? stats.id
+  }
+
+  const sections = result?.sections ?? []
+
+  return (
+    <div>
+      {/* Filters */}
+      <div className="mb-6 flex flex-wrap items-end gap-3">
+        <label className="block">
+          <span className="mb-1 block text-xs font-heading font-medium text-hoxton-slate">Region</span>
+          <select
+            value={filters.regionId ?? ''}
+            onChange={(e) => setFilters((f) => ({ ...f, regionId: e.target.value }))}
+            className={inputClass}
+          >
+            <option value="">All regions</option>
+            {regions.map((r) => (
+              <option key={r.id} value={r.id}>
+                {r.display_name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="mb-1 block text-xs font-heading font-medium text-hoxton-slate">From</span>
+          <input
+            type="date"
+            value={filters.from ?? ''}
+            max={filters.to}
+            onChange={(e) => setFilters((f) => ({ ...f, from: e.target.value || undefined }))}
+            className={inputClass}
+          />
+        </label>
+        <label className="block">
+          <span className="mb-1 block text-xs font-heading font-medium text-hoxton-slate">To</span>
+          <input
+            type="date"
+            value={filters.to ?? ''}
+            min={filters.from}
+            onChange={(e) => setFilters((f) => ({ ...f, to: e.target.value || undefined }))}
+            className={inputClass}
+          />
+        </label>
+        {loading && <Loader2 className="mb-2.5 h-4 w-4 animate-spin text-hoxton-turquoise" />}
+        <p className="ml-auto max-w-sm text-xs font-body text-gray-400">
+          Visits under {SKIP_SECONDS}s count as skipped. Drop-off is the share of visits that ended on a slide
+          before reaching the end of the proposal. Custom slides are not included.
+        </p>
+      </div>
+
+      {!loading && sections.length === 0 ? (
+        <div className="flex flex-col items-center justify-center rounded-2xl border-2 border-dashed border-gray-200 py-16 text-center">
+          <BarChart3 className="mb-3 h-8 w-8 text-gray-300" />
+          <p className="text-sm font-heading font-medium text-gray-400">No client views in this period</p>
+          <p className="mt-1 text-xs font-body text-gray-400">Try a wider date range or another region</p>
+        </div>
+      ) : (
+        <div className={`space-y-8 ${loading ? 'opacity-60' : ''}`}>
+          {(['intro', 'product', 'closing'] as TemplateSectionKind[]).map((kind) => {
+            const list = sections
+              .filter((s) => s.kind === kind)
+              .sort((a, b) => b.views - a.views)
+            if (list.length === 0) return null
+            return (
+              <div key={kind}>
+                <h3 className="mb-3 text-sm font-heading font-semibold uppercase tracking-wider text-gray-400">
+                  {SECTION_TITLES[kind]}
+                </h3>
+                <div className="space-y-3">
+                  {list.map((stats) => (
+                    <SectionCard key={`${stats.kind}:${stats.id}`} name={sectionName(stats)} stats={stats} />
+                  ))}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react'
+import { useState } from 'react'
 import { Link, useLocation } from 'react-router-dom'
 import {
   LayoutDashboard,
@@ -7,28 +7,35 @@ import {
   Users,
   Layers,
   ClipboardList,
+  ShieldCheck,
+  Mail,
   LogOut,
+  Bell,
 } from 'lucide-react'
 import { useAuth } from '../../lib/auth'
+import { useNotifications } from '../../hooks/useNotifications'
 import { HoxtonLogo } from '../ui/HoxtonLogo'
-import { getUnreadCount, getLastSeenTimestamp } from '../../lib/notifications'
+import { NotificationInbox } from '../notifications/NotificationInbox'
 
 const navItems = [
   { to: '/dashboard', label: 'Dashboard', icon: LayoutDashboard },
   { to: '/proposals/new', label: 'New Proposal', icon: FilePlus },
-  { to: '/proposals', label: 'My Proposals', icon: FileText, badgeKey: 'proposals' as const },
+  { to: '/proposals', label: 'My Proposals', icon: FileText },
 ]
 
 const ROLE_LABELS: Record<string, string> = {
   planner: 'Planner',
   planner_admin: 'Planner Admin',
   power_planner: 'Paraplanner',
+  compliance: 'Compliance',
   system_admin: 'System Admin',
 }
 
 const adminItems = [
   { to: '/admin/users', label: 'Manage Users', icon: Users },
   { to: '/admin/templates', label: 'Template Library', icon: Layers },
+  { to: '/admin/approval-rules', label: 'Approval Rules', icon: ShieldCheck },
+  { to: '/admin/email-templates', label: 'Email Templates', icon: Mail },
   { to: '/admin/audit-log', label: 'Audit Log', icon: ClipboardList },
 ]
 
@@ -41,22 +48,18 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
   const { profile, signOut } = useAuth()
   const { pathname } = useLocation()
   const isAdmin = profile?.role === 'system_admin'
-  const user = profile
-
-  const [unreadCount, setUnreadCount] = useState(0)
-
-  // Fetch unread count on mount and when pathname changes
-  useEffect(() => {
-    if (!user?.id) return
-
-    const lastSeen = getLastSeenTimestamp()
-    getUnreadCount(user.id, lastSeen).then(setUnreadCount)
-  }, [user?.id, pathname])
+  const { unreadCount } = useNotifications()
+  const [inboxOpen, setInboxOpen] = useState(false)
 
   function handleNavClick() {
     onClose()
   }
 
+  function handleOpenInbox() {
+    onClose()
+    setInboxOpen(true)
+  }
+
   return (
     <>
       {/* Desktop sidebar — always visible on lg+ */}
@@ -68,6 +71,7 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
           signOut={signOut}
           onNavClick={handleNavClick}
           unreadCount={unreadCount}
+          onOpenInbox={handleOpenInbox}
         />
       </aside>
 
@@ -84,8 +88,11 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
           signOut={signOut}
           onNavClick={handleNavClick}
           unreadCount={unreadCount}
+          onOpenInbox={handleOpenInbox}
         />
       </aside>
+
+      {inboxOpen && <NotificationInbox onClose={() => setInboxOpen(false)} />}
     </>
   )
 }
@@ -97,6 +104,7 @@ function SidebarContent({
   signOut,
   onNavClick,
   unreadCount,
+  onOpenInbox,
 }: {
   pathname: string
   isAdmin: boolean
@@ -104,19 +112,31 @@ function SidebarContent({
   signOut: () => Promise<void>
   onNavClick: () => void
   unreadCount: number
+  onOpenInbox: () => void
 }) {
   return (
     <>
       {/* Logo */}
-      <div className="flex h-16 items-center px-6">
+      <div className="flex h-16 items-center justify-between px-6">
         <HoxtonLogo size="md" variant="light" />
+        <button
+          onClick={onOpenInbox}
+          title="Notifications"
+          className="relative rounded-lg p-2 text-hoxton-grey transition-colors hover:bg-white/5 hover:text-white"
+        >
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-[16px] items-center justify-center rounded-full bg-hoxton-turquoise px-1 text-[9px] font-heading font-bold text-white">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </button>
       </div>
 
       {/* Navigation */}
       <nav className="flex-1 space-y-1 px-3 py-4">
         {navItems.map((item) => {
           const isActive = pathname === item.to
-          const showBadge = 'badgeKey' in item && item.badgeKey === 'proposals' && unreadCount > 0
           return (
             <Link
               key={item.to}
@@ -130,11 +150,6 @@ function SidebarContent({
             >
               <item.icon className="h-5 w-5" />
               {item.label}
-              {showBadge && (
-                <span className="ml-auto flex h-5 min-w-[20px] items-center justify-center rounded-full bg-hoxton-turquoise px-1.5 text-[10px] font-heading font-bold text-white">
-                  {unreadCount > 99 ? '99+' : unreadCount}
-                </span>
-              )}
             </Link>
           )
         })}
@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react'
+import { ArrowLeft, Bell, CheckCheck, Loader2, Settings2 } from 'lucide-react'
+import { useAuth } from '../../lib/auth'
+import { useNotifications } from '../../hooks/useNotifications'
+import { useKeyboardShortcut } from '../../hooks/useKeyboardShortcut'
+import {
+  NOTIFICATION_EVENT_TYPES,
+  getNotificationPreferences,
+  markAllNotificationsRead,
+  saveNotificationPreferences,
+  type NotificationEventType,
+} from '../../lib/notifications'
+import { Portal } from '../ui/Portal'
+import { useToast } from '../ui/Toast'
+import { NotificationRow } from './NotificationRow'
+
+const checkboxClass = 'rounded border-gray-300 text-hoxton-turquoise focus:ring-hoxton-turquoise'
+
+/* ── Preferences ── */
+
+function NotificationPreferences({ onDone }: { onDone: () => void }) {
+  const { user } = useAuth()
+  const { addToast } = useToast()
+  const [selected, setSelected] = useState<Set<NotificationEventType> | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!user) return
+    getNotificationPreferences(user.id).then((types) => setSelected(new Set(types)))
+  }, [user])
+
+  function toggle(type: NotificationEventType) {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(type)) next.delete(type)
+      else next.add(type)
+      return next
+    })
+  }
+
+  async function handleSave() {
+    if (!user || !selected) return
+    setSaving(true)
+    const result = await saveNotificationPreferences(user.id, [...selected])
+    setSaving(false)
+    if (result.error) {
+      addToast('error', `Failed to save preferences: ${result.error}`)
+      return
+    }
+    addToast('success', 'Notification preferences saved')
+    onDone()
+  }
+
+  if (!selected) {
+    return (
+      <div className="flex items-center justify-center py-10">
+        <Loader2 className="h-5 w-5 animate-spin text-hoxton-turquoise" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="px-4 py-4">
+      <p className="mb-3 text-xs font-body text-hoxton-slate">
+        Choose what appears in your inbox. Changes apply to new activity.
+      </p>
+      <div className="space-y-2.5">
+        {NOTIFICATION_EVENT_TYPES.map((t) => (
+          <label key={t.type} className="flex items-center gap-2 text-sm font-body text-hoxton-deep">
+            <input
+              type="checkbox"
+              checked={selected.has(t.type)}
+              onChange={() => toggle(t.type)}
+              className={checkboxClass}
+            />
+            {t.label}
+          </label>
+        ))}
+      </div>
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="mt-4 inline-flex items-center gap-2 rounded-lg bg-hoxton-turquoise px-3.5 py-2 text-sm font-heading font-semibold text-white transition-colors hover:bg-hoxton-turquoise/90 disabled:opacity-50"
+      >
+        {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+        Save
+      </button>
+    </div>
+  )
+}
+
+/* ── Inbox ── */
+
+/** Notification popover opened from the sidebar bell */
+export function NotificationInbox({ onClose }: { onClose: () => void }) {
+  const { items, unreadCount, loaded } = useNotifications()
+  const [showPreferences, setShowPreferences] = useState(false)
+
+  useKeyboardShortcut('Escape', onClose)
+
+  return (
+    <Portal>
+      <div className="fixed inset-0 z-[60]" onClick={onClose} />
+      <div className="fixed inset-x-4 top-16 z-[61] flex max-h-[70vh] flex-col rounded-2xl border border-gray-100 bg-white shadow-2xl lg:inset-x-auto lg:left-[17rem] lg:top-4 lg:w-96">
+        <div className="flex items-center justify-between border-b border-gray-100 px-4 py-3">
+          {showPreferences ? (
+            <button
+              onClick={() => setShowPreferences(false)}
+              className="inline-flex items-center gap-1.5 text-sm font-heading font-semibold text-hoxton-deep"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Preferences
+            </button>
+          ) : (
+            <h2 className="text-sm font-heading font-semibold text-hoxton-deep">
+              Notifications
+              {unreadCount > 0 && <span className="ml-1.5 font-medium text-hoxton-turquoise">{unreadCount} new</span>}
+            </h2>
+          )}
+          {!showPreferences && (
+            <div className="flex items-center gap-1">
+              {unreadCount > 0 && (
+                <button
+                  onClick={() => void markAllNotificationsRead()}
+                  title="Mark all as read"
+                  className="rounded-lg p-1.5 text-hoxton-slate hover:bg-gray-100 hover:text-hoxton-deep"
+                >
+                  <CheckCheck className="h-4 w-4" />
+                </button>
+              )}
+              <button
+                onClick={() => setShowPreferences(true)}
+                title="Notification preferences"
+                className="rounded-lg p-1.5 text-hoxton-slate hover:bg-gray-100 hover:text-hoxton-deep"
+              >
+                <Settings2 className="h-4 w-4" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {showPreferences ? (
+            <NotificationPreferences onDone={() => setShowPreferences(false)} />
+          ) : !loaded ? (
+            <div className="flex items-center justify-center py-10">
+              <Loader2 className="h-5 w-5 animate-spin text-hoxton-turquoise" />
+            </div>
+          ) : items.length === 0 ? (
+            <div className="px-6 py-10 text-center">
+              <Bell className="mx-auto mb-3 h-8 w-8 text-gray-300" />
+              <p className="text-sm font-heading font-medium text-hoxton-deep">You&apos;re all caught up</p>
+              <p className="mt-1 text-xs font-body text-gray-400">Client activity on your proposals shows up here.</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-50">
+              {items.map((n) => (
+                <NotificationRow key={n.id} notification={n} onOpen={onClose} dense />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </Portal>
+  )
+}
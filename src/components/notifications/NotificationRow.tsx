@@ -0,0 +1,111 @@
+import { Link } from 'react-router-dom'
+import { Bell, BellRing, CheckCircle2, Eye, FileDown, X, XCircle } from 'lucide-react'
+import { dismissNotification, markNotificationRead, type NotificationItem } from '../../lib/notifications'
+
+/* ── Display helpers ── */
+
+function notifIcon(type: string): React.ReactNode {
+  switch (type) {
+    case 'opened': return <Eye className="h-4 w-4" />
+    case 'downloaded': return <FileDown className="h-4 w-4" />
+    case 'approved': return <CheckCircle2 className="h-4 w-4" />
+    case 'rejected': return <XCircle className="h-4 w-4" />
+    case 'pdf_generated': return <FileDown className="h-4 w-4" />
+    case 'follow_up_due': return <BellRing className="h-4 w-4" />
+    default: return <Bell className="h-4 w-4" />
+  }
+}
+
+function notifColor(type: string): string {
+  switch (type) {
+    case 'opened': return 'text-emerald-600 bg-emerald-50'
+    case 'downloaded': return 'text-hoxton-turquoise bg-hoxton-turquoise/10'
+    case 'approved': return 'text-emerald-600 bg-emerald-50'
+    case 'rejected': return 'text-red-500 bg-red-50'
+    case 'pdf_generated': return 'text-hoxton-deep bg-hoxton-light'
+    case 'follow_up_due': return 'text-amber-500 bg-amber-50'
+    default: return 'text-gray-400 bg-gray-50'
+  }
+}
+
+function notifText(n: NotificationItem): string {
+  const name = (n.event_data?.recipient_name as string) || n.client_name
+  switch (n.event_type) {
+    case 'opened': return `${name} opened your proposal`
+    case 'downloaded': return `${name} downloaded the PDF`
+    case 'approved': return `Proposal for ${n.client_name} approved`
+    case 'rejected': return `Proposal for ${n.client_name} rejected`
+    case 'pdf_generated': return `PDF generated for ${n.client_name}`
+    case 'follow_up_due':
+      return n.event_data?.reason === 'unopened'
+        ? `${name} hasn't opened your proposal yet`
+        : `${name} hasn't finished reading your proposal`
+    default: return `Activity on ${n.client_name}`
+  }
+}
+
+function timeAgo(dateStr: string): string {
+  const seconds = Math.floor((Date.now() - new Date(dateStr).getTime()) / 1000)
+  if (seconds < 60) return 'Just now'
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h ago`
+  const days = Math.floor(hours / 24)
+  if (days < 7) return `${days}d ago`
+  return new Date(dateStr).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' })
+}
+
+/* ── Row ── */
+
+interface NotificationRowProps {
+  notification: NotificationItem
+  /** Called after the row is clicked, e.g. to close a popover */
+  onOpen?: () => void
+  /** Tighter padding for the sidebar inbox */
+  dense?: boolean
+}
+
+/** One notification, linking to the proposal's analytics; opening it marks it read */
+export function NotificationRow({ notification: n, onOpen, dense = false }: NotificationRowProps) {
+  const unread = !n.read_at
+
+  return (
+    <div
+      className={`group flex items-start transition-colors hover:bg-hoxton-light/50 ${
+        unread ? 'bg-hoxton-turquoise/[0.04]' : ''
+      }`}
+    >
+      <Link
+        to={`/proposals/${n.proposal_id}?tab=analytics`}
+        onClick={() => {
+          if (unread) void markNotificationRead(n.id)
+          onOpen?.()
+        }}
+        className={`flex min-w-0 flex-1 items-start gap-3 ${dense ? 'py-3 pl-4' : 'py-3.5 pl-6'}`}
+      >
+        <div className={`mt-0.5 flex h-7 w-7 shrink-0 items-center justify-center rounded-full ${notifColor(n.event_type)}`}>
+          {notifIcon(n.event_type)}
+        </div>
+        <div className="min-w-0 flex-1">
+          <p className={`text-sm font-heading text-hoxton-deep ${unread ? 'font-semibold' : 'font-medium'}`}>
+            {notifText(n)}
+          </p>
+          <p className="mt-0.5 text-xs font-body text-hoxton-slate">
+            {n.client_name} · {timeAgo(n.created_at)}
+          </p>
+        </div>
+        {unread && <span className="mt-2 h-2 w-2 shrink-0 rounded-full bg-hoxton-turquoise" />}
+      </Link>
+      <button
+        onClick={() => void dismissNotification(n.id)}
+        title="Dismiss"
+        className={`shrink-0 rounded-lg p-1.5 text-gray-300 opacity-0 transition-opacity hover:bg-gray-100 hover:text-hoxton-deep group-hover:opacity-100 focus:opacity-100 ${
+          dense ? 'mx-2 mt-2.5' : 'mx-4 mt-3'
+        }`}
+      >
+        <X className="h-3.5 w-3.5" />
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,288 @@
+import { useEffect, useState } from 'react'
+import { X, Loader2, Image, FileText, Square, Upload, AlertCircle } from 'lucide-react'
+import { Portal } from '../ui/Portal'
+import { RichTextEditor } from '../ui/RichText'
+import { useAuth } from '../../lib/auth'
+import {
+  CUSTOM_SLIDE_KIND_LABELS,
+  createCustomSlide,
+  getPdfPageCount,
+  renderPdfPage,
+  uploadCustomSlideImage,
+} from '../../lib/custom-slides'
+import type { CustomSlide, CustomSlideKind } from '../../types'
+
+interface AddCustomSlideModalProps {
+  /** Set when editing — only the label and blank-slide text can change */
+  existing?: { slide: CustomSlide; values: Record<string, string> }
+  onSave: (slide: CustomSlide, values: Record<string, string>) => void
+  onClose: () => void
+}
+
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024
+
+const KIND_ICONS: Record<CustomSlideKind, typeof Image> = {
+  image: Image,
+  pdf: FileText,
+  blank: Square,
+}
+
+const inputClass =
+  'w-full rounded-lg border border-hoxton-grey bg-hoxton-light px-3 py-2 text-sm font-body text-hoxton-deep focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise'
+
+function labelFromFileName(name: string): string {
+  return name.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim()
+}
+
+export function AddCustomSlideModal({ existing, onSave, onClose }: AddCustomSlideModalProps) {
+  const { user } = useAuth()
+  const [kind, setKind] = useState<CustomSlideKind>(existing?.slide.kind ?? 'image')
+  const [label, setLabel] = useState(existing?.slide.label ?? '')
+  const [file, setFile] = useState<File | null>(null)
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null)
+  const [pageCount, setPageCount] = useState(0)
+  const [pageNumber, setPageNumber] = useState(1)
+  const [title, setTitle] = useState(existing?.values.title ?? '')
+  const [body, setBody] = useState(existing?.values.body ?? '')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape' && !saving) onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [saving, onClose])
+
+  // Free the object URL when the preview changes or the modal closes
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl)
+    }
+  }, [previewUrl])
+
+  function switchKind(next: CustomSlideKind) {
+    setKind(next)
+    setFile(null)
+    setPreviewUrl(null)
+    setPageCount(0)
+    setError(null)
+  }
+
+  async function handleFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const picked = e.target.files?.[0]
+    e.target.value = ''
+    if (!picked) return
+    setError(null)
+
+    if (kind === 'image') {
+      if (!['image/png', 'image/jpeg'].includes(picked.type)) {
+        setError('Upload a PNG or JPG image')
+        return
+      }
+      if (picked.size > MAX_IMAGE_BYTES) {
+        setError('Images must be 10 MB or smaller')
+        return
+      }
+      setPreviewUrl(URL.createObjectURL(picked))
+    } else {
+      try {
+        const count = await getPdfPageCount(picked)
+        setPageCount(count)
+        setPageNumber(1)
+      } catch {
+        setError('Could not read that PDF')
+        return
+      }
+    }
+
+    setFile(picked)
+    if (!label.trim()) setLabel(labelFromFileName(picked.name))
+  }
+
+  async function handleSave() {
+    if (!user) return
+    const values: Record<string, string> = kind === 'blank' ? { title, body } : {}
+
+    if (existing) {
+      onSave({ ...existing.slide, label: label.trim() || existing.slide.label }, values)
+      onClose()
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    try {
+      let imagePath: string | null = null
+      if (kind !== 'blank') {
+        if (!file) return
+        const image = kind === 'pdf' ? await renderPdfPage(file, pageNumber) : file
+        const upload = await uploadCustomSlideImage(image, user.id)
+        if (upload.error || !upload.path) {
+          setError(`Upload failed: ${upload.error ?? 'Unknown error'}`)
+          return
+        }
+        imagePath = upload.path
+      }
+
+      const fallbackLabel = kind === 'blank' ? title.trim() || 'Blank slide' : CUSTOM_SLIDE_KIND_LABELS[kind]
+      onSave(createCustomSlide(kind, label.trim() || fallbackLabel, imagePath), values)
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not add the slide')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const canSave = existing || kind === 'blank' || !!file
+
+  return (
+    <Portal>
+      <div
+        className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4 backdrop-blur-sm"
+        onClick={() => !saving && onClose()}
+      >
+        <div
+          className="relative flex max-h-[90vh] w-full max-w-lg flex-col rounded-2xl bg-white shadow-2xl"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between border-b border-gray-100 px-6 py-4">
+            <div>
+              <h3 className="font-heading font-semibold text-hoxton-deep">
+                {existing ? 'Edit Slide' : 'Add Slide'}
+              </h3>
+              <p className="text-sm font-body text-gray-400">
+                Only used in this proposal
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="rounded-lg p-2 text-gray-400 hover:bg-gray-100 hover:text-hoxton-deep"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          {/* Body */}
+          <div className="flex-1 space-y-4 overflow-y-auto p-6">
+            {!existing && (
+              <div className="grid grid-cols-3 gap-2">
+                {(Object.keys(CUSTOM_SLIDE_KIND_LABELS) as CustomSlideKind[]).map((k) => {
+                  const Icon = KIND_ICONS[k]
+                  return (
+                    <button
+                      key={k}
+                      onClick={() => switchKind(k)}
+                      className={`flex flex-col items-center gap-1.5 rounded-xl border-2 px-3 py-3 text-xs font-heading font-medium transition-all ${
+                        kind === k
+                          ? 'border-hoxton-turquoise bg-hoxton-turquoise/5 text-hoxton-deep'
+                          : 'border-gray-200 text-gray-400 hover:border-gray-300'
+                      }`}
+                    >
+                      <Icon className="h-5 w-5" />
+                      {CUSTOM_SLIDE_KIND_LABELS[k]}
+                    </button>
+                  )
+                })}
+              </div>
+            )}
+
+            {!existing && kind !== 'blank' && (
+              <div>
+                <label className="flex cursor-pointer flex-col items-center gap-2 rounded-xl border-2 border-dashed border-gray-200 px-4 py-6 text-center transition-colors hover:border-hoxton-turquoise/50">
+                  <Upload className="h-5 w-5 text-gray-400" />
+                  <span className="text-sm font-body text-hoxton-slate">
+                    {file ? file.name : kind === 'image' ? 'Choose a PNG or JPG (16:9 works best)' : 'Choose a PDF'}
+                  </span>
+                  <input
+                    type="file"
+                    accept={kind === 'image' ? '.png,.jpg,.jpeg' : '.pdf'}
+                    className="hidden"
+                    onChange={handleFileChange}
+                  />
+                </label>
+                {previewUrl && (
+                  <img src={previewUrl} alt="" className="mt-3 aspect-video w-full rounded-lg border border-gray-100 object-cover" />
+                )}
+                {kind === 'pdf' && pageCount > 0 && (
+                  <div className="mt-3 flex items-center gap-2 text-sm font-body text-hoxton-slate">
+                    Page
+                    <select
+                      value={pageNumber}
+                      onChange={(e) => setPageNumber(Number(e.target.value))}
+                      className="rounded-lg border border-hoxton-grey bg-hoxton-light px-3 py-2 text-sm font-body text-hoxton-deep focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise"
+                    >
+                      {Array.from({ length: pageCount }, (_, i) => (
+                        <option key={i + 1} value={i + 1}>{i + 1}</option>
+                      ))}
+                    </select>
+                    of {pageCount}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div>
+              <label className="mb-1 block text-xs font-heading font-semibold uppercase tracking-wider text-gray-400">
+                Name in slide list
+              </label>
+              <input
+                type="text"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder={kind === 'blank' ? 'e.g. Next steps' : 'e.g. Cash-flow forecast'}
+                className={inputClass}
+              />
+            </div>
+
+            {kind === 'blank' && (
+              <>
+                <div>
+                  <label className="mb-1 block text-xs font-heading font-semibold uppercase tracking-wider text-gray-400">
+                    Title
+                  </label>
+                  <input type="text" value={title} onChange={(e) => setTitle(e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                  <label className="mb-1 block text-xs font-heading font-semibold uppercase tracking-wider text-gray-400">
+                    Body
+                  </label>
+                  <RichTextEditor value={body} onChange={setBody} rows={6} />
+                </div>
+              </>
+            )}
+
+            {error && (
+              <p className="flex items-center gap-2 text-sm font-body text-red-600">
+                <AlertCircle className="h-4 w-4 shrink-0" />
+                {error}
+              </p>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="flex items-center justify-end gap-3 border-t border-gray-100 px-6 py-4">
+            <button
+              onClick={onClose}
+              disabled={saving}
+              className="rounded-lg px-4 py-2.5 text-sm font-heading font-medium text-hoxton-slate hover:bg-hoxton-light hover:text-hoxton-deep disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || !canSave}
+              className="inline-flex items-center gap-2 rounded-lg bg-hoxton-turquoise px-4 py-2.5 text-sm font-heading font-semibold text-white transition-colors hover:bg-hoxton-turquoise/90 disabled:opacity-50"
+            >
+              {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+              {existing ? 'Save' : 'Add Slide'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </Portal>
+  )
+}
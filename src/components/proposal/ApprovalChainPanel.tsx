@@ -0,0 +1,246 @@
+import { useEffect, useState } from 'react'
+import { CheckCircle2, Circle, Clock, Loader2, MessageSquare, Send, ShieldCheck, XCircle } from 'lucide-react'
+import { useAuth } from '../../lib/auth'
+import {
+  approverRoleLabel,
+  canDecideStep,
+  currentStep,
+  decideApprovalStep,
+  getApprovalSteps,
+  previewApprovalChain,
+  submitForApproval,
+  type ChainStep,
+} from '../../lib/approvals'
+import { useToast } from '../ui/Toast'
+import type { Proposal, ProposalApprovalStep } from '../../types'
+
+interface ApprovalChainPanelProps {
+  proposal: Proposal
+  /** Unresolved review comment threads — approval is blocked while any remain */
+  openComments: number
+  onProposalUpdate: (updates: Partial<Proposal>) => void
+  onActivity: () => void
+}
+
+function formatDateTime(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+function StepIcon({ step, isCurrent }: { step: ProposalApprovalStep; isCurrent: boolean }) {
+  if (step.status === 'approved') return <CheckCircle2 className="h-5 w-5 text-emerald-600" />
+  if (step.status === 'rejected') return <XCircle className="h-5 w-5 text-red-500" />
+  if (isCurrent) return <Clock className="h-5 w-5 text-amber-500" />
+  return <Circle className="h-5 w-5 text-gray-300" />
+}
+
+export function ApprovalChainPanel({ proposal, openComments, onProposalUpdate, onActivity }: ApprovalChainPanelProps) {
+  const { user, profile } = useAuth()
+  const { addToast } = useToast()
+
+  const [steps, setSteps] = useState<ProposalApprovalStep[]>([])
+  const [preview, setPreview] = useState<ChainStep[] | null>(null)
+  const [notes, setNotes] = useState('')
+  const [deciding, setDeciding] = useState<'approved' | 'rejected' | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+
+  const round = proposal.approval_round ?? 0
+  const isOwner = proposal.created_by === user?.id || profile?.role === 'system_admin'
+  const canSubmit = isOwner && (proposal.status === 'draft' || proposal.status === 'rejected')
+
+  useEffect(() => {
+    if (round === 0) return
+    getApprovalSteps(proposal.id, round).then(setSteps)
+  }, [proposal.id, round, proposal.status])
+
+  useEffect(() => {
+    if (!canSubmit) return
+    previewApprovalChain(proposal, profile?.role ?? null).then(setPreview)
+  }, [canSubmit, proposal, profile?.role])
+
+  const active = proposal.status === 'pending_approval' ? currentStep(steps) : null
+  const canDecide = !!active && canDecideStep(active, profile?.role)
+
+  async function handleSubmit() {
+    if (!user) return
+    setSubmitting(true)
+    const result = await submitForApproval(proposal, user.id)
+    if (result.error) {
+      addToast('error', `Failed to submit: ${result.error}`)
+    } else {
+      setSteps(result.steps ?? [])
+      onProposalUpdate({
+        status: 'pending_approval',
+        approval_round: result.round,
+        approval_notes: undefined,
+        approved_by: undefined,
+      })
+      addToast('success', 'Submitted for approval')
+      onActivity()
+    }
+    setSubmitting(false)
+  }
+
+  async function handleDecision(decision: 'approved' | 'rejected') {
+    if (!user || !active) return
+    setDeciding(decision)
+    const isLastStep = steps.filter((s) => s.status === 'pending').length === 1
+    const result = await decideApprovalStep(active, decision, notes, user.id, isLastStep)
+
+    if (result.error) {
+      addToast('error', result.error)
+    } else {
+      const trimmed = notes.trim() || undefined
+      setSteps((prev) => prev.map((s) => (s.id === active.id && result.step ? result.step : s)))
+      if (decision === 'rejected') {
+        onProposalUpdate({ status: 'rejected', approved_by: user.id, approval_notes: trimmed })
+      } else if (isLastStep) {
+        onProposalUpdate({ status: 'approved', approved_by: user.id, approval_notes: trimmed })
+      }
+      setNotes('')
+      addToast('success', decision === 'approved' ? 'Sign-off recorded' : 'Proposal rejected')
+      onActivity()
+    }
+    setDeciding(null)
+  }
+
+  if (round === 0 && !canSubmit) return null
+
+  return (
+    <div
+      className={`rounded-2xl p-6 ${
+        canDecide ? 'border-2 border-amber-200 bg-amber-50/50' : 'border border-gray-100 bg-white'
+      }`}
+    >
+      <div className="mb-4 flex items-center gap-2">
+        <ShieldCheck className={`h-5 w-5 ${canDecide ? 'text-amber-600' : 'text-hoxton-turquoise'}`} />
+        <h3
+          className={`text-sm font-heading font-semibold uppercase tracking-wider ${
+            canDecide ? 'text-amber-700' : 'text-gray-400'
+          }`}
+        >
+          {canDecide ? 'Approval Required' : 'Approval Chain'}
+        </h3>
+        {round > 1 && (
+          <span className="rounded-full bg-hoxton-grey px-2 py-0.5 text-[10px] font-heading font-medium text-hoxton-deep">
+            Round {round}
+          </span>
+        )}
+      </div>
+
+      {/* Steps of the latest round */}
+      {round > 0 && steps.length > 0 && (
+        <ol className="mb-4 space-y-3">
+          {steps.map((step) => (
+            <li key={step.id} className="flex items-start gap-3">
+              <StepIcon step={step} isCurrent={active?.id === step.id} />
+              <div className="min-w-0 flex-1">
+                <div className="flex flex-wrap items-center gap-x-2">
+                  <p className="text-sm font-heading font-medium text-hoxton-deep">
+                    {approverRoleLabel(step.approver_role)} sign-off
+                  </p>
+                  {step.decided_at && (
+                    <span className="text-xs font-body text-gray-400">
+                      {step.status === 'approved' ? 'Approved' : 'Rejected'} {formatDateTime(step.decided_at)}
+                    </span>
+                  )}
+                </div>
+                {step.required_by.length > 0 && (
+                  <p className="text-xs font-body text-hoxton-slate">
+                    Required by {step.required_by.join(', ')}
+                  </p>
+                )}
+                {step.notes && (
+                  <p className="mt-1 whitespace-pre-wrap rounded-lg bg-hoxton-light/60 px-3 py-2 text-sm font-body text-hoxton-deep">
+                    {step.notes}
+                  </p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {/* Decision controls for the current approver */}
+      {canDecide && (
+        <>
+          <p className="mb-3 text-sm font-body text-hoxton-slate">
+            This proposal is awaiting your {approverRoleLabel(active.approver_role).toLowerCase()} sign-off
+            before it can be sent to the client.
+          </p>
+          {openComments > 0 && (
+            <p className="mb-3 flex items-center gap-1.5 text-sm font-body text-amber-800">
+              <MessageSquare className="h-4 w-4 shrink-0 text-amber-600" />
+              {openComments} review comment{openComments !== 1 ? 's are' : ' is'} still open. Resolve{' '}
+              {openComments !== 1 ? 'them' : 'it'} on the Slide Preview tab before approving.
+            </p>
+          )}
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Add notes (optional)..."
+            rows={3}
+            className="mb-4 w-full rounded-xl border border-amber-200 bg-white px-4 py-3 text-sm font-body text-hoxton-deep placeholder:text-gray-400 focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise"
+          />
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => handleDecision('approved')}
+              disabled={!!deciding || openComments > 0}
+              className="inline-flex items-center gap-1.5 rounded-lg bg-emerald-600 px-4 py-2.5 text-sm font-heading font-semibold text-white transition-colors hover:bg-emerald-700 disabled:opacity-50"
+            >
+              {deciding === 'approved' ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <CheckCircle2 className="h-4 w-4" />
+              )}
+              Approve
+            </button>
+            <button
+              onClick={() => handleDecision('rejected')}
+              disabled={!!deciding}
+              className="inline-flex items-center gap-1.5 rounded-lg bg-red-600 px-4 py-2.5 text-sm font-heading font-semibold text-white transition-colors hover:bg-red-700 disabled:opacity-50"
+            >
+              {deciding === 'rejected' ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <XCircle className="h-4 w-4" />
+              )}
+              Reject
+            </button>
+          </div>
+        </>
+      )}
+
+      {active && !canDecide && (
+        <p className="text-sm font-body text-hoxton-slate">
+          Waiting on {approverRoleLabel(active.approver_role).toLowerCase()} sign-off.
+        </p>
+      )}
+
+      {/* Submission */}
+      {canSubmit && (
+        <div className={round > 0 ? 'mt-4 border-t border-gray-100 pt-4' : ''}>
+          <p className="mb-3 text-sm font-body text-hoxton-slate">
+            {preview === null
+              ? 'Checking approval rules...'
+              : preview.length > 0
+                ? `Sign-off needed: ${preview.map((s) => approverRoleLabel(s.approverRole)).join(' → ')}`
+                : 'No approval rules apply — a system admin will review this proposal.'}
+          </p>
+          <button
+            onClick={handleSubmit}
+            disabled={submitting || preview === null}
+            className="inline-flex items-center gap-1.5 rounded-lg bg-hoxton-deep px-4 py-2.5 text-sm font-heading font-semibold text-white transition-colors hover:bg-hoxton-deep/90 disabled:opacity-50"
+          >
+            {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            {proposal.status === 'rejected' ? 'Resubmit for Approval' : 'Submit for Approval'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
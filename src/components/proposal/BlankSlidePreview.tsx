@@ -0,0 +1,12 @@
+/**
+ * Branded background for an adviser's blank slide, matching the PDF service's
+ * blank slide. The title/body text is drawn on top by the caller's field overlays.
+ * Must be placed inside a `containerType: 'inline-size'` 16:9 box.
+ */
+export function BlankSlidePreview() {
+  return (
+    <div className="absolute inset-0 bg-hoxton-deep">
+      <div className="absolute inset-x-0 top-0 h-[0.3cqw] bg-gradient-to-r from-hoxton-turquoise to-hoxton-mint" />
+    </div>
+  )
+}
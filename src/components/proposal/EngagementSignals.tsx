@@ -0,0 +1,44 @@
+import { Flame } from 'lucide-react'
+import { ENGAGEMENT_SIGNAL_LABELS } from '../../lib/engagement'
+import type { EngagementScore, EngagementSignal } from '../../types'
+
+function scoreClasses(score: number): string {
+  if (score >= 70) return 'bg-red-50 text-red-600'
+  if (score >= 40) return 'bg-amber-50 text-amber-600'
+  return 'bg-hoxton-light text-hoxton-slate'
+}
+
+/** 0-100 engagement score, warmer colours for hotter proposals */
+export function EngagementScorePill({ score }: { score: number }) {
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs font-heading font-semibold tabular-nums ${scoreClasses(score)}`}
+    >
+      <Flame className="h-3 w-3" />
+      {score}
+    </span>
+  )
+}
+
+/** The signals behind a score, strongest first */
+export function EngagementSignals({ engagement }: { engagement: EngagementScore }) {
+  const active = (Object.entries(engagement.signals) as [EngagementSignal, number][])
+    .filter(([, strength]) => strength > 0)
+    .sort((a, b) => b[1] - a[1])
+
+  if (active.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {active.map(([signal, strength]) => (
+        <span
+          key={signal}
+          title={`${Math.round(strength * 100)}%`}
+          className="rounded-full bg-hoxton-turquoise/10 px-2 py-0.5 text-[11px] font-heading font-medium text-hoxton-turquoise"
+        >
+          {ENGAGEMENT_SIGNAL_LABELS[signal]}
+        </span>
+      ))}
+    </div>
+  )
+}
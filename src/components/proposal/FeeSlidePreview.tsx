@@ -0,0 +1,74 @@
+import { buildFeeRows } from '../../lib/fees'
+import type { FeeData } from '../../types'
+
+interface FeeSlidePreviewProps {
+  fee: FeeData
+  clientName: string
+}
+
+/**
+ * HTML rendering of a fee_structure slide, matching the PDF service's fee slide.
+ * Must be placed inside a `containerType: 'inline-size'` 16:9 box — sizes are
+ * expressed in cqw (1cqw = 12.8px at 1280px wide).
+ */
+export function FeeSlidePreview({ fee, clientName }: FeeSlidePreviewProps) {
+  const rows = buildFeeRows(fee)
+
+  return (
+    <div
+      className="absolute inset-0 flex flex-col bg-hoxton-deep"
+      style={{ padding: '4.7cqw 6.25cqw' }}
+    >
+      <div className="absolute inset-x-0 top-0 h-[0.3cqw] bg-gradient-to-r from-hoxton-turquoise to-hoxton-mint" />
+      <h1 className="font-heading font-semibold text-hoxton-mint" style={{ fontSize: '2.8cqw', marginBottom: '0.9cqw' }}>
+        Fee Structure
+      </h1>
+      <p className="font-body text-hoxton-slate" style={{ fontSize: '1.25cqw', marginBottom: '2.8cqw' }}>
+        Prepared for {clientName}
+      </p>
+      <div className="bg-hoxton-turquoise" style={{ width: '4.7cqw', height: '0.23cqw', marginBottom: '2.5cqw' }} />
+
+      <table className="w-full border-collapse" style={{ marginTop: '1.25cqw' }}>
+        <thead>
+          <tr>
+            {['Description', 'Details'].map((h) => (
+              <th
+                key={h}
+                className="border-b border-hoxton-slate text-left font-heading font-semibold text-hoxton-mint"
+                style={{ fontSize: '1.1cqw', padding: '0.9cqw 1.25cqw' }}
+              >
+                {h}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.length > 0 ? (
+            rows.map((row) => (
+              <tr key={row.label}>
+                <td className="border-b border-hoxton-slate/30 font-body text-hoxton-grey" style={{ fontSize: '1.17cqw', padding: '0.8cqw 1.25cqw' }}>
+                  {row.label}
+                </td>
+                <td className="border-b border-hoxton-slate/30 font-body text-hoxton-grey" style={{ fontSize: '1.17cqw', padding: '0.8cqw 1.25cqw' }}>
+                  {row.value}
+                </td>
+              </tr>
+            ))
+          ) : (
+            <tr>
+              <td colSpan={2} className="text-center font-body text-hoxton-grey/60" style={{ fontSize: '1.17cqw', padding: '0.8cqw 1.25cqw' }}>
+                Fee details to be confirmed
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      {fee.notes.trim() && (
+        <p className="whitespace-pre-wrap font-body text-hoxton-slate" style={{ fontSize: '1.05cqw', marginTop: '1.9cqw' }}>
+          {fee.notes}
+        </p>
+      )}
+    </div>
+  )
+}
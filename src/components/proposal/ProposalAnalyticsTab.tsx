@@ -26,6 +26,9 @@ import type {
   ViewerSession,
 } from '../../lib/analytics'
 import { getSlideUrl } from '../../lib/storage'
+import { getProposalEngagement } from '../../lib/engagement'
+import { EngagementScorePill, EngagementSignals } from './EngagementSignals'
+import type { EngagementScore } from '../../types'
 
 /* ── Helpers ── */
 
@@ -237,18 +240,21 @@ export function ProposalAnalyticsTab({
   const [heatmap, setHeatmap] = useState<SlideHeatmapItem[]>([])
   const [sessions, setSessions] = useState<ViewerSession[]>([])
   const [isLive, setIsLive] = useState(false)
+  const [engagement, setEngagement] = useState<EngagementScore | null>(null)
   const [expandedSession, setExpandedSession] = useState<string | null>(null)
   const [selectedSlide, setSelectedSlide] = useState<SlideHeatmapItem | null>(null)
 
   const loadData = useCallback(async () => {
     setLoading(true)
-    const [overviewData, heatmapData, sessionData, live] = await Promise.all([
+    const [overviewData, heatmapData, sessionData, live, engagementData] = await Promise.all([
       getProposalAnalytics(proposalId, totalSlideCount),
       getSlideHeatmapData(proposalId),
       getViewerSessions(proposalId, totalSlideCount),
       hasRecentViewer(proposalId),
+      getProposalEngagement(proposalId),
     ])
     setOverview(overviewData)
+    setEngagement(engagementData)
     setHeatmap(heatmapData)
     setSessions(sessionData)
     setIsLive(live)
@@ -353,6 +359,17 @@ export function ProposalAnalyticsTab({
         />
       </div>
 
+      {/* ── Engagement Score ── */}
+      {engagement && (
+        <div className="flex flex-wrap items-center gap-3 rounded-2xl border border-gray-100 bg-white px-6 py-4">
+          <span className="text-sm font-heading font-semibold uppercase tracking-wider text-gray-400">
+            Engagement
+          </span>
+          <EngagementScorePill score={engagement.score} />
+          <EngagementSignals engagement={engagement} />
+        </div>
+      )}
+
       {/* ── Slide Heatmap ── */}
       {mergedHeatmap.length > 0 && (
         <div className="rounded-2xl border border-gray-100 bg-white p-6">
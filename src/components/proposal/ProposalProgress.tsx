@@ -6,8 +6,9 @@ const STEPS = [
   { number: 3, label: 'Transcript' },
   { number: 4, label: 'Summary' },
   { number: 5, label: 'Discussion Areas' },
-  { number: 6, label: 'Customise' },
-  { number: 7, label: 'Preview' },
+  { number: 6, label: 'Fees' },
+  { number: 7, label: 'Customise' },
+  { number: 8, label: 'Preview' },
 ]
 
 interface ProposalProgressProps {
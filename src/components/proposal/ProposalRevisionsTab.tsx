@@ -0,0 +1,222 @@
+import { useEffect, useMemo, useState } from 'react'
+import { ArrowRight, FileDown, GitCompare, History, Loader2, RotateCcw } from 'lucide-react'
+import { useAuth } from '../../lib/auth'
+import { REVISION_REASON_LABELS, diffRevisions, getProposalRevisions, restoreRevision } from '../../lib/revisions'
+import { useToast } from '../ui/Toast'
+import type { Proposal, ProposalRevision, RevisionReason } from '../../types'
+
+interface ProposalRevisionsTabProps {
+  proposal: Proposal
+  onProposalUpdate: (updates: Partial<Proposal>) => void
+  onActivity: () => void
+}
+
+function formatDateTime(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+const REASON_STYLES: Record<RevisionReason, string> = {
+  saved: 'bg-hoxton-grey text-hoxton-deep',
+  generated: 'bg-hoxton-turquoise/10 text-hoxton-turquoise',
+  restored: 'bg-amber-100 text-amber-700',
+}
+
+export function ProposalRevisionsTab({ proposal, onProposalUpdate, onActivity }: ProposalRevisionsTabProps) {
+  const { user, profile } = useAuth()
+  const { addToast } = useToast()
+
+  const [revisions, setRevisions] = useState<ProposalRevision[] | null>(null)
+  const [fromId, setFromId] = useState<string | null>(null)
+  const [toId, setToId] = useState<string | null>(null)
+  const [restoring, setRestoring] = useState<string | null>(null)
+
+  const canRestore =
+    (proposal.created_by === user?.id || profile?.role === 'system_admin') &&
+    proposal.status !== 'pending_approval'
+
+  useEffect(() => {
+    getProposalRevisions(proposal.id).then(setRevisions)
+  }, [proposal.id])
+
+  // Default comparison: the previous revision against the latest
+  const latest = revisions?.[0] ?? null
+  const from = revisions?.find((r) => r.id === fromId) ?? revisions?.[1] ?? null
+  const to = revisions?.find((r) => r.id === toId) ?? latest
+
+  const changes = useMemo(() => (from && to ? diffRevisions(from, to) : []), [from, to])
+  const sections = [...new Set(changes.map((c) => c.section))]
+
+  async function handleRestore(revision: ProposalRevision) {
+    if (!user) return
+    if (!confirm(`Restore revision ${revision.revision_number} as the current draft?`)) return
+    setRestoring(revision.id)
+    const result = await restoreRevision(revision, user.id)
+    if (result.error) {
+      addToast('error', `Failed to restore: ${result.error}`)
+    } else {
+      onProposalUpdate({
+        summary_context: revision.summary_context ?? proposal.summary_context,
+        selected_products: revision.selected_products,
+        disabled_slides: revision.disabled_slides,
+        slide_overrides: null,
+        editable_fields_data: revision.editable_fields_data,
+        fee_data: revision.fee_data ?? {},
+        pdf_path: revision.pdf_path ?? undefined,
+        status: 'draft',
+      })
+      setFromId(null)
+      setToId(null)
+      setRevisions(await getProposalRevisions(proposal.id))
+      addToast('success', `Revision ${revision.revision_number} restored as draft`)
+      onActivity()
+    }
+    setRestoring(null)
+  }
+
+  if (revisions === null) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="h-6 w-6 animate-spin text-hoxton-turquoise" />
+      </div>
+    )
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="rounded-2xl border border-gray-100 bg-white px-6 py-16 text-center">
+        <History className="mx-auto mb-3 h-10 w-10 text-gray-300" />
+        <p className="font-heading font-medium text-hoxton-deep">No revisions yet</p>
+        <p className="mt-1 text-sm font-body text-gray-400">
+          A revision is recorded each time the proposal is saved or a PDF is generated.
+        </p>
+      </div>
+    )
+  }
+
+  const selectClass =
+    'rounded-lg border border-gray-200 px-3 py-2 text-sm font-body text-hoxton-deep focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise'
+
+  return (
+    <div className="grid grid-cols-1 gap-6 lg:grid-cols-[320px_1fr]">
+      {/* Timeline */}
+      <div className="rounded-2xl border border-gray-100 bg-white">
+        <div className="border-b border-gray-50 px-6 py-3">
+          <h3 className="text-sm font-heading font-semibold text-hoxton-deep">Revision History</h3>
+        </div>
+        <ol className="divide-y divide-gray-50">
+          {revisions.map((rev) => {
+            const restoredFrom = revisions.find((r) => r.id === rev.restored_from)
+            return (
+              <li key={rev.id} className="px-6 py-3">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-heading font-semibold text-hoxton-deep">
+                    Revision {rev.revision_number}
+                  </span>
+                  <span className={`rounded-full px-2 py-px text-[10px] font-heading font-semibold ${REASON_STYLES[rev.reason]}`}>
+                    {REVISION_REASON_LABELS[rev.reason]}
+                  </span>
+                  {rev.id === latest?.id && (
+                    <span className="text-[10px] font-heading font-semibold uppercase text-emerald-600">Current</span>
+                  )}
+                </div>
+                <p className="mt-0.5 text-xs font-body text-gray-400">
+                  {formatDateTime(rev.created_at)}
+                  {rev.author?.full_name ? ` · ${rev.author.full_name}` : ''}
+                  {restoredFrom ? ` · from revision ${restoredFrom.revision_number}` : ''}
+                </p>
+                <div className="mt-2 flex items-center gap-3">
+                  <button
+                    onClick={() => {
+                      setToId(rev.id)
+                      setFromId(revisions[revisions.indexOf(rev) + 1]?.id ?? rev.id)
+                    }}
+                    className="inline-flex items-center gap-1 text-xs font-heading font-medium text-hoxton-turquoise hover:underline"
+                  >
+                    <GitCompare className="h-3 w-3" />
+                    Changes
+                  </button>
+                  {rev.pdf_path && (
+                    <span className="inline-flex items-center gap-1 text-xs font-body text-hoxton-slate">
+                      <FileDown className="h-3 w-3" /> PDF
+                    </span>
+                  )}
+                  {canRestore && rev.id !== latest?.id && (
+                    <button
+                      onClick={() => handleRestore(rev)}
+                      disabled={!!restoring}
+                      className="ml-auto inline-flex items-center gap-1 text-xs font-heading font-medium text-hoxton-slate hover:text-hoxton-deep disabled:opacity-50"
+                    >
+                      {restoring === rev.id ? (
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-3 w-3" />
+                      )}
+                      Restore
+                    </button>
+                  )}
+                </div>
+              </li>
+            )
+          })}
+        </ol>
+      </div>
+
+      {/* Diff */}
+      <div className="rounded-2xl border border-gray-100 bg-white">
+        <div className="flex flex-wrap items-center gap-3 border-b border-gray-50 px-6 py-3">
+          <h3 className="text-sm font-heading font-semibold text-hoxton-deep">Compare</h3>
+          <select value={from?.id ?? ''} onChange={(e) => setFromId(e.target.value)} className={selectClass}>
+            {revisions.map((r) => (
+              <option key={r.id} value={r.id}>Revision {r.revision_number}</option>
+            ))}
+          </select>
+          <ArrowRight className="h-4 w-4 text-gray-400" />
+          <select value={to?.id ?? ''} onChange={(e) => setToId(e.target.value)} className={selectClass}>
+            {revisions.map((r) => (
+              <option key={r.id} value={r.id}>Revision {r.revision_number}</option>
+            ))}
+          </select>
+        </div>
+
+        {changes.length === 0 ? (
+          <p className="px-6 py-12 text-center text-sm font-body text-gray-400">
+            {from?.id === to?.id ? 'Pick two different revisions to compare.' : 'No differences between these revisions.'}
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-50">
+            {sections.map((section) => (
+              <div key={section} className="px-6 py-4">
+                <p className="mb-2 text-xs font-heading font-semibold uppercase tracking-wider text-hoxton-slate">
+                  {section}
+                </p>
+                <div className="space-y-3">
+                  {changes
+                    .filter((c) => c.section === section)
+                    .map((c) => (
+                      <div key={c.label}>
+                        <p className="mb-1 text-sm font-heading font-medium text-hoxton-deep">{c.label}</p>
+                        <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                          <p className="whitespace-pre-wrap break-words rounded-lg bg-red-50 px-3 py-2 text-sm font-body text-red-800">
+                            {c.before || <span className="italic text-red-300">empty</span>}
+                          </p>
+                          <p className="whitespace-pre-wrap break-words rounded-lg bg-emerald-50 px-3 py-2 text-sm font-body text-emerald-800">
+                            {c.after || <span className="italic text-emerald-300">empty</span>}
+                          </p>
+                        </div>
+                      </div>
+                    ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,17 +1,30 @@
 import { useState, useEffect, useCallback } from 'react'
-import { Copy, Link2, Loader2, XCircle, ExternalLink, Send, X } from 'lucide-react'
+import { Copy, Link2, Loader2, XCircle, ExternalLink, Send, X, ShieldAlert, Mail, ChevronDown } from 'lucide-react'
 import { Portal } from '../ui/Portal'
 import { Badge } from '../ui/Badge'
 import { useToast } from '../ui/Toast'
 import { useAuth } from '../../lib/auth'
-import { createProposalLink, revokeProposalLink, getProposalLinks, getViewerUrl } from '../../lib/tracking'
-import type { ProposalLink } from '../../types'
+import { supabase } from '../../lib/supabase'
+import {
+  createProposalLink,
+  revokeProposalLink,
+  getProposalLinks,
+  getViewerUrl,
+  sendProposalEmail,
+} from '../../lib/tracking'
+import { formatLinkExpiry, getEmailTemplates, mergeFields, pickTemplate } from '../../lib/email-templates'
+import type { SendGate } from '../../lib/approvals'
+import type { EmailStatus, EmailTemplate, ProposalLink } from '../../types'
 
 interface SendProposalModalProps {
   onClose: () => void
   proposalId: string
   clientName: string
   clientEmail?: string
+  regionId: string
+  advisorId: string
+  /** Approval state — link creation stays disabled until this allows sending (null while loading) */
+  approvalGate: SendGate | null
 }
 
 function formatDate(dateStr: string): string {
@@ -22,6 +35,12 @@ function formatDate(dateStr: string): string {
   })
 }
 
+const EMAIL_STATUS_LABELS: Record<EmailStatus, { label: string; className: string }> = {
+  sent: { label: 'Emailed', className: 'text-emerald-600' },
+  logged: { label: 'Email logged', className: 'text-amber-600' },
+  failed: { label: 'Email failed', className: 'text-red-500' },
+}
+
 function formatDateTime(dateStr: string): string {
   return new Date(dateStr).toLocaleDateString('en-GB', {
     day: 'numeric',
@@ -31,7 +50,15 @@ function formatDateTime(dateStr: string): string {
   })
 }
 
-export function SendProposalModal({ onClose, proposalId, clientName, clientEmail }: SendProposalModalProps) {
+export function SendProposalModal({
+  onClose,
+  proposalId,
+  clientName,
+  clientEmail,
+  regionId,
+  advisorId,
+  approvalGate,
+}: SendProposalModalProps) {
   const { user } = useAuth()
   const { addToast } = useToast()
 
@@ -46,6 +73,13 @@ export function SendProposalModal({ onClose, proposalId, clientName, clientEmail
   const [loadingLinks, setLoadingLinks] = useState(true)
   const [revokingId, setRevokingId] = useState<string | null>(null)
 
+  // Email invitation
+  const [emailInvite, setEmailInvite] = useState(true)
+  const [showPreview, setShowPreview] = useState(false)
+  const [template, setTemplate] = useState<EmailTemplate | null>(null)
+  const [adviser, setAdviser] = useState<{ full_name: string; email: string } | null>(null)
+  const [emailingId, setEmailingId] = useState<string | null>(null)
+
   const handleEscape = useCallback(
     (e: KeyboardEvent) => {
       if (e.key === 'Escape') onClose()
@@ -63,6 +97,16 @@ export function SendProposalModal({ onClose, proposalId, clientName, clientEmail
     }
   }, [handleEscape])
 
+  useEffect(() => {
+    getEmailTemplates().then((templates) => setTemplate(pickTemplate(templates, regionId)))
+    supabase
+      .from('profiles')
+      .select('full_name, email')
+      .eq('id', advisorId)
+      .maybeSingle()
+      .then(({ data }) => setAdviser(data))
+  }, [regionId, advisorId])
+
   async function fetchLinks() {
     setLoadingLinks(true)
     const data = await getProposalLinks(proposalId)
@@ -70,8 +114,10 @@ export function SendProposalModal({ onClose, proposalId, clientName, clientEmail
     setLoadingLinks(false)
   }
 
+  const canSend = approvalGate?.allowed ?? false
+
   async function handleGenerate() {
-    if (!user || !recipientEmail.trim() || !recipientName.trim()) return
+    if (!user || !canSend || !recipientEmail.trim() || !recipientName.trim()) return
     setGenerating(true)
 
     const result = await createProposalLink(
@@ -89,13 +135,44 @@ export function SendProposalModal({ onClose, proposalId, clientName, clientEmail
       addToast('error', `Failed to create link: ${result.error}`)
     } else {
       setGeneratedLink(result.link)
-      addToast('success', 'Tracking link created')
+      if (emailInvite) {
+        await emailLink(result.data)
+      } else {
+        addToast('success', 'Tracking link created')
+      }
       fetchLinks()
     }
 
     setGenerating(false)
   }
 
+  async function emailLink(link: ProposalLink) {
+    setEmailingId(link.id)
+    const result = await sendProposalEmail(link.id)
+    if (result.status === 'sent') {
+      addToast('success', `Proposal emailed to ${link.recipient_email}`)
+    } else if (result.status === 'logged') {
+      addToast('info', 'Email provider not configured — the message was logged. Copy the link to send it yourself.')
+    } else {
+      addToast('error', `Failed to email link: ${result.error ?? 'unknown error'}`)
+    }
+    setEmailingId(null)
+  }
+
+  async function handleResend(link: ProposalLink) {
+    await emailLink(link)
+    fetchLinks()
+  }
+
+  const previewValues: Record<string, string> = {
+    client_name: clientName,
+    recipient_name: recipientName.trim() || clientName,
+    adviser_name: adviser?.full_name ?? '',
+    adviser_email: adviser?.email ?? '',
+    expiry_date: formatLinkExpiry(expiresAt || null),
+    proposal_link: getViewerUrl('…'),
+  }
+
   async function handleCopy() {
     if (!generatedLink) return
     try {
@@ -156,6 +233,13 @@ export function SendProposalModal({ onClose, proposalId, clientName, clientEmail
           {/* Body */}
           <div className="max-h-[70vh] overflow-y-auto px-6 py-5">
             <div className="space-y-5">
+              {approvalGate && !approvalGate.allowed && (
+                <div className="flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2.5">
+                  <ShieldAlert className="mt-0.5 h-4 w-4 shrink-0 text-amber-600" />
+                  <p className="text-sm font-body text-amber-800">{approvalGate.reason}</p>
+                </div>
+              )}
+
               {/* Generate new link form */}
               <div className="space-y-3">
                 <div>
@@ -207,10 +291,44 @@ export function SendProposalModal({ onClose, proposalId, clientName, clientEmail
                   </div>
                 </div>
 
+                {/* Email invitation */}
+                <div className="rounded-lg border border-gray-100 bg-hoxton-light/40 px-3 py-2.5">
+                  <div className="flex items-center justify-between gap-2">
+                    <label className="flex items-center gap-2 text-sm font-body text-hoxton-deep">
+                      <input
+                        type="checkbox"
+                        checked={emailInvite}
+                        onChange={(e) => setEmailInvite(e.target.checked)}
+                        className="rounded border-gray-300 text-hoxton-turquoise focus:ring-hoxton-turquoise"
+                      />
+                      Email the link to the recipient
+                    </label>
+                    {emailInvite && template && (
+                      <button
+                        onClick={() => setShowPreview(!showPreview)}
+                        className="inline-flex items-center gap-1 text-xs font-heading font-medium text-hoxton-turquoise"
+                      >
+                        Preview
+                        <ChevronDown className={`h-3 w-3 transition-transform ${showPreview ? 'rotate-180' : ''}`} />
+                      </button>
+                    )}
+                  </div>
+                  {emailInvite && showPreview && template && (
+                    <div className="mt-2.5 rounded-lg border border-gray-100 bg-white px-3 py-2.5">
+                      <p className="text-xs font-heading font-semibold text-hoxton-deep">
+                        {mergeFields(template.subject, previewValues)}
+                      </p>
+                      <p className="mt-1.5 whitespace-pre-wrap text-xs font-body leading-relaxed text-hoxton-slate">
+                        {mergeFields(template.body, previewValues)}
+                      </p>
+                    </div>
+                  )}
+                </div>
+
                 {!generatedLink ? (
                   <button
                     onClick={handleGenerate}
-                    disabled={generating || !recipientEmail.trim() || !recipientName.trim()}
+                    disabled={generating || !canSend || !recipientEmail.trim() || !recipientName.trim()}
                     className="inline-flex w-full items-center justify-center gap-2 rounded-lg bg-hoxton-deep px-4 py-2.5 text-sm font-heading font-semibold text-white transition-colors hover:bg-hoxton-deep/90 disabled:opacity-50"
                   >
                     {generating ? (
@@ -218,7 +336,9 @@ export function SendProposalModal({ onClose, proposalId, clientName, clientEmail
                     ) : (
                       <Send className="h-4 w-4" />
                     )}
-                    {generating ? 'Generating...' : 'Generate Tracking Link'}
+                    {generating
+                      ? emailInvite ? 'Sending...' : 'Generating...'
+                      : emailInvite ? 'Create Link & Email' : 'Generate Tracking Link'}
                   </button>
                 ) : (
                   <div className="space-y-2">
@@ -283,6 +403,15 @@ export function SendProposalModal({ onClose, proposalId, clientName, clientEmail
                               </td>
                               <td className="px-3 py-2 text-xs font-body text-hoxton-slate whitespace-nowrap">
                                 {formatDate(link.sent_at)}
+                                {link.email_status && (
+                                  <div
+                                    className={`text-[10px] font-heading font-medium ${EMAIL_STATUS_LABELS[link.email_status].className}`}
+                                    title={link.email_error ?? undefined}
+                                  >
+                                    {EMAIL_STATUS_LABELS[link.email_status].label}
+                                    {link.email_send_count > 1 && ` ×${link.email_send_count}`}
+                                  </div>
+                                )}
                               </td>
                               <td className="px-3 py-2">
                                 <span className="font-heading font-medium text-hoxton-deep">
@@ -314,6 +443,20 @@ export function SendProposalModal({ onClose, proposalId, clientName, clientEmail
                                       <ExternalLink className="h-3.5 w-3.5" />
                                     </button>
                                   )}
+                                  {link.is_active && !isExpired && (
+                                    <button
+                                      onClick={() => handleResend(link)}
+                                      disabled={emailingId === link.id}
+                                      className="rounded p-1 text-hoxton-slate hover:bg-hoxton-grey/50 hover:text-hoxton-deep disabled:opacity-50"
+                                      title={link.email_status ? 'Resend email' : 'Email link'}
+                                    >
+                                      {emailingId === link.id ? (
+                                        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                                      ) : (
+                                        <Mail className="h-3.5 w-3.5" />
+                                      )}
+                                    </button>
+                                  )}
                                   {link.is_active && (
                                     <button
                                       onClick={() => handleRevoke(link.id, link.recipient_name)}
@@ -0,0 +1,267 @@
+import { useState, type Dispatch, type SetStateAction } from 'react'
+import { CheckCircle2, Loader2, MessageSquare, RotateCcw, Send, Trash2 } from 'lucide-react'
+import { useAuth } from '../../lib/auth'
+import { addComment, buildThreads, deleteComment, setCommentResolved } from '../../lib/comments'
+import { useToast } from '../ui/Toast'
+import type { CommentThread, ProposalComment } from '../../types'
+
+interface SlideCommentsProps {
+  proposalId: string
+  slideId: string
+  /** Editable fields on the slide that comments can be pinned to */
+  fields?: { name: string; label: string }[]
+  /** Every comment on the proposal — this component shows the slide's own */
+  comments: ProposalComment[]
+  onCommentsChange: Dispatch<SetStateAction<ProposalComment[]>>
+}
+
+function formatDateTime(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+const inputClass =
+  'w-full rounded-lg border border-gray-200 px-3 py-2 text-sm font-body text-hoxton-deep placeholder:text-gray-300 focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise'
+
+export function SlideComments({ proposalId, slideId, fields = [], comments, onCommentsChange }: SlideCommentsProps) {
+  const { user } = useAuth()
+  const { addToast } = useToast()
+
+  const [body, setBody] = useState('')
+  const [fieldName, setFieldName] = useState('')
+  const [replyTo, setReplyTo] = useState<string | null>(null)
+  const [replyBody, setReplyBody] = useState('')
+  const [busy, setBusy] = useState<string | null>(null)
+
+  const threads = buildThreads(comments.filter((c) => c.slide_id === slideId))
+  const openCount = threads.filter((t) => !t.root.resolved_at).length
+
+  function fieldLabel(name: string): string {
+    return fields.find((f) => f.name === name)?.label ?? name
+  }
+
+  function upsert(comment: ProposalComment) {
+    onCommentsChange((prev) =>
+      prev.some((c) => c.id === comment.id)
+        ? prev.map((c) => (c.id === comment.id ? comment : c))
+        : [...prev, comment]
+    )
+  }
+
+  async function handleAdd(parent?: ProposalComment) {
+    if (!user) return
+    const text = parent ? replyBody : body
+    if (!text.trim()) return
+
+    setBusy(parent ? `reply-${parent.id}` : 'new')
+    const result = await addComment(
+      {
+        proposalId,
+        slideId,
+        fieldName: parent ? parent.field_name : fieldName || null,
+        parentId: parent?.id,
+        body: text,
+      },
+      user.id
+    )
+    if (result.error || !result.comment) {
+      addToast('error', `Failed to add comment: ${result.error}`)
+    } else {
+      upsert(result.comment)
+      if (parent) {
+        setReplyTo(null)
+        setReplyBody('')
+      } else {
+        setBody('')
+      }
+    }
+    setBusy(null)
+  }
+
+  async function handleResolve(thread: CommentThread) {
+    if (!user) return
+    setBusy(`resolve-${thread.root.id}`)
+    const result = await setCommentResolved(thread.root, !thread.root.resolved_at)
+    if (result.error || !result.comment) {
+      addToast('error', `Failed to update comment: ${result.error}`)
+    } else {
+      upsert(result.comment)
+    }
+    setBusy(null)
+  }
+
+  async function handleDelete(comment: ProposalComment) {
+    if (!confirm('Delete this comment?')) return
+    setBusy(`delete-${comment.id}`)
+    const result = await deleteComment(comment)
+    if (result.error) {
+      addToast('error', `Failed to delete comment: ${result.error}`)
+    } else {
+      // Deleting a root removes its replies too (on delete cascade)
+      onCommentsChange((prev) => prev.filter((c) => c.id !== comment.id && c.parent_id !== comment.id))
+    }
+    setBusy(null)
+  }
+
+  function renderComment(comment: ProposalComment) {
+    return (
+      <div key={comment.id} className="group">
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-heading font-semibold text-hoxton-deep">
+            {comment.author?.full_name ?? 'Unknown'}
+          </span>
+          <span className="text-[11px] font-body text-gray-400">{formatDateTime(comment.created_at)}</span>
+          {comment.author_id === user?.id && (
+            <button
+              onClick={() => handleDelete(comment)}
+              disabled={busy === `delete-${comment.id}`}
+              className="ml-auto rounded p-0.5 text-gray-300 opacity-0 transition-opacity hover:text-red-500 group-hover:opacity-100"
+              title="Delete comment"
+            >
+              <Trash2 className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+        <p className="mt-0.5 whitespace-pre-wrap text-sm font-body text-hoxton-deep">{comment.body}</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="rounded-xl border border-gray-100 bg-hoxton-light/40 p-4">
+      <div className="mb-3 flex items-center gap-2">
+        <MessageSquare className="h-4 w-4 text-hoxton-turquoise" />
+        <h4 className="text-xs font-heading font-semibold uppercase tracking-wider text-hoxton-slate">
+          Review Comments
+        </h4>
+        {openCount > 0 && (
+          <span className="rounded-full bg-amber-100 px-2 py-px text-[10px] font-heading font-semibold text-amber-700">
+            {openCount} open
+          </span>
+        )}
+      </div>
+
+      {threads.length > 0 && (
+        <div className="mb-4 space-y-3">
+          {threads.map((thread) => {
+            const resolved = !!thread.root.resolved_at
+            return (
+              <div
+                key={thread.root.id}
+                className={`rounded-lg border bg-white p-3 ${
+                  resolved ? 'border-gray-100 opacity-60' : 'border-amber-200'
+                }`}
+              >
+                <div className="mb-1.5 flex items-center gap-2">
+                  <span className="rounded-full bg-hoxton-grey px-2 py-px text-[10px] font-heading font-medium text-hoxton-deep">
+                    {thread.root.field_name ? fieldLabel(thread.root.field_name) : 'Whole slide'}
+                  </span>
+                  {resolved && (
+                    <span className="inline-flex items-center gap-0.5 text-[11px] font-heading font-medium text-emerald-600">
+                      <CheckCircle2 className="h-3 w-3" /> Resolved
+                    </span>
+                  )}
+                  <button
+                    onClick={() => handleResolve(thread)}
+                    disabled={busy === `resolve-${thread.root.id}`}
+                    className="ml-auto inline-flex items-center gap-1 rounded-md px-2 py-1 text-[11px] font-heading font-medium text-hoxton-slate transition-colors hover:bg-hoxton-light hover:text-hoxton-deep disabled:opacity-50"
+                  >
+                    {busy === `resolve-${thread.root.id}` ? (
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                    ) : resolved ? (
+                      <RotateCcw className="h-3 w-3" />
+                    ) : (
+                      <CheckCircle2 className="h-3 w-3" />
+                    )}
+                    {resolved ? 'Reopen' : 'Resolve'}
+                  </button>
+                </div>
+
+                {renderComment(thread.root)}
+
+                {thread.replies.length > 0 && (
+                  <div className="mt-2 space-y-2 border-l-2 border-gray-100 pl-3">
+                    {thread.replies.map(renderComment)}
+                  </div>
+                )}
+
+                {!resolved && (
+                  replyTo === thread.root.id ? (
+                    <div className="mt-2 flex items-start gap-2">
+                      <textarea
+                        value={replyBody}
+                        onChange={(e) => setReplyBody(e.target.value)}
+                        placeholder="Reply..."
+                        rows={2}
+                        autoFocus
+                        className={inputClass}
+                      />
+                      <button
+                        onClick={() => handleAdd(thread.root)}
+                        disabled={!replyBody.trim() || busy === `reply-${thread.root.id}`}
+                        className="rounded-lg bg-hoxton-turquoise p-2 text-white transition-colors hover:bg-hoxton-turquoise/90 disabled:opacity-50"
+                      >
+                        {busy === `reply-${thread.root.id}` ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Send className="h-4 w-4" />
+                        )}
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => {
+                        setReplyTo(thread.root.id)
+                        setReplyBody('')
+                      }}
+                      className="mt-2 text-[11px] font-heading font-medium text-hoxton-turquoise hover:underline"
+                    >
+                      Reply
+                    </button>
+                  )
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {/* New thread */}
+      <div className="space-y-2">
+        {fields.length > 0 && (
+          <select
+            value={fieldName}
+            onChange={(e) => setFieldName(e.target.value)}
+            className={inputClass}
+          >
+            <option value="">Whole slide</option>
+            {fields.map((f) => (
+              <option key={f.name} value={f.name}>{f.label}</option>
+            ))}
+          </select>
+        )}
+        <div className="flex items-start gap-2">
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Leave a review comment..."
+            rows={2}
+            className={inputClass}
+          />
+          <button
+            onClick={() => handleAdd()}
+            disabled={!body.trim() || busy === 'new'}
+            className="rounded-lg bg-hoxton-turquoise p-2 text-white transition-colors hover:bg-hoxton-turquoise/90 disabled:opacity-50"
+            title="Add comment"
+          >
+            {busy === 'new' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+import type { Dispatch, SetStateAction } from 'react'
+import { X } from 'lucide-react'
+import { Portal } from '../ui/Portal'
+import { SlideComments } from './SlideComments'
+import type { ProposalComment } from '../../types'
+
+export interface ReviewSlide {
+  id: string
+  src: string
+  label: string
+  fields: { name: string; label: string }[]
+}
+
+interface SlideReviewModalProps {
+  proposalId: string
+  slide: ReviewSlide
+  comments: ProposalComment[]
+  onCommentsChange: Dispatch<SetStateAction<ProposalComment[]>>
+  onClose: () => void
+}
+
+export function SlideReviewModal({ proposalId, slide, comments, onCommentsChange, onClose }: SlideReviewModalProps) {
+  return (
+    <Portal>
+      <div
+        className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4 backdrop-blur-sm"
+        onClick={onClose}
+      >
+        <div
+          className="relative flex max-h-[90vh] w-full max-w-5xl flex-col rounded-2xl bg-white shadow-2xl"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between border-b border-gray-100 px-6 py-4">
+            <div>
+              <h2 className="text-lg font-heading font-semibold text-hoxton-deep">{slide.label}</h2>
+              <p className="text-xs font-body text-gray-400">{slide.id}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="rounded-lg p-1.5 text-gray-400 transition-colors hover:bg-gray-100 hover:text-gray-600"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          {/* Body */}
+          <div className="flex flex-1 gap-6 overflow-y-auto px-6 py-5">
+            <div className="min-w-0 flex-[3]">
+              <div className="aspect-video overflow-hidden rounded-lg border border-gray-200 bg-gray-50">
+                <img src={slide.src} alt={slide.label} className="h-full w-full object-contain" />
+              </div>
+            </div>
+            <div className="min-w-0 flex-[2]">
+              <SlideComments
+                proposalId={proposalId}
+                slideId={slide.id}
+                fields={slide.fields}
+                comments={comments}
+                onCommentsChange={onCommentsChange}
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+    </Portal>
+  )
+}
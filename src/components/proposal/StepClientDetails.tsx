@@ -2,9 +2,26 @@ import { useEffect, useState } from 'react'
 import { Search, Loader2, CheckCircle, AlertCircle, X, Lock } from 'lucide-react'
 import { supabase } from '../../lib/supabase'
 import { useAuth } from '../../lib/auth'
-import { lookupClient } from '../../lib/client-lookup'
+import {
+  ClientDirectoryError,
+  lookupClient,
+  searchClients,
+  toClientDetails,
+  type ClientRecord,
+} from '../../lib/client-lookup'
+import { logger } from '../../lib/logger'
 import type { ProposalDraft, Profile } from '../../types'
 
+type LookupMode = 'hxt' | 'name'
+
+const DETAIL_ROWS: { key: keyof ProposalDraft['clientDetails']; label: string }[] = [
+  { key: 'dob', label: 'Date of Birth' },
+  { key: 'nationality', label: 'Nationality' },
+  { key: 'address', label: 'Address' },
+  { key: 'employer', label: 'Employer' },
+  { key: 'riskProfile', label: 'Risk Profile' },
+]
+
 interface StepClientDetailsProps {
   draft: ProposalDraft
   updateDraft: (updates: Partial<ProposalDraft>) => void
@@ -14,10 +31,14 @@ interface StepClientDetailsProps {
 export function StepClientDetails({ draft, updateDraft, locked }: StepClientDetailsProps) {
   const { profile } = useAuth()
   const [advisors, setAdvisors] = useState<Pick<Profile, 'id' | 'full_name' | 'email'>[]>([])
+  const [mode, setMode] = useState<LookupMode>('hxt')
   const [hxtInput, setHxtInput] = useState(draft.hxtNumber)
+  const [nameInput, setNameInput] = useState('')
   const [looking, setLooking] = useState(false)
   const [found, setFound] = useState(draft.clientName !== '')
   const [notFound, setNotFound] = useState(false)
+  const [lookupError, setLookupError] = useState<string | null>(null)
+  const [results, setResults] = useState<ClientRecord[] | null>(null)
 
   const canDelegate = profile?.role === 'planner_admin' || profile?.role === 'power_planner'
 
@@ -35,34 +56,72 @@ export function StepClientDetails({ draft, updateDraft, locked }: StepClientDeta
     fetchAdvisors()
   }, [canDelegate, profile])
 
+  function selectClient(client: ClientRecord) {
+    updateDraft({
+      hxtNumber: client.hxtNumber,
+      clientName: client.name,
+      clientEmail: client.email,
+      clientDetails: toClientDetails(client),
+    })
+    setHxtInput(client.hxtNumber)
+    setResults(null)
+    setFound(true)
+  }
+
   async function handleLookup() {
-    if (!hxtInput.trim()) return
+    const query = mode === 'hxt' ? hxtInput.trim() : nameInput.trim()
+    if (!query) return
     setLooking(true)
     setNotFound(false)
+    setLookupError(null)
+    setResults(null)
 
-    const client = await lookupClient(hxtInput)
-
-    if (client) {
-      updateDraft({
-        hxtNumber: client.hxtNumber,
-        clientName: client.name,
-        clientEmail: client.email,
-      })
-      setHxtInput(client.hxtNumber)
-      setFound(true)
-    } else {
-      setNotFound(true)
-      setFound(false)
+    try {
+      if (mode === 'hxt') {
+        const client = await lookupClient(query)
+        if (client) {
+          selectClient(client)
+        } else {
+          setNotFound(true)
+          setFound(false)
+        }
+      } else {
+        const matches = await searchClients(query)
+        if (matches.length === 1) {
+          selectClient(matches[0])
+        } else if (matches.length > 1) {
+          setResults(matches)
+        } else {
+          setNotFound(true)
+        }
+      }
+    } catch (err) {
+      logger.error('[ClientLookup] Lookup failed:', err)
+      setLookupError(
+        err instanceof ClientDirectoryError
+          ? err.message
+          : 'Client directory is unavailable — please try again shortly'
+      )
     }
 
     setLooking(false)
   }
 
+  function handleModeChange(next: LookupMode) {
+    setMode(next)
+    setNotFound(false)
+    setLookupError(null)
+    setResults(null)
+  }
+
   function handleClear() {
     setFound(false)
     setNotFound(false)
+    setLookupError(null)
+    setResults(null)
     setHxtInput('')
-    updateDraft({ hxtNumber: '', clientName: '', clientEmail: '' })
+    setNameInput('')
+    updateDraft({ hxtNumber: '', clientName: '', clientEmail: '', clientDetails: {} })
   }
 
   function handleKeyDown(e: React.KeyboardEvent) {
@@ -129,35 +188,51 @@ export function StepClientDetails({ draft, updateDraft, locked }: StepClientDeta
         Client Details
       </h2>
       <p className="mt-1 mb-6 text-sm font-body text-hoxton-slate">
-        Look up the client by their HXT reference number
+        Look up the client by their HXT reference number or name
       </p>
 
       <div className="space-y-5">
-        {/* HXT Lookup */}
+        {/* Client Lookup */}
         {!found ? (
           <div className="space-y-1.5">
+            <div className="mb-3 inline-flex rounded-xl border border-hoxton-grey bg-hoxton-light p-1">
+              {(['hxt', 'name'] as const).map((m) => (
+                <button
+                  key={m}
+                  onClick={() => handleModeChange(m)}
+                  className={`rounded-lg px-3.5 py-1.5 text-xs font-heading font-semibold transition-colors ${
+                    mode === m
+                      ? 'bg-white text-hoxton-deep shadow-sm'
+                      : 'text-hoxton-slate hover:text-hoxton-deep'
+                  }`}
+                >
+                  {m === 'hxt' ? 'HXT Reference' : 'Client Name'}
+                </button>
+              ))}
+            </div>
             <label
-              htmlFor="hxtNumber"
+              htmlFor="clientLookup"
               className="block text-sm font-heading font-medium text-hoxton-deep"
             >
-              HXT Reference <span className="text-red-500">*</span>
+              {mode === 'hxt' ? 'HXT Reference' : 'Client Name'} <span className="text-red-500">*</span>
             </label>
             <div className="flex gap-2">
               <input
-                id="hxtNumber"
+                id="clientLookup"
                 type="text"
-                value={hxtInput}
+                value={mode === 'hxt' ? hxtInput : nameInput}
                 onChange={(e) => {
-                  setHxtInput(e.target.value)
+                  if (mode === 'hxt') setHxtInput(e.target.value)
+                  else setNameInput(e.target.value)
                   setNotFound(false)
                 }}
                 onKeyDown={handleKeyDown}
-                placeholder="e.g. HXT-10472"
+                placeholder={mode === 'hxt' ? 'e.g. HXT-10472' : 'e.g. Mitchell'}
                 className="flex-1 rounded-xl border border-hoxton-grey bg-hoxton-light px-4 py-3 text-sm font-body text-hoxton-deep placeholder:text-hoxton-slate/50 focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise"
               />
               <button
                 onClick={handleLookup}
-                disabled={!hxtInput.trim() || looking}
+                disabled={!(mode === 'hxt' ? hxtInput : nameInput).trim() || looking}
                 className="inline-flex items-center gap-2 rounded-xl bg-hoxton-turquoise px-5 py-3 text-sm font-heading font-semibold text-white transition-colors hover:bg-hoxton-turquoise/90 disabled:cursor-not-allowed disabled:opacity-50"
               >
                 {looking ? (
@@ -173,10 +248,44 @@ export function StepClientDetails({ draft, updateDraft, locked }: StepClientDeta
               <div className="flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 px-4 py-3">
                 <AlertCircle className="h-4 w-4 shrink-0 text-red-500" />
                 <span className="text-sm font-body text-red-700">
-                  Client not found — check the HXT reference number
+                  {mode === 'hxt'
+                    ? 'Client not found — check the HXT reference number'
+                    : 'No clients match that name'}
                 </span>
               </div>
             )}
+
+            {lookupError && (
+              <div className="flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 px-4 py-3">
+                <AlertCircle className="h-4 w-4 shrink-0 text-red-500" />
+                <span className="text-sm font-body text-red-700">{lookupError}</span>
+              </div>
+            )}
+
+            {/* Name search results */}
+            {results && results.length > 0 && (
+              <div className="mt-2 divide-y divide-hoxton-grey/60 overflow-hidden rounded-xl border border-hoxton-grey">
+                {results.map((client) => (
+                  <button
+                    key={client.hxtNumber}
+                    onClick={() => selectClient(client)}
+                    className="flex w-full items-center justify-between gap-3 bg-white px-4 py-3 text-left transition-colors hover:bg-hoxton-light"
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-heading font-semibold text-hoxton-deep">
+                        {client.name}
+                      </p>
+                      <p className="truncate text-xs font-body text-hoxton-slate">
+                        {client.email}
+                      </p>
+                    </div>
+                    <span className="shrink-0 text-xs font-heading font-medium text-hoxton-slate">
+                      {client.hxtNumber}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         ) : (
           /* Found client card */
@@ -222,6 +331,16 @@ export function StepClientDetails({ draft, updateDraft, locked }: StepClientDeta
                   {draft.clientEmail}
                 </p>
               </div>
+              {DETAIL_ROWS.filter((row) => draft.clientDetails[row.key]).map((row) => (
+                <div key={row.key}>
+                  <span className="text-xs font-heading font-medium text-emerald-700/70">
+                    {row.label}
+                  </span>
+                  <p className="text-sm font-body text-hoxton-deep">
+                    {draft.clientDetails[row.key]}
+                  </p>
+                </div>
+              ))}
             </div>
           </div>
         )}
@@ -1,13 +1,25 @@
-import { useState, useEffect, useMemo } from 'react'
-import { Loader2, Pencil, ChevronRight, Check } from 'lucide-react'
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { Loader2, Pencil, ChevronRight, Check, MessageSquare, Upload, X } from 'lucide-react'
 import { supabase } from '../../lib/supabase'
-import { getSlideUrl } from '../../lib/storage'
-import { REGIONS, PRODUCT_MODULES } from '../../lib/constants'
-import type { ProposalDraft, EditableFieldDef, EditableFieldsData } from '../../types'
+import { useAuth } from '../../lib/auth'
+import { getSlideUrl, isAdhocPath } from '../../lib/storage'
+import { signAdhocPaths, uploadCustomSlideImage } from '../../lib/custom-slides'
+import { fieldImageUrl, regionFormat } from '../../lib/field-values'
+import { autoFillFieldValue, buildAutoFillContext, getAdviserDetails } from '../../lib/autofill'
+import { useCatalog } from '../../hooks/useCatalog'
+import { findActivePack } from '../../lib/packs'
+import { localeFallbacks, pickLocaleRows } from '../../lib/locales'
+import { findRegion, selectedModules as pickModules } from '../../lib/catalog'
+import { countOpenThreads, getProposalComments } from '../../lib/comments'
+import { SlideComments } from './SlideComments'
+import { RichTextEditor } from '../ui/RichText'
+import type { ProposalDraft, EditableFieldDef, EditableFieldsData, ProposalComment } from '../../types'
 
 interface StepCustomiseSlidesProps {
   draft: ProposalDraft
   updateDraft: (updates: Partial<ProposalDraft>) => void
+  /** Set once the draft has been saved — review comments need a proposal to attach to */
+  proposalId: string | null
 }
 
 interface EditableSlide {
@@ -18,15 +30,16 @@ interface EditableSlide {
   fields: EditableFieldDef[]
 }
 
-export function StepCustomiseSlides({ draft, updateDraft }: StepCustomiseSlidesProps) {
+export function StepCustomiseSlides({ draft, updateDraft, proposalId }: StepCustomiseSlidesProps) {
   const [loading, setLoading] = useState(true)
   const [editableSlides, setEditableSlides] = useState<EditableSlide[]>([])
   const [expandedSlide, setExpandedSlide] = useState<string | null>(null)
+  const [comments, setComments] = useState<ProposalComment[]>([])
 
-  const region = REGIONS.find((r) => r.id === draft.regionId)
-  const selectedModules = PRODUCT_MODULES.filter((p) =>
-    draft.selectedProducts.includes(p.id)
-  )
+  const { user } = useAuth()
+  const catalog = useCatalog()
+  const region = findRegion(catalog, draft.regionId)
+  const selectedModules = pickModules(catalog, draft.selectedProducts)
 
   // Fetch editable field definitions from the DB
   useEffect(() => {
@@ -36,12 +49,7 @@ export function StepCustomiseSlides({ draft, updateDraft }: StepCustomiseSlidesP
 
       // 1. Fetch intro slides with editable fields
       if (region) {
-        const { data: introPack } = await supabase
-          .from('intro_packs')
-          .select('id')
-          .eq('region_id', draft.regionId)
-          .eq('is_active', true)
-          .single()
+        const introPack = await findActivePack('intro', draft.regionId, draft.locale)
 
         if (introPack) {
           const { data: introSlides } = await supabase
@@ -69,14 +77,15 @@ export function StepCustomiseSlides({ draft, updateDraft }: StepCustomiseSlidesP
 
       // 2. Fetch product slides with editable fields
       for (const mod of selectedModules) {
-        const { data: productSlides } = await supabase
+        const { data: productRows } = await supabase
           .from('product_slides')
           .select('*')
           .eq('module_id', mod.id)
+          .in('locale', localeFallbacks(draft.locale))
           .order('slide_number')
 
-        if (productSlides) {
-          for (const s of productSlides) {
+        if (productRows) {
+          for (const s of pickLocaleRows(productRows, draft.locale)) {
             const fields = Array.isArray(s.editable_fields) ? s.editable_fields as EditableFieldDef[] : []
             if (fields.length > 0) {
               slides.push({
@@ -97,6 +106,9 @@ export function StepCustomiseSlides({ draft, updateDraft }: StepCustomiseSlidesP
       }
 
       // Auto-fill fields that have autoFill configured
+      const advisorId = draft.advisorId ?? user?.id
+      const adviser = advisorId ? await getAdviserDetails(advisorId) : null
+      const autoFillContext = buildAutoFillContext(draft, region?.display ?? '', adviser)
       const currentData = { ...draft.editableFieldsData }
       let updated = false
       for (const slide of slides) {
@@ -105,7 +117,7 @@ export function StepCustomiseSlides({ draft, updateDraft }: StepCustomiseSlidesP
         }
         for (const field of slide.fields) {
           if (field.autoFill && !currentData[slide.slideId][field.name]) {
-            const value = getAutoFillValue(field.autoFill, draft)
+            const value = autoFillFieldValue(field, autoFillContext, draft.regionId)
             if (value) {
               currentData[slide.slideId][field.name] = value
               updated = true
@@ -121,7 +133,12 @@ export function StepCustomiseSlides({ draft, updateDraft }: StepCustomiseSlidesP
     }
 
     fetchEditableFields()
-  }, [draft.regionId, draft.selectedProducts.join(',')])
+  }, [draft.regionId, draft.locale, draft.selectedProducts.join(','), catalog])
+
+  useEffect(() => {
+    if (!proposalId) return
+    getProposalComments(proposalId).then(setComments)
+  }, [proposalId])
 
   function handleFieldChange(slideId: string, fieldName: string, value: string) {
     const newData: EditableFieldsData = {
@@ -138,6 +155,12 @@ export function StepCustomiseSlides({ draft, updateDraft }: StepCustomiseSlidesP
     return draft.editableFieldsData[slideId]?.[fieldName] || ''
   }
 
+  function fieldOpenComments(slideId: string, fieldName: string): number {
+    return comments.filter(
+      (c) => c.slide_id === slideId && c.field_name === fieldName && !c.parent_id && !c.resolved_at
+    ).length
+  }
+
   // Group slides by section
   const sections = useMemo(() => {
     const groups: { name: string; slides: EditableSlide[] }[] = []
@@ -157,6 +180,7 @@ export function StepCustomiseSlides({ draft, updateDraft }: StepCustomiseSlidesP
   const filledFields = editableSlides.reduce((sum, s) => {
     return sum + s.fields.filter((f) => getFieldValue(s.slideId, f.name).trim().length > 0).length
   }, 0)
+  const openComments = countOpenThreads(comments)
 
   if (loading) {
     return (
@@ -219,6 +243,16 @@ export function StepCustomiseSlides({ draft, updateDraft }: StepCustomiseSlidesP
         </div>
       </div>
 
+      {openComments > 0 && (
+        <div className="mb-6 flex items-center gap-2 rounded-2xl border border-amber-200 bg-amber-50 px-6 py-3">
+          <MessageSquare className="h-4 w-4 shrink-0 text-amber-600" />
+          <p className="text-sm font-body text-amber-800">
+            {openComments} review comment{openComments !== 1 ? 's' : ''} still open — the proposal can't be
+            approved until {openComments !== 1 ? 'they are' : 'it is'} resolved.
+          </p>
+        </div>
+      )}
+
       {/* Sections with slides */}
       <div className="space-y-4">
         {sections.map((section) => (
@@ -236,6 +270,7 @@ export function StepCustomiseSlides({ draft, updateDraft }: StepCustomiseSlidesP
                   (f) => getFieldValue(slide.slideId, f.name).trim().length > 0
                 ).length
                 const allFilled = slideFieldsFilled === slide.fields.length
+                const slideOpenComments = countOpenThreads(comments, slide.slideId)
 
                 return (
                   <div key={slide.slideId}>
@@ -265,6 +300,12 @@ export function StepCustomiseSlides({ draft, updateDraft }: StepCustomiseSlidesP
                         </p>
                       </div>
                       <div className="flex items-center gap-2">
+                        {slideOpenComments > 0 && (
+                          <span className="inline-flex items-center gap-1 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-heading font-semibold text-amber-700">
+                            <MessageSquare className="h-3 w-3" />
+                            {slideOpenComments}
+                          </span>
+                        )}
                         <span className={`rounded-full px-2 py-0.5 text-xs font-heading font-semibold ${
                           allFilled
                             ? 'bg-emerald-50 text-emerald-600'
@@ -280,83 +321,157 @@ export function StepCustomiseSlides({ draft, updateDraft }: StepCustomiseSlidesP
 
                     {/* Expanded: fields form + preview */}
                     {isExpanded && (
-                      <div className="flex gap-6 border-t border-gray-100 px-6 py-5">
-                        {/* Left — slide preview */}
-                        <div className="w-[280px] shrink-0">
-                          <div className="relative overflow-hidden rounded-lg border border-gray-200 bg-gray-50">
-                            <div className="aspect-video">
-                              <img
-                                src={getSlideUrl(slide.imagePath)}
-                                alt={slide.slideLabel}
-                                className="h-full w-full object-contain"
-                              />
-                              {/* Overlay showing field positions */}
-                              {slide.fields.map((field) => (
-                                <div
-                                  key={field.id}
-                                  className="absolute border border-hoxton-turquoise/40 bg-hoxton-turquoise/10"
-                                  style={{
-                                    left: `${field.x}%`,
-                                    top: `${field.y}%`,
-                                    width: `${field.width}%`,
-                                    height: `${field.height}%`,
-                                  }}
-                                >
-                                  <span className="absolute left-0 top-0 bg-hoxton-turquoise px-1 py-px text-[8px] font-heading font-semibold text-white">
-                                    {field.label}
-                                  </span>
-                                </div>
-                              ))}
+                      <div className="border-t border-gray-100 px-6 py-5">
+                        <div className="flex gap-6">
+                          {/* Left — slide preview */}
+                          <div className="w-[280px] shrink-0">
+                            <div className="relative overflow-hidden rounded-lg border border-gray-200 bg-gray-50">
+                              <div className="aspect-video">
+                                <img
+                                  src={getSlideUrl(slide.imagePath)}
+                                  alt={slide.slideLabel}
+                                  className="h-full w-full object-contain"
+                                />
+                                {/* Overlay showing field positions */}
+                                {slide.fields.map((field) => (
+                                  <div
+                                    key={field.id}
+                                    className="absolute border border-hoxton-turquoise/40 bg-hoxton-turquoise/10"
+                                    style={{
+                                      left: `${field.x}%`,
+                                      top: `${field.y}%`,
+                                      width: `${field.width}%`,
+                                      height: `${field.height}%`,
+                                    }}
+                                  >
+                                    <span className="absolute left-0 top-0 bg-hoxton-turquoise px-1 py-px text-[8px] font-heading font-semibold text-white">
+                                      {field.label}
+                                    </span>
+                                  </div>
+                                ))}
+                              </div>
                             </div>
                           </div>
-                        </div>
 
-                        {/* Right — field inputs */}
-                        <div className="flex-1 space-y-4">
-                          {slide.fields.map((field) => (
-                            <div key={field.id}>
-                              <label className="mb-1.5 flex items-center gap-1.5 text-sm font-heading font-medium text-hoxton-deep">
-                                <Pencil className="h-3 w-3 text-hoxton-turquoise" />
-                                {field.label}
-                                {field.autoFill && (
-                                  <span className="rounded-full bg-hoxton-turquoise/10 px-2 py-px text-[10px] font-heading font-semibold text-hoxton-turquoise">
-                                    Auto-filled
-                                  </span>
+                          {/* Right — field inputs */}
+                          <div className="flex-1 space-y-4">
+                            {slide.fields.map((field) => (
+                              <div key={field.id}>
+                                <label className="mb-1.5 flex items-center gap-1.5 text-sm font-heading font-medium text-hoxton-deep">
+                                  <Pencil className="h-3 w-3 text-hoxton-turquoise" />
+                                  {field.label}
+                                  {field.autoFill && (
+                                    <span className="rounded-full bg-hoxton-turquoise/10 px-2 py-px text-[10px] font-heading font-semibold text-hoxton-turquoise">
+                                      Auto-filled
+                                    </span>
+                                  )}
+                                  {fieldOpenComments(slide.slideId, field.name) > 0 && (
+                                    <span className="inline-flex items-center gap-0.5 rounded-full bg-amber-100 px-2 py-px text-[10px] font-heading font-semibold text-amber-700">
+                                      <MessageSquare className="h-2.5 w-2.5" />
+                                      {fieldOpenComments(slide.slideId, field.name)} open
+                                    </span>
+                                  )}
+                                </label>
+
+                                {field.type === 'text' && (
+                                  <input
+                                    type="text"
+                                    value={getFieldValue(slide.slideId, field.name)}
+                                    onChange={(e) => handleFieldChange(slide.slideId, field.name, e.target.value)}
+                                    placeholder={`Enter ${field.label.toLowerCase()}...`}
+                                    className="w-full rounded-lg border border-gray-200 px-3 py-2.5 text-sm font-body text-hoxton-deep placeholder:text-gray-300 focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise"
+                                  />
                                 )}
-                              </label>
-
-                              {field.type === 'text' && (
-                                <input
-                                  type="text"
-                                  value={getFieldValue(slide.slideId, field.name)}
-                                  onChange={(e) => handleFieldChange(slide.slideId, field.name, e.target.value)}
-                                  placeholder={`Enter ${field.label.toLowerCase()}...`}
-                                  className="w-full rounded-lg border border-gray-200 px-3 py-2.5 text-sm font-body text-hoxton-deep placeholder:text-gray-300 focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise"
-                                />
-                              )}
-
-                              {field.type === 'textarea' && (
-                                <textarea
-                                  value={getFieldValue(slide.slideId, field.name)}
-                                  onChange={(e) => handleFieldChange(slide.slideId, field.name, e.target.value)}
-                                  placeholder={`Enter ${field.label.toLowerCase()}...`}
-                                  rows={4}
-                                  className="w-full rounded-lg border border-gray-200 px-3 py-2.5 text-sm font-body text-hoxton-deep placeholder:text-gray-300 focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise"
-                                />
-                              )}
-
-                              {field.type === 'table' && (
-                                <textarea
-                                  value={getFieldValue(slide.slideId, field.name)}
-                                  onChange={(e) => handleFieldChange(slide.slideId, field.name, e.target.value)}
-                                  placeholder="Enter table data (one row per line, columns separated by | )"
-                                  rows={6}
-                                  className="w-full rounded-lg border border-gray-200 px-3 py-2.5 font-mono text-sm text-hoxton-deep placeholder:text-gray-300 focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise"
-                                />
-                              )}
-                            </div>
-                          ))}
+
+                                {field.type === 'textarea' && field.richText && (
+                                  <RichTextEditor
+                                    value={getFieldValue(slide.slideId, field.name)}
+                                    onChange={(value) => handleFieldChange(slide.slideId, field.name, value)}
+                                    placeholder={`Enter ${field.label.toLowerCase()}...`}
+                                  />
+                                )}
+
+                                {field.type === 'textarea' && !field.richText && (
+                                  <textarea
+                                    value={getFieldValue(slide.slideId, field.name)}
+                                    onChange={(e) => handleFieldChange(slide.slideId, field.name, e.target.value)}
+                                    placeholder={`Enter ${field.label.toLowerCase()}...`}
+                                    rows={4}
+                                    className="w-full rounded-lg border border-gray-200 px-3 py-2.5 text-sm font-body text-hoxton-deep placeholder:text-gray-300 focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise"
+                                  />
+                                )}
+
+                                {field.type === 'table' && (
+                                  <textarea
+                                    value={getFieldValue(slide.slideId, field.name)}
+                                    onChange={(e) => handleFieldChange(slide.slideId, field.name, e.target.value)}
+                                    placeholder="Enter table data (one row per line, columns separated by | )"
+                                    rows={6}
+                                    className="w-full rounded-lg border border-gray-200 px-3 py-2.5 font-mono text-sm text-hoxton-deep placeholder:text-gray-300 focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise"
+                                  />
+                                )}
+
+                                {field.type === 'date' && (
+                                  <input
+                                    type="date"
+                                    value={getFieldValue(slide.slideId, field.name)}
+                                    onChange={(e) => handleFieldChange(slide.slideId, field.name, e.target.value)}
+                                    className="w-full rounded-lg border border-gray-200 px-3 py-2.5 text-sm font-body text-hoxton-deep focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise"
+                                  />
+                                )}
+
+                                {field.type === 'currency' && (
+                                  <div className="relative">
+                                    <input
+                                      type="number"
+                                      step="any"
+                                      value={getFieldValue(slide.slideId, field.name)}
+                                      onChange={(e) => handleFieldChange(slide.slideId, field.name, e.target.value)}
+                                      placeholder="0"
+                                      className="w-full rounded-lg border border-gray-200 py-2.5 pl-3 pr-14 text-sm font-body text-hoxton-deep placeholder:text-gray-300 focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise"
+                                    />
+                                    <span className="pointer-events-none absolute right-3 top-1/2 -translate-y-1/2 text-xs font-heading font-semibold text-gray-400">
+                                      {field.currency ?? regionFormat(draft.regionId).currency}
+                                    </span>
+                                  </div>
+                                )}
+
+                                {field.type === 'checkbox' && (
+                                  <label className="flex items-center gap-2 text-sm font-body text-hoxton-slate">
+                                    <input
+                                      type="checkbox"
+                                      checked={getFieldValue(slide.slideId, field.name) === 'true'}
+                                      onChange={(e) =>
+                                        handleFieldChange(slide.slideId, field.name, e.target.checked ? 'true' : '')
+                                      }
+                                      className="rounded border-gray-300 text-hoxton-turquoise focus:ring-hoxton-turquoise"
+                                    />
+                                    Show a tick on the slide
+                                  </label>
+                                )}
+
+                                {field.type === 'image' && (
+                                  <ImageFieldInput
+                                    value={getFieldValue(slide.slideId, field.name)}
+                                    onChange={(value) => handleFieldChange(slide.slideId, field.name, value)}
+                                  />
+                                )}
+                              </div>
+                            ))}
+                          </div>
                         </div>
+
+                        {proposalId && (
+                          <div className="mt-5">
+                            <SlideComments
+                              proposalId={proposalId}
+                              slideId={slide.slideId}
+                              fields={slide.fields}
+                              comments={comments}
+                              onCommentsChange={setComments}
+                            />
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
@@ -370,53 +485,86 @@ export function StepCustomiseSlides({ draft, updateDraft }: StepCustomiseSlidesP
   )
 }
 
-function getAutoFillValue(autoFill: string, draft: ProposalDraft): string {
-  switch (autoFill) {
-    case 'client_name':
-      return draft.clientName
-    case 'client_email':
-      return draft.clientEmail || ''
-    case 'hxt_reference':
-      return draft.hxtNumber
-    case 'date':
-      return new Date().toLocaleDateString('en-GB', {
-        day: 'numeric',
-        month: 'long',
-        year: 'numeric',
-      })
-    case 'region_name': {
-      const region = REGIONS.find((r) => r.id === draft.regionId)
-      return region?.display ?? ''
+interface ImageFieldInputProps {
+  value: string
+  onChange: (value: string) => void
+}
+
+/** Upload an image into the adviser's ad-hoc folder and store its path as the field value */
+function ImageFieldInput({ value, onChange }: ImageFieldInputProps) {
+  const { user } = useAuth()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [uploading, setUploading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [signedUrls, setSignedUrls] = useState<Record<string, string>>({})
+
+  // Uploads live in a private bucket, so the preview needs a signed URL
+  useEffect(() => {
+    if (isAdhocPath(value)) signAdhocPaths([value]).then(setSignedUrls)
+  }, [value])
+
+  async function handleFile(file: File | undefined) {
+    if (!file || !user) return
+    if (!file.type.startsWith('image/')) {
+      setError('Choose a PNG or JPEG image')
+      return
+    }
+    setUploading(true)
+    setError(null)
+    const upload = await uploadCustomSlideImage(file, user.id)
+    setUploading(false)
+    if (upload.error || !upload.path) {
+      setError(`Upload failed: ${upload.error ?? 'Unknown error'}`)
+      return
     }
-    case 'client_dob':
-    case 'client_nationality':
-    case 'client_address':
-    case 'client_employer':
-    case 'client_risk_profile':
-      // Future: populated from client lookup data
-      return ''
-    case 'advisor_name':
-    case 'advisor_email':
-    case 'advisor_phone':
-      // Future: populated from adviser profile
-      return ''
-    case 'situation':
-      return draft.context?.situation || ''
-    case 'objectives':
-      return draft.context?.objectives || ''
-    case 'focus':
-      return draft.context?.focus || ''
-    case 'company_name':
-      return 'Hoxton Wealth'
-    case 'year':
-      return new Date().getFullYear().toString()
-    case 'proposal_date':
-      return new Date().toLocaleDateString('en-GB', {
-        day: 'numeric',
-        month: 'long',
-        year: 'numeric',
-      })
-    default:
-      return ''
+    onChange(upload.path)
   }
+
+  return (
+    <div>
+      {value ? (
+        <div className="flex items-center gap-3">
+          <div className="h-16 w-28 overflow-hidden rounded-lg border border-gray-200 bg-gray-50">
+            <img src={fieldImageUrl(value, signedUrls)} alt="" className="h-full w-full object-contain" />
+          </div>
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            className="text-xs font-heading font-medium text-hoxton-turquoise hover:underline"
+          >
+            Replace
+          </button>
+          <button
+            type="button"
+            onClick={() => onChange('')}
+            className="inline-flex items-center gap-1 text-xs font-heading font-medium text-gray-400 hover:text-red-500"
+          >
+            <X className="h-3 w-3" />
+            Remove
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={uploading}
+          className="flex w-full items-center justify-center gap-2 rounded-lg border-2 border-dashed border-gray-200 px-3 py-4 text-sm font-heading font-medium text-gray-400 transition-colors hover:border-hoxton-turquoise hover:text-hoxton-turquoise disabled:opacity-50"
+        >
+          {uploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+          {uploading ? 'Uploading...' : 'Upload image'}
+        </button>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/png,image/jpeg"
+        className="hidden"
+        onChange={(e) => {
+          handleFile(e.target.files?.[0])
+          e.target.value = ''
+        }}
+      />
+      {error && <p className="mt-1.5 text-xs font-body text-red-500">{error}</p>}
+    </div>
+  )
 }
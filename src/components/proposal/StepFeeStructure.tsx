@@ -0,0 +1,263 @@
+import { Plus, Trash2 } from 'lucide-react'
+import {
+  FEE_CURRENCIES,
+  buildFeeRows,
+  hasFeeData,
+  validateFeeData,
+} from '../../lib/fees'
+import type { FeeBand, FeeCurrency, FeeData, ProposalDraft } from '../../types'
+
+interface StepFeeStructureProps {
+  draft: ProposalDraft
+  updateDraft: (updates: Partial<ProposalDraft>) => void
+}
+
+type PercentKey = 'platformChargePercent' | 'fundChargePercent'
+
+const PERCENT_FIELDS: { key: PercentKey; label: string; hint: string }[] = [
+  { key: 'platformChargePercent', label: 'Platform Charge', hint: '% of assets per year' },
+  { key: 'fundChargePercent', label: 'Fund Charges (OCF)', hint: 'Average ongoing charge figure, % per year' },
+]
+
+/** Default width of a newly closed-off band */
+const BAND_STEP = 1_000_000
+
+const INPUT_CLASS =
+  'w-full rounded-xl border bg-hoxton-light px-4 py-2.5 text-sm font-body text-hoxton-deep placeholder:text-hoxton-slate/50 focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise'
+
+function parseNumber(value: string): number | null {
+  if (value.trim() === '') return null
+  const n = Number(value)
+  return Number.isFinite(n) ? n : null
+}
+
+function FieldLabel({ children }: { children: string }) {
+  return (
+    <label className="block text-xs font-heading font-semibold uppercase tracking-wider text-hoxton-slate">
+      {children}
+    </label>
+  )
+}
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null
+  return <p className="text-xs font-body text-red-600">{message}</p>
+}
+
+export function StepFeeStructure({ draft, updateDraft }: StepFeeStructureProps) {
+  const fee = draft.feeData
+  const errors = validateFeeData(fee)
+  const rows = buildFeeRows(fee)
+  const tiered = fee.aumBands.length > 0
+
+  function update(updates: Partial<FeeData>) {
+    updateDraft({ feeData: { ...fee, ...updates } })
+  }
+
+  function updateBand(index: number, updates: Partial<FeeBand>) {
+    update({ aumBands: fee.aumBands.map((b, i) => (i === index ? { ...b, ...updates } : b)) })
+  }
+
+  function addBand() {
+    const bands = fee.aumBands
+    // Close off the current open-ended band before appending a new one, one step above
+    // the band before it so the bands stay valid as added
+    const last = bands[bands.length - 1]
+    const floor = bands.length > 1 ? bands[bands.length - 2].upTo ?? 0 : 0
+    const closed = last && last.upTo === null
+      ? bands.map((b, i) => (i === bands.length - 1 ? { ...b, upTo: floor + BAND_STEP } : b))
+      : bands
+    update({ aumBands: [...closed, { upTo: null, percent: last?.percent ?? 0 }] })
+  }
+
+  function removeBand(index: number) {
+    update({ aumBands: fee.aumBands.filter((_, i) => i !== index) })
+  }
+
+  function setTiered(next: boolean) {
+    if (next) {
+      update({ ongoingPercent: null, aumBands: [{ upTo: null, percent: fee.ongoingPercent ?? 0 }] })
+    } else {
+      update({ ongoingPercent: fee.aumBands[0]?.percent ?? null, aumBands: [] })
+    }
+  }
+
+  return (
+    <div className="mx-auto max-w-2xl">
+      <h2 className="text-xl font-heading font-semibold text-hoxton-deep">
+        Fee Structure
+      </h2>
+      <p className="mt-1 mb-6 text-sm font-body text-hoxton-slate">
+        Enter the charges that will appear on the fee slides. Leave blank to show "Fee details to be confirmed".
+      </p>
+
+      <div className="space-y-6">
+        {/* Currency + initial fee */}
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1.5">
+            <FieldLabel>Currency</FieldLabel>
+            <select
+              value={fee.currency}
+              onChange={(e) => update({ currency: e.target.value as FeeCurrency })}
+              className={`${INPUT_CLASS} border-hoxton-grey`}
+            >
+              {FEE_CURRENCIES.map((c) => (
+                <option key={c.value} value={c.value}>{c.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1.5">
+            <FieldLabel>Initial Advice Fee</FieldLabel>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={fee.initialAdviceFee ?? ''}
+              onChange={(e) => update({ initialAdviceFee: parseNumber(e.target.value) })}
+              placeholder={`Amount in ${fee.currency}`}
+              className={`${INPUT_CLASS} ${errors.initialAdviceFee ? 'border-red-500' : 'border-hoxton-grey'}`}
+            />
+            <FieldError message={errors.initialAdviceFee} />
+          </div>
+        </div>
+
+        {/* Ongoing advice fee */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <FieldLabel>Ongoing Advice Fee</FieldLabel>
+            <div className="inline-flex rounded-lg border border-hoxton-grey p-0.5">
+              {[false, true].map((option) => (
+                <button
+                  key={String(option)}
+                  type="button"
+                  onClick={() => setTiered(option)}
+                  className={`rounded-md px-3 py-1 text-xs font-heading font-medium transition-colors ${
+                    tiered === option
+                      ? 'bg-hoxton-turquoise text-white'
+                      : 'text-hoxton-slate hover:text-hoxton-deep'
+                  }`}
+                >
+                  {option ? 'Tiered by AUM' : 'Flat rate'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {!tiered ? (
+            <div className="space-y-1.5">
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={fee.ongoingPercent ?? ''}
+                onChange={(e) => update({ ongoingPercent: parseNumber(e.target.value) })}
+                placeholder="% of assets per year"
+                className={`${INPUT_CLASS} ${errors.ongoingPercent ? 'border-red-500' : 'border-hoxton-grey'}`}
+              />
+              <FieldError message={errors.ongoingPercent} />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {fee.aumBands.map((band, i) => {
+                const isLast = i === fee.aumBands.length - 1
+                return (
+                  <div key={i} className="flex items-center gap-3">
+                    <span className="w-16 shrink-0 text-xs font-heading font-medium text-hoxton-slate">
+                      Band {i + 1}
+                    </span>
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={band.upTo ?? ''}
+                      onChange={(e) => updateBand(i, { upTo: parseNumber(e.target.value) })}
+                      placeholder={isLast ? 'No upper limit' : `Up to (${fee.currency})`}
+                      className={`${INPUT_CLASS} border-hoxton-grey`}
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={band.percent}
+                      onChange={(e) => updateBand(i, { percent: parseNumber(e.target.value) ?? 0 })}
+                      className={`${INPUT_CLASS} w-32 shrink-0 border-hoxton-grey`}
+                    />
+                    <span className="text-xs font-body text-hoxton-slate">%</span>
+                    <button
+                      type="button"
+                      onClick={() => removeBand(i)}
+                      disabled={fee.aumBands.length === 1}
+                      className="rounded-lg p-1.5 text-hoxton-slate transition-colors hover:bg-red-50 hover:text-red-600 disabled:opacity-30"
+                      title="Remove band"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                )
+              })}
+              <button
+                type="button"
+                onClick={addBand}
+                className="inline-flex items-center gap-1 rounded-lg px-2 py-1 text-xs font-heading font-medium text-hoxton-turquoise hover:bg-hoxton-turquoise/5"
+              >
+                <Plus className="h-3.5 w-3.5" />
+                Add band
+              </button>
+              <FieldError message={errors.aumBands ?? errors.ongoingPercent} />
+            </div>
+          )}
+        </div>
+
+        {/* Platform / fund charges */}
+        <div className="grid grid-cols-2 gap-4">
+          {PERCENT_FIELDS.map((field) => (
+            <div key={field.key} className="space-y-1.5">
+              <FieldLabel>{field.label}</FieldLabel>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={fee[field.key] ?? ''}
+                onChange={(e) => update({ [field.key]: parseNumber(e.target.value) })}
+                placeholder={field.hint}
+                className={`${INPUT_CLASS} ${errors[field.key] ? 'border-red-500' : 'border-hoxton-grey'}`}
+              />
+              <FieldError message={errors[field.key]} />
+            </div>
+          ))}
+        </div>
+
+        {/* Notes */}
+        <div className="space-y-1.5">
+          <FieldLabel>Notes</FieldLabel>
+          <textarea
+            value={fee.notes}
+            onChange={(e) => update({ notes: e.target.value })}
+            placeholder="Optional footnote shown beneath the fee table (e.g. VAT treatment, minimum fees)"
+            rows={2}
+            className={`${INPUT_CLASS} resize-none border-hoxton-grey`}
+          />
+        </div>
+
+        {/* Live summary */}
+        {hasFeeData(fee) && (
+          <div className="rounded-2xl border border-gray-100 bg-white p-4">
+            <p className="mb-2 text-xs font-heading font-semibold uppercase tracking-wider text-gray-400">
+              Shown on fee slides
+            </p>
+            <table className="w-full text-sm">
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.label} className="border-b border-gray-50 last:border-0">
+                    <td className="py-1.5 font-body text-hoxton-slate">{row.label}</td>
+                    <td className="py-1.5 text-right font-heading font-medium text-hoxton-deep">{row.value}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -30,12 +30,33 @@ import {
   ToggleLeft,
   ToggleRight,
   EyeOff,
+  Presentation,
+  Filter,
+  RotateCcw,
+  Plus,
+  Trash2,
+  AlertTriangle,
+  RefreshCw,
 } from 'lucide-react'
-import { REGIONS, PRODUCT_MODULES } from '../../lib/constants'
+import { useCatalog } from '../../hooks/useCatalog'
+import { findRegion, selectedModules as pickModules } from '../../lib/catalog'
 import { supabase } from '../../lib/supabase'
-import { getSlideUrl } from '../../lib/storage'
+import { useAuth } from '../../lib/auth'
+import { getImageUrl, getSlideUrl } from '../../lib/storage'
+import { findActivePack, hasNewerTemplates, pinProposalTemplates } from '../../lib/packs'
+import { createPdfJob, exportPptx, waitForPdfJob } from '../../lib/pdf-jobs'
 import { logger } from '../../lib/logger'
-import type { ProposalDraft } from '../../types'
+import { describeRule, evaluateRule, resolveDisabledSlides, type RuleContext } from '../../lib/slide-rules'
+import { applySlideOrder } from '../../lib/slide-order'
+import { collectAdhocPaths, signAdhocPaths } from '../../lib/custom-slides'
+import { fieldImageUrl, formatFieldValue } from '../../lib/field-values'
+import { buildAutoFillContext, getAdviserDetails } from '../../lib/autofill'
+import { findOverflowingFields, fitSlideFields, type FieldFit, type FieldOverflow } from '../../lib/text-fit'
+import { FeeSlidePreview } from './FeeSlidePreview'
+import { BlankSlidePreview } from './BlankSlidePreview'
+import { RichTextContent } from '../ui/RichText'
+import { AddCustomSlideModal } from './AddCustomSlideModal'
+import type { CustomSlide, CustomSlideKind, EditableFieldType, FeeCurrency, ProposalDraft, SlideInclusionRule, SlideOverrides } from '../../types'
 
 interface StepPreviewGenerateProps {
   draft: ProposalDraft
@@ -48,7 +69,7 @@ interface EditableFieldDef {
   id: string
   name: string
   label: string
-  type: 'text' | 'textarea' | 'table'
+  type: EditableFieldType
   x: number
   y: number
   width: number
@@ -59,17 +80,25 @@ interface EditableFieldDef {
   color: string
   textAlign: 'left' | 'center' | 'right'
   autoFill?: string
+  richText?: boolean
+  minFontSize?: number
+  dateStyle?: 'long' | 'medium' | 'short'
+  currency?: FeeCurrency
+  imageFit?: 'contain' | 'cover'
 }
 
 interface SlideItem {
   id: string
   section: string
-  sectionType: 'intro' | 'divider' | 'context' | 'product' | 'closing'
+  sectionType: 'intro' | 'divider' | 'context' | 'product' | 'closing' | 'custom'
   label: string
   slideIndex: number
   imagePath: string
   isEditable: boolean
+  isFeeSlide?: boolean
   editableFields?: EditableFieldDef[]
+  /** Set on the adviser's own slides */
+  customKind?: CustomSlideKind
 }
 
 interface SectionGroup {
@@ -92,7 +121,7 @@ function SlideThumb({
 }) {
   const [failed, setFailed] = useState(false)
 
-  if (failed) {
+  if (failed || !src) {
     return (
       <div className={`flex items-center justify-center bg-hoxton-deep ${className}`}>
         <span className="px-1 text-center text-[8px] font-heading font-medium leading-tight text-white/80">
@@ -124,9 +153,18 @@ const FONT_WEIGHT_MAP: Record<string, string> = {
 function SlideFieldOverlays({
   fields,
   values,
+  fits,
+  regionId,
+  imageUrls,
 }: {
   fields: EditableFieldDef[]
   values: Record<string, string>
+  /** Signed URLs for ad-hoc image uploads, keyed by path */
+  imageUrls?: Record<string, string>
+  /** Shrink-to-fit sizes from lib/text-fit, keyed by field name */
+  fits?: Record<string, FieldFit>
+  /** Formats date and currency fields for the proposal's region */
+  regionId?: string
 }) {
   return (
     <>
@@ -134,17 +172,39 @@ function SlideFieldOverlays({
         const value = values[field.name]
         if (!value) return null
 
+        if (field.type === 'image') {
+          return (
+            <img
+              key={field.id}
+              src={fieldImageUrl(value, imageUrls)}
+              alt=""
+              style={{
+                position: 'absolute',
+                left: `${field.x}%`,
+                top: `${field.y}%`,
+                width: `${field.width}%`,
+                height: `${field.height}%`,
+                objectFit: field.imageFit ?? 'contain',
+              }}
+            />
+          )
+        }
+
+        const text = formatFieldValue(field, value, regionId)
+        if (!text) return null
+
         const fontFamily =
           field.fontFamily === 'heading'
             ? "'FT Calhern', 'Helvetica Neue', sans-serif"
             : "'Sentient', Georgia, serif"
 
         // Scale font sizes proportionally: at 1280px wide, 1cqw = 12.8px
-        const scaledFontSize = `${field.fontSize / 12.8}cqw`
+        const fontSize = fits?.[field.name]?.fontSize ?? field.fontSize
+        const scaledFontSize = `${fontSize / 12.8}cqw`
 
         if (field.type === 'table') {
           const rows = value.split('\n').filter((r) => r.trim())
-          const scaledTableFontSize = `${(field.fontSize * 0.85) / 12.8}cqw`
+          const scaledTableFontSize = `${(fontSize * 0.85) / 12.8}cqw`
           return (
             <div
               key={field.id}
@@ -209,9 +269,13 @@ function SlideFieldOverlays({
               whiteSpace: 'pre-wrap',
             }}
           >
-            <span style={{ width: '100%', textAlign: field.textAlign }}>
-              {value}
-            </span>
+            {field.type === 'textarea' && field.richText ? (
+              <RichTextContent value={value} />
+            ) : (
+              <span style={{ width: '100%', textAlign: field.textAlign }}>
+                {text}
+              </span>
+            )}
           </div>
         )
       })}
@@ -227,20 +291,30 @@ function SortableSlide({
   totalSlides,
   isActive,
   isDisabled,
+  ruleSummary,
+  isOverridden,
   onMoveUp,
   onMoveDown,
   onSelect,
   onToggleEnabled,
+  onEditCustom,
+  onRemoveCustom,
 }: {
   slide: SlideItem
   globalIndex: number
   totalSlides: number
   isActive: boolean
   isDisabled: boolean
+  /** Set when the slide has an inclusion rule */
+  ruleSummary: string | null
+  /** The adviser's choice differs from what the rule would pick */
+  isOverridden: boolean
   onMoveUp: () => void
   onMoveDown: () => void
   onSelect: () => void
   onToggleEnabled: () => void
+  onEditCustom?: () => void
+  onRemoveCustom?: () => void
 }) {
   const {
     attributes,
@@ -305,7 +379,38 @@ function SortableSlide({
         </div>
       </button>
 
-      {slide.isEditable && !isDisabled && (
+      {(ruleSummary || isOverridden) && (
+        <span
+          title={[ruleSummary, isOverridden && 'Changed by you'].filter(Boolean).join(' — ')}
+          className={`inline-flex shrink-0 items-center gap-0.5 rounded-full px-1.5 py-px text-[9px] font-heading font-semibold ${
+            isOverridden ? 'bg-amber-50 text-amber-600' : 'bg-gray-100 text-gray-500'
+          }`}
+        >
+          <Filter className="h-2 w-2" />
+          {isOverridden ? 'Manual' : 'Rule'}
+        </span>
+      )}
+
+      {slide.customKind && (
+        <span className="flex shrink-0 items-center gap-0.5 opacity-0 group-hover:opacity-100">
+          <button
+            onClick={onEditCustom}
+            title="Edit slide"
+            className="rounded p-0.5 text-gray-300 hover:text-hoxton-deep"
+          >
+            <Pencil className="h-3 w-3" />
+          </button>
+          <button
+            onClick={onRemoveCustom}
+            title="Remove slide"
+            className="rounded p-0.5 text-gray-300 hover:text-red-500"
+          >
+            <Trash2 className="h-3 w-3" />
+          </button>
+        </span>
+      )}
+
+      {slide.isEditable && !isDisabled && !slide.customKind && (
         <span className="inline-flex shrink-0 items-center gap-0.5 rounded-full bg-hoxton-turquoise/10 px-1.5 py-px text-[9px] font-heading font-semibold text-hoxton-turquoise">
           <Pencil className="h-2 w-2" />
           Edit
@@ -339,30 +444,42 @@ export function StepPreviewGenerate({ draft, onSaveDraft, proposalId, updateDraf
   const [generated, setGenerated] = useState(false)
   const [pdfPath, setPdfPath] = useState<string | null>(null)
   const [genError, setGenError] = useState<string | null>(null)
+  const [exportingPptx, setExportingPptx] = useState(false)
+  const [jobProgress, setJobProgress] = useState<{ rendered: number; total: number } | null>(null)
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set())
   const [activeSlideIndex, setActiveSlideIndex] = useState(0)
-  const [disabledSlides, setDisabledSlides] = useState<Set<string>>(
-    () => new Set(draft.disabledSlides || [])
+  // Inclusion rules by slide id (intro + product), filled in by the field-defs fetch below
+  const [ruleMap, setRuleMap] = useState<Record<string, SlideInclusionRule | null>>({})
+  const [slideOverrides, setSlideOverrides] = useState<SlideOverrides>(() => draft.slideOverrides ?? {})
+  // Set when the proposal is pinned to template versions that have since been replaced
+  const [newerTemplates, setNewerTemplates] = useState(false)
+  const [updatingTemplates, setUpdatingTemplates] = useState(false)
+  // Bumped after moving to the latest templates so the slides are fetched again
+  const [templatesKey, setTemplatesKey] = useState(0)
+
+  const ruleContext = useMemo<RuleContext>(
+    () => ({ clientDetails: draft.clientDetails, selectedProducts: draft.selectedProducts, feeData: draft.feeData }),
+    [draft.clientDetails, draft.selectedProducts, draft.feeData]
   )
 
   const toggleSlideEnabled = useCallback((slideId: string) => {
-    setDisabledSlides((prev) => {
-      const next = new Set(prev)
-      if (next.has(slideId)) next.delete(slideId)
-      else next.add(slideId)
+    const ruleDefault = evaluateRule(ruleMap[slideId], ruleContext)
+    setSlideOverrides((prev) => {
+      const included = slideId in prev ? prev[slideId] : ruleDefault
+      const next = { ...prev }
+      // Only keep choices that differ from the rule, so later draft changes still re-evaluate it
+      if (!included === ruleDefault) delete next[slideId]
+      else next[slideId] = !included
       return next
     })
-  }, [])
+  }, [ruleMap, ruleContext])
 
-  // Sync disabledSlides back to draft
-  useEffect(() => {
-    updateDraft({ disabledSlides: Array.from(disabledSlides) })
-  }, [disabledSlides, updateDraft])
-
-  const region = REGIONS.find((r) => r.id === draft.regionId)
+  const { user } = useAuth()
+  const catalog = useCatalog()
+  const region = findRegion(catalog, draft.regionId)
   const selectedModules = useMemo(
-    () => PRODUCT_MODULES.filter((p) => draft.selectedProducts.includes(p.id)),
-    [draft.selectedProducts]
+    () => pickModules(catalog, draft.selectedProducts),
+    [catalog, draft.selectedProducts]
   )
 
   const initialSlides = useMemo(() => {
@@ -419,31 +536,82 @@ export function StepPreviewGenerate({ draft, onSaveDraft, proposalId, updateDraf
     return items
   }, [region, draft.regionId, selectedModules])
 
-  const [slides, setSlides] = useState<SlideItem[]>(initialSlides)
+  // Slides in default order; the adviser's order is kept separately so slides added later
+  // (closing pack, new modules) still land in a sensible place
+  const [baseSlides, setBaseSlides] = useState<SlideItem[]>(initialSlides)
+  const [slideOrder, setSlideOrder] = useState<string[]>(() => draft.slideOrder ?? [])
+  const [customSlideModal, setCustomSlideModal] = useState<{ existing?: CustomSlide } | null>(null)
+
+  const customSlides = useMemo(() => draft.customSlides ?? [], [draft.customSlides])
+
+  // Ad-hoc uploads are private — sign them whenever the set in use changes
+  const adhocPaths = useMemo(
+    () => collectAdhocPaths(customSlides, draft.editableFieldsData ?? {}).join('\n'),
+    [customSlides, draft.editableFieldsData]
+  )
+  const [adhocUrls, setAdhocUrls] = useState<Record<string, string>>({})
+  useEffect(() => {
+    signAdhocPaths(adhocPaths ? adhocPaths.split('\n') : []).then(setAdhocUrls)
+  }, [adhocPaths])
+
+  const customSlideItems = useMemo<SlideItem[]>(
+    () =>
+      customSlides.map((c) => ({
+        id: c.id,
+        section: 'Your Slides',
+        sectionType: 'custom',
+        label: c.label,
+        slideIndex: 0,
+        imagePath: c.imagePath ? getImageUrl(c.imagePath, adhocUrls) : '',
+        isEditable: c.editableFields.length > 0,
+        editableFields: c.editableFields,
+        customKind: c.kind,
+      })),
+    [customSlides, adhocUrls]
+  )
+
+  const slides = useMemo(
+    () => applySlideOrder([...baseSlides, ...customSlideItems], slideOrder),
+    [baseSlides, customSlideItems, slideOrder]
+  )
 
   useEffect(() => {
-    setSlides(initialSlides)
+    setBaseSlides(initialSlides)
   }, [initialSlides])
 
+  useEffect(() => {
+    updateDraft({ slideOrder })
+  }, [slideOrder, updateDraft])
+
+  const disabledSlides = useMemo(
+    () => new Set(resolveDisabledSlides(slides.map((s) => s.id), ruleMap, slideOverrides, ruleContext)),
+    [slides, ruleMap, slideOverrides, ruleContext]
+  )
+
+  // Sync the effective exclusions and the adviser's overrides back to draft
+  useEffect(() => {
+    updateDraft({ disabledSlides: Array.from(disabledSlides), slideOverrides })
+  }, [disabledSlides, slideOverrides, updateDraft])
+
   // Fetch closing slides from DB + editable field definitions, then merge into slides
   useEffect(() => {
     async function fetchFieldDefsAndClosingSlides() {
       const fieldMap: Record<string, EditableFieldDef[]> = {}
+      const rules: Record<string, SlideInclusionRule | null> = {}
+      const feeSlideIds = new Set<string>()
+      // Image paths from the active pack / module rows — later versions store images in their own folder
+      const imageMap: Record<string, string> = {}
       let closingSlideItems: SlideItem[] = []
 
       // Fetch intro slide fields via Edge Function
       if (region) {
         try {
-          const { data: introPack } = await supabase
-            .from('intro_packs')
-            .select('id')
-            .eq('region_id', draft.regionId)
-            .eq('is_active', true)
-            .single()
+          const introPack = await findActivePack('intro', draft.regionId, draft.locale)
 
           if (introPack) {
+            // With a proposal id the edge function returns the pinned version, if any
             const { data, error } = await supabase.functions.invoke('get-slide-fields', {
-              body: { slideType: 'intro', parentId: introPack.id },
+              body: { slideType: 'intro', parentId: introPack.id, proposalId },
             })
 
             if (!error && data?.slides) {
@@ -452,6 +620,8 @@ export function StepPreviewGenerate({ draft, onSaveDraft, proposalId, updateDraf
                 if (fields.length > 0) {
                   fieldMap[`intro-${s.slide_number}`] = fields
                 }
+                if (s.image_path) imageMap[`intro-${s.slide_number}`] = getSlideUrl(s.image_path)
+                if (s.include_rule) rules[`intro-${s.slide_number}`] = s.include_rule as SlideInclusionRule
               }
             }
           }
@@ -464,7 +634,7 @@ export function StepPreviewGenerate({ draft, onSaveDraft, proposalId, updateDraf
       for (const mod of selectedModules) {
         try {
           const { data, error } = await supabase.functions.invoke('get-slide-fields', {
-            body: { slideType: 'product', parentId: mod.id },
+            body: { slideType: 'product', parentId: mod.id, locale: draft.locale, proposalId },
           })
 
           if (!error && data?.slides) {
@@ -473,6 +643,11 @@ export function StepPreviewGenerate({ draft, onSaveDraft, proposalId, updateDraf
               if (fields.length > 0) {
                 fieldMap[`product-${mod.id}-${s.slide_number}`] = fields
               }
+              if (s.image_path) imageMap[`product-${mod.id}-${s.slide_number}`] = getSlideUrl(s.image_path)
+              if (s.include_rule) rules[`product-${mod.id}-${s.slide_number}`] = s.include_rule as SlideInclusionRule
+              if (s.slide_type === 'fee_structure') {
+                feeSlideIds.add(`product-${mod.id}-${s.slide_number}`)
+              }
             }
           }
         } catch (err) {
@@ -483,16 +658,11 @@ export function StepPreviewGenerate({ draft, onSaveDraft, proposalId, updateDraf
       // Fetch closing slides from DB
       if (region) {
         try {
-          const { data: closingPack } = await supabase
-            .from('closing_packs')
-            .select('id')
-            .eq('region_id', draft.regionId)
-            .eq('is_active', true)
-            .single()
+          const closingPack = await findActivePack('closing', draft.regionId, draft.locale)
 
           if (closingPack) {
             const { data, error } = await supabase.functions.invoke('get-slide-fields', {
-              body: { slideType: 'closing', parentId: closingPack.id },
+              body: { slideType: 'closing', parentId: closingPack.id, proposalId },
             })
 
             if (!error && data?.slides) {
@@ -543,8 +713,10 @@ export function StepPreviewGenerate({ draft, onSaveDraft, proposalId, updateDraf
         }
       }
 
+      setRuleMap(rules)
+
       // Merge: append closing slides + attach field defs
-      setSlides((prev) => {
+      setBaseSlides((prev) => {
         // Remove any existing closing slides (in case of re-fetch)
         const nonClosing = prev.filter((s) => s.sectionType !== 'closing')
         const combined = [...nonClosing, ...closingSlideItems]
@@ -553,14 +725,36 @@ export function StepPreviewGenerate({ draft, onSaveDraft, proposalId, updateDraf
         return combined.map((s, idx) => ({
           ...s,
           slideIndex: idx,
+          imagePath: imageMap[s.id] ?? s.imagePath,
           editableFields: fieldMap[s.id] || s.editableFields || undefined,
           isEditable: s.isEditable || !!fieldMap[s.id],
+          isFeeSlide: feeSlideIds.has(s.id),
         }))
       })
     }
 
     fetchFieldDefsAndClosingSlides()
-  }, [region, draft.regionId, selectedModules.map((m) => m.id).join(',')])
+  }, [region, draft.regionId, draft.locale, selectedModules.map((m) => m.id).join(','), proposalId, templatesKey])
+
+  useEffect(() => {
+    if (!proposalId) return
+    hasNewerTemplates(proposalId, draft.regionId, draft.selectedProducts, draft.locale).then(setNewerTemplates)
+  }, [proposalId, draft.regionId, draft.selectedProducts, draft.locale, templatesKey])
+
+  /** Move a pinned proposal to the current template versions — only ever on request */
+  async function handleUseLatestTemplates() {
+    if (!proposalId) return
+    setUpdatingTemplates(true)
+    const result = await pinProposalTemplates(proposalId, draft.regionId, draft.selectedProducts, draft.locale, {
+      latest: true,
+    })
+    setUpdatingTemplates(false)
+    if (result.error) {
+      setGenError(`Could not update templates: ${result.error}`)
+      return
+    }
+    setTemplatesKey((k) => k + 1)
+  }
 
   // Group slides into sections for the left panel
   const sections = useMemo(() => {
@@ -593,15 +787,57 @@ export function StepPreviewGenerate({ draft, onSaveDraft, proposalId, updateDraf
   function handleDragEnd(event: DragEndEvent) {
     const { active, over } = event
     if (!over || active.id === over.id) return
-    setSlides((items) => {
-      const oldIndex = items.findIndex((i) => i.id === active.id)
-      const newIndex = items.findIndex((i) => i.id === over.id)
-      return arrayMove(items, oldIndex, newIndex)
-    })
+    const oldIndex = slides.findIndex((i) => i.id === active.id)
+    const newIndex = slides.findIndex((i) => i.id === over.id)
+    setSlideOrder(arrayMove(slides, oldIndex, newIndex).map((s) => s.id))
   }
 
   function moveSlide(from: number, to: number) {
-    setSlides((items) => arrayMove(items, from, to))
+    setSlideOrder(arrayMove(slides, from, to).map((s) => s.id))
+  }
+
+  function handleSaveCustomSlide(slide: CustomSlide, values: Record<string, string>) {
+    const isNew = !customSlides.some((c) => c.id === slide.id)
+    updateDraft({
+      customSlides: isNew ? [...customSlides, slide] : customSlides.map((c) => (c.id === slide.id ? slide : c)),
+      editableFieldsData:
+        slide.kind === 'blank'
+          ? { ...draft.editableFieldsData, [slide.id]: values }
+          : draft.editableFieldsData,
+    })
+    if (isNew) {
+      // New slides go after the one being previewed
+      const ids = slides.map((s) => s.id)
+      const at = slides.length > 0 ? activeSlideIndex + 1 : 0
+      setSlideOrder([...ids.slice(0, at), slide.id, ...ids.slice(at)])
+      setActiveSlideIndex(at)
+    }
+  }
+
+  function removeCustomSlide(slideId: string) {
+    const editableFieldsData = { ...draft.editableFieldsData }
+    delete editableFieldsData[slideId]
+    updateDraft({
+      customSlides: customSlides.filter((c) => c.id !== slideId),
+      editableFieldsData,
+    })
+    setSlideOrder((prev) => prev.filter((id) => id !== slideId))
+    setSlideOverrides((prev) => {
+      if (!(slideId in prev)) return prev
+      const next = { ...prev }
+      delete next[slideId]
+      return next
+    })
+    setActiveSlideIndex((i) => Math.max(0, Math.min(i, slides.length - 2)))
+  }
+
+  /** Swap a whole section (e.g. a product module) with its neighbour */
+  function moveSection(index: number, direction: -1 | 1) {
+    const target = index + direction
+    if (target < 0 || target >= sections.length) return
+    const blocks = sections.map((g) => g.slideIds)
+    ;[blocks[index], blocks[target]] = [blocks[target], blocks[index]]
+    setSlideOrder(blocks.flat())
   }
 
   function toggleSection(name: string) {
@@ -635,62 +871,112 @@ export function StepPreviewGenerate({ draft, onSaveDraft, proposalId, updateDraf
     return () => window.removeEventListener('keydown', handleKey)
   }, [handleKey])
 
+  // Shrink-to-fit sizes for the previewed slide, tagged with its id so a stale result is never applied
+  const [slideFits, setSlideFits] = useState<{ slideId: string; fits: Record<string, FieldFit> } | null>(null)
+  const activeSlide = slides[activeSlideIndex]
+  useEffect(() => {
+    if (!activeSlide?.editableFields?.length) return
+    let cancelled = false
+    const values = draft.editableFieldsData?.[activeSlide.id] || {}
+    fitSlideFields(activeSlide.editableFields, values, draft.regionId).then((fits) => {
+      if (!cancelled) setSlideFits({ slideId: activeSlide.id, fits })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [activeSlide, draft.editableFieldsData, draft.regionId])
+
+  // Fields that would be cut off in the PDF even after shrinking
+  const [overflowingFields, setOverflowingFields] = useState<FieldOverflow[]>([])
+  useEffect(() => {
+    let cancelled = false
+    findOverflowingFields(
+      slides.filter((s) => !disabledSlides.has(s.id)),
+      draft.editableFieldsData || {},
+      draft.regionId
+    ).then((found) => {
+      if (!cancelled) setOverflowingFields(found)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [slides, disabledSlides, draft.editableFieldsData, draft.regionId])
+
+  /** Save + pin the proposal and build the request body shared by the PDF and PPTX exports */
+  async function prepareExportPayload(): Promise<Record<string, unknown>> {
+    // Ensure draft is saved first and we have a proposal ID
+    const savedId = await onSaveDraft()
+    const id = savedId || proposalId
+    if (!id) {
+      throw new Error('Could not save proposal — please try again')
+    }
+
+    // Pin the proposal to the current pack versions so later template edits don't change it
+    const pin = await pinProposalTemplates(id, draft.regionId, draft.selectedProducts, draft.locale)
+    if (pin.error) {
+      throw new Error(`Could not pin template versions: ${pin.error}`)
+    }
+
+    // Build the slide order from current slide arrangement, excluding disabled slides
+    const enabledSlides = slides.filter((s) => !disabledSlides.has(s.id))
+    const slideOrderPayload = enabledSlides.map((s) => ({
+      id: s.id,
+      type: s.id === 'context-summary'
+        ? 'context' as const
+        : s.isFeeSlide ? 'fee' as const
+        : s.customKind === 'blank' ? 'blank' as const : 'image' as const,
+      imagePath: s.imagePath,
+      label: s.label,
+      editableFields: s.editableFields,
+    }))
+
+    // The PDF service evaluates autofill for fields left empty, using the same variables as the wizard
+    const advisorId = draft.advisorId ?? user?.id
+    const adviser = advisorId ? await getAdviserDetails(advisorId) : null
+
+    return {
+      proposalId: id,
+      clientName: draft.clientName,
+      advisorName: adviser?.name ?? '',
+      regionId: draft.regionId,
+      locale: draft.locale,
+      introSlidesCount: region?.introSlides ?? 0,
+      selectedProducts: selectedModules.map((m) => ({
+        id: m.id,
+        name: m.name,
+        slides: m.slides,
+      })),
+      context: draft.context,
+      feeData: draft.feeData,
+      slideOrder: slideOrderPayload,
+      editableFieldsData: draft.editableFieldsData || {},
+      autoFillContext: buildAutoFillContext(draft, region?.display ?? '', adviser),
+      staticAssetsBaseUrl: window.location.origin,
+    }
+  }
+
+  async function downloadProposalFile(path: string, extension: 'pdf' | 'pptx') {
+    const { data } = await supabase.storage.from('proposals').createSignedUrl(path, 3600)
+    if (data?.signedUrl) {
+      const a = document.createElement('a')
+      a.href = data.signedUrl
+      a.download = `${(draft.clientName || 'proposal').replace(/[^a-zA-Z0-9-_]/g, '_')}.${extension}`
+      a.click()
+    }
+  }
+
   async function handleGenerate() {
     setGenerating(true)
     setGenError(null)
 
     try {
-      // Ensure draft is saved first and we have a proposal ID
-      const savedId = await onSaveDraft()
-      const id = savedId || proposalId
-      if (!id) {
-        throw new Error('Could not save proposal — please try again')
-      }
-
-      const pdfServiceUrl = import.meta.env.VITE_PDF_SERVICE_URL || ''
-      if (!pdfServiceUrl) {
-        throw new Error('PDF service URL not configured')
-      }
+      // Queue the render and poll for progress rather than holding the request open
+      const job = await createPdfJob(await prepareExportPayload())
+      setJobProgress(job.progress)
 
-      // Build the slide order from current slide arrangement, excluding disabled slides
-      const enabledSlides = slides.filter((s) => !disabledSlides.has(s.id))
-      const slideOrderPayload = enabledSlides.map((s) => ({
-        id: s.id,
-        type: s.id === 'context-summary' ? 'context' as const : 'image' as const,
-        imagePath: s.imagePath,
-        label: s.label,
-        editableFields: s.editableFields,
-      }))
-
-      const response = await fetch(`${pdfServiceUrl}/generate`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          proposalId: id,
-          clientName: draft.clientName,
-          advisorName: '',
-          regionId: draft.regionId,
-          introSlidesCount: region?.introSlides ?? 0,
-          selectedProducts: selectedModules.map((m) => ({
-            id: m.id,
-            name: m.name,
-            slides: m.slides,
-          })),
-          context: draft.context,
-          feeData: {},
-          slideOrder: slideOrderPayload,
-          editableFieldsData: draft.editableFieldsData || {},
-          staticAssetsBaseUrl: window.location.origin,
-        }),
-      })
-
-      const result = await response.json()
-
-      if (!response.ok || !result.success) {
-        throw new Error(result.error || 'PDF generation failed')
-      }
+      const completed = await waitForPdfJob(job.id, (update) => setJobProgress(update.progress))
 
-      setPdfPath(result.pdfPath)
+      setPdfPath(completed.pdfPath)
       setGenerated(true)
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Unknown error'
@@ -698,12 +984,30 @@ export function StepPreviewGenerate({ draft, onSaveDraft, proposalId, updateDraf
       logger.error('[PDF] Generation failed:', message)
     } finally {
       setGenerating(false)
+      setJobProgress(null)
     }
   }
 
-  const activeSlide = slides[activeSlideIndex]
+  async function handleExportPptx() {
+    setExportingPptx(true)
+    setGenError(null)
+
+    try {
+      const pptxPath = await exportPptx(await prepareExportPayload())
+      await downloadProposalFile(pptxPath, 'pptx')
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error'
+      setGenError(message)
+      logger.error('[PDF] PPTX export failed:', message)
+    } finally {
+      setExportingPptx(false)
+    }
+  }
+
+  const activeFits = slideFits?.slideId === activeSlide?.id ? slideFits.fits : undefined
   const enabledCount = slides.length - disabledSlides.size
   const disabledCount = disabledSlides.size
+  const overrideCount = slides.filter((s) => s.id in slideOverrides).length
 
   return (
     <div>
@@ -740,12 +1044,45 @@ export function StepPreviewGenerate({ draft, onSaveDraft, proposalId, updateDraf
         {/* LEFT — Slide order list */}
         <div className="w-full rounded-2xl border border-gray-100 bg-white lg:w-[45%]">
           <div className="border-b border-gray-100 px-4 py-3">
-            <h3 className="text-sm font-heading font-semibold text-hoxton-deep">
-              Slide Order
-            </h3>
-            <p className="text-[11px] font-body text-gray-400">
-              Expand sections to reorder slides
-            </p>
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="text-sm font-heading font-semibold text-hoxton-deep">
+                Slide Order
+              </h3>
+              <button
+                onClick={() => setCustomSlideModal({})}
+                className="inline-flex items-center gap-1 rounded-md border border-hoxton-turquoise/30 px-2 py-1 text-[11px] font-heading font-medium text-hoxton-turquoise transition-colors hover:bg-hoxton-turquoise/5"
+              >
+                <Plus className="h-3 w-3" />
+                Add Slide
+              </button>
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-[11px] font-body text-gray-400">
+                Move sections with the arrows, or expand them to drag slides anywhere
+              </p>
+              <div className="flex items-center gap-3">
+                {slideOrder.length > 0 && (
+                  <button
+                    onClick={() => setSlideOrder([])}
+                    title="Put slides back in the standard order"
+                    className="inline-flex items-center gap-1 text-[11px] font-heading font-medium text-hoxton-turquoise hover:text-hoxton-turquoise/80"
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                    Reset order
+                  </button>
+                )}
+                {overrideCount > 0 && (
+                  <button
+                    onClick={() => setSlideOverrides({})}
+                    title="Drop your manual include/exclude choices and use the template rules"
+                    className="inline-flex items-center gap-1 text-[11px] font-heading font-medium text-hoxton-turquoise hover:text-hoxton-turquoise/80"
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                    Reset {overrideCount} change{overrideCount !== 1 ? 's' : ''}
+                  </button>
+                )}
+              </div>
+            </div>
           </div>
 
           <div className="max-h-[520px] overflow-y-auto p-2">
@@ -758,7 +1095,7 @@ export function StepPreviewGenerate({ draft, onSaveDraft, proposalId, updateDraf
                 items={sortableIds}
                 strategy={verticalListSortingStrategy}
               >
-                {sections.map((section) => {
+                {sections.map((section, sectionIndex) => {
                   const isExpanded = expandedSections.has(section.name)
                   const sectionSlides = section.slideIds
                     .map((id) => slides.find((s) => s.id === id)!)
@@ -766,33 +1103,54 @@ export function StepPreviewGenerate({ draft, onSaveDraft, proposalId, updateDraf
                   const hasEditable = sectionSlides.some((s) => s.isEditable)
 
                   return (
-                    <div key={section.name} className="mb-1">
+                    // Moving slides between sections can split one into several runs
+                    <div key={`${sectionIndex}-${section.name}`} className="mb-1">
                       {/* Section header */}
-                      <button
-                        onClick={() => toggleSection(section.name)}
-                        className="flex w-full items-center gap-2 rounded-lg px-2 py-2 text-left transition-colors hover:bg-gray-50"
-                      >
-                        <ChevronRightIcon
-                          className={`h-3.5 w-3.5 shrink-0 text-gray-400 transition-transform ${
-                            isExpanded ? 'rotate-90' : ''
-                          }`}
-                        />
-                        <span className="flex-1 truncate text-xs font-heading font-semibold text-hoxton-deep">
-                          {section.name}
-                        </span>
-                        {hasEditable && (
-                          <Pencil className="h-2.5 w-2.5 shrink-0 text-hoxton-turquoise" />
-                        )}
-                        <span className={`shrink-0 rounded-full px-2 py-0.5 text-[10px] font-heading font-semibold ${
-                          section.enabledCount < section.count
-                            ? 'bg-amber-50 text-amber-600'
-                            : 'bg-gray-100 text-gray-500'
-                        }`}>
-                          {section.enabledCount < section.count
-                            ? `${section.enabledCount}/${section.count}`
-                            : section.count}
-                        </span>
-                      </button>
+                      <div className="group flex items-center gap-1">
+                        <button
+                          onClick={() => toggleSection(section.name)}
+                          className="flex min-w-0 flex-1 items-center gap-2 rounded-lg px-2 py-2 text-left transition-colors hover:bg-gray-50"
+                        >
+                          <ChevronRightIcon
+                            className={`h-3.5 w-3.5 shrink-0 text-gray-400 transition-transform ${
+                              isExpanded ? 'rotate-90' : ''
+                            }`}
+                          />
+                          <span className="flex-1 truncate text-xs font-heading font-semibold text-hoxton-deep">
+                            {section.name}
+                          </span>
+                          {hasEditable && (
+                            <Pencil className="h-2.5 w-2.5 shrink-0 text-hoxton-turquoise" />
+                          )}
+                          <span className={`shrink-0 rounded-full px-2 py-0.5 text-[10px] font-heading font-semibold ${
+                            section.enabledCount < section.count
+                              ? 'bg-amber-50 text-amber-600'
+                              : 'bg-gray-100 text-gray-500'
+                          }`}>
+                            {section.enabledCount < section.count
+                              ? `${section.enabledCount}/${section.count}`
+                              : section.count}
+                          </span>
+                        </button>
+                        <div className="flex shrink-0 flex-col opacity-0 group-hover:opacity-100">
+                          <button
+                            onClick={() => moveSection(sectionIndex, -1)}
+                            disabled={sectionIndex === 0}
+                            title="Move section up"
+                            className="rounded p-px text-gray-300 hover:text-hoxton-deep disabled:opacity-0"
+                          >
+                            <ChevronUp className="h-3 w-3" />
+                          </button>
+                          <button
+                            onClick={() => moveSection(sectionIndex, 1)}
+                            disabled={sectionIndex === sections.length - 1}
+                            title="Move section down"
+                            className="rounded p-px text-gray-300 hover:text-hoxton-deep disabled:opacity-0"
+                          >
+                            <ChevronDown className="h-3 w-3" />
+                          </button>
+                        </div>
+                      </div>
 
                       {/* Expanded slides */}
                       {isExpanded && (
@@ -807,12 +1165,18 @@ export function StepPreviewGenerate({ draft, onSaveDraft, proposalId, updateDraf
                                 totalSlides={slides.length}
                                 isActive={gi === activeSlideIndex}
                                 isDisabled={disabledSlides.has(slide.id)}
+                                ruleSummary={ruleMap[slide.id] ? describeRule(ruleMap[slide.id]!, catalog) : null}
+                                isOverridden={slide.id in slideOverrides}
                                 onMoveUp={() => gi > 0 && moveSlide(gi, gi - 1)}
                                 onMoveDown={() =>
                                   gi < slides.length - 1 && moveSlide(gi, gi + 1)
                                 }
                                 onSelect={() => setActiveSlideIndex(gi)}
                                 onToggleEnabled={() => toggleSlideEnabled(slide.id)}
+                                onEditCustom={() =>
+                                  setCustomSlideModal({ existing: customSlides.find((c) => c.id === slide.id) })
+                                }
+                                onRemoveCustom={() => removeCustomSlide(slide.id)}
                               />
                             )
                           })}
@@ -845,17 +1209,27 @@ export function StepPreviewGenerate({ draft, onSaveDraft, proposalId, updateDraf
               }`}
               style={{ containerType: 'inline-size' }}
             >
-              {activeSlide && (
+              {activeSlide && activeSlide.isFeeSlide && (
+                <FeeSlidePreview fee={draft.feeData} clientName={draft.clientName} />
+              )}
+              {activeSlide && !activeSlide.isFeeSlide && (
                 <>
-                  <SlideThumb
-                    src={activeSlide.imagePath}
-                    alt={activeSlide.label}
-                    className="h-full w-full"
-                  />
+                  {activeSlide.customKind === 'blank' ? (
+                    <BlankSlidePreview />
+                  ) : (
+                    <SlideThumb
+                      src={activeSlide.imagePath}
+                      alt={activeSlide.label}
+                      className="h-full w-full"
+                    />
+                  )}
                   {activeSlide.editableFields && activeSlide.editableFields.length > 0 && (
                     <SlideFieldOverlays
                       fields={activeSlide.editableFields}
                       values={draft.editableFieldsData?.[activeSlide.id] || {}}
+                      fits={activeFits}
+                      regionId={draft.regionId}
+                      imageUrls={adhocUrls}
                     />
                   )}
                 </>
@@ -901,6 +1275,51 @@ export function StepPreviewGenerate({ draft, onSaveDraft, proposalId, updateDraf
         </div>
       </div>
 
+      {/* Pinned to older template versions */}
+      {newerTemplates && (
+        <div className="mb-6 flex items-center justify-between gap-4 rounded-2xl border border-hoxton-turquoise/20 bg-hoxton-light px-6 py-4">
+          <div>
+            <p className="text-sm font-heading font-semibold text-hoxton-deep">Newer template versions are available</p>
+            <p className="mt-1 text-xs font-body text-hoxton-slate">
+              This proposal keeps the slides it was first generated with. Switching updates what the client sees.
+            </p>
+          </div>
+          <button
+            onClick={handleUseLatestTemplates}
+            disabled={updatingTemplates}
+            className="inline-flex shrink-0 items-center gap-2 rounded-lg border border-hoxton-turquoise px-3.5 py-2 text-sm font-heading font-semibold text-hoxton-turquoise transition-colors hover:bg-hoxton-turquoise/10 disabled:opacity-50"
+          >
+            {updatingTemplates ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            Use latest templates
+          </button>
+        </div>
+      )}
+
+      {/* Text that won't fit, even after shrinking */}
+      {overflowingFields.length > 0 && (
+        <div className="mb-6 rounded-2xl border border-amber-200 bg-amber-50 px-6 py-4">
+          <p className="flex items-center gap-2 text-sm font-heading font-semibold text-amber-800">
+            <AlertTriangle className="h-4 w-4" />
+            {overflowingFields.length} field{overflowingFields.length !== 1 ? 's' : ''} will be cut off in the PDF
+          </p>
+          <ul className="mt-2 space-y-1">
+            {overflowingFields.map((o) => (
+              <li key={`${o.slideId}/${o.fieldName}`}>
+                <button
+                  onClick={() => setActiveSlideIndex(slides.findIndex((s) => s.id === o.slideId))}
+                  className="text-left text-xs font-body text-amber-700 hover:text-amber-900 hover:underline"
+                >
+                  {o.slideLabel} — {o.fieldLabel}
+                </button>
+              </li>
+            ))}
+          </ul>
+          <p className="mt-2 text-xs font-body text-amber-600">
+            Shorten the text in Customise Slides, or generate anyway.
+          </p>
+        </div>
+      )}
+
       {/* Bottom — Slide count + Generate */}
       <div className="flex items-center justify-between rounded-2xl border border-gray-100 bg-white px-6 py-4">
         <p className="text-sm font-heading font-semibold text-hoxton-deep">
@@ -916,21 +1335,24 @@ export function StepPreviewGenerate({ draft, onSaveDraft, proposalId, updateDraf
               <CheckCircle className="h-4 w-4" />
               PDF ready
             </div>
+            {genError && (
+              <p className="text-sm font-body text-red-600">{genError}</p>
+            )}
             <button
-              onClick={async () => {
-                const { data } = await supabase.storage.from('proposals').createSignedUrl(pdfPath, 3600)
-                if (data?.signedUrl) {
-                  const a = document.createElement('a')
-                  a.href = data.signedUrl
-                  a.download = `${(draft.clientName || 'proposal').replace(/[^a-zA-Z0-9-_]/g, '_')}.pdf`
-                  a.click()
-                }
-              }}
+              onClick={() => downloadProposalFile(pdfPath, 'pdf')}
               className="inline-flex items-center gap-2 rounded-lg bg-hoxton-turquoise px-4 py-2 text-sm font-heading font-semibold text-white hover:bg-hoxton-turquoise/90"
             >
               <Download className="h-4 w-4" />
               Download PDF
             </button>
+            <button
+              onClick={handleExportPptx}
+              disabled={exportingPptx}
+              className="inline-flex items-center gap-2 rounded-lg border border-hoxton-grey bg-white px-4 py-2 text-sm font-heading font-semibold text-hoxton-deep hover:bg-hoxton-light disabled:opacity-70"
+            >
+              {exportingPptx ? <Loader2 className="h-4 w-4 animate-spin" /> : <Presentation className="h-4 w-4" />}
+              {exportingPptx ? 'Exporting...' : 'Download PPTX'}
+            </button>
             <button className="inline-flex items-center gap-2 rounded-lg border border-hoxton-grey bg-white px-4 py-2 text-sm font-heading font-semibold text-hoxton-deep hover:bg-hoxton-light">
               <Mail className="h-4 w-4" />
               Email to Client
@@ -961,7 +1383,11 @@ export function StepPreviewGenerate({ draft, onSaveDraft, proposalId, updateDraf
               {generating ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  Generating... {enabledCount} slides
+                  {jobProgress && jobProgress.rendered > 0
+                    ? `Rendering ${jobProgress.rendered} / ${jobProgress.total} slides`
+                    : jobProgress
+                      ? 'Queued...'
+                      : `Generating... ${enabledCount} slides`}
                 </>
               ) : (
                 <>
@@ -973,6 +1399,21 @@ export function StepPreviewGenerate({ draft, onSaveDraft, proposalId, updateDraf
           </div>
         )}
       </div>
+
+      {customSlideModal && (
+        <AddCustomSlideModal
+          existing={
+            customSlideModal.existing
+              ? {
+                  slide: customSlideModal.existing,
+                  values: draft.editableFieldsData?.[customSlideModal.existing.id] || {},
+                }
+              : undefined
+          }
+          onSave={handleSaveCustomSlide}
+          onClose={() => setCustomSlideModal(null)}
+        />
+      )}
     </div>
   )
 }
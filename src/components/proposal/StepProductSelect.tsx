@@ -1,7 +1,8 @@
 import { useState } from 'react'
-import { Check, Search, Layers, Eye, X, ChevronLeft, ChevronRight } from 'lucide-react'
+import { Check, Search, Layers, Eye, X, ChevronLeft, ChevronRight, Sparkles } from 'lucide-react'
 import { Portal } from '../ui/Portal'
-import { PRODUCT_MODULES, CATEGORIES } from '../../lib/constants'
+import { useCatalog } from '../../hooks/useCatalog'
+import { findModule, groupByCategory, modulesForRegion } from '../../lib/catalog'
 import { getSlideUrl } from '../../lib/storage'
 import type { ProposalDraft } from '../../types'
 
@@ -47,10 +48,9 @@ export function StepProductSelect({ draft, updateDraft }: StepProductSelectProps
   const [search, setSearch] = useState('')
   const [previewProduct, setPreviewProduct] = useState<string | null>(null)
   const [previewSlide, setPreviewSlide] = useState(0)
+  const catalog = useCatalog()
 
-  const regionProducts = PRODUCT_MODULES.filter((p) =>
-    p.regions.includes(draft.regionId)
-  )
+  const regionProducts = modulesForRegion(catalog, draft.regionId)
 
   const filtered = search.trim()
     ? regionProducts.filter(
@@ -60,10 +60,16 @@ export function StepProductSelect({ draft, updateDraft }: StepProductSelectProps
       )
     : regionProducts
 
-  const grouped = CATEGORIES.map((cat) => ({
-    category: cat,
-    products: filtered.filter((p) => p.category === cat),
-  })).filter((g) => g.products.length > 0)
+  // AI recommendations from the call transcript, best first, limited to this region's modules
+  const recommendations = (draft.aiParsedContext?.recommendations ?? []).filter((r) =>
+    regionProducts.some((p) => p.id === r.moduleId)
+  )
+  const rationaleFor = new Map(recommendations.map((r) => [r.moduleId, r.rationale]))
+
+  const grouped = groupByCategory(catalog, filtered).map((g) => ({
+    category: g.category,
+    products: g.modules,
+  }))
 
   function toggleProduct(id: string) {
     const selected = draft.selectedProducts.includes(id)
@@ -73,7 +79,7 @@ export function StepProductSelect({ draft, updateDraft }: StepProductSelectProps
   }
 
   const previewMod = previewProduct
-    ? PRODUCT_MODULES.find((p) => p.id === previewProduct)
+    ? findModule(catalog, previewProduct)
     : null
 
   return (
@@ -106,6 +112,47 @@ export function StepProductSelect({ draft, updateDraft }: StepProductSelectProps
         />
       </div>
 
+      {/* Recommendations */}
+      {recommendations.length > 0 && (
+        <div className="mb-6 rounded-xl border border-hoxton-turquoise/20 bg-hoxton-turquoise/5 px-4 py-3">
+          <div className="mb-2 flex items-center gap-2">
+            <Sparkles className="h-4 w-4 text-hoxton-turquoise" />
+            <h3 className="text-xs font-heading font-semibold uppercase tracking-wider text-hoxton-turquoise">
+              Recommended from the call
+            </h3>
+          </div>
+          <ol className="space-y-1.5">
+            {recommendations.map((rec, i) => {
+              const mod = findModule(catalog, rec.moduleId)
+              const isSelected = draft.selectedProducts.includes(rec.moduleId)
+              return (
+                <li key={rec.moduleId} className="flex items-start gap-3">
+                  <span className="mt-0.5 w-4 shrink-0 text-xs font-heading font-semibold text-hoxton-turquoise">
+                    {i + 1}.
+                  </span>
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-heading font-medium text-hoxton-deep">{mod?.name ?? rec.moduleId}</p>
+                    {rec.rationale && (
+                      <p className="text-xs font-body text-hoxton-slate">{rec.rationale}</p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => toggleProduct(rec.moduleId)}
+                    className={`shrink-0 rounded-lg px-2.5 py-1 text-xs font-heading font-medium transition-colors ${
+                      isSelected
+                        ? 'bg-hoxton-turquoise text-white'
+                        : 'border border-hoxton-turquoise/40 text-hoxton-turquoise hover:bg-hoxton-turquoise/10'
+                    }`}
+                  >
+                    {isSelected ? 'Selected' : 'Add'}
+                  </button>
+                </li>
+              )
+            })}
+          </ol>
+        </div>
+      )}
+
       {/* Product Groups */}
       <div className="space-y-6">
         {grouped.map(({ category, products }) => (
@@ -159,6 +206,15 @@ export function StepProductSelect({ draft, updateDraft }: StepProductSelectProps
                           <span className="text-xs font-body text-gray-400">
                             {product.slides} slides
                           </span>
+                          {rationaleFor.has(product.id) && (
+                            <span
+                              title={rationaleFor.get(product.id)}
+                              className="inline-flex items-center gap-0.5 rounded-full bg-hoxton-turquoise/10 px-1.5 py-px text-[10px] font-heading font-semibold uppercase text-hoxton-turquoise"
+                            >
+                              <Sparkles className="h-2.5 w-2.5" />
+                              Recommended
+                            </span>
+                          )}
                           {product.layout === 'old' && (
                             <span className="rounded-full bg-amber-100 px-1.5 py-px text-[10px] font-heading font-semibold uppercase text-amber-700">
                               Legacy
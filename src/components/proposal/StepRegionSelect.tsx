@@ -1,6 +1,8 @@
 import { useState } from 'react'
-import { Check } from 'lucide-react'
-import { REGIONS } from '../../lib/constants'
+import { Check, Languages } from 'lucide-react'
+import { useCatalog } from '../../hooks/useCatalog'
+import { activeRegions } from '../../lib/catalog'
+import { PROPOSAL_LOCALES } from '../../lib/locales'
 import type { ProposalDraft } from '../../types'
 
 interface StepRegionSelectProps {
@@ -93,6 +95,8 @@ const REGION_ILLUSTRATION: Record<string, React.FC> = {
 }
 
 export function StepRegionSelect({ draft, updateDraft, onAutoAdvance }: StepRegionSelectProps) {
+  const catalog = useCatalog()
+
   function handleSelect(regionId: string) {
     updateDraft({ regionId, selectedProducts: [] })
     setTimeout(onAutoAdvance, 300)
@@ -107,8 +111,33 @@ export function StepRegionSelect({ draft, updateDraft, onAutoAdvance }: StepRegi
         Choose the region for this proposal — this determines the intro pack and available products
       </p>
 
+      <div className="mb-6 flex flex-wrap items-center gap-3 rounded-2xl border border-gray-100 bg-white px-5 py-3">
+        <span className="flex items-center gap-1.5 text-sm font-heading font-medium text-hoxton-deep">
+          <Languages className="h-4 w-4 text-hoxton-turquoise" />
+          Proposal language
+        </span>
+        <div className="flex gap-1.5">
+          {PROPOSAL_LOCALES.map((locale) => (
+            <button
+              key={locale.value}
+              onClick={() => updateDraft({ locale: locale.value })}
+              className={`rounded-full px-3 py-1 text-xs font-heading font-semibold transition-colors ${
+                draft.locale === locale.value
+                  ? 'bg-hoxton-turquoise text-white'
+                  : 'bg-hoxton-light text-hoxton-slate hover:bg-hoxton-grey'
+              }`}
+            >
+              {locale.nativeLabel}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs font-body text-gray-400">
+          Slides without a translation are shown in English
+        </span>
+      </div>
+
       <div className="grid grid-cols-2 gap-5 lg:grid-cols-4">
-        {REGIONS.map((region) => {
+        {activeRegions(catalog).map((region) => {
           const isSelected = draft.regionId === region.id
           const Illustration = REGION_ILLUSTRATION[region.id] ?? InternationalIllustration
 
@@ -1,4 +1,4 @@
-import type { ProposalDraft } from '../../types'
+import type { ProposalDraft, TranscriptFacts } from '../../types'
 
 interface StepSummaryContextProps {
   draft: ProposalDraft
@@ -23,6 +23,13 @@ const FIELDS: { key: 'situation' | 'objectives' | 'focus'; label: string; placeh
   },
 ]
 
+const FACT_FIELDS: { key: keyof TranscriptFacts; label: string; placeholder: string }[] = [
+  { key: 'age', label: 'Age', placeholder: 'e.g. 47' },
+  { key: 'pensionValue', label: 'Pension Value', placeholder: 'e.g. £850,000 across three pensions' },
+  { key: 'residency', label: 'Residency', placeholder: 'e.g. UAE resident since 2019' },
+  { key: 'dependants', label: 'Dependants', placeholder: 'e.g. Two children, aged 12 and 15' },
+]
+
 export function StepSummaryContext({ draft, updateDraft }: StepSummaryContextProps) {
   const isAiFilled = draft.aiParsedContext !== null
 
@@ -32,6 +39,16 @@ export function StepSummaryContext({ draft, updateDraft }: StepSummaryContextPro
     })
   }
 
+  function handleFactChange(key: keyof TranscriptFacts, value: string) {
+    if (!draft.aiParsedContext) return
+    updateDraft({
+      aiParsedContext: {
+        ...draft.aiParsedContext,
+        facts: { ...draft.aiParsedContext.facts, [key]: value },
+      },
+    })
+  }
+
   return (
     <div className="mx-auto max-w-2xl">
       <h2 className="text-xl font-heading font-semibold text-hoxton-deep">
@@ -64,6 +81,31 @@ export function StepSummaryContext({ draft, updateDraft }: StepSummaryContextPro
           </div>
         ))}
       </div>
+
+      {isAiFilled && (
+        <div className="mt-8">
+          <h3 className="text-xs font-heading font-semibold uppercase tracking-wider text-hoxton-slate">
+            Client Facts from the Call
+          </h3>
+          <p className="mt-1 mb-3 text-xs font-body text-hoxton-slate/70">
+            Used by slide fields that autofill from the call — leave blank anything that wasn&apos;t discussed
+          </p>
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            {FACT_FIELDS.map((fact) => (
+              <div key={fact.key} className="space-y-1">
+                <label className="block text-xs font-heading font-medium text-hoxton-slate">{fact.label}</label>
+                <input
+                  type="text"
+                  value={draft.aiParsedContext?.facts?.[fact.key] ?? ''}
+                  onChange={(e) => handleFactChange(fact.key, e.target.value)}
+                  placeholder={fact.placeholder}
+                  className="w-full rounded-xl border border-hoxton-grey bg-hoxton-light px-4 py-2.5 text-sm font-body text-hoxton-deep placeholder:text-hoxton-slate/50 focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   )
 }
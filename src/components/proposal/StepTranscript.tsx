@@ -10,7 +10,7 @@ import {
 } from 'lucide-react'
 import { supabase } from '../../lib/supabase'
 import { logger } from '../../lib/logger'
-import type { ProposalDraft } from '../../types'
+import type { ModuleRecommendation, ProposalDraft } from '../../types'
 
 type InputMode = 'paste' | 'upload'
 
@@ -64,6 +64,7 @@ export function StepTranscript({ draft, updateDraft, onSkip }: StepTranscriptPro
   const [mode, setMode] = useState<InputMode>('paste')
   const [summarising, setSummarising] = useState(false)
   const [summarised, setSummarised] = useState(false)
+  const [recommendedCount, setRecommendedCount] = useState(0)
   const [error, setError] = useState('')
 
   // Upload state
@@ -100,7 +101,7 @@ export function StepTranscript({ draft, updateDraft, onSkip }: StepTranscriptPro
       logger.log('[StepTranscript] Calling supabase.functions.invoke...')
       const { data, error: fnError } = await supabase.functions.invoke(
         'parse-transcript',
-        { body: { transcript: draft.transcript } }
+        { body: { transcript: draft.transcript, locale: draft.locale, regionId: draft.regionId } }
       )
       logger.log('[StepTranscript] Response received:', { data, fnError })
 
@@ -130,8 +131,17 @@ export function StepTranscript({ draft, updateDraft, onSkip }: StepTranscriptPro
         objectives: data.objectives,
         focus: data.focus,
       }
-
-      updateDraft({ aiParsedContext: context, context })
+      const recommendations: ModuleRecommendation[] = Array.isArray(data.recommendations) ? data.recommendations : []
+
+      updateDraft({
+        aiParsedContext: { ...context, recommendations, facts: data.facts ?? {} },
+        context,
+        // Pre-select the recommendations unless the adviser has already chosen modules
+        ...(draft.selectedProducts.length === 0 && recommendations.length > 0
+          ? { selectedProducts: recommendations.map((r) => r.moduleId) }
+          : {}),
+      })
+      setRecommendedCount(recommendations.length)
       setSummarised(true)
       logger.log('[StepTranscript] Summary successful')
     } catch (err) {
@@ -418,6 +428,8 @@ export function StepTranscript({ draft, updateDraft, onSkip }: StepTranscriptPro
           <CheckCircle className="h-5 w-5 text-emerald-600" />
           <span className="text-sm font-heading font-medium text-emerald-800">
             Summary generated successfully — context fields have been pre-filled
+            {recommendedCount > 0 &&
+              ` and ${recommendedCount} product module${recommendedCount === 1 ? '' : 's'} recommended`}
           </span>
         </div>
       )}
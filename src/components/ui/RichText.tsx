@@ -0,0 +1,148 @@
+import { useRef } from 'react'
+import { Bold, Italic, List, ListOrdered, Link } from 'lucide-react'
+import {
+  insertLink,
+  parseRichText,
+  sanitiseRichText,
+  toggleInlineMark,
+  toggleList,
+  type RichTextLine,
+  type TextEdit,
+} from '../../lib/rich-text'
+
+/* ── Display ── */
+
+// Spacing is in em so it scales with the overlay's font size (keep in step with the PDF renderer)
+const BLOCK_GAP = '0.4em'
+const LIST_INDENT = '1.2em'
+
+function Runs({ line }: { line: RichTextLine }) {
+  return (
+    <>
+      {line.map((run, i) => {
+        const style = {
+          fontWeight: run.bold ? 700 : undefined,
+          fontStyle: run.italic ? 'italic' : undefined,
+        }
+        return run.href ? (
+          <a
+            key={i}
+            href={run.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            style={{ ...style, color: 'inherit', textDecoration: 'underline' }}
+          >
+            {run.text}
+          </a>
+        ) : (
+          <span key={i} style={style}>
+            {run.text}
+          </span>
+        )
+      })}
+    </>
+  )
+}
+
+/** Render a stored rich-text value — used by every slide overlay so they all match the PDF */
+export function RichTextContent({ value }: { value: string }) {
+  return (
+    <div style={{ width: '100%', whiteSpace: 'normal' }}>
+      {parseRichText(value).map((block, bi) => {
+        const gap = bi > 0 ? BLOCK_GAP : 0
+        if (block.type === 'paragraph') {
+          return (
+            <div key={bi} style={{ marginTop: gap }}>
+              {block.lines.map((line, li) => (
+                <div key={li}>
+                  <Runs line={line} />
+                </div>
+              ))}
+            </div>
+          )
+        }
+        const ListTag = block.type === 'bullet' ? 'ul' : 'ol'
+        return (
+          <ListTag
+            key={bi}
+            start={block.type === 'numbered' ? block.start : undefined}
+            style={{
+              marginTop: gap,
+              paddingLeft: LIST_INDENT,
+              listStyleType: block.type === 'bullet' ? 'disc' : 'decimal',
+            }}
+          >
+            {block.items.map((item, ii) => (
+              <li key={ii}>
+                <Runs line={item} />
+              </li>
+            ))}
+          </ListTag>
+        )
+      })}
+    </div>
+  )
+}
+
+/* ── Editing ── */
+
+const TOOLBAR_BUTTON =
+  'rounded p-1.5 text-hoxton-slate transition-colors hover:bg-hoxton-light hover:text-hoxton-deep'
+
+interface RichTextEditorProps {
+  value: string
+  onChange: (value: string) => void
+  placeholder?: string
+  rows?: number
+}
+
+/** Textarea with a formatting toolbar. Values are sanitised on every change. */
+export function RichTextEditor({ value, onChange, placeholder, rows = 4 }: RichTextEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+
+  function apply(edit: (value: string, start: number, end: number) => TextEdit) {
+    const el = textareaRef.current
+    if (!el) return
+    const result = edit(value, el.selectionStart, el.selectionEnd)
+    onChange(sanitiseRichText(result.value))
+    // Restore the selection once React has written the new value
+    requestAnimationFrame(() => {
+      el.focus()
+      el.setSelectionRange(result.selectionStart, result.selectionEnd)
+    })
+  }
+
+  return (
+    <div className="overflow-hidden rounded-lg border border-gray-200 focus-within:border-hoxton-turquoise focus-within:ring-1 focus-within:ring-hoxton-turquoise">
+      <div className="flex items-center gap-0.5 border-b border-gray-100 bg-gray-50 px-1.5 py-1">
+        <button type="button" title="Bold" className={TOOLBAR_BUTTON} onClick={() => apply((v, s, e) => toggleInlineMark(v, s, e, '**'))}>
+          <Bold className="h-3.5 w-3.5" />
+        </button>
+        <button type="button" title="Italic" className={TOOLBAR_BUTTON} onClick={() => apply((v, s, e) => toggleInlineMark(v, s, e, '*'))}>
+          <Italic className="h-3.5 w-3.5" />
+        </button>
+        <div className="mx-1 h-4 w-px bg-gray-200" />
+        <button type="button" title="Bulleted list" className={TOOLBAR_BUTTON} onClick={() => apply((v, s, e) => toggleList(v, s, e, 'bullet'))}>
+          <List className="h-3.5 w-3.5" />
+        </button>
+        <button type="button" title="Numbered list" className={TOOLBAR_BUTTON} onClick={() => apply((v, s, e) => toggleList(v, s, e, 'numbered'))}>
+          <ListOrdered className="h-3.5 w-3.5" />
+        </button>
+        <button type="button" title="Link" className={TOOLBAR_BUTTON} onClick={() => apply(insertLink)}>
+          <Link className="h-3.5 w-3.5" />
+        </button>
+        <span className="ml-auto pr-1 text-[10px] font-body text-gray-400">
+          **bold** · *italic* · - list
+        </span>
+      </div>
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => onChange(sanitiseRichText(e.target.value))}
+        placeholder={placeholder}
+        rows={rows}
+        className="block w-full border-0 px-3 py-2.5 text-sm font-body text-hoxton-deep placeholder:text-gray-300 focus:outline-none focus:ring-0"
+      />
+    </div>
+  )
+}
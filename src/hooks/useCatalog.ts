@@ -0,0 +1,16 @@
+import { useEffect, useSyncExternalStore } from 'react'
+import { getCatalog, loadCatalog, subscribeCatalog, type Catalog } from '../lib/catalog'
+
+/**
+ * Regions, product modules and categories from the database. Renders straight
+ * away with cached (or seed) data and updates once the fresh load lands.
+ */
+export function useCatalog(): Catalog {
+  const catalog = useSyncExternalStore(subscribeCatalog, getCatalog)
+
+  useEffect(() => {
+    loadCatalog()
+  }, [])
+
+  return catalog
+}
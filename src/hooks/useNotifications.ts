@@ -0,0 +1,27 @@
+import { useEffect, useSyncExternalStore } from 'react'
+import { useAuth } from '../lib/auth'
+import {
+  getNotificationState,
+  startNotifications,
+  subscribeNotifications,
+  type NotificationState,
+} from '../lib/notifications'
+
+const SIGNED_OUT: NotificationState = { userId: null, items: [], unreadCount: 0, loaded: false }
+
+/**
+ * The signed-in user's notification inbox, kept up to date over Realtime.
+ * Every caller shares the same store and channel.
+ */
+export function useNotifications(): NotificationState {
+  const { user } = useAuth()
+  const userId = user?.id
+  const state = useSyncExternalStore(subscribeNotifications, getNotificationState)
+
+  useEffect(() => {
+    if (!userId) return
+    return startNotifications(userId)
+  }, [userId])
+
+  return userId && state.userId === userId ? state : SIGNED_OUT
+}
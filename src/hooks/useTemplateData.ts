@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react'
 import { supabase } from '../lib/supabase'
+import { invalidateCatalog } from '../lib/catalog'
 import type { DbRegion, DbProductModule, DbCategory } from '../types'
 
 interface TemplateData {
@@ -34,8 +35,8 @@ export function useTemplateData(): TemplateData {
 
     // Fetch actual slide counts from intro_packs/closing_packs to override denormalized counts
     const [{ data: introPacks }, { data: closingPacks }] = await Promise.all([
-      supabase.from('intro_packs').select('region_id, intro_slides(id)').eq('is_active', true),
-      supabase.from('closing_packs').select('region_id, closing_slides(id)').eq('is_active', true),
+      supabase.from('intro_packs').select('region_id, intro_slides(id)').eq('is_active', true).eq('locale', 'en'),
+      supabase.from('closing_packs').select('region_id, closing_slides(id)').eq('is_active', true).eq('locale', 'en'),
     ])
 
     const introCountMap = new Map<string, number>()
@@ -62,17 +63,17 @@ export function useTemplateData(): TemplateData {
   const fetchModules = useCallback(async () => {
     const { data, error: err } = await supabase
       .from('product_modules')
-      .select('*, product_slides(id)')
+      .select('*, product_slides(id, locale)')
       .order('sort_order')
     if (err) {
       setError(err.message)
       return
     }
 
-    // Override denormalized slides_count with actual count from product_slides
+    // Override denormalized slides_count with actual count of English product_slides
     const modulesWithCounts = (data as (DbProductModule & { product_slides?: unknown })[]).map((m) => {
-      const slides = m.product_slides as unknown[]
-      const actualCount = Array.isArray(slides) ? slides.length : m.slides_count
+      const slides = m.product_slides as { locale: string }[] | null
+      const actualCount = Array.isArray(slides) ? slides.filter((s) => s.locale === 'en').length : m.slides_count
       const { product_slides: _, ...rest } = m
       return { ...rest, slides_count: actualCount } as DbProductModule
     })
@@ -93,9 +94,26 @@ export function useTemplateData(): TemplateData {
     setCategories(data as DbCategory[])
   }, [])
 
+  // Refreshes follow admin edits — reload the app-wide catalog too
+  const refreshRegions = useCallback(async () => {
+    await fetchRegions()
+    invalidateCatalog()
+  }, [fetchRegions])
+
+  const refreshModules = useCallback(async () => {
+    await fetchModules()
+    invalidateCatalog()
+  }, [fetchModules])
+
+  const refreshCategories = useCallback(async () => {
+    await fetchCategories()
+    invalidateCatalog()
+  }, [fetchCategories])
+
   const refreshAll = useCallback(async () => {
     setError(null)
     await Promise.all([fetchRegions(), fetchModules(), fetchCategories()])
+    invalidateCatalog()
   }, [fetchRegions, fetchModules, fetchCategories])
 
   useEffect(() => {
@@ -114,9 +132,9 @@ export function useTemplateData(): TemplateData {
     categories,
     loading,
     error,
-    refreshRegions: fetchRegions,
-    refreshModules: fetchModules,
-    refreshCategories: fetchCategories,
+    refreshRegions,
+    refreshModules,
+    refreshCategories,
     refreshAll,
   }
 }
@@ -0,0 +1,268 @@
+import { supabase } from './supabase'
+import { logAudit } from './audit'
+import { logger } from './logger'
+import { logProposalEvent } from './proposal-events'
+import { normaliseFeeData } from './fees'
+import type {
+  ApprovalRule,
+  ApprovalStepStatus,
+  Proposal,
+  ProposalApprovalStep,
+  UserRole,
+} from '../types'
+
+/* ── Types ── */
+
+export type ApprovalRuleInput = Pick<
+  ApprovalRule,
+  | 'name'
+  | 'description'
+  | 'product_modules'
+  | 'min_initial_fee'
+  | 'min_ongoing_percent'
+  | 'author_roles'
+  | 'approver_roles'
+  | 'is_active'
+  | 'sort_order'
+>
+
+/** One sign-off in a chain, with the names of the rules that asked for it */
+export interface ChainStep {
+  approverRole: UserRole
+  requiredBy: string[]
+}
+
+export interface SendGate {
+  allowed: boolean
+  reason?: string
+}
+
+type ProposalForRules = Pick<Proposal, 'selected_products' | 'fee_data'>
+
+export const APPROVER_ROLES: { value: UserRole; label: string }[] = [
+  { value: 'compliance', label: 'Compliance' },
+  { value: 'planner_admin', label: 'Planner Admin' },
+  { value: 'system_admin', label: 'System Admin' },
+]
+
+export function approverRoleLabel(role: UserRole): string {
+  return APPROVER_ROLES.find((r) => r.value === role)?.label ?? role
+}
+
+/* ── Rule evaluation ── */
+
+/** Human-readable reasons a rule applies to this proposal (empty when it doesn't) */
+export function ruleMatches(rule: ApprovalRule, proposal: ProposalForRules, authorRole: UserRole | null): string[] {
+  const reasons: string[] = []
+  const fees = normaliseFeeData(proposal.fee_data)
+
+  const products = rule.product_modules.filter((id) => proposal.selected_products.includes(id))
+  if (products.length > 0) reasons.push(`includes ${products.join(', ')}`)
+
+  if (rule.min_initial_fee !== null && (fees.initialAdviceFee ?? 0) > rule.min_initial_fee) {
+    reasons.push(`initial fee above ${rule.min_initial_fee}`)
+  }
+  // Tiered fees are compared by their highest band
+  const ongoing = Math.max(fees.ongoingPercent ?? 0, ...fees.aumBands.map((b) => b.percent))
+  if (rule.min_ongoing_percent !== null && ongoing > rule.min_ongoing_percent) {
+    reasons.push(`ongoing fee above ${rule.min_ongoing_percent}%`)
+  }
+  if (authorRole && rule.author_roles.includes(authorRole)) {
+    reasons.push(`authored by ${authorRole.replace('_', ' ')}`)
+  }
+
+  return reasons
+}
+
+/**
+ * Merge the sign-offs of every matching rule into one ordered chain. Rules are
+ * taken in sort order; a role required by several rules appears once, at its
+ * earliest position.
+ */
+export function buildApprovalChain(
+  rules: ApprovalRule[],
+  proposal: ProposalForRules,
+  authorRole: UserRole | null
+): ChainStep[] {
+  const chain: ChainStep[] = []
+
+  for (const rule of [...rules].sort((a, b) => a.sort_order - b.sort_order)) {
+    if (!rule.is_active || ruleMatches(rule, proposal, authorRole).length === 0) continue
+    for (const role of rule.approver_roles) {
+      const existing = chain.find((s) => s.approverRole === role)
+      if (existing) {
+        if (!existing.requiredBy.includes(rule.name)) existing.requiredBy.push(rule.name)
+      } else {
+        chain.push({ approverRole: role, requiredBy: [rule.name] })
+      }
+    }
+  }
+
+  return chain
+}
+
+/** The step waiting on a decision — the first pending one, unless the round was rejected */
+export function currentStep(steps: ProposalApprovalStep[]): ProposalApprovalStep | null {
+  if (steps.some((s) => s.status === 'rejected')) return null
+  return steps.find((s) => s.status === 'pending') ?? null
+}
+
+export function canDecideStep(step: ProposalApprovalStep, role: UserRole | undefined): boolean {
+  return role === step.approver_role || role === 'system_admin'
+}
+
+/* ── Rules CRUD (admin) ── */
+
+export async function getApprovalRules(): Promise<ApprovalRule[]> {
+  const { data, error } = await supabase
+    .from('approval_rules')
+    .select('*')
+    .order('sort_order', { ascending: true })
+  if (error) {
+    logger.error('[Approvals] Failed to load rules:', error.message)
+    return []
+  }
+  return (data ?? []) as ApprovalRule[]
+}
+
+export async function saveApprovalRule(
+  rule: ApprovalRuleInput,
+  userId: string,
+  id?: string
+): Promise<{ rule?: ApprovalRule; error?: string }> {
+  const query = id
+    ? supabase.from('approval_rules').update({ ...rule, updated_at: new Date().toISOString() }).eq('id', id)
+    : supabase.from('approval_rules').insert({ ...rule, created_by: userId })
+
+  const { data, error } = await query.select('*').single()
+  if (error || !data) return { error: error?.message ?? 'Failed to save rule' }
+
+  await logAudit(id ? 'approval_rule_updated' : 'approval_rule_created', 'approval_rule', data.id, {
+    name: rule.name,
+    approver_roles: rule.approver_roles,
+    is_active: rule.is_active,
+  }, userId)
+
+  return { rule: data as ApprovalRule }
+}
+
+export async function deleteApprovalRule(rule: ApprovalRule, userId: string): Promise<{ error?: string }> {
+  const { error } = await supabase.from('approval_rules').delete().eq('id', rule.id)
+  if (error) return { error: error.message }
+  await logAudit('approval_rule_deleted', 'approval_rule', rule.id, { name: rule.name }, userId)
+  return {}
+}
+
+/* ── Proposal chain ── */
+
+/** Steps of the proposal's latest approval round, in order */
+export async function getApprovalSteps(proposalId: string, round: number): Promise<ProposalApprovalStep[]> {
+  const { data, error } = await supabase
+    .from('proposal_approval_steps')
+    .select('*')
+    .eq('proposal_id', proposalId)
+    .eq('round', round)
+    .order('step_order', { ascending: true })
+  if (error) {
+    logger.error('[Approvals] Failed to load steps:', error.message)
+    return []
+  }
+  return (data ?? []) as ProposalApprovalStep[]
+}
+
+/** The role rules are evaluated against — the adviser's, falling back to the submitter's */
+async function getAuthorRole(proposal: Pick<Proposal, 'advisor_id'>, fallback: UserRole | null): Promise<UserRole | null> {
+  const { data } = await supabase.from('profiles').select('role').eq('id', proposal.advisor_id).maybeSingle()
+  return (data?.role as UserRole | undefined) ?? fallback
+}
+
+/** Chain the proposal would need right now (used to preview before submitting) */
+export async function previewApprovalChain(proposal: Proposal, submitterRole: UserRole | null): Promise<ChainStep[]> {
+  const [rules, authorRole] = await Promise.all([
+    getApprovalRules(),
+    getAuthorRole(proposal, submitterRole),
+  ])
+  return buildApprovalChain(rules, proposal, authorRole)
+}
+
+/**
+ * Start a new approval round. The database builds the chain from the rules that
+ * match now; when none match, a single system admin sign-off is used.
+ */
+export async function submitForApproval(
+  proposal: Proposal,
+  userId: string
+): Promise<{ round?: number; steps?: ProposalApprovalStep[]; error?: string }> {
+  const { data, error } = await supabase.rpc('submit_proposal_for_approval', {
+    p_proposal_id: proposal.id,
+  })
+  if (error) return { error: error.message }
+
+  const steps = ((data ?? []) as ProposalApprovalStep[]).sort((a, b) => a.step_order - b.step_order)
+  const round = steps[0]?.round ?? (proposal.approval_round ?? 0) + 1
+
+  logProposalEvent(proposal.id, 'submitted', {
+    round,
+    approvers: steps.map((s) => s.approver_role),
+  }, userId)
+
+  return { round, steps }
+}
+
+export async function decideApprovalStep(
+  step: ProposalApprovalStep,
+  decision: Exclude<ApprovalStepStatus, 'pending'>,
+  notes: string,
+  userId: string,
+  isLastStep: boolean
+): Promise<{ step?: ProposalApprovalStep; error?: string }> {
+  const { data, error } = await supabase.rpc('decide_approval_step', {
+    p_step_id: step.id,
+    p_decision: decision,
+    p_notes: notes,
+  })
+  if (error) return { error: error.message }
+
+  const eventData = { role: step.approver_role, notes: notes.trim() || undefined }
+  if (decision === 'rejected') {
+    logProposalEvent(step.proposal_id, 'rejected', eventData, userId)
+  } else {
+    logProposalEvent(step.proposal_id, isLastStep ? 'approved' : 'step_approved', eventData, userId)
+  }
+
+  return { step: data as ProposalApprovalStep }
+}
+
+/* ── Send gate ── */
+
+/**
+ * Whether tracking links can be created for a proposal: its latest round is
+ * approved, or no rule asks for sign-off. Mirrors proposal_approval_complete(),
+ * which the database checks on insert.
+ */
+export async function getSendGate(proposal: Proposal, submitterRole: UserRole | null): Promise<SendGate> {
+  if (proposal.status === 'pending_approval') {
+    return { allowed: false, reason: 'This proposal is still awaiting approval.' }
+  }
+  if (proposal.status === 'rejected') {
+    return { allowed: false, reason: 'This proposal was rejected — update it and resubmit for approval.' }
+  }
+
+  if (proposal.status === 'approved') {
+    const steps = await getApprovalSteps(proposal.id, proposal.approval_round ?? 0)
+    if (steps.some((s) => s.status !== 'approved')) {
+      return { allowed: false, reason: 'The approval chain for this proposal is not complete.' }
+    }
+    return { allowed: true }
+  }
+
+  const chain = await previewApprovalChain(proposal, submitterRole)
+  if (chain.length > 0) {
+    const roles = chain.map((s) => approverRoleLabel(s.approverRole)).join(' → ')
+    const reason = (proposal.approval_round ?? 0) > 0
+      ? `This proposal has changed since it was approved and needs sign-off again (${roles}).`
+      : `This proposal needs sign-off (${roles}) before it can be sent.`
+    return { allowed: false, reason }
+  }
+  return { allowed: true }
+}
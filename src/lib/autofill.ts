@@ -0,0 +1,282 @@
+import { supabase } from './supabase'
+import { logger } from './logger'
+import { regionFormat } from './field-values'
+import type { AutoFillSource, EditableFieldDef, ProposalDraft } from '../types'
+
+/*
+ * Autofill expressions for editable fields. A field's `autoFill` is either a
+ * bare variable (`client_name`) or a template with `{variable | function}`
+ * placeholders:
+ *
+ *   Prepared for {client_name | first_name} by {advisor_name}, {proposal_date | date:medium}
+ *
+ * Mirrored in pdf-service/src/autofill.ts — keep the variables and functions in step.
+ */
+
+/* ── Variables ── */
+
+export const AUTO_FILL_VARIABLES: readonly AutoFillSource[] = [
+  'client_name', 'client_email', 'hxt_reference',
+  'client_dob', 'client_nationality', 'client_address',
+  'client_employer', 'client_risk_profile',
+  'client_age', 'client_pension_value', 'client_residency', 'client_dependants',
+  'advisor_name', 'advisor_email', 'advisor_phone',
+  'region_name', 'company_name', 'date', 'year', 'proposal_date',
+  'situation', 'objectives', 'focus',
+]
+
+/** Variables holding a date — stored as ISO and formatted on output */
+const DATE_VARIABLES = new Set<string>(['client_dob', 'date', 'proposal_date'])
+
+/** Raw variable values. Dates are ISO (yyyy-mm-dd) so functions can reformat them. */
+export type AutoFillContext = Partial<Record<AutoFillSource, string>>
+
+export interface AdviserDetails {
+  name: string
+  email: string
+}
+
+export function isAutoFillVariable(name: string): name is AutoFillSource {
+  return (AUTO_FILL_VARIABLES as readonly string[]).includes(name)
+}
+
+/* ── Functions ── */
+
+export const AUTO_FILL_FUNCTIONS: Record<string, string> = {
+  upper: 'UPPERCASE',
+  lower: 'lowercase',
+  first_name: 'First word of a name',
+  age: 'Age in years from a date',
+  date: 'Format a date — date:long, date:medium, date:short or date:year',
+}
+
+const DATE_FORMATS = ['long', 'medium', 'short', 'year']
+
+/* ── Parsing ── */
+
+export interface AutoFillFilter {
+  name: string
+  arg?: string
+}
+
+export type AutoFillPart =
+  | { kind: 'text'; text: string }
+  | { kind: 'variable'; variable: string; filters: AutoFillFilter[] }
+
+const PLACEHOLDER_RE = /\{([^{}]*)\}/g
+
+function parsePlaceholder(body: string): AutoFillPart {
+  const [variable, ...filters] = body.split('|').map((s) => s.trim())
+  return {
+    kind: 'variable',
+    variable,
+    filters: filters.map((f) => {
+      const [name, arg] = f.split(':').map((s) => s.trim())
+      return arg === undefined ? { name } : { name, arg }
+    }),
+  }
+}
+
+export function parseAutoFill(expression: string): AutoFillPart[] {
+  // A bare variable name is shorthand for a single placeholder
+  if (!expression.includes('{')) {
+    return [parsePlaceholder(expression.trim())]
+  }
+
+  const parts: AutoFillPart[] = []
+  let last = 0
+  for (const match of expression.matchAll(PLACEHOLDER_RE)) {
+    const index = match.index ?? 0
+    if (index > last) parts.push({ kind: 'text', text: expression.slice(last, index) })
+    parts.push(parsePlaceholder(match[1]))
+    last = index + match[0].length
+  }
+  if (last < expression.length) parts.push({ kind: 'text', text: expression.slice(last) })
+  return parts
+}
+
+/** Problems with an expression, as messages for the template editor. Empty when valid. */
+export function validateAutoFill(expression: string): string[] {
+  if (!expression.trim()) return []
+  const problems: string[] = []
+
+  const stray = expression.replace(PLACEHOLDER_RE, '')
+  if (expression.includes('{') && (stray.includes('{') || stray.includes('}'))) {
+    problems.push('Unmatched { or } — placeholders look like {client_name}')
+  }
+
+  for (const part of parseAutoFill(expression)) {
+    if (part.kind !== 'variable') continue
+    if (!part.variable) {
+      problems.push('Empty placeholder {}')
+      continue
+    }
+    if (!isAutoFillVariable(part.variable)) {
+      problems.push(`Unknown variable "${part.variable}"`)
+    }
+    for (const filter of part.filters) {
+      if (!(filter.name in AUTO_FILL_FUNCTIONS)) {
+        problems.push(`Unknown function "${filter.name}"`)
+      } else if (filter.name === 'date' && filter.arg !== undefined && !DATE_FORMATS.includes(filter.arg)) {
+        problems.push(`Unknown date format "${filter.arg}" — use ${DATE_FORMATS.join(', ')}`)
+      }
+    }
+  }
+  return [...new Set(problems)]
+}
+
+/* ── Evaluation ── */
+
+/** Parse an ISO date, falling back to whatever Date understands ("15 March 1978") */
+function parseDate(value: string): Date | null {
+  const iso = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00Z`) : new Date(`${value} UTC`)
+  return Number.isNaN(iso.getTime()) ? null : iso
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function formatDate(value: string, format: string, locale: string): string {
+  const date = parseDate(value)
+  if (!date) return value
+  if (format === 'year') return String(date.getUTCFullYear())
+  return new Intl.DateTimeFormat(locale, {
+    dateStyle: format as 'long' | 'medium' | 'short',
+    timeZone: 'UTC',
+  }).format(date)
+}
+
+function ageFrom(value: string, today: Date): string {
+  const dob = parseDate(value)
+  if (!dob) return ''
+  let age = today.getUTCFullYear() - dob.getUTCFullYear()
+  const beforeBirthday =
+    today.getUTCMonth() < dob.getUTCMonth() ||
+    (today.getUTCMonth() === dob.getUTCMonth() && today.getUTCDate() < dob.getUTCDate())
+  if (beforeBirthday) age -= 1
+  return age >= 0 ? String(age) : ''
+}
+
+function applyFilter(value: string, filter: AutoFillFilter, locale: string, today: Date): string {
+  switch (filter.name) {
+    case 'upper':
+      return value.toLocaleUpperCase(locale)
+    case 'lower':
+      return value.toLocaleLowerCase(locale)
+    case 'first_name':
+      return value.trim().split(/\s+/)[0] ?? ''
+    case 'age':
+      return ageFrom(value, today)
+    case 'date':
+      return formatDate(value, filter.arg ?? 'long', locale)
+    default:
+      return value
+  }
+}
+
+function evaluatePart(
+  part: Extract<AutoFillPart, { kind: 'variable' }>,
+  context: AutoFillContext,
+  locale: string,
+  today: Date
+): string {
+  const raw = isAutoFillVariable(part.variable) ? context[part.variable] ?? '' : ''
+  if (!raw) return ''
+  let value = raw
+  for (const filter of part.filters) {
+    value = applyFilter(value, filter, locale, today)
+  }
+  // Dates that weren't reformatted by a function print in the region's long style
+  const formatted = part.filters.some((f) => f.name === 'date' || f.name === 'age')
+  return DATE_VARIABLES.has(part.variable) && !formatted ? formatDate(value, 'long', locale) : value
+}
+
+/**
+ * Evaluate an expression for a proposal. Returns '' when any placeholder has no
+ * value, so a half-filled sentence is never written into a field.
+ */
+export function evaluateAutoFill(expression: string, context: AutoFillContext, regionId?: string): string {
+  const { locale } = regionFormat(regionId)
+  const today = parseDate(context.date ?? '') ?? new Date()
+  let result = ''
+  for (const part of parseAutoFill(expression)) {
+    if (part.kind === 'text') {
+      result += part.text
+      continue
+    }
+    const value = evaluatePart(part, context, locale, today)
+    if (!value) return ''
+    result += value
+  }
+  return result
+}
+
+/**
+ * The value to store for a field's autofill. Date fields keep the ISO date of a
+ * bare date variable so they can be formatted by the field itself.
+ */
+export function autoFillFieldValue(
+  field: Pick<EditableFieldDef, 'type' | 'autoFill'>,
+  context: AutoFillContext,
+  regionId?: string
+): string {
+  if (!field.autoFill) return ''
+  if (field.type === 'date') {
+    const [part] = parseAutoFill(field.autoFill)
+    if (part?.kind !== 'variable' || !DATE_VARIABLES.has(part.variable)) return ''
+    const date = parseDate(context[part.variable as AutoFillSource] ?? '')
+    return date ? toIsoDate(date) : ''
+  }
+  return evaluateAutoFill(field.autoFill, context, regionId)
+}
+
+/* ── Context ── */
+
+export function buildAutoFillContext(
+  draft: ProposalDraft,
+  regionName: string,
+  adviser: AdviserDetails | null
+): AutoFillContext {
+  const today = toIsoDate(new Date())
+  return {
+    client_name: draft.clientName,
+    client_email: draft.clientEmail,
+    hxt_reference: draft.hxtNumber,
+    client_dob: draft.clientDetails?.dob,
+    client_nationality: draft.clientDetails?.nationality,
+    client_address: draft.clientDetails?.address,
+    client_employer: draft.clientDetails?.employer,
+    client_risk_profile: draft.clientDetails?.riskProfile,
+    client_age: draft.aiParsedContext?.facts?.age,
+    client_pension_value: draft.aiParsedContext?.facts?.pensionValue,
+    client_residency: draft.aiParsedContext?.facts?.residency,
+    client_dependants: draft.aiParsedContext?.facts?.dependants,
+    advisor_name: adviser?.name,
+    advisor_email: adviser?.email,
+    // Profiles don't hold a phone number yet
+    advisor_phone: '',
+    region_name: regionName,
+    company_name: 'Hoxton Wealth',
+    date: today,
+    year: today.slice(0, 4),
+    proposal_date: today,
+    situation: draft.context?.situation,
+    objectives: draft.context?.objectives,
+    focus: draft.context?.focus,
+  }
+}
+
+/** Name and email of the adviser a proposal belongs to */
+export async function getAdviserDetails(advisorId: string): Promise<AdviserDetails | null> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('full_name, email')
+    .eq('id', advisorId)
+    .maybeSingle()
+  if (error) {
+    logger.error('[AutoFill] Failed to load adviser:', error.message)
+    return null
+  }
+  return data ? { name: data.full_name ?? '', email: data.email ?? '' } : null
+}
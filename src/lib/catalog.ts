@@ -0,0 +1,197 @@
+import { supabase } from './supabase'
+import { logger } from './logger'
+import { SEED_CATEGORIES, SEED_PRODUCT_MODULES, SEED_REGIONS } from './constants'
+import type { Category, DbCategory, DbProductModule, DbRegion, ProductModule, Region } from '../types'
+
+/* ── Types ── */
+
+export interface Catalog {
+  /** All regions by sort order — inactive ones are kept for lookups */
+  regions: Region[]
+  /** All product modules by sort order — inactive ones are kept for lookups */
+  modules: ProductModule[]
+  /** Active category names in display order */
+  categories: Category[]
+  /** Where this snapshot came from */
+  source: 'seed' | 'cache' | 'db'
+}
+
+const STORAGE_KEY = 'hxt_catalog'
+const MAX_AGE_MS = 5 * 60 * 1000
+
+const SEED_CATALOG: Catalog = {
+  regions: SEED_REGIONS,
+  modules: SEED_PRODUCT_MODULES,
+  categories: SEED_CATEGORIES,
+  source: 'seed',
+}
+
+/* ── Cache ── */
+
+function readStoredCatalog(): Catalog | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return null
+    const parsed = JSON.parse(raw) as Omit<Catalog, 'source'>
+    if (!Array.isArray(parsed.regions) || !Array.isArray(parsed.modules)) return null
+    return { ...parsed, source: 'cache' }
+  } catch {
+    return null
+  }
+}
+
+function storeCatalog(catalog: Catalog): void {
+  try {
+    const { regions, modules, categories } = catalog
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ regions, modules, categories }))
+  } catch {
+    // localStorage unavailable
+  }
+}
+
+let current: Catalog = readStoredCatalog() ?? SEED_CATALOG
+let loadedAt = 0
+let inflight: Promise<Catalog> | null = null
+const listeners = new Set<() => void>()
+
+function publish(next: Catalog) {
+  current = next
+  listeners.forEach((fn) => fn())
+}
+
+/** Latest snapshot — seed or cached data until the first load completes */
+export function getCatalog(): Catalog {
+  return current
+}
+
+export function subscribeCatalog(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/* ── Loading ── */
+
+async function fetchCatalog(): Promise<Catalog> {
+  const [regionsRes, modulesRes, categoriesRes, introPacksRes] = await Promise.all([
+    supabase.from('regions').select('*').order('sort_order'),
+    supabase.from('product_modules').select('*, product_slides(id, locale)').order('sort_order'),
+    supabase.from('categories').select('*').eq('is_active', true).order('sort_order'),
+    supabase.from('intro_packs').select('region_id, intro_slides(id)').eq('is_active', true).eq('locale', 'en'),
+  ])
+
+  const error = regionsRes.error ?? modulesRes.error ?? categoriesRes.error
+  if (error) throw new Error(error.message)
+
+  // Actual slide counts override the denormalised columns (same as useTemplateData)
+  const introCounts = new Map<string, number>()
+  for (const pack of (introPacksRes.data ?? []) as { region_id: string; intro_slides: unknown }[]) {
+    if (Array.isArray(pack.intro_slides)) introCounts.set(pack.region_id, pack.intro_slides.length)
+  }
+
+  const dbCategories = (categoriesRes.data ?? []) as DbCategory[]
+  const categoryNames = new Map(dbCategories.map((c) => [c.id, c.name]))
+
+  const regions: Region[] = ((regionsRes.data ?? []) as DbRegion[]).map((r) => ({
+    id: r.id,
+    name: r.name,
+    display: r.display_name,
+    introSlides: introCounts.get(r.id) ?? r.intro_slides_count ?? 0,
+    isActive: r.is_active,
+  }))
+
+  const modules: ProductModule[] = ((modulesRes.data ?? []) as (DbProductModule & { product_slides?: { locale: string }[] | null })[]).map(
+    (m) => ({
+      id: m.id,
+      name: m.name,
+      category: categoryNames.get(m.category_id) ?? m.category,
+      regions: m.regions ?? [],
+      slides: Array.isArray(m.product_slides)
+        ? m.product_slides.filter((s) => s.locale === 'en').length
+        : m.slides_count ?? 0,
+      layout: m.layout,
+      isActive: m.is_active,
+    })
+  )
+
+  return { regions, modules, categories: dbCategories.map((c) => c.name), source: 'db' }
+}
+
+/**
+ * Load the catalog from the database. Concurrent callers share one request and
+ * a recent load is reused unless `force` is set. On failure the last good
+ * snapshot (cached or seed) stays in place.
+ */
+export function loadCatalog(force = false): Promise<Catalog> {
+  if (!force && current.source === 'db' && Date.now() - loadedAt < MAX_AGE_MS) {
+    return Promise.resolve(current)
+  }
+  if (inflight) return inflight
+
+  inflight = fetchCatalog()
+    .then((catalog) => {
+      loadedAt = Date.now()
+      storeCatalog(catalog)
+      publish(catalog)
+      return catalog
+    })
+    .catch((err: Error) => {
+      logger.error('[Catalog] Failed to load, using', current.source, 'data:', err.message)
+      return current
+    })
+    .finally(() => {
+      inflight = null
+    })
+
+  return inflight
+}
+
+/** Call after admin changes to regions, modules or categories */
+export function invalidateCatalog(): void {
+  loadedAt = 0
+  void loadCatalog(true)
+}
+
+/* ── Lookups ── */
+
+export function findRegion(catalog: Catalog, regionId: string): Region | undefined {
+  return catalog.regions.find((r) => r.id === regionId)
+}
+
+export function regionDisplayName(catalog: Catalog, regionId: string): string {
+  return findRegion(catalog, regionId)?.display ?? regionId.toUpperCase()
+}
+
+export function findModule(catalog: Catalog, moduleId: string): ProductModule | undefined {
+  return catalog.modules.find((m) => m.id === moduleId)
+}
+
+/** Regions advisers can start a proposal in */
+export function activeRegions(catalog: Catalog): Region[] {
+  return catalog.regions.filter((r) => r.isActive)
+}
+
+/** Active modules offered in a region */
+export function modulesForRegion(catalog: Catalog, regionId: string): ProductModule[] {
+  return catalog.modules.filter((m) => m.isActive && m.regions.includes(regionId))
+}
+
+/** A proposal's modules in catalog order, including ones retired since it was built */
+export function selectedModules(catalog: Catalog, productIds: string[]): ProductModule[] {
+  return catalog.modules.filter((m) => productIds.includes(m.id))
+}
+
+/** Group modules by category in catalog order; categories missing from the list (e.g. deactivated) go last */
+export function groupByCategory(
+  catalog: Catalog,
+  modules: ProductModule[]
+): { category: Category; modules: ProductModule[] }[] {
+  const order = [...catalog.categories]
+  for (const m of modules) {
+    if (!order.includes(m.category)) order.push(m.category)
+  }
+  return order
+    .map((category) => ({ category, modules: modules.filter((m) => m.category === category) }))
+    .filter((g) => g.modules.length > 0)
+}
@@ -1,4 +1,6 @@
-// TODO: Replace mock with real API call to external client management system
+import { supabase } from './supabase'
+import { logger } from './logger'
+import type { ClientDetails } from '../types'
 
 export interface ClientRecord {
   hxtNumber: string
@@ -11,19 +13,248 @@ export interface ClientRecord {
   riskProfile?: string
 }
 
-const MOCK_CLIENTS: Record<string, ClientRecord> = {
-  'HXT-10001': { hxtNumber: 'HXT-10001', name: 'James & Sarah Mitchell', email: 'james.mitchell@gmail.com', dob: '15 March 1978', nationality: 'British', address: '42 Kensington Gardens, London W8 4PX', employer: 'Barclays Investment Bank', riskProfile: 'Balanced' },
-  'HXT-10002': { hxtNumber: 'HXT-10002', name: 'David Chen', email: 'david.chen@outlook.com', dob: '22 August 1985', nationality: 'Singaporean', address: '8 Marina Boulevard, Singapore 018981', employer: 'DBS Group Holdings', riskProfile: 'Growth' },
-  'HXT-10003': { hxtNumber: 'HXT-10003', name: 'Emma Thompson', email: 'emma.t@yahoo.co.uk', dob: '3 November 1972', nationality: 'British', address: '15 Harley Street, London W1G 9QY', employer: 'Self-employed', riskProfile: 'Cautious' },
-  'HXT-10004': { hxtNumber: 'HXT-10004', name: 'Robert & Lisa Nakamura', email: 'r.nakamura@email.com', dob: '10 January 1980', nationality: 'Japanese / American', address: '3-14-1 Roppongi, Minato-ku, Tokyo', employer: 'Goldman Sachs Japan', riskProfile: 'Adventurous' },
-  'HXT-10005': { hxtNumber: 'HXT-10005', name: 'Sophie Williams', email: 'sophie.w@proton.me', dob: '7 June 1990', nationality: 'British', address: '29 Castle Street, Edinburgh EH2 3DN', employer: 'Deloitte LLP', riskProfile: 'Balanced' },
-  'HXT-10006': { hxtNumber: 'HXT-10006', name: 'Michael & Priya Patel', email: 'michael.patel@gmail.com', dob: '19 December 1975', nationality: 'British / Indian', address: '58 Victoria Road, Dubai Marina, UAE', employer: 'HSBC Middle East', riskProfile: 'Growth' },
+/** Source of client records — the external client management system (via the client-lookup edge function) or a local fixture. */
+export interface ClientDirectory {
+  /** Exact lookup by HXT reference. Resolves null when the client doesn't exist. */
+  getByHxtNumber(hxtNumber: string): Promise<ClientRecord | null>
+  /** Partial, case-insensitive match on client name. */
+  searchByName(query: string): Promise<ClientRecord[]>
 }
 
+/** Map of ClientRecord key -> field path in the API response (dot notation for nested fields) */
+export type ClientFieldMap = Record<keyof ClientRecord, string>
+
+/** A lookup failure with a message that can be shown to the user as-is */
+export class ClientDirectoryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ClientDirectoryError'
+  }
+}
+
+const DEFAULT_FIELD_MAP: ClientFieldMap = {
+  hxtNumber: 'hxtNumber',
+  name: 'name',
+  email: 'email',
+  dob: 'dob',
+  nationality: 'nationality',
+  address: 'address',
+  employer: 'employer',
+  riskProfile: 'riskProfile',
+}
+
+const CACHE_TTL = 5 * 60_000 // 5 minutes
+const MAX_SEARCH_RESULTS = 20
+
+/* ── Helpers ── */
+
+export function normaliseHxtNumber(hxtNumber: string): string {
+  return hxtNumber.trim().toUpperCase()
+}
+
+function readPath(obj: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (acc, key) => (acc && typeof acc === 'object' ? (acc as Record<string, unknown>)[key] : undefined),
+    obj
+  )
+}
+
+function asOptionalString(value: unknown): string | undefined {
+  if (value === null || value === undefined) return undefined
+  const str = String(value).trim()
+  return str || undefined
+}
+
+/** ISO dates (1978-03-15) are shown the way slides expect them: 15 March 1978 */
+function formatDob(value: string | undefined): string | undefined {
+  if (!value || !/^\d{4}-\d{2}-\d{2}/.test(value)) return value
+  const date = new Date(value.slice(0, 10) + 'T00:00:00Z')
+  if (Number.isNaN(date.getTime())) return value
+  return date.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' })
+}
+
+/** Map a raw API / fixture object to a ClientRecord. Returns null if the required fields are missing. */
+export function mapClientRecord(raw: unknown, fieldMap: ClientFieldMap = DEFAULT_FIELD_MAP): ClientRecord | null {
+  const hxtNumber = asOptionalString(readPath(raw, fieldMap.hxtNumber))
+  const name = asOptionalString(readPath(raw, fieldMap.name))
+  if (!hxtNumber || !name) return null
+
+  return {
+    hxtNumber: normaliseHxtNumber(hxtNumber),
+    name,
+    email: asOptionalString(readPath(raw, fieldMap.email)) ?? '',
+    dob: formatDob(asOptionalString(readPath(raw, fieldMap.dob))),
+    nationality: asOptionalString(readPath(raw, fieldMap.nationality)),
+    address: asOptionalString(readPath(raw, fieldMap.address)),
+    employer: asOptionalString(readPath(raw, fieldMap.employer)),
+    riskProfile: asOptionalString(readPath(raw, fieldMap.riskProfile)),
+  }
+}
+
+/** The autofill-only part of a record, as stored on the proposal. */
+export function toClientDetails(record: ClientRecord): ClientDetails {
+  return {
+    dob: record.dob,
+    nationality: record.nationality,
+    address: record.address,
+    employer: record.employer,
+    riskProfile: record.riskProfile,
+  }
+}
+
+/* ── Edge function adapter ── */
+
+/**
+ * Looks clients up through the client-lookup edge function, which holds the client
+ * management system's credential. Records come back in the API's own shape.
+ */
+export function createProxyClientDirectory(fieldMapOverrides?: Partial<ClientFieldMap>): ClientDirectory {
+  const fieldMap: ClientFieldMap = { ...DEFAULT_FIELD_MAP, ...fieldMapOverrides }
+
+  async function request(body: { hxtNumber: string } | { query: string }): Promise<Record<string, unknown>> {
+    const { data, error } = await supabase.functions.invoke('client-lookup', { body })
+    if (error) {
+      let detail: string | undefined
+      try {
+        if (error.context && typeof error.context.json === 'function') {
+          detail = (await error.context.json())?.error
+        }
+      } catch {
+        // context.json() failed — use the generic message
+      }
+      if (detail) throw new ClientDirectoryError(detail)
+      throw error
+    }
+    return (data ?? {}) as Record<string, unknown>
+  }
+
+  return {
+    async getByHxtNumber(hxtNumber) {
+      const { client } = await request({ hxtNumber })
+      return client ? mapClientRecord(client, fieldMap) : null
+    },
+
+    async searchByName(query) {
+      const { clients } = await request({ query })
+      if (!Array.isArray(clients)) return []
+      return clients
+        .map((row) => mapClientRecord(row, fieldMap))
+        .filter((r): r is ClientRecord => r !== null)
+        .slice(0, MAX_SEARCH_RESULTS)
+    },
+  }
+}
+
+/* ── JSON fixture adapter (local development) ── */
+
+/** `loadRows` resolves to the raw fixture records, e.g. a dynamic import of src/fixtures/clients.json */
+export function createFixtureClientDirectory(loadRows: () => Promise<unknown>): ClientDirectory {
+  let records: Promise<ClientRecord[]> | null = null
+
+  function load(): Promise<ClientRecord[]> {
+    if (!records) {
+      records = loadRows()
+        .then((rows) =>
+          (Array.isArray(rows) ? rows : [])
+            .map((row) => mapClientRecord(row))
+            .filter((r): r is ClientRecord => r !== null)
+        )
+        .catch((err) => {
+          records = null
+          throw err
+        })
+    }
+    return records
+  }
+
+  return {
+    async getByHxtNumber(hxtNumber) {
+      const all = await load()
+      return all.find((r) => r.hxtNumber === hxtNumber) ?? null
+    },
+
+    async searchByName(query) {
+      const needle = query.toLowerCase()
+      const all = await load()
+      return all.filter((r) => r.name.toLowerCase().includes(needle)).slice(0, MAX_SEARCH_RESULTS)
+    },
+  }
+}
+
+/* ── Caching ── */
+
+export function withCache(directory: ClientDirectory, ttl = CACHE_TTL): ClientDirectory {
+  const cache = new Map<string, { expires: number; value: Promise<unknown> }>()
+
+  function cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const now = Date.now()
+    const hit = cache.get(key)
+    if (hit && hit.expires > now) return hit.value as Promise<T>
+
+    const value = load()
+    cache.set(key, { expires: now + ttl, value })
+    // Don't cache failures — the next call should retry
+    value.catch(() => cache.delete(key))
+    return value
+  }
+
+  return {
+    getByHxtNumber: (hxtNumber) =>
+      cached(`hxt:${hxtNumber}`, () => directory.getByHxtNumber(hxtNumber)),
+    searchByName: (query) =>
+      cached(`name:${query.toLowerCase()}`, () => directory.searchByName(query)),
+  }
+}
+
+/* ── Configured directory ── */
+
+function parseFieldMap(raw: string | undefined): Partial<ClientFieldMap> | undefined {
+  if (!raw) return undefined
+  try {
+    return JSON.parse(raw) as Partial<ClientFieldMap>
+  } catch {
+    logger.warn('[ClientLookup] VITE_CLIENT_API_FIELD_MAP is not valid JSON — using default field names')
+    return undefined
+  }
+}
+
+function createConfiguredDirectory(): ClientDirectory {
+  const env = import.meta.env
+  const mode = (env.VITE_CLIENT_DIRECTORY as string | undefined) ?? (env.DEV ? 'fixture' : 'proxy')
+
+  if (mode === 'fixture') {
+    // Tested on import.meta.env itself so production builds drop the branch, fixture and all
+    if (import.meta.env.DEV) {
+      return createFixtureClientDirectory(() => import('../fixtures/clients.json').then((m) => m.default))
+    }
+    throw new ClientDirectoryError('Client lookup is not configured — the fixture directory is for local development only')
+  }
+
+  return createProxyClientDirectory(parseFieldMap(env.VITE_CLIENT_API_FIELD_MAP as string | undefined))
+}
+
+let directory: ClientDirectory | null = null
+
+export function getClientDirectory(): ClientDirectory {
+  if (!directory) directory = withCache(createConfiguredDirectory())
+  return directory
+}
+
+/** Swap the directory (e.g. for a different backend). Pass null to go back to the env-configured one. */
+export function setClientDirectory(next: ClientDirectory | null): void {
+  directory = next ? withCache(next) : null
+}
+
+/* ── Public API ── */
+
 export async function lookupClient(hxtNumber: string): Promise<ClientRecord | null> {
-  // Simulate 1s API delay
-  await new Promise((resolve) => setTimeout(resolve, 1000))
+  const normalized = normaliseHxtNumber(hxtNumber)
+  if (!normalized) return null
+  return getClientDirectory().getByHxtNumber(normalized)
+}
 
-  const normalized = hxtNumber.trim().toUpperCase()
-  return MOCK_CLIENTS[normalized] ?? null
+export async function searchClients(query: string): Promise<ClientRecord[]> {
+  const trimmed = query.trim()
+  if (trimmed.length < 2) return []
+  return getClientDirectory().searchByName(trimmed)
 }
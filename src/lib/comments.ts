@@ -0,0 +1,110 @@
+import { supabase } from './supabase'
+import { logger } from './logger'
+import type { CommentThread, ProposalComment } from '../types'
+
+export interface NewComment {
+  proposalId: string
+  slideId: string
+  fieldName?: string | null
+  parentId?: string | null
+  body: string
+}
+
+const COMMENT_SELECT = '*, author:profiles!proposal_comments_author_id_fkey(full_name)'
+
+/* ── Threads ── */
+
+/** Group a flat comment list into threads, oldest first */
+export function buildThreads(comments: ProposalComment[]): CommentThread[] {
+  const sorted = [...comments].sort((a, b) => a.created_at.localeCompare(b.created_at))
+  const threads: CommentThread[] = []
+  const byRoot = new Map<string, CommentThread>()
+
+  for (const comment of sorted) {
+    if (!comment.parent_id) {
+      const thread = { root: comment, replies: [] }
+      threads.push(thread)
+      byRoot.set(comment.id, thread)
+    }
+  }
+  for (const comment of sorted) {
+    if (comment.parent_id) byRoot.get(comment.parent_id)?.replies.push(comment)
+  }
+
+  return threads
+}
+
+/** Unresolved threads, optionally limited to one slide */
+export function countOpenThreads(comments: ProposalComment[], slideId?: string): number {
+  return comments.filter(
+    (c) => !c.parent_id && !c.resolved_at && (slideId === undefined || c.slide_id === slideId)
+  ).length
+}
+
+/* ── Queries ── */
+
+export async function getProposalComments(proposalId: string): Promise<ProposalComment[]> {
+  const { data, error } = await supabase
+    .from('proposal_comments')
+    .select(COMMENT_SELECT)
+    .eq('proposal_id', proposalId)
+    .order('created_at', { ascending: true })
+  if (error) {
+    logger.error('[Comments] Failed to load comments:', error.message)
+    return []
+  }
+  return (data ?? []) as ProposalComment[]
+}
+
+/* ── Mutations ── */
+
+export async function addComment(
+  comment: NewComment,
+  userId: string
+): Promise<{ comment?: ProposalComment; error?: string }> {
+  const body = comment.body.trim()
+  if (!body) return { error: 'Comment is empty' }
+
+  const { data, error } = await supabase
+    .from('proposal_comments')
+    .insert({
+      proposal_id: comment.proposalId,
+      slide_id: comment.slideId,
+      field_name: comment.fieldName || null,
+      parent_id: comment.parentId || null,
+      body,
+      author_id: userId,
+    })
+    .select(COMMENT_SELECT)
+    .single()
+
+  if (error || !data) return { error: error?.message ?? 'Failed to add comment' }
+  return { comment: data as ProposalComment }
+}
+
+/** Resolve or reopen a thread (root comments only) */
+export async function setCommentResolved(
+  comment: ProposalComment,
+  resolved: boolean
+): Promise<{ comment?: ProposalComment; error?: string }> {
+  const { error: rpcError } = await supabase.rpc('set_comment_resolved', {
+    p_comment_id: comment.id,
+    p_resolved: resolved,
+  })
+  if (rpcError) return { error: rpcError.message }
+
+  const { data, error } = await supabase
+    .from('proposal_comments')
+    .select(COMMENT_SELECT)
+    .eq('id', comment.id)
+    .single()
+
+  if (error || !data) return { error: error?.message ?? 'Failed to update comment' }
+  return { comment: data as ProposalComment }
+}
+
+export async function deleteComment(comment: ProposalComment): Promise<{ error?: string }> {
+  const { error } = await supabase.from('proposal_comments').delete().eq('id', comment.id)
+  if (error) return { error: error.message }
+  return {}
+}
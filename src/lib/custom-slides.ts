@@ -0,0 +1,155 @@
+import { supabase } from './supabase'
+import { logger } from './logger'
+import { ADHOC_BUCKET, isAdhocPath } from './storage'
+import type { CustomSlide, CustomSlideKind, EditableFieldDef, EditableFieldsData } from '../types'
+
+/* ── Constants ── */
+
+export const CUSTOM_SLIDE_PREFIX = 'custom-'
+
+export const CUSTOM_SLIDE_KIND_LABELS: Record<CustomSlideKind, string> = {
+  image: 'Image',
+  pdf: 'PDF page',
+  blank: 'Blank slide',
+}
+
+/** Signed ad-hoc image URLs last an hour, like the PDF download links */
+const SIGNED_URL_SECONDS = 3600
+
+/** PDF pages are rasterised at this width — twice the 1280px slide size */
+const PDF_RENDER_WIDTH = 2560
+
+/** Title + body on the branded background, laid out like the context and fee slides */
+export const BLANK_SLIDE_FIELDS: EditableFieldDef[] = [
+  {
+    id: 'blank-title',
+    name: 'title',
+    label: 'Title',
+    type: 'text',
+    x: 6.25,
+    y: 8.3,
+    width: 87.5,
+    height: 10,
+    fontSize: 36,
+    fontFamily: 'heading',
+    fontWeight: 'semibold',
+    color: '#B8F4EF',
+    textAlign: 'left',
+  },
+  {
+    id: 'blank-body',
+    name: 'body',
+    label: 'Body',
+    type: 'textarea',
+    x: 6.25,
+    y: 25,
+    width: 87.5,
+    height: 66,
+    fontSize: 20,
+    fontFamily: 'body',
+    fontWeight: 'normal',
+    color: '#D7E5E3',
+    textAlign: 'left',
+    richText: true,
+  },
+]
+
+export function isCustomSlideId(slideId: string): boolean {
+  return slideId.startsWith(CUSTOM_SLIDE_PREFIX)
+}
+
+export function createCustomSlide(kind: CustomSlideKind, label: string, imagePath: string | null): CustomSlide {
+  return {
+    id: `${CUSTOM_SLIDE_PREFIX}${crypto.randomUUID()}`,
+    kind,
+    label,
+    imagePath,
+    editableFields: kind === 'blank' ? BLANK_SLIDE_FIELDS : [],
+  }
+}
+
+/* ── Upload ── */
+
+/** Store an image in the adviser's folder of the private ad-hoc bucket */
+export async function uploadCustomSlideImage(
+  image: Blob,
+  userId: string
+): Promise<{ path?: string; error?: string }> {
+  const ext = image.type === 'image/jpeg' ? 'jpg' : 'png'
+  const path = `adhoc/${userId}/${crypto.randomUUID()}.${ext}`
+
+  const { error } = await supabase.storage
+    .from(ADHOC_BUCKET)
+    .upload(path, image, { contentType: image.type || 'image/png' })
+
+  if (error) {
+    logger.error('[CustomSlides] Upload failed:', error.message)
+    return { error: error.message }
+  }
+  return { path }
+}
+
+/** Every ad-hoc upload a proposal uses — slide images and image field values */
+export function collectAdhocPaths(customSlides: CustomSlide[], editableFieldsData: EditableFieldsData): string[] {
+  const paths = new Set<string>()
+  for (const c of customSlides) {
+    if (c.imagePath && isAdhocPath(c.imagePath)) paths.add(c.imagePath)
+  }
+  for (const values of Object.values(editableFieldsData)) {
+    for (const value of Object.values(values)) {
+      if (typeof value === 'string' && isAdhocPath(value)) paths.add(value)
+    }
+  }
+  return [...paths].sort()
+}
+
+/** Signed URLs for ad-hoc uploads, keyed by path. Paths that can't be signed are left out. */
+export async function signAdhocPaths(paths: string[]): Promise<Record<string, string>> {
+  if (paths.length === 0) return {}
+  const { data, error } = await supabase.storage.from(ADHOC_BUCKET).createSignedUrls(paths, SIGNED_URL_SECONDS)
+  if (error) {
+    logger.error('[CustomSlides] Signing failed:', error.message)
+    return {}
+  }
+  const urls: Record<string, string> = {}
+  for (const item of data ?? []) {
+    if (item.path && item.signedUrl) urls[item.path] = item.signedUrl
+  }
+  return urls
+}
+
+/** Delete uploads the saved proposal no longer uses. Failures only leave an orphaned file. */
+export async function deleteAdhocImages(paths: string[]): Promise<void> {
+  if (paths.length === 0) return
+  const { error } = await supabase.storage.from(ADHOC_BUCKET).remove(paths)
+  if (error) logger.error('[CustomSlides] Cleanup failed:', error.message)
+}
+
+/* ── PDF pages ── */
+
+async function loadPdf(file: File) {
+  const pdfjsLib = await import('pdfjs-dist')
+  pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.mjs`
+  return pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise
+}
+
+export async function getPdfPageCount(file: File): Promise<number> {
+  const pdf = await loadPdf(file)
+  return pdf.numPages
+}
+
+/** Rasterise one page (1-based) to a PNG */
+export async function renderPdfPage(file: File, pageNumber: number): Promise<Blob> {
+  const pdf = await loadPdf(file)
+  const page = await pdf.getPage(pageNumber)
+  const viewport = page.getViewport({ scale: PDF_RENDER_WIDTH / page.getViewport({ scale: 1 }).width })
+
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(viewport.width)
+  canvas.height = Math.round(viewport.height)
+  await page.render({ canvas, viewport }).promise
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not render PDF page'))), 'image/png')
+  })
+}
@@ -0,0 +1,56 @@
+import { supabase } from './supabase'
+import { logAudit } from './audit'
+import { logger } from './logger'
+import type { DigestRun, DigestSettings } from '../types'
+
+export type DigestSettingsInput = Omit<DigestSettings, 'updated_by' | 'updated_at'>
+
+export const DEFAULT_DIGEST_SETTINGS: DigestSettingsInput = {
+  enabled: true,
+  every_days: 7,
+  adviser_digest: true,
+  team_digest: true,
+  stale_draft_days: 14,
+  expiring_within_days: 7,
+}
+
+export async function getDigestSettings(): Promise<DigestSettings | null> {
+  const { data, error } = await supabase
+    .from('digest_settings')
+    .select('*')
+    .maybeSingle()
+  if (error) {
+    logger.error('[Digests] Failed to load settings:', error.message)
+    return null
+  }
+  return data as DigestSettings | null
+}
+
+export async function saveDigestSettings(
+  settings: DigestSettingsInput,
+  userId: string
+): Promise<{ settings?: DigestSettings; error?: string }> {
+  const { data, error } = await supabase
+    .from('digest_settings')
+    .upsert({ id: true, ...settings, updated_by: userId, updated_at: new Date().toISOString() })
+    .select('*')
+    .single()
+  if (error || !data) return { error: error?.message ?? 'Failed to save settings' }
+
+  await logAudit('digest_settings_updated', 'digest_settings', 'default', { ...settings }, userId)
+  return { settings: data as DigestSettings }
+}
+
+/** Most recent digests sent, newest first */
+export async function getRecentDigestRuns(limit = 10): Promise<DigestRun[]> {
+  const { data, error } = await supabase
+    .from('digest_runs')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit)
+  if (error) {
+    logger.error('[Digests] Failed to load runs:', error.message)
+    return []
+  }
+  return (data ?? []) as DigestRun[]
+}
@@ -0,0 +1,100 @@
+import { supabase } from './supabase'
+import { logAudit } from './audit'
+import { logger } from './logger'
+import type { EmailTemplate, EmailTemplateKind } from '../types'
+
+export const EMAIL_TEMPLATE_KINDS: { kind: EmailTemplateKind; label: string; description: string }[] = [
+  {
+    kind: 'proposal_invite',
+    label: 'Proposal link',
+    description: 'The message clients receive with their proposal link.',
+  },
+  {
+    kind: 'follow_up_reminder',
+    label: 'Follow-up reminder',
+    description: 'Sent automatically when a client hasn\'t opened or finished reading their proposal.',
+  },
+]
+
+/** Merge fields the proposal email functions fill in */
+export const MERGE_FIELDS: { key: string; label: string; sample: string }[] = [
+  { key: 'client_name', label: 'Client name', sample: 'Jane Smith' },
+  { key: 'recipient_name', label: 'Recipient name', sample: 'Jane Smith' },
+  { key: 'adviser_name', label: 'Adviser name', sample: 'Alex Morgan' },
+  { key: 'adviser_email', label: 'Adviser email', sample: 'alex.morgan@hoxtonwealth.com' },
+  { key: 'region_name', label: 'Region', sample: 'United Kingdom' },
+  { key: 'expiry_date', label: 'Link expiry', sample: '30 April 2026' },
+  { key: 'proposal_link', label: 'Proposal link', sample: 'https://proposals.hoxtonwealth.com/view/abc123' },
+]
+
+export const SAMPLE_MERGE_VALUES: Record<string, string> = Object.fromEntries(
+  MERGE_FIELDS.map((f) => [f.key, f.sample])
+)
+
+/** Same substitution the edge function uses — unknown fields are left visible */
+export function mergeFields(text: string, values: Record<string, string>): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match)
+}
+
+/** Expiry as it reads in the email */
+export function formatLinkExpiry(expiresAt: string | null): string {
+  if (!expiresAt) return 'further notice'
+  return new Date(expiresAt).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+  })
+}
+
+/** Region template first, then the default */
+export function pickTemplate(templates: EmailTemplate[], regionId: string): EmailTemplate | null {
+  return (
+    templates.find((t) => t.region_id === regionId) ??
+    templates.find((t) => t.region_id === null) ??
+    null
+  )
+}
+
+export async function getEmailTemplates(kind: EmailTemplateKind = 'proposal_invite'): Promise<EmailTemplate[]> {
+  const { data, error } = await supabase
+    .from('email_templates')
+    .select('*')
+    .eq('kind', kind)
+  if (error) {
+    logger.error('[EmailTemplates] Failed to load templates:', error.message)
+    return []
+  }
+  return (data ?? []) as EmailTemplate[]
+}
+
+export async function saveEmailTemplate(
+  template: Pick<EmailTemplate, 'kind' | 'region_id' | 'subject' | 'body'>,
+  userId: string,
+  id?: string
+): Promise<{ template?: EmailTemplate; error?: string }> {
+  const values = { ...template, updated_by: userId, updated_at: new Date().toISOString() }
+  const query = id
+    ? supabase.from('email_templates').update(values).eq('id', id)
+    : supabase.from('email_templates').insert(values)
+
+  const { data, error } = await query.select('*').single()
+  if (error || !data) return { error: error?.message ?? 'Failed to save template' }
+
+  await logAudit('email_template_updated', 'email_template', data.id, {
+    kind: template.kind,
+    region_id: template.region_id ?? 'default',
+    subject: template.subject,
+  }, userId)
+
+  return { template: data as EmailTemplate }
+}
+
+export async function deleteEmailTemplate(template: EmailTemplate, userId: string): Promise<{ error?: string }> {
+  const { error } = await supabase.from('email_templates').delete().eq('id', template.id)
+  if (error) return { error: error.message }
+  await logAudit('email_template_deleted', 'email_template', template.id, {
+    kind: template.kind,
+    region_id: template.region_id ?? 'default',
+  }, userId)
+  return {}
+}
@@ -0,0 +1,360 @@
+import { supabase } from './supabase'
+import { logAudit } from './audit'
+import { logger } from './logger'
+import type { EngagementScore, EngagementSettings, EngagementSignal, ProposalStatus } from '../types'
+
+/* ── Signals ── */
+
+export const ENGAGEMENT_SIGNAL_LABELS: Record<EngagementSignal, string> = {
+  recency: 'Viewed recently',
+  repeat_visits: 'Repeat visits',
+  fee_time: 'Time on fee slides',
+  product_time: 'Time on product slides',
+  completion: 'Read through',
+  download: 'Downloaded the PDF',
+  new_device: 'Opened on a new device',
+}
+
+const WEIGHT_KEYS: Record<EngagementSignal, keyof EngagementSettings> = {
+  recency: 'recency_weight',
+  repeat_visits: 'repeat_visits_weight',
+  fee_time: 'fee_time_weight',
+  product_time: 'product_time_weight',
+  completion: 'completion_weight',
+  download: 'download_weight',
+  new_device: 'new_device_weight',
+}
+
+/** Where each signal tops out */
+const FULL_REPEAT_VISITS = 5
+const FULL_FEE_SECONDS = 120
+const FULL_PRODUCT_SECONDS = 600
+
+export type EngagementSettingsInput = Omit<EngagementSettings, 'updated_by' | 'updated_at'>
+
+export const DEFAULT_ENGAGEMENT_SETTINGS: EngagementSettingsInput = {
+  recency_weight: 5,
+  repeat_visits_weight: 3,
+  fee_time_weight: 4,
+  product_time_weight: 3,
+  completion_weight: 3,
+  download_weight: 2,
+  new_device_weight: 2,
+  recency_window_days: 14,
+}
+
+/** Settings key for a signal's weight */
+export function weightKey(signal: EngagementSignal): keyof EngagementSettingsInput {
+  return WEIGHT_KEYS[signal] as keyof EngagementSettingsInput
+}
+
+/* ── Settings ── */
+
+export async function getEngagementSettings(): Promise<EngagementSettings | null> {
+  const { data, error } = await supabase
+    .from('engagement_settings')
+    .select('*')
+    .maybeSingle()
+  if (error) {
+    logger.error('[Engagement] Failed to load settings:', error.message)
+    return null
+  }
+  return data as EngagementSettings | null
+}
+
+export async function saveEngagementSettings(
+  settings: EngagementSettingsInput,
+  userId: string
+): Promise<{ settings?: EngagementSettings; error?: string }> {
+  const { data, error } = await supabase
+    .from('engagement_settings')
+    .upsert({ id: true, ...settings, updated_by: userId, updated_at: new Date().toISOString() })
+    .select('*')
+    .single()
+  if (error || !data) return { error: error?.message ?? 'Failed to save settings' }
+
+  await logAudit('engagement_settings_updated', 'engagement_settings', 'default', { ...settings }, userId)
+  return { settings: data as EngagementSettings }
+}
+
+/* ── Scoring ── */
+
+/** Raw activity for one proposal, across all of its links */
+export interface EngagementActivity {
+  proposalId: string
+  /** started_at of every view */
+  viewTimes: string[]
+  feeSeconds: number
+  productSeconds: number
+  /** Best single-visit completion, 0-100 */
+  completion: number
+  downloaded: boolean
+  newDevice: boolean
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value))
+}
+
+/** Blend a proposal's activity into a 0-100 score using the admin's weights */
+export function scoreEngagement(
+  activity: EngagementActivity,
+  settings: EngagementSettingsInput,
+  now = Date.now()
+): EngagementScore {
+  const lastViewedAt = activity.viewTimes.reduce<string | null>(
+    (latest, t) => (!latest || t > latest ? t : latest),
+    null
+  )
+  const daysSince = lastViewedAt ? (now - new Date(lastViewedAt).getTime()) / 86_400_000 : Infinity
+  const visits = activity.viewTimes.length
+
+  const signals: Record<EngagementSignal, number> = {
+    recency: clamp01(1 - daysSince / settings.recency_window_days),
+    repeat_visits: clamp01((visits - 1) / (FULL_REPEAT_VISITS - 1)),
+    fee_time: clamp01(activity.feeSeconds / FULL_FEE_SECONDS),
+    product_time: clamp01(activity.productSeconds / FULL_PRODUCT_SECONDS),
+    completion: clamp01(activity.completion / 100),
+    download: activity.downloaded ? 1 : 0,
+    new_device: activity.newDevice ? 1 : 0,
+  }
+
+  let weighted = 0
+  let totalWeight = 0
+  for (const signal of Object.keys(signals) as EngagementSignal[]) {
+    const weight = settings[weightKey(signal)]
+    weighted += weight * signals[signal]
+    totalWeight += weight
+  }
+
+  return {
+    proposalId: activity.proposalId,
+    score: totalWeight > 0 && visits > 0 ? Math.round((weighted / totalWeight) * 100) : 0,
+    signals,
+    lastViewedAt,
+    visits,
+    feeSeconds: activity.feeSeconds,
+    productSeconds: activity.productSeconds,
+    completion: activity.completion,
+    downloaded: activity.downloaded,
+    newDevice: activity.newDevice,
+  }
+}
+
+/* ── Data fetching ── */
+
+// Keeps `.in()` filters to a URL length PostgREST accepts
+const IN_CHUNK = 100
+// PostgREST's max rows per response
+const PAGE_SIZE = 1000
+
+/** Every row matching `match` (and the optional `.in()` filter), a page at a time */
+async function selectAll<T>(
+  table: string,
+  columns: string,
+  match: Record<string, string | boolean>,
+  inFilter?: { column: string; values: string[] }
+): Promise<T[]> {
+  const rows: T[] = []
+  for (let page = 0; ; page++) {
+    let query = supabase.from(table).select(columns).match(match)
+    if (inFilter) query = query.in(inFilter.column, inFilter.values)
+
+    const { data, error } = await query
+      .order('id')
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1)
+    if (error) {
+      logger.error(`[Engagement] Failed to load ${table}:`, error.message)
+      return rows
+    }
+    rows.push(...(data as unknown as T[]))
+    if (data.length < PAGE_SIZE) return rows
+  }
+}
+
+async function selectIn<T>(
+  table: string,
+  columns: string,
+  column: string,
+  values: string[],
+  match: Record<string, string | boolean> = {}
+): Promise<T[]> {
+  const rows: T[] = []
+  for (let i = 0; i < values.length; i += IN_CHUNK) {
+    rows.push(...(await selectAll<T>(table, columns, match, { column, values: values.slice(i, i + IN_CHUNK) })))
+  }
+  return rows
+}
+
+/** Product slides that carry the fee table, as viewer slide ids */
+async function getFeeSlideIds(): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('product_slides')
+    .select('module_id, slide_number')
+    .eq('slide_type', 'fee_structure')
+  if (error) {
+    logger.error('[Engagement] Failed to load fee slides:', error.message)
+    return new Set()
+  }
+  return new Set((data ?? []).map((s) => `product-${s.module_id}-${s.slide_number}`))
+}
+
+/** Viewer activity for a set of proposals, keyed by proposal id */
+export async function getEngagementActivity(proposalIds: string[]): Promise<Map<string, EngagementActivity>> {
+  const activity = new Map<string, EngagementActivity>()
+  for (const id of proposalIds) {
+    activity.set(id, {
+      proposalId: id,
+      viewTimes: [],
+      feeSeconds: 0,
+      productSeconds: 0,
+      completion: 0,
+      downloaded: false,
+      newDevice: false,
+    })
+  }
+  if (proposalIds.length === 0) return activity
+
+  const links = await selectIn<{ id: string; proposal_id: string }>(
+    'proposal_links', 'id, proposal_id', 'proposal_id', proposalIds
+  )
+  const proposalByLink = new Map(links.map((l) => [l.id, l.proposal_id]))
+
+  const views = await selectIn<{
+    id: string
+    link_id: string
+    started_at: string
+    total_slides: number | null
+    device_type: string | null
+    user_agent: string | null
+    viewer_ip: string | null
+  }>(
+    'link_views',
+    'id, link_id, started_at, total_slides, device_type, user_agent, viewer_ip',
+    'link_id',
+    [...proposalByLink.keys()]
+  )
+
+  const [slides, downloads, feeSlideIds] = await Promise.all([
+    selectIn<{ view_id: string; slide_index: number; slide_id: string | null; duration_seconds: number | null }>(
+      'slide_analytics', 'view_id, slide_index, slide_id, duration_seconds', 'view_id', views.map((v) => v.id)
+    ),
+    selectIn<{ proposal_id: string }>(
+      'proposal_events', 'proposal_id', 'proposal_id', proposalIds, { event_type: 'downloaded' }
+    ),
+    getFeeSlideIds(),
+  ])
+
+  // Views, and the devices seen on each link (device type + browser as stamped by
+  // track-viewer-events; the IP when neither was recorded)
+  const viewById = new Map(views.map((v) => [v.id, v]))
+  const devicesByLink = new Map<string, Set<string>>()
+  for (const v of views) {
+    const entry = activity.get(proposalByLink.get(v.link_id) ?? '')
+    if (!entry) continue
+    entry.viewTimes.push(v.started_at)
+    const device = v.device_type || v.user_agent ? `${v.device_type ?? ''}|${v.user_agent ?? ''}` : v.viewer_ip
+    if (device) {
+      const devices = devicesByLink.get(v.link_id) ?? new Set<string>()
+      devices.add(device)
+      devicesByLink.set(v.link_id, devices)
+    }
+  }
+  // A second device on the same link means the client moved device or forwarded it
+  for (const [linkId, devices] of devicesByLink) {
+    const entry = activity.get(proposalByLink.get(linkId) ?? '')
+    if (entry && devices.size > 1) entry.newDevice = true
+  }
+
+  // Time on fee / product slides, and slides seen per view
+  const seenByView = new Map<string, Set<number>>()
+  for (const s of slides) {
+    const view = viewById.get(s.view_id)
+    const entry = view && activity.get(proposalByLink.get(view.link_id) ?? '')
+    if (!view || !entry) continue
+
+    const seen = seenByView.get(s.view_id) ?? new Set<number>()
+    seen.add(s.slide_index)
+    seenByView.set(s.view_id, seen)
+
+    const duration = s.duration_seconds ?? 0
+    if (s.slide_id && feeSlideIds.has(s.slide_id)) entry.feeSeconds += duration
+    else if (s.slide_id?.startsWith('product-')) entry.productSeconds += duration
+  }
+  for (const [viewId, seen] of seenByView) {
+    const view = viewById.get(viewId)!
+    const entry = activity.get(proposalByLink.get(view.link_id) ?? '')
+    if (!entry || !view.total_slides) continue
+    entry.completion = Math.max(entry.completion, Math.min(100, Math.round((seen.size / view.total_slides) * 100)))
+  }
+
+  for (const e of downloads) {
+    const entry = activity.get(e.proposal_id)
+    if (entry) entry.downloaded = true
+  }
+
+  return activity
+}
+
+/** Engagement score for a single proposal */
+export async function getProposalEngagement(proposalId: string): Promise<EngagementScore> {
+  const [activity, settings] = await Promise.all([
+    getEngagementActivity([proposalId]),
+    getEngagementSettings(),
+  ])
+  return scoreEngagement(activity.get(proposalId)!, settings ?? DEFAULT_ENGAGEMENT_SETTINGS)
+}
+
+export interface HotProposal extends EngagementScore {
+  clientName: string
+  status: ProposalStatus
+  sentAt: string | null
+}
+
+/**
+ * Sent proposals (an active link, or a 'sent' event) the client has engaged with,
+ * highest score first. RLS limits advisers to their own proposals; admins see everyone's.
+ */
+export async function getHotProposals(limit = 5): Promise<HotProposal[]> {
+  const [links, sentEvents] = await Promise.all([
+    selectAll<{ proposal_id: string; sent_at: string }>(
+      'proposal_links', 'proposal_id, sent_at', { is_active: true }
+    ),
+    selectAll<{ proposal_id: string; created_at: string }>(
+      'proposal_events', 'proposal_id, created_at', { event_type: 'sent' }
+    ),
+  ])
+
+  // Latest send per proposal
+  const sentAt = new Map<string, string>()
+  for (const { proposal_id, at } of [
+    ...links.map((l) => ({ proposal_id: l.proposal_id, at: l.sent_at })),
+    ...sentEvents.map((e) => ({ proposal_id: e.proposal_id, at: e.created_at })),
+  ]) {
+    const latest = sentAt.get(proposal_id)
+    if (!latest || at > latest) sentAt.set(proposal_id, at)
+  }
+  if (sentAt.size === 0) return []
+
+  const proposals = await selectIn<{ id: string; client_name: string; status: ProposalStatus }>(
+    'proposals', 'id, client_name, status', 'id', [...sentAt.keys()]
+  )
+  if (proposals.length === 0) return []
+
+  const [activity, settings] = await Promise.all([
+    getEngagementActivity(proposals.map((p) => p.id)),
+    getEngagementSettings(),
+  ])
+  const now = Date.now()
+
+  return proposals
+    .map((p) => ({
+      ...scoreEngagement(activity.get(p.id)!, settings ?? DEFAULT_ENGAGEMENT_SETTINGS, now),
+      clientName: p.client_name,
+      status: p.status,
+      sentAt: sentAt.get(p.id) ?? null,
+    }))
+    .filter((p) => p.score > 0)
+    .sort((a, b) => b.score - a.score || (b.lastViewedAt ?? '').localeCompare(a.lastViewedAt ?? ''))
+    .slice(0, limit)
+}
@@ -0,0 +1,205 @@
+import type { FeeBand, FeeCurrency, FeeData } from '../types'
+
+/* ── Constants ── */
+
+export const FEE_CURRENCIES: { value: FeeCurrency; label: string }[] = [
+  { value: 'GBP', label: 'GBP — British Pound' },
+  { value: 'USD', label: 'USD — US Dollar' },
+  { value: 'EUR', label: 'EUR — Euro' },
+  { value: 'AUD', label: 'AUD — Australian Dollar' },
+  { value: 'SGD', label: 'SGD — Singapore Dollar' },
+  { value: 'HKD', label: 'HKD — Hong Kong Dollar' },
+  { value: 'JPY', label: 'JPY — Japanese Yen' },
+  { value: 'AED', label: 'AED — UAE Dirham' },
+]
+
+/** Upper bound for any percentage charge — catches basis points typed as percent. */
+export const MAX_FEE_PERCENT = 10
+
+export const EMPTY_FEE_DATA: FeeData = {
+  currency: 'GBP',
+  initialAdviceFee: null,
+  ongoingPercent: null,
+  aumBands: [],
+  platformChargePercent: null,
+  fundChargePercent: null,
+  notes: '',
+}
+
+export type FeeFieldErrors = Partial<
+  Record<'initialAdviceFee' | 'ongoingPercent' | 'aumBands' | 'platformChargePercent' | 'fundChargePercent', string>
+>
+
+export interface FeeRow {
+  label: string
+  value: string
+}
+
+/* ── Normalisation ── */
+
+function toNumberOrNull(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null
+  const n = typeof value === 'number' ? value : Number(value)
+  return Number.isFinite(n) ? n : null
+}
+
+/** Coerce a stored `fee_data` value (possibly `{}` on older proposals) into a full FeeData. */
+export function normaliseFeeData(raw: unknown): FeeData {
+  if (!raw || typeof raw !== 'object') return { ...EMPTY_FEE_DATA }
+  const obj = raw as Record<string, unknown>
+  const currency = FEE_CURRENCIES.some((c) => c.value === obj.currency)
+    ? (obj.currency as FeeCurrency)
+    : EMPTY_FEE_DATA.currency
+
+  const aumBands: FeeBand[] = Array.isArray(obj.aumBands)
+    ? obj.aumBands
+        .filter((b): b is Record<string, unknown> => !!b && typeof b === 'object')
+        .map((b) => ({ upTo: toNumberOrNull(b.upTo), percent: toNumberOrNull(b.percent) ?? 0 }))
+    : []
+
+  return {
+    currency,
+    initialAdviceFee: toNumberOrNull(obj.initialAdviceFee),
+    ongoingPercent: toNumberOrNull(obj.ongoingPercent),
+    aumBands,
+    platformChargePercent: toNumberOrNull(obj.platformChargePercent),
+    fundChargePercent: toNumberOrNull(obj.fundChargePercent),
+    notes: typeof obj.notes === 'string' ? obj.notes : '',
+  }
+}
+
+/** True when at least one charge has been entered. */
+export function hasFeeData(fee: FeeData): boolean {
+  return (
+    fee.initialAdviceFee !== null ||
+    fee.ongoingPercent !== null ||
+    fee.aumBands.length > 0 ||
+    fee.platformChargePercent !== null ||
+    fee.fundChargePercent !== null
+  )
+}
+
+/* ── Validation ── */
+
+function percentError(value: number | null): string | undefined {
+  if (value === null) return undefined
+  if (value < 0) return 'Must not be negative'
+  if (value > MAX_FEE_PERCENT) return `Must be ${MAX_FEE_PERCENT}% or less`
+  return undefined
+}
+
+function bandsError(bands: FeeBand[]): string | undefined {
+  let previous = 0
+  for (let i = 0; i < bands.length; i++) {
+    const band = bands[i]
+    const isLast = i === bands.length - 1
+    const err = percentError(band.percent)
+    if (err) return `Band ${i + 1}: ${err.toLowerCase()}`
+    if (band.upTo === null) {
+      if (!isLast) return `Band ${i + 1}: only the last band can be open-ended`
+      continue
+    }
+    if (band.upTo <= previous) return `Band ${i + 1}: upper limit must be greater than ${previous.toLocaleString()}`
+    previous = band.upTo
+  }
+  return undefined
+}
+
+/** Returns field-level errors; an empty object means the fee data is valid. */
+export function validateFeeData(fee: FeeData): FeeFieldErrors {
+  const errors: FeeFieldErrors = {}
+
+  if (fee.initialAdviceFee !== null && fee.initialAdviceFee < 0) {
+    errors.initialAdviceFee = 'Must not be negative'
+  }
+
+  const ongoing = percentError(fee.ongoingPercent)
+  if (ongoing) errors.ongoingPercent = ongoing
+  if (fee.ongoingPercent !== null && fee.aumBands.length > 0) {
+    errors.ongoingPercent = 'Use either a flat ongoing fee or tiered bands, not both'
+  }
+
+  const bands = bandsError(fee.aumBands)
+  if (bands) errors.aumBands = bands
+
+  const platform = percentError(fee.platformChargePercent)
+  if (platform) errors.platformChargePercent = platform
+
+  const fund = percentError(fee.fundChargePercent)
+  if (fund) errors.fundChargePercent = fund
+
+  return errors
+}
+
+export function isFeeDataValid(fee: FeeData): boolean {
+  return Object.keys(validateFeeData(fee)).length === 0
+}
+
+/* ── Formatting ── */
+
+export function formatFeeAmount(amount: number, currency: FeeCurrency): string {
+  return new Intl.NumberFormat('en-GB', {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+  }).format(amount)
+}
+
+export function formatFeePercent(percent: number): string {
+  return `${percent.toFixed(2).replace(/\.?0+$/, '')}% p.a.`
+}
+
+function bandLabel(bands: FeeBand[], index: number, currency: FeeCurrency): string {
+  const band = bands[index]
+  const from = index === 0 ? 0 : bands[index - 1].upTo ?? 0
+  if (band.upTo === null) {
+    return from === 0 ? 'All assets' : `Above ${formatFeeAmount(from, currency)}`
+  }
+  if (from === 0) return `First ${formatFeeAmount(band.upTo, currency)}`
+  return `${formatFeeAmount(from, currency)} – ${formatFeeAmount(band.upTo, currency)}`
+}
+
+/**
+ * Flatten fee data into the description/value rows shown on the fee slide,
+ * the proposal detail page and the PDF (pdf-service mirrors this logic).
+ */
+export function buildFeeRows(fee: FeeData): FeeRow[] {
+  const rows: FeeRow[] = []
+
+  if (fee.initialAdviceFee !== null) {
+    rows.push({ label: 'Initial advice fee', value: formatFeeAmount(fee.initialAdviceFee, fee.currency) })
+  }
+
+  if (fee.aumBands.length > 0) {
+    fee.aumBands.forEach((band, i) => {
+      rows.push({
+        label: `Ongoing advice fee — ${bandLabel(fee.aumBands, i, fee.currency)}`,
+        value: formatFeePercent(band.percent),
+      })
+    })
+  } else if (fee.ongoingPercent !== null) {
+    rows.push({ label: 'Ongoing advice fee', value: formatFeePercent(fee.ongoingPercent) })
+  }
+
+  if (fee.platformChargePercent !== null) {
+    rows.push({ label: 'Platform charge', value: formatFeePercent(fee.platformChargePercent) })
+  }
+
+  if (fee.fundChargePercent !== null) {
+    rows.push({ label: 'Fund charges (OCF)', value: formatFeePercent(fee.fundChargePercent) })
+  }
+
+  // A single total only makes sense for a flat ongoing fee
+  if (fee.aumBands.length === 0) {
+    const parts = [fee.ongoingPercent, fee.platformChargePercent, fee.fundChargePercent]
+      .filter((p): p is number => p !== null)
+    if (parts.length > 1) {
+      rows.push({
+        label: 'Total ongoing charges',
+        value: formatFeePercent(parts.reduce((sum, p) => sum + p, 0)),
+      })
+    }
+  }
+
+  return rows
+}
@@ -0,0 +1,93 @@
+import { getImageUrl } from './storage'
+import type { EditableFieldDef, FeeCurrency } from '../types'
+
+/*
+ * Display formatting for the structured field types. Values are stored raw —
+ * ISO dates, plain numbers, 'true' for a ticked box, a storage path for an
+ * image — and formatted for the proposal's region wherever they are shown.
+ * Mirrored in pdf-service/src/field-values.ts.
+ */
+
+/* ── Region conventions ── */
+
+export interface RegionFormat {
+  locale: string
+  currency: FeeCurrency
+}
+
+const REGION_FORMATS: Record<string, RegionFormat> = {
+  uk: { locale: 'en-GB', currency: 'GBP' },
+  asia: { locale: 'en-AU', currency: 'AUD' },
+  int: { locale: 'en-GB', currency: 'USD' },
+  jp: { locale: 'ja-JP', currency: 'JPY' },
+}
+
+const DEFAULT_FORMAT: RegionFormat = { locale: 'en-GB', currency: 'GBP' }
+
+export function regionFormat(regionId: string | undefined): RegionFormat {
+  return (regionId && REGION_FORMATS[regionId]) || DEFAULT_FORMAT
+}
+
+/* ── Field types ── */
+
+export const FIELD_TYPE_LABELS: Record<EditableFieldDef['type'], string> = {
+  text: 'Text',
+  textarea: 'Textarea',
+  table: 'Table',
+  image: 'Image',
+  date: 'Date',
+  currency: 'Currency',
+  checkbox: 'Checkbox',
+}
+
+/** Types whose value is drawn as a line of text (after formatting) */
+export function isTextLikeField(type: EditableFieldDef['type']): boolean {
+  return type === 'text' || type === 'date' || type === 'currency' || type === 'checkbox'
+}
+
+export const TICK = '✓'
+
+/* ── Formatting ── */
+
+export function formatDateValue(value: string, style: EditableFieldDef['dateStyle'], locale: string): string {
+  const date = new Date(`${value}T00:00:00Z`)
+  if (Number.isNaN(date.getTime())) return value
+  return new Intl.DateTimeFormat(locale, { dateStyle: style ?? 'long', timeZone: 'UTC' }).format(date)
+}
+
+export function formatCurrencyValue(value: string, currency: FeeCurrency, locale: string): string {
+  const amount = Number(value.replace(/[^0-9.-]/g, ''))
+  if (!value.trim() || Number.isNaN(amount)) return value
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+  }).format(amount)
+}
+
+/** The text a field shows for its stored value. Image fields return ''. */
+export function formatFieldValue(
+  field: Pick<EditableFieldDef, 'type' | 'dateStyle' | 'currency'>,
+  value: string,
+  regionId?: string
+): string {
+  if (!value) return ''
+  const { locale, currency } = regionFormat(regionId)
+  switch (field.type) {
+    case 'date':
+      return formatDateValue(value, field.dateStyle, locale)
+    case 'currency':
+      return formatCurrencyValue(value, field.currency ?? currency, locale)
+    case 'checkbox':
+      return value === 'true' ? TICK : ''
+    case 'image':
+      return ''
+    default:
+      return value
+  }
+}
+
+/** URL for an image field's stored path; ad-hoc uploads are looked up in `signed` */
+export function fieldImageUrl(value: string, signed: Record<string, string> = {}): string {
+  return getImageUrl(value, signed)
+}
@@ -0,0 +1,65 @@
+import { supabase } from './supabase'
+import { logAudit } from './audit'
+import { logger } from './logger'
+import type { FollowUpReason, FollowUpSettings, ProposalFollowUp } from '../types'
+
+export const FOLLOW_UP_REASON_LABELS: Record<FollowUpReason, string> = {
+  unopened: 'Not opened',
+  low_completion: 'Not read through',
+}
+
+export type FollowUpSettingsInput = Omit<FollowUpSettings, 'updated_by' | 'updated_at'>
+
+export async function getFollowUpSettings(): Promise<FollowUpSettings | null> {
+  const { data, error } = await supabase
+    .from('follow_up_settings')
+    .select('*')
+    .maybeSingle()
+  if (error) {
+    logger.error('[FollowUps] Failed to load settings:', error.message)
+    return null
+  }
+  return data as FollowUpSettings | null
+}
+
+export async function saveFollowUpSettings(
+  settings: FollowUpSettingsInput,
+  userId: string
+): Promise<{ settings?: FollowUpSettings; error?: string }> {
+  const { data, error } = await supabase
+    .from('follow_up_settings')
+    .upsert({ id: true, ...settings, updated_by: userId, updated_at: new Date().toISOString() })
+    .select('*')
+    .single()
+  if (error || !data) return { error: error?.message ?? 'Failed to save settings' }
+
+  await logAudit('follow_up_settings_updated', 'follow_up_settings', 'default', { ...settings }, userId)
+  return { settings: data as FollowUpSettings }
+}
+
+/** Reminders already sent for a proposal's links, newest first */
+export async function getProposalFollowUps(proposalId: string): Promise<ProposalFollowUp[]> {
+  const { data, error } = await supabase
+    .from('proposal_follow_ups')
+    .select('*')
+    .eq('proposal_id', proposalId)
+    .order('created_at', { ascending: false })
+  if (error) {
+    logger.error('[FollowUps] Failed to load reminders:', error.message)
+    return []
+  }
+  return (data ?? []) as ProposalFollowUp[]
+}
+
+/** Per-proposal opt-out */
+export async function setProposalFollowUps(
+  proposalId: string,
+  enabled: boolean
+): Promise<{ error?: string }> {
+  const { error } = await supabase
+    .from('proposals')
+    .update({ follow_ups_enabled: enabled })
+    .eq('id', proposalId)
+  if (error) return { error: error.message }
+  return {}
+}
@@ -0,0 +1,39 @@
+import type { ProposalLocale } from '../types'
+
+/* ── Constants ── */
+
+export const DEFAULT_LOCALE: ProposalLocale = 'en'
+
+export const PROPOSAL_LOCALES: { value: ProposalLocale; label: string; nativeLabel: string }[] = [
+  { value: 'en', label: 'English', nativeLabel: 'English' },
+  { value: 'ja', label: 'Japanese', nativeLabel: '日本語' },
+  { value: 'fr', label: 'French', nativeLabel: 'Français' },
+]
+
+/* ── Helpers ── */
+
+export function isProposalLocale(value: unknown): value is ProposalLocale {
+  return PROPOSAL_LOCALES.some((l) => l.value === value)
+}
+
+export function normaliseLocale(value: unknown): ProposalLocale {
+  return isProposalLocale(value) ? value : DEFAULT_LOCALE
+}
+
+export function localeLabel(locale: ProposalLocale): string {
+  return PROPOSAL_LOCALES.find((l) => l.value === locale)?.label ?? locale
+}
+
+/** Locales to look for slides in, most preferred first — English is always the fallback */
+export function localeFallbacks(locale: ProposalLocale): ProposalLocale[] {
+  return locale === DEFAULT_LOCALE ? [DEFAULT_LOCALE] : [locale, DEFAULT_LOCALE]
+}
+
+/** Rows in the preferred locale if there are any, otherwise the English rows */
+export function pickLocaleRows<T extends { locale?: string | null }>(rows: T[], locale: ProposalLocale): T[] {
+  for (const candidate of localeFallbacks(locale)) {
+    const matches = rows.filter((r) => (r.locale ?? DEFAULT_LOCALE) === candidate)
+    if (matches.length > 0) return matches
+  }
+  return []
+}
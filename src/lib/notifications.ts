@@ -1,90 +1,240 @@
+import type { RealtimeChannel } from '@supabase/supabase-js'
 import { supabase } from './supabase'
-
-const LAST_SEEN_KEY = 'hxt_notif_last_seen'
+import { logger } from './logger'
 
 /* ── Types ── */
 
+export type NotificationEventType =
+  | 'opened'
+  | 'downloaded'
+  | 'approved'
+  | 'rejected'
+  | 'pdf_generated'
+  | 'follow_up_due'
+
+/** Event types a user can opt in or out of, in display order */
+export const NOTIFICATION_EVENT_TYPES: { type: NotificationEventType; label: string }[] = [
+  { type: 'opened', label: 'Client opened a proposal' },
+  { type: 'downloaded', label: 'Client downloaded the PDF' },
+  { type: 'approved', label: 'Proposal approved' },
+  { type: 'rejected', label: 'Proposal rejected' },
+  { type: 'pdf_generated', label: 'PDF generated' },
+  { type: 'follow_up_due', label: 'Follow-up due' },
+]
+
 export interface NotificationItem {
   id: string
-  event_type: string
+  event_type: NotificationEventType
   event_data: Record<string, unknown> | null
   created_at: string
+  read_at: string | null
   proposal_id: string
   client_name: string
 }
 
+export interface NotificationState {
+  userId: string | null
+  items: NotificationItem[]
+  unreadCount: number
+  loaded: boolean
+}
+
+// Newest notifications kept in the inbox
+const INBOX_LIMIT = 30
+
 /* ── Data fetching ── */
 
-/**
- * Fetch recent proposal_events for all proposals owned by the given user.
- * Joins with proposals to get client_name for display.
- */
+/** Undismissed notifications for a user, newest first */
 export async function getRecentNotifications(
   userId: string,
-  limit = 10
+  limit = INBOX_LIMIT
 ): Promise<NotificationItem[]> {
   const { data, error } = await supabase
-    .from('proposal_events')
-    .select('id, event_type, event_data, created_at, proposal_id, proposals!inner(client_name, advisor_id)')
-    .eq('proposals.advisor_id', userId)
-    .in('event_type', ['opened', 'downloaded', 'sent', 'approved', 'rejected', 'pdf_generated'])
+    .from('notifications')
+    .select('id, event_type, event_data, created_at, read_at, proposal_id, proposals(client_name)')
+    .eq('user_id', userId)
+    .is('dismissed_at', null)
     .order('created_at', { ascending: false })
     .limit(limit)
 
-  if (error || !data) return []
+  if (error || !data) {
+    if (error) logger.error('[Notifications] Failed to load:', error.message)
+    return []
+  }
 
   return data.map((row: Record<string, unknown>) => {
     const proposals = row.proposals as Record<string, unknown> | null
     return {
       id: row.id as string,
-      event_type: row.event_type as string,
+      event_type: row.event_type as NotificationEventType,
       event_data: row.event_data as Record<string, unknown> | null,
       created_at: row.created_at as string,
+      read_at: row.read_at as string | null,
       proposal_id: row.proposal_id as string,
       client_name: (proposals?.client_name as string) || 'Unknown',
     }
   })
 }
 
+export async function getUnreadCount(userId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('read_at', null)
+    .is('dismissed_at', null)
+
+  if (error) return 0
+  return count ?? 0
+}
+
+/* ── Inbox store ── */
+
+const EMPTY_STATE: NotificationState = { userId: null, items: [], unreadCount: 0, loaded: false }
+
+let current: NotificationState = EMPTY_STATE
+const listeners = new Set<() => void>()
+
+let channel: RealtimeChannel | null = null
+let subscribers = 0
+// Channels are removed asynchronously, so each one gets a fresh topic
+let channelSeq = 0
+
+function publish(next: NotificationState) {
+  current = next
+  listeners.forEach((fn) => fn())
+}
+
+/** Latest inbox snapshot */
+export function getNotificationState(): NotificationState {
+  return current
+}
+
+export function subscribeNotifications(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export async function loadNotifications(userId: string): Promise<void> {
+  const [items, unreadCount] = await Promise.all([
+    getRecentNotifications(userId),
+    getUnreadCount(userId),
+  ])
+  // Ignore a load that finished after the user signed out or switched
+  if (current.userId !== userId) return
+  publish({ userId, items, unreadCount, loaded: true })
+}
+
 /**
- * Count events newer than the given timestamp for all proposals owned by this user.
+ * Load the user's inbox and keep it live over Realtime. Components share one
+ * channel; the returned function releases this caller's hold on it.
  */
-export async function getUnreadCount(
-  userId: string,
-  lastSeen: string | null
-): Promise<number> {
-  if (!lastSeen) {
-    // If never seen, count events from last 24h
-    lastSeen = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
+export function startNotifications(userId: string): () => void {
+  if (current.userId !== userId) {
+    if (channel) void supabase.removeChannel(channel)
+    channel = null
+    publish({ ...EMPTY_STATE, userId })
   }
 
-  const { count, error } = await supabase
-    .from('proposal_events')
-    .select('id, proposals!inner(advisor_id)', { count: 'exact', head: true })
-    .eq('proposals.advisor_id', userId)
-    .in('event_type', ['opened', 'downloaded', 'sent', 'approved', 'rejected'])
-    .gt('created_at', lastSeen)
+  subscribers++
+  if (!channel) {
+    channel = supabase
+      .channel(`notifications:${userId}:${++channelSeq}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        () => void loadNotifications(userId)
+      )
+      .subscribe()
+    void loadNotifications(userId)
+  }
 
-  if (error) return 0
-  return count ?? 0
+  return () => {
+    subscribers--
+    if (subscribers === 0 && channel) {
+      void supabase.removeChannel(channel)
+      channel = null
+    }
+  }
 }
 
-/* ── Last-seen tracking ── */
+/** Apply a change locally straight away; Realtime brings the confirmed state */
+function patchItems(update: (item: NotificationItem) => NotificationItem | null) {
+  const items = current.items.flatMap((item) => {
+    const next = update(item)
+    return next ? [next] : []
+  })
+  const wasUnread = current.items.filter((i) => !i.read_at).length
+  const nowUnread = items.filter((i) => !i.read_at).length
+  publish({ ...current, items, unreadCount: Math.max(0, current.unreadCount - (wasUnread - nowUnread)) })
+}
 
-export function getLastSeenTimestamp(): string | null {
-  try {
-    return localStorage.getItem(LAST_SEEN_KEY)
-  } catch {
-    return null
+async function updateNotifications(
+  changes: { read_at?: string; dismissed_at?: string },
+  filter: { id?: string; unreadOnly?: boolean }
+): Promise<{ error?: string }> {
+  if (!current.userId) return { error: 'Not signed in' }
+  let query = supabase.from('notifications').update(changes).eq('user_id', current.userId)
+  if (filter.id) query = query.eq('id', filter.id)
+  if (filter.unreadOnly) query = query.is('read_at', null)
+
+  const { error } = await query
+  if (error) {
+    logger.error('[Notifications] Failed to update:', error.message)
+    void loadNotifications(current.userId)
+    return { error: error.message }
   }
+  return {}
+}
+
+export function markNotificationRead(id: string): Promise<{ error?: string }> {
+  const now = new Date().toISOString()
+  patchItems((item) => (item.id === id && !item.read_at ? { ...item, read_at: now } : item))
+  return updateNotifications({ read_at: now }, { id, unreadOnly: true })
+}
+
+export function markAllNotificationsRead(): Promise<{ error?: string }> {
+  const now = new Date().toISOString()
+  patchItems((item) => (item.read_at ? item : { ...item, read_at: now }))
+  // Covers unread rows beyond the loaded page too
+  publish({ ...current, unreadCount: 0 })
+  return updateNotifications({ read_at: now }, { unreadOnly: true })
+}
+
+/** Hide a notification from the inbox; dismissing also marks it read */
+export function dismissNotification(id: string): Promise<{ error?: string }> {
+  const now = new Date().toISOString()
+  const item = current.items.find((i) => i.id === id)
+  patchItems((i) => (i.id === id ? null : i))
+  return updateNotifications({ dismissed_at: now, ...(item?.read_at ? {} : { read_at: now }) }, { id })
 }
 
-export function markNotificationsAsSeen(): void {
-  try {
-    localStorage.setItem(LAST_SEEN_KEY, new Date().toISOString())
-  } catch {
-    // localStorage unavailable
+/* ── Preferences ── */
+
+/** Event types the user receives; everything when they haven't chosen */
+export async function getNotificationPreferences(userId: string): Promise<NotificationEventType[]> {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('event_types')
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (error) {
+    logger.error('[Notifications] Failed to load preferences:', error.message)
   }
+  return (data?.event_types as NotificationEventType[] | undefined) ?? NOTIFICATION_EVENT_TYPES.map((t) => t.type)
+}
+
+export async function saveNotificationPreferences(
+  userId: string,
+  eventTypes: NotificationEventType[]
+): Promise<{ error?: string }> {
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert({ user_id: userId, event_types: eventTypes, updated_at: new Date().toISOString() })
+  if (error) return { error: error.message }
+  return {}
 }
 
 /* ── View stats per proposal ── */
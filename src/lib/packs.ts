@@ -0,0 +1,434 @@
+import { supabase } from './supabase'
+import { logAudit } from './audit'
+import { logger } from './logger'
+import { DEFAULT_LOCALE, localeFallbacks, normaliseLocale, pickLocaleRows } from './locales'
+import type {
+  DbIntroPack,
+  DbClosingPack,
+  EditableFieldDef,
+  PackKind,
+  PinnedProductSlide,
+  Proposal,
+  ProposalStatus,
+  ProductSlidesSnapshot,
+  ProposalLocale,
+  SlideInclusionRule,
+} from '../types'
+
+/* ── Types ── */
+
+export type DbPack = DbIntroPack | DbClosingPack
+
+export interface PackSlideRow {
+  id: string
+  slide_number: number
+  title: string
+  slide_type: string
+  image_path: string | null
+  editable_fields: EditableFieldDef[]
+  /** Intro slides only */
+  include_rule?: SlideInclusionRule | null
+}
+
+export interface PinnedProposal {
+  id: string
+  client_name: string
+  status: ProposalStatus
+  templates_pinned_at: string | null
+}
+
+export interface PackVersionUsage {
+  pack: DbPack
+  proposals: PinnedProposal[]
+}
+
+const TABLES: Record<PackKind, { packs: string; slides: string; fk: 'intro_pack_id' | 'closing_pack_id' }> = {
+  intro: { packs: 'intro_packs', slides: 'intro_slides', fk: 'intro_pack_id' },
+  closing: { packs: 'closing_packs', slides: 'closing_slides', fk: 'closing_pack_id' },
+}
+
+/* ── Helpers ── */
+
+/** JSONB editable_fields can come back as `{}` on older rows — normalise to an array. */
+function asFieldArray(raw: unknown): EditableFieldDef[] {
+  return Array.isArray(raw) ? (raw as EditableFieldDef[]) : []
+}
+
+/**
+ * Storage folder for a pack version. Version 1 keeps the original
+ * un-versioned folder so existing image paths stay valid; translations
+ * get their own folder alongside the English one.
+ */
+export function packStoragePath(
+  kind: PackKind,
+  regionId: string,
+  version: number,
+  locale: ProposalLocale = DEFAULT_LOCALE
+): string {
+  const base = locale === DEFAULT_LOCALE ? `${kind}-${regionId}` : `${kind}-${regionId}-${locale}`
+  return version > 1 ? `${base}/v${version}` : base
+}
+
+/* ── Data fetching ── */
+
+/** The active pack in exactly this locale — admin screens edit one translation at a time */
+export async function getActivePack(
+  kind: PackKind,
+  regionId: string,
+  locale: ProposalLocale = DEFAULT_LOCALE
+): Promise<DbPack | null> {
+  const { data } = await supabase
+    .from(TABLES[kind].packs)
+    .select('*')
+    .eq('region_id', regionId)
+    .eq('locale', locale)
+    .eq('is_active', true)
+    .maybeSingle()
+  return (data as DbPack | null) ?? null
+}
+
+/**
+ * The active pack a proposal in this locale uses, falling back to English.
+ * A translation with no slides yet (admins create it by opening the tab) doesn't count.
+ */
+export async function findActivePack(kind: PackKind, regionId: string, locale: ProposalLocale): Promise<DbPack | null> {
+  if (locale !== DEFAULT_LOCALE) {
+    const translated = await getActivePack(kind, regionId, locale)
+    if (translated && (await countPackSlides(kind, translated.id)) > 0) return translated
+  }
+  return getActivePack(kind, regionId, DEFAULT_LOCALE)
+}
+
+async function countPackSlides(kind: PackKind, packId: string): Promise<number> {
+  const { count } = await supabase
+    .from(TABLES[kind].slides)
+    .select('id', { count: 'exact', head: true })
+    .eq(TABLES[kind].fk, packId)
+  return count ?? 0
+}
+
+export async function getPackSlides(kind: PackKind, packId: string): Promise<PackSlideRow[]> {
+  // Full rows: intro slides carry include_rule, closing slides don't
+  const { data } = await supabase
+    .from(TABLES[kind].slides)
+    .select('*')
+    .eq(TABLES[kind].fk, packId)
+    .order('slide_number')
+  return ((data ?? []) as PackSlideRow[]).map((s) => ({ ...s, editable_fields: asFieldArray(s.editable_fields) }))
+}
+
+/** Pack a proposal should render with: its pinned version, or the active one if not yet pinned. */
+export async function resolveProposalPack(
+  kind: PackKind,
+  proposal: Pick<Proposal, 'region_id' | 'locale' | 'intro_pack_id' | 'closing_pack_id'>
+): Promise<string | null> {
+  const pinned = kind === 'intro' ? proposal.intro_pack_id : proposal.closing_pack_id
+  if (pinned) return pinned
+  const active = await findActivePack(kind, proposal.region_id, normaliseLocale(proposal.locale))
+  return active?.id ?? null
+}
+
+/** Snapshot the current product slide set for the given modules, translated where available. */
+export async function snapshotProductSlides(
+  moduleIds: string[],
+  locale: ProposalLocale = DEFAULT_LOCALE
+): Promise<ProductSlidesSnapshot> {
+  const snapshot: ProductSlidesSnapshot = {}
+  if (moduleIds.length === 0) return snapshot
+
+  const { data } = await supabase
+    .from('product_slides')
+    .select('module_id, locale, slide_number, title, slide_type, image_path, editable_fields')
+    .in('module_id', moduleIds)
+    .in('locale', localeFallbacks(locale))
+    .order('slide_number')
+
+  const rows = (data ?? []) as (PinnedProductSlide & { module_id: string; locale: string })[]
+  for (const moduleId of moduleIds) {
+    const moduleRows = pickLocaleRows(rows.filter((r) => r.module_id === moduleId), locale)
+    if (moduleRows.length === 0) continue
+    snapshot[moduleId] = moduleRows.map((row) => ({
+      slide_number: row.slide_number,
+      title: row.title,
+      slide_type: row.slide_type,
+      image_path: row.image_path,
+      editable_fields: asFieldArray(row.editable_fields),
+    }))
+  }
+  return snapshot
+}
+
+/* ── Pinning ── */
+
+type ProposalPins = Pick<
+  Proposal,
+  'intro_pack_id' | 'closing_pack_id' | 'product_slides_snapshot' | 'templates_pinned_at'
+>
+
+interface PinSet {
+  introPackId: string | null
+  closingPackId: string | null
+  snapshot: ProductSlidesSnapshot
+}
+
+async function getProposalPins(proposalId: string): Promise<{ pins?: ProposalPins; error?: string }> {
+  const { data, error } = await supabase
+    .from('proposals')
+    .select('intro_pack_id, closing_pack_id, product_slides_snapshot, templates_pinned_at')
+    .eq('id', proposalId)
+    .single()
+  if (error || !data) return { error: error?.message ?? 'Proposal not found' }
+  return { pins: data as ProposalPins }
+}
+
+/** Pins for the currently active pack versions and product slide set */
+async function latestPins(
+  regionId: string,
+  selectedProducts: string[],
+  locale: ProposalLocale
+): Promise<PinSet> {
+  const [introPack, closingPack, snapshot] = await Promise.all([
+    findActivePack('intro', regionId, locale),
+    findActivePack('closing', regionId, locale),
+    snapshotProductSlides(selectedProducts, locale),
+  ])
+  return { introPackId: introPack?.id ?? null, closingPackId: closingPack?.id ?? null, snapshot }
+}
+
+/** The pinned pack if it still fits the proposal's region and language, else the active one */
+async function keepPinnedPack(
+  kind: PackKind,
+  packId: string | null | undefined,
+  regionId: string,
+  locale: ProposalLocale
+): Promise<string | null> {
+  if (packId) {
+    const { data } = await supabase
+      .from(TABLES[kind].packs)
+      .select('region_id, locale')
+      .eq('id', packId)
+      .maybeSingle()
+    if (data?.region_id === regionId && localeFallbacks(locale).includes(normaliseLocale(data.locale))) return packId
+  }
+  const active = await findActivePack(kind, regionId, locale)
+  return active?.id ?? null
+}
+
+/**
+ * Pin a proposal to the intro/closing pack versions and product slide set it is
+ * generated with, so later template edits don't change what the client sees.
+ * Called at generation time: the first call pins the active versions, later calls
+ * keep those pins and only add products selected since. Pass `latest` to move the
+ * proposal to the current versions instead.
+ */
+export async function pinProposalTemplates(
+  proposalId: string,
+  regionId: string,
+  selectedProducts: string[],
+  locale: ProposalLocale = DEFAULT_LOCALE,
+  { latest = false }: { latest?: boolean } = {}
+): Promise<{ error?: string }> {
+  const { pins: current, error: loadError } = await getProposalPins(proposalId)
+  if (!current) {
+    logger.error('[Packs] Failed to load template pins:', loadError)
+    return { error: loadError }
+  }
+
+  let next: PinSet
+  if (latest || !current.templates_pinned_at) {
+    next = await latestPins(regionId, selectedProducts, locale)
+  } else {
+    const snapshot = current.product_slides_snapshot ?? {}
+    const missing = selectedProducts.filter((id) => !snapshot[id])
+    const [introPackId, closingPackId, added] = await Promise.all([
+      keepPinnedPack('intro', current.intro_pack_id, regionId, locale),
+      keepPinnedPack('closing', current.closing_pack_id, regionId, locale),
+      snapshotProductSlides(missing, locale),
+    ])
+    if (
+      introPackId === (current.intro_pack_id ?? null) &&
+      closingPackId === (current.closing_pack_id ?? null) &&
+      Object.keys(added).length === 0
+    ) {
+      return {}
+    }
+    next = { introPackId, closingPackId, snapshot: { ...snapshot, ...added } }
+  }
+
+  const { error } = await supabase
+    .from('proposals')
+    .update({
+      intro_pack_id: next.introPackId,
+      closing_pack_id: next.closingPackId,
+      product_slides_snapshot: next.snapshot,
+      templates_pinned_at: new Date().toISOString(),
+    })
+    .eq('id', proposalId)
+
+  if (error) {
+    logger.error('[Packs] Failed to pin templates:', error.message)
+    return { error: error.message }
+  }
+  return {}
+}
+
+/** True when a pinned proposal's templates have newer versions it could move to */
+export async function hasNewerTemplates(
+  proposalId: string,
+  regionId: string,
+  selectedProducts: string[],
+  locale: ProposalLocale = DEFAULT_LOCALE
+): Promise<boolean> {
+  const { pins: current } = await getProposalPins(proposalId)
+  if (!current?.templates_pinned_at) return false
+
+  const snapshot = current.product_slides_snapshot ?? {}
+  const pinnedModules = selectedProducts.filter((id) => snapshot[id])
+  const latest = await latestPins(regionId, pinnedModules, locale)
+
+  return (
+    latest.introPackId !== (current.intro_pack_id ?? null) ||
+    latest.closingPackId !== (current.closing_pack_id ?? null) ||
+    pinnedModules.some((id) => JSON.stringify(latest.snapshot[id] ?? []) !== JSON.stringify(snapshot[id]))
+  )
+}
+
+/* ── Admin: versions ── */
+
+export async function getPackVersionUsage(
+  kind: PackKind,
+  regionId: string,
+  locale: ProposalLocale = DEFAULT_LOCALE
+): Promise<PackVersionUsage[]> {
+  const { data: packs } = await supabase
+    .from(TABLES[kind].packs)
+    .select('*')
+    .eq('region_id', regionId)
+    .eq('locale', locale)
+    .order('version', { ascending: false })
+
+  const versions = (packs ?? []) as DbPack[]
+  if (versions.length === 0) return []
+
+  const fk = TABLES[kind].fk
+  const { data: proposals } = await supabase
+    .from('proposals')
+    .select(`id, client_name, status, templates_pinned_at, ${fk}`)
+    .in(fk, versions.map((p) => p.id))
+    .order('templates_pinned_at', { ascending: false })
+
+  const rows = (proposals ?? []) as unknown as (PinnedProposal & Record<typeof fk, string>)[]
+  return versions.map((pack) => ({
+    pack,
+    proposals: rows
+      .filter((p) => p[fk] === pack.id)
+      .map(({ id, client_name, status, templates_pinned_at }) => ({ id, client_name, status, templates_pinned_at })),
+  }))
+}
+
+/**
+ * Publish a new version of a region's pack in one locale. The new version starts as a copy
+ * of the active one (slide rows reference the same images); any uploads made
+ * afterwards go to the new version's own storage folder, so proposals pinned
+ * to the previous version keep their images.
+ */
+export async function publishPackVersion(
+  kind: PackKind,
+  regionId: string,
+  userId: string,
+  locale: ProposalLocale = DEFAULT_LOCALE
+): Promise<{ pack?: DbPack; error?: string }> {
+  const { packs, slides } = TABLES[kind]
+  const fk = TABLES[kind].fk
+
+  const { data: existing } = await supabase
+    .from(packs)
+    .select('*')
+    .eq('region_id', regionId)
+    .eq('locale', locale)
+    .order('version', { ascending: false })
+
+  const versions = (existing ?? []) as DbPack[]
+  const current = versions.find((p) => p.is_active) ?? null
+  const nextVersion = (versions[0]?.version ?? 0) + 1
+  const currentSlides = current ? await getPackSlides(kind, current.id) : []
+
+  // Insert inactive first — the partial unique index allows one active pack per region and locale
+  const { data: created, error: insertError } = await supabase
+    .from(packs)
+    .insert({
+      region_id: regionId,
+      locale,
+      name: current?.name ?? `${regionId.toUpperCase()} ${kind === 'intro' ? 'Intro' : 'Closing'} Pack`,
+      version: nextVersion,
+      is_active: false,
+    })
+    .select('*')
+    .single()
+
+  if (insertError || !created) {
+    return { error: insertError?.message ?? 'Failed to create pack version' }
+  }
+
+  if (currentSlides.length > 0) {
+    const { error: slidesError } = await supabase.from(slides).insert(
+      currentSlides.map((s) => ({
+        [fk]: created.id,
+        slide_number: s.slide_number,
+        title: s.title,
+        slide_type: s.slide_type,
+        image_path: s.image_path,
+        editable_fields: s.editable_fields,
+        ...(kind === 'intro' && { include_rule: s.include_rule ?? null }),
+      }))
+    )
+    if (slidesError) {
+      await supabase.from(packs).delete().eq('id', created.id)
+      return { error: slidesError.message }
+    }
+  }
+
+  if (current) {
+    await supabase.from(packs).update({ is_active: false }).eq('id', current.id)
+  }
+
+  const { data: published, error: activateError } = await supabase
+    .from(packs)
+    .update({ is_active: true, published_at: new Date().toISOString(), published_by: userId })
+    .eq('id', created.id)
+    .select('*')
+    .single()
+
+  if (activateError) {
+    // Restore the previous version so the region is never left without an active pack
+    if (current) await supabase.from(packs).update({ is_active: true }).eq('id', current.id)
+    return { error: activateError.message }
+  }
+
+  await logAudit(kind === 'intro' ? 'intro_pack_published' : 'closing_pack_published', `${kind}_pack`, regionId, {
+    version: nextVersion,
+    locale,
+    previous_version: current?.version ?? null,
+    slides: currentSlides.length,
+  }, userId)
+
+  return { pack: published as DbPack }
+}
+
+/** Number of proposals pinned to a pack version — pinned versions are read-only. */
+export async function countPinnedProposals(kind: PackKind, packId: string): Promise<number> {
+  const { count } = await supabase
+    .from('proposals')
+    .select('id', { count: 'exact', head: true })
+    .eq(TABLES[kind].fk, packId)
+  return count ?? 0
+}
+
+/** Whether any proposal has this product module's slides pinned in its snapshot. */
+export async function isProductModulePinned(moduleId: string): Promise<boolean> {
+  const { count } = await supabase
+    .from('proposals')
+    .select('id', { count: 'exact', head: true })
+    .contains('product_slides_snapshot', { [moduleId]: [] })
+  return (count ?? 0) > 0
+}
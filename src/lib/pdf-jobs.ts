@@ -0,0 +1,83 @@
+export type PdfJobStatus = 'queued' | 'processing' | 'completed' | 'failed'
+
+/** Job as returned by the PDF service's /jobs endpoints */
+export interface PdfJob {
+  id: string
+  proposalId: string
+  status: PdfJobStatus
+  progress: { rendered: number; total: number }
+  attempts: number
+  maxAttempts: number
+  error: string | null
+  pdfPath: string | null
+}
+
+const POLL_INTERVAL = 1500
+const MAX_WAIT = 10 * 60_000 // 10 minutes
+
+function serviceUrl(): string {
+  const url = import.meta.env.VITE_PDF_SERVICE_URL || ''
+  if (!url) throw new Error('PDF service URL not configured')
+  return url
+}
+
+async function parseJobResponse(response: Response): Promise<PdfJob> {
+  const result = await response.json()
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'PDF service request failed')
+  }
+  return result.job as PdfJob
+}
+
+export async function createPdfJob(payload: Record<string, unknown>): Promise<PdfJob> {
+  const response = await fetch(`${serviceUrl()}/jobs`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  })
+  return parseJobResponse(response)
+}
+
+export async function getPdfJob(jobId: string): Promise<PdfJob> {
+  const response = await fetch(`${serviceUrl()}/jobs/${jobId}`)
+  return parseJobResponse(response)
+}
+
+/**
+ * Poll a job until it completes or fails. Resolves with the completed job;
+ * rejects with the job's error once retries are exhausted.
+ */
+export async function waitForPdfJob(
+  jobId: string,
+  onUpdate?: (job: PdfJob) => void
+): Promise<PdfJob> {
+  const deadline = Date.now() + MAX_WAIT
+
+  for (;;) {
+    const job = await getPdfJob(jobId)
+    onUpdate?.(job)
+
+    if (job.status === 'completed') return job
+    if (job.status === 'failed') {
+      throw new Error(job.error || 'PDF generation failed')
+    }
+    if (Date.now() > deadline) {
+      throw new Error('PDF generation is taking longer than expected — check back shortly')
+    }
+    await new Promise((r) => setTimeout(r, POLL_INTERVAL))
+  }
+}
+
+/** Export the proposal as an editable PowerPoint deck. Resolves with its storage path. */
+export async function exportPptx(payload: Record<string, unknown>): Promise<string> {
+  const response = await fetch(`${serviceUrl()}/generate-pptx`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  })
+  const result = await response.json()
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'PPTX export failed')
+  }
+  return result.pptxPath as string
+}
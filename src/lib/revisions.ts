@@ -0,0 +1,127 @@
+import { supabase } from './supabase'
+import { logger } from './logger'
+import { logProposalEvent } from './proposal-events'
+import { buildFeeRows, normaliseFeeData } from './fees'
+import { findModule, getCatalog } from './catalog'
+import type { ProposalRevision, RevisionReason } from '../types'
+
+/** One field that differs between two revisions */
+export interface RevisionChange {
+  section: string
+  label: string
+  before: string
+  after: string
+}
+
+export const REVISION_REASON_LABELS: Record<RevisionReason, string> = {
+  saved: 'Saved',
+  generated: 'PDF generated',
+  restored: 'Restored',
+}
+
+const CONTEXT_LABELS = {
+  situation: 'Situation',
+  objectives: 'Objectives',
+  focus: 'Areas of focus',
+} as const
+
+/* ── Diff ── */
+
+function productName(id: string): string {
+  return findModule(getCatalog(), id)?.name ?? id
+}
+
+function listDiff(before: string[], after: string[]): { before: string; after: string } | null {
+  const removed = before.filter((x) => !after.includes(x))
+  const added = after.filter((x) => !before.includes(x))
+  if (removed.length === 0 && added.length === 0) return null
+  return { before: removed.join(', '), after: added.join(', ') }
+}
+
+function feeValues(revision: ProposalRevision): Record<string, string> {
+  const fees = normaliseFeeData(revision.fee_data)
+  const values: Record<string, string> = {}
+  for (const row of buildFeeRows(fees)) values[row.label] = row.value
+  if (fees.notes.trim()) values['Notes'] = fees.notes
+  return values
+}
+
+function fieldValues(revision: ProposalRevision): Record<string, string> {
+  const values: Record<string, string> = {}
+  for (const [slideId, fields] of Object.entries(revision.editable_fields_data ?? {})) {
+    for (const [name, value] of Object.entries(fields ?? {})) {
+      values[`${slideId} › ${name}`] = value
+    }
+  }
+  return values
+}
+
+function mapDiff(section: string, before: Record<string, string>, after: Record<string, string>): RevisionChange[] {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort()
+  return keys
+    .filter((key) => (before[key] ?? '') !== (after[key] ?? ''))
+    .map((key) => ({ section, label: key, before: before[key] ?? '', after: after[key] ?? '' }))
+}
+
+/**
+ * Field-level differences going from `from` to `to`. Product and slide lists
+ * report what was removed (before) and added (after) rather than whole lists.
+ */
+export function diffRevisions(from: ProposalRevision, to: ProposalRevision): RevisionChange[] {
+  const changes: RevisionChange[] = []
+
+  for (const key of Object.keys(CONTEXT_LABELS) as (keyof typeof CONTEXT_LABELS)[]) {
+    const before = from.summary_context?.[key] ?? ''
+    const after = to.summary_context?.[key] ?? ''
+    if (before !== after) changes.push({ section: 'Context', label: CONTEXT_LABELS[key], before, after })
+  }
+
+  const products = listDiff(from.selected_products.map(productName), to.selected_products.map(productName))
+  if (products) changes.push({ section: 'Products', label: 'Selected products', ...products })
+
+  const disabled = listDiff(from.disabled_slides ?? [], to.disabled_slides ?? [])
+  if (disabled) changes.push({ section: 'Slides', label: 'Disabled slides', ...disabled })
+
+  changes.push(...mapDiff('Slide fields', fieldValues(from), fieldValues(to)))
+  changes.push(...mapDiff('Fees', feeValues(from), feeValues(to)))
+
+  if ((from.pdf_path ?? '') !== (to.pdf_path ?? '')) {
+    changes.push({ section: 'PDF', label: 'PDF file', before: from.pdf_path ?? '', after: to.pdf_path ?? '' })
+  }
+
+  return changes
+}
+
+/* ── Queries ── */
+
+/** Revisions of a proposal, newest first */
+export async function getProposalRevisions(proposalId: string): Promise<ProposalRevision[]> {
+  const { data, error } = await supabase
+    .from('proposal_revisions')
+    .select('*, author:profiles(full_name)')
+    .eq('proposal_id', proposalId)
+    .order('revision_number', { ascending: false })
+  if (error) {
+    logger.error('[Revisions] Failed to load revisions:', error.message)
+    return []
+  }
+  return (data ?? []) as ProposalRevision[]
+}
+
+/**
+ * Copy a revision back onto the proposal as a new draft. The database records
+ * the restore as a new revision, so history is never rewritten.
+ */
+export async function restoreRevision(
+  revision: ProposalRevision,
+  userId: string
+): Promise<{ revision?: ProposalRevision; error?: string }> {
+  const { data, error } = await supabase.rpc('restore_proposal_revision', { p_revision_id: revision.id })
+  if (error) return { error: error.message }
+
+  logProposalEvent(revision.proposal_id, 'revision_restored', {
+    revision: revision.revision_number,
+  }, userId)
+
+  return { revision: data as ProposalRevision }
+}
@@ -0,0 +1,180 @@
+/*
+ * Rich text for textarea fields with `richText` set. Values are stored as a
+ * small Markdown-like subset — never HTML — so they stay readable in exports
+ * and plain-text fallbacks:
+ *
+ *   **bold**   *italic*   [label](https://…)
+ *   - bullet item
+ *   1. numbered item
+ *
+ * Anything else is plain text. Mirrored in pdf-service/src/rich-text.ts —
+ * keep the two parsers in step so the PDF matches the wizard and viewer.
+ */
+
+/* ── Types ── */
+
+export interface RichTextRun {
+  text: string
+  bold?: boolean
+  italic?: boolean
+  href?: string
+}
+
+export type RichTextLine = RichTextRun[]
+
+export type RichTextBlock =
+  | { type: 'paragraph'; lines: RichTextLine[] }
+  | { type: 'bullet'; items: RichTextLine[] }
+  | { type: 'numbered'; items: RichTextLine[]; start: number }
+
+/* ── Parsing ── */
+
+const BULLET_RE = /^\s*[-*•]\s+(.*)$/
+const NUMBERED_RE = /^\s*(\d{1,3})[.)]\s+(.*)$/
+const INLINE_RE = /\*\*(.+?)\*\*|\*(?!\s)(.+?)\*|\[([^\]]+)\]\(([^)\s]+)\)/g
+const SAFE_HREF_RE = /^(https?:\/\/|mailto:)/i
+
+export function isSafeHref(href: string): boolean {
+  return SAFE_HREF_RE.test(href.trim())
+}
+
+function parseInline(text: string, marks: Omit<RichTextRun, 'text'> = {}): RichTextLine {
+  const runs: RichTextLine = []
+  let last = 0
+  for (const match of text.matchAll(INLINE_RE)) {
+    const index = match.index ?? 0
+    if (index > last) runs.push({ ...marks, text: text.slice(last, index) })
+    const [, bold, italic, label, href] = match
+    if (bold !== undefined) runs.push(...parseInline(bold, { ...marks, bold: true }))
+    else if (italic !== undefined) runs.push(...parseInline(italic, { ...marks, italic: true }))
+    else if (isSafeHref(href)) runs.push(...parseInline(label, { ...marks, href: href.trim() }))
+    else runs.push(...parseInline(label, marks))
+    last = index + match[0].length
+  }
+  if (last < text.length) runs.push({ ...marks, text: text.slice(last) })
+  return runs
+}
+
+export function parseRichText(value: string): RichTextBlock[] {
+  const blocks: RichTextBlock[] = []
+  let current: RichTextBlock | null = null
+
+  for (const line of value.replace(/\r\n?/g, '\n').split('\n')) {
+    const bullet = line.match(BULLET_RE)
+    const numbered = bullet ? null : line.match(NUMBERED_RE)
+
+    if (bullet) {
+      if (current?.type !== 'bullet') blocks.push((current = { type: 'bullet', items: [] }))
+      current.items.push(parseInline(bullet[1]))
+    } else if (numbered) {
+      if (current?.type !== 'numbered') {
+        blocks.push((current = { type: 'numbered', items: [], start: parseInt(numbered[1], 10) }))
+      }
+      current.items.push(parseInline(numbered[2]))
+    } else if (!line.trim()) {
+      current = null
+    } else {
+      if (current?.type !== 'paragraph') blocks.push((current = { type: 'paragraph', lines: [] }))
+      current.lines.push(parseInline(line))
+    }
+  }
+
+  return blocks
+}
+
+/* ── Storage ── */
+
+/**
+ * Normalise a value before it is stored: unify line endings and bullet
+ * markers, drop control characters and unwrap links to anything other
+ * than http(s) or mailto.
+ */
+export function sanitiseRichText(value: string): string {
+  return value
+    .replace(/\r\n?/g, '\n')
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B-\u001F\u007F]/g, '')
+    .replace(/^(\s*)[*•](\s+)/gm, '$1-$2')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (whole, label: string, href: string) =>
+      isSafeHref(href) ? whole : label
+    )
+}
+
+/** The text without any markup — for character counts and plain-text exports */
+export function richTextToPlain(value: string): string {
+  return parseRichText(value)
+    .map((block) =>
+      block.type === 'paragraph'
+        ? block.lines.map((line) => line.map((r) => r.text).join('')).join('\n')
+        : block.items
+            .map((item, i) => `${block.type === 'bullet' ? '•' : `${block.start + i}.`} ${item.map((r) => r.text).join('')}`)
+            .join('\n')
+    )
+    .join('\n\n')
+}
+
+/* ── Editing ── */
+
+export interface TextEdit {
+  value: string
+  selectionStart: number
+  selectionEnd: number
+}
+
+/** Wrap the selection in an inline marker (`**` or `*`), or unwrap it if already wrapped */
+export function toggleInlineMark(value: string, start: number, end: number, marker: string): TextEdit {
+  const before = value.slice(0, start)
+  const selected = value.slice(start, end)
+  const after = value.slice(end)
+
+  if (before.endsWith(marker) && after.startsWith(marker)) {
+    return {
+      value: before.slice(0, -marker.length) + selected + after.slice(marker.length),
+      selectionStart: start - marker.length,
+      selectionEnd: end - marker.length,
+    }
+  }
+
+  return {
+    value: before + marker + selected + marker + after,
+    selectionStart: start + marker.length,
+    selectionEnd: end + marker.length,
+  }
+}
+
+/** Turn the selected lines into a bullet or numbered list, or back into plain lines */
+export function toggleList(value: string, start: number, end: number, type: 'bullet' | 'numbered'): TextEdit {
+  const lineStart = value.lastIndexOf('\n', start - 1) + 1
+  const nextBreak = value.indexOf('\n', end)
+  const lineEnd = nextBreak === -1 ? value.length : nextBreak
+  const lines = value.slice(lineStart, lineEnd).split('\n')
+
+  const pattern = type === 'bullet' ? BULLET_RE : NUMBERED_RE
+  const allListed = lines.every((l) => !l.trim() || pattern.test(l))
+  const stripped = lines.map((l) => l.replace(BULLET_RE, '$1').replace(NUMBERED_RE, '$2'))
+
+  let n = 0
+  const next = allListed
+    ? stripped
+    : stripped.map((l) => (l.trim() ? (type === 'bullet' ? `- ${l}` : `${++n}. ${l}`) : l))
+
+  const replaced = next.join('\n')
+  return {
+    value: value.slice(0, lineStart) + replaced + value.slice(lineEnd),
+    selectionStart: lineStart,
+    selectionEnd: lineStart + replaced.length,
+  }
+}
+
+/** Turn the selection into a link and select the URL placeholder so it can be typed over */
+export function insertLink(value: string, start: number, end: number): TextEdit {
+  const label = value.slice(start, end) || 'link'
+  const url = 'https://'
+  const inserted = `[${label}](${url})`
+  const urlStart = start + label.length + 3
+  return {
+    value: value.slice(0, start) + inserted + value.slice(end),
+    selectionStart: urlStart,
+    selectionEnd: urlStart + url.length,
+  }
+}
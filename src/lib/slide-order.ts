@@ -0,0 +1,21 @@
+/**
+ * Put slides into an adviser's saved order. Slides the order doesn't mention —
+ * a module added later, a slide added to a template — keep their default spot,
+ * right after the slide that precedes them in the default order.
+ */
+export function applySlideOrder<T extends { id: string }>(slides: T[], order: string[] | null | undefined): T[] {
+  if (!order || order.length === 0) return slides
+
+  const rank = new Map(order.map((id, i) => [id, i]))
+  const result = slides
+    .filter((s) => rank.has(s.id))
+    .sort((a, b) => rank.get(a.id)! - rank.get(b.id)!)
+
+  slides.forEach((slide, i) => {
+    if (rank.has(slide.id)) return
+    const before = i > 0 ? result.indexOf(slides[i - 1]) : -1
+    result.splice(before + 1, 0, slide)
+  })
+
+  return result
+}
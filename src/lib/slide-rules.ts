@@ -0,0 +1,120 @@
+import { findModule, type Catalog } from './catalog'
+import type {
+  FeeComponent,
+  FeeData,
+  ProposalDraft,
+  SlideCondition,
+  SlideConditionType,
+  SlideInclusionRule,
+  SlideOverrides,
+} from '../types'
+
+/* ── Labels ── */
+
+export const SLIDE_CONDITION_LABELS: Record<SlideConditionType, string> = {
+  client_nationality: 'Client nationality',
+  client_risk_profile: 'Client risk profile',
+  product_selected: 'Module selected',
+  fee_present: 'Fee included',
+}
+
+export const FEE_COMPONENT_LABELS: Record<FeeComponent, string> = {
+  initial_advice: 'Initial advice fee',
+  ongoing: 'Ongoing advice fee',
+  platform_charge: 'Platform charge',
+  fund_charge: 'Fund charges',
+}
+
+/* ── Evaluation ── */
+
+/** The parts of a draft that rules can look at */
+export type RuleContext = Pick<ProposalDraft, 'clientDetails' | 'selectedProducts' | 'feeData'>
+
+// Client details are free text (CRM or typed), so compare loosely
+function normalise(value: string | undefined): string {
+  return (value ?? '').trim().toLowerCase()
+}
+
+function feeComponentPresent(fee: FeeData, component: FeeComponent): boolean {
+  switch (component) {
+    case 'initial_advice':
+      return fee.initialAdviceFee !== null
+    case 'ongoing':
+      return fee.ongoingPercent !== null || fee.aumBands.length > 0
+    case 'platform_charge':
+      return fee.platformChargePercent !== null
+    case 'fund_charge':
+      return fee.fundChargePercent !== null
+    default:
+      return false
+  }
+}
+
+function conditionMatches(condition: SlideCondition, ctx: RuleContext): boolean {
+  let matched: boolean
+  switch (condition.type) {
+    case 'client_nationality': {
+      const nationality = normalise(ctx.clientDetails?.nationality)
+      matched = condition.values.some((v) => normalise(v) === nationality && nationality !== '')
+      break
+    }
+    case 'client_risk_profile': {
+      const profile = normalise(ctx.clientDetails?.riskProfile)
+      matched = condition.values.some((v) => normalise(v) === profile && profile !== '')
+      break
+    }
+    case 'product_selected':
+      matched = condition.values.some((id) => ctx.selectedProducts.includes(id))
+      break
+    case 'fee_present':
+      matched = condition.values.some((c) => feeComponentPresent(ctx.feeData, c as FeeComponent))
+      break
+    default:
+      matched = false
+  }
+  return condition.negate ? !matched : matched
+}
+
+/** Whether a slide is in the default set. No rule (or a rule with no conditions) means always included. */
+export function evaluateRule(rule: SlideInclusionRule | null | undefined, ctx: RuleContext): boolean {
+  if (!rule || rule.conditions.length === 0) return true
+  return rule.match === 'all'
+    ? rule.conditions.every((c) => conditionMatches(c, ctx))
+    : rule.conditions.some((c) => conditionMatches(c, ctx))
+}
+
+/**
+ * Effective exclusions for a set of slides: the adviser's override wins,
+ * otherwise the slide's rule decides.
+ */
+export function resolveDisabledSlides(
+  slideIds: string[],
+  rules: Record<string, SlideInclusionRule | null>,
+  overrides: SlideOverrides,
+  ctx: RuleContext
+): string[] {
+  return slideIds.filter((id) => {
+    const included = id in overrides ? overrides[id] : evaluateRule(rules[id], ctx)
+    return !included
+  })
+}
+
+/* ── Display ── */
+
+function describeValue(condition: SlideCondition, value: string, catalog: Catalog): string {
+  if (condition.type === 'product_selected') return findModule(catalog, value)?.name ?? value
+  if (condition.type === 'fee_present') return FEE_COMPONENT_LABELS[value as FeeComponent] ?? value
+  return value
+}
+
+export function describeCondition(condition: SlideCondition, catalog: Catalog): string {
+  const values = condition.values.map((v) => describeValue(condition, v, catalog)).join(' or ')
+  return `${SLIDE_CONDITION_LABELS[condition.type]} ${condition.negate ? 'is not' : 'is'} ${values || '—'}`
+}
+
+/** One-line summary for badges and tooltips */
+export function describeRule(rule: SlideInclusionRule, catalog: Catalog): string {
+  if (rule.conditions.length === 0) return 'Always included'
+  const joiner = rule.match === 'all' ? ' and ' : ' or '
+  return `Include when ${rule.conditions.map((c) => describeCondition(c, catalog)).join(joiner)}`
+}
@@ -1,5 +1,18 @@
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL as string
 
+/** Private bucket for advisers' uploads, stored as adhoc/<adviser id>/<name> */
+export const ADHOC_BUCKET = 'adhoc-slides'
+
 export function getSlideUrl(path: string): string {
   return `${SUPABASE_URL}/storage/v1/object/public/slides/${path}`
 }
+
+export function isAdhocPath(path: string): boolean {
+  return path.startsWith('adhoc/')
+}
+
+/** URL for a stored image — ad-hoc uploads need a signed URL from `signed`, keyed by path */
+export function getImageUrl(path: string, signed: Record<string, string>): string {
+  if (path.startsWith('http')) return path
+  return isAdhocPath(path) ? signed[path] ?? '' : getSlideUrl(path)
+}
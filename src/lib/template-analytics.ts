@@ -0,0 +1,260 @@
+import { supabase } from './supabase'
+import { logger } from './logger'
+import { CUSTOM_SLIDE_PREFIX } from './custom-slides'
+
+/*
+ * Template performance: slide_analytics rolled up across every proposal by the
+ * template slide each row came from, rather than by its position in one deck.
+ * Intro and closing slides are counted per region, since each region has its own
+ * pack; product slides are shared. Custom slides are left out.
+ */
+
+/* ── Types ── */
+
+export type TemplateSectionKind = 'intro' | 'product' | 'closing'
+
+export interface TemplateSlideStats {
+  slideNumber: number
+  slideTitle: string
+  /** Visits that reached the slide */
+  views: number
+  avgDwell: number // seconds
+  /** Share of visits that moved on within SKIP_SECONDS, 0-100 */
+  skipRate: number
+  /** Share of visits that ended on this slide before the end of the deck, 0-100 */
+  dropOffRate: number
+}
+
+export interface TemplateSectionStats {
+  kind: TemplateSectionKind
+  /** Region id for intro / closing packs, module id for products */
+  id: string
+  views: number
+  /** Average time per visit across the whole section */
+  avgDwell: number
+  skipRate: number
+  dropOffRate: number
+  /** Slide the most visits ended on, if any did */
+  dropOffSlide: number | null
+  slides: TemplateSlideStats[]
+}
+
+export interface TemplateAnalyticsFilters {
+  regionId?: string
+  /** ISO dates, inclusive; applied to when the visit started */
+  from?: string
+  to?: string
+}
+
+/** A visit shorter than this counts as skipping the slide */
+export const SKIP_SECONDS = 3
+
+const PAGE_SIZE = 1000
+
+/* ── Slide keys ── */
+
+interface TemplateSlideRef {
+  kind: TemplateSectionKind
+  id: string
+  slideNumber: number
+}
+
+const PRODUCT_SLIDE_RE = /^product-(.+)-(\d+)$/
+const PACK_SLIDE_RE = /^(intro|closing)-(\d+)$/
+
+/** The template slide a viewer slide id came from; null for custom and untracked slides */
+function parseSlideId(slideId: string | null, regionId: string): TemplateSlideRef | null {
+  if (!slideId || slideId.startsWith(CUSTOM_SLIDE_PREFIX)) return null
+  const product = PRODUCT_SLIDE_RE.exec(slideId)
+  if (product) return { kind: 'product', id: product[1], slideNumber: Number(product[2]) }
+  const pack = PACK_SLIDE_RE.exec(slideId)
+  if (pack) return { kind: pack[1] as TemplateSectionKind, id: regionId, slideNumber: Number(pack[2]) }
+  return null
+}
+
+function sectionKey(ref: TemplateSlideRef): string {
+  return `${ref.kind}:${ref.id}`
+}
+
+/* ── Data fetching ── */
+
+interface AnalyticsRow {
+  view_id: string
+  slide_index: number
+  slide_id: string | null
+  slide_title: string | null
+  time_entered: string
+  duration_seconds: number | null
+  link_views: { started_at: string; total_slides: number | null }
+  proposal_links: { proposals: { region_id: string } }
+}
+
+async function fetchAnalyticsRows(filters: TemplateAnalyticsFilters): Promise<AnalyticsRow[]> {
+  const rows: AnalyticsRow[] = []
+  for (let page = 0; ; page++) {
+    let query = supabase
+      .from('slide_analytics')
+      .select(
+        'view_id, slide_index, slide_id, slide_title, time_entered, duration_seconds, link_views!inner(started_at, total_slides), proposal_links!inner(proposals!inner(region_id))'
+      )
+      .order('id')
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1)
+
+    if (filters.regionId) query = query.eq('proposal_links.proposals.region_id', filters.regionId)
+    if (filters.from) query = query.gte('link_views.started_at', `${filters.from}T00:00:00`)
+    if (filters.to) query = query.lte('link_views.started_at', `${filters.to}T23:59:59.999`)
+
+    const { data, error } = await query
+    if (error) {
+      logger.error('[TemplateAnalytics] Failed to load slide analytics:', error.message)
+      return rows
+    }
+    rows.push(...(data as unknown as AnalyticsRow[]))
+    if (data.length < PAGE_SIZE) return rows
+  }
+}
+
+/* ── Aggregation ── */
+
+interface SlideVisit {
+  ref: TemplateSlideRef
+  title: string | null
+  dwell: number
+}
+
+interface ViewSummary {
+  /** Template slides reached, keyed by section + slide number */
+  slides: Map<string, SlideVisit>
+  /** Last slide entered, and whether it was the end of the deck */
+  last: TemplateSlideRef | null
+  finished: boolean
+}
+
+function summariseViews(rows: AnalyticsRow[]): ViewSummary[] {
+  const byView = new Map<string, AnalyticsRow[]>()
+  for (const row of rows) {
+    const list = byView.get(row.view_id) ?? []
+    list.push(row)
+    byView.set(row.view_id, list)
+  }
+
+  const summaries: ViewSummary[] = []
+  for (const viewRows of byView.values()) {
+    viewRows.sort((a, b) => a.time_entered.localeCompare(b.time_entered))
+    const regionId = viewRows[0].proposal_links.proposals.region_id
+    const slides = new Map<string, SlideVisit>()
+
+    for (const row of viewRows) {
+      const ref = parseSlideId(row.slide_id, regionId)
+      if (!ref) continue
+      const key = `${sectionKey(ref)}:${ref.slideNumber}`
+      const visit = slides.get(key) ?? { ref, title: null, dwell: 0 }
+      visit.title ??= row.slide_title
+      // Revisits add up
+      visit.dwell += row.duration_seconds ?? 0
+      slides.set(key, visit)
+    }
+    if (slides.size === 0) continue
+
+    const lastRow = viewRows[viewRows.length - 1]
+    const totalSlides = viewRows[0].link_views.total_slides
+    summaries.push({
+      slides,
+      last: parseSlideId(lastRow.slide_id, regionId),
+      finished: totalSlides != null && lastRow.slide_index >= totalSlides - 1,
+    })
+  }
+  return summaries
+}
+
+function percent(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 100) : 0
+}
+
+interface SlideTally {
+  title: string | null
+  views: number
+  dwell: number
+  skips: number
+  dropOffs: number
+}
+
+interface SectionTally {
+  kind: TemplateSectionKind
+  id: string
+  views: number
+  dwell: number
+  dropOffs: number
+  slides: Map<number, SlideTally>
+}
+
+/** Per-slide and per-section performance for every template slide clients have seen */
+export async function getTemplatePerformance(
+  filters: TemplateAnalyticsFilters = {}
+): Promise<TemplateSectionStats[]> {
+  const views = summariseViews(await fetchAnalyticsRows(filters))
+
+  const sections = new Map<string, SectionTally>()
+  for (const view of views) {
+    const reached = new Set<string>()
+    for (const { ref, title, dwell } of view.slides.values()) {
+      const key = sectionKey(ref)
+      let section = sections.get(key)
+      if (!section) {
+        section = { kind: ref.kind, id: ref.id, views: 0, dwell: 0, dropOffs: 0, slides: new Map() }
+        sections.set(key, section)
+      }
+      if (!reached.has(key)) {
+        reached.add(key)
+        section.views++
+      }
+      section.dwell += dwell
+
+      const slide = section.slides.get(ref.slideNumber) ?? { title: null, views: 0, dwell: 0, skips: 0, dropOffs: 0 }
+      slide.title ??= title
+      slide.views++
+      slide.dwell += dwell
+      if (dwell < SKIP_SECONDS) slide.skips++
+      section.slides.set(ref.slideNumber, slide)
+    }
+
+    if (view.last && !view.finished) {
+      const section = sections.get(sectionKey(view.last))
+      const slide = section?.slides.get(view.last.slideNumber)
+      if (section && slide) {
+        section.dropOffs++
+        slide.dropOffs++
+      }
+    }
+  }
+
+  return [...sections.values()].map((section) => {
+    const slides = [...section.slides.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([slideNumber, s]) => ({
+        slideNumber,
+        slideTitle: s.title || `Slide ${slideNumber}`,
+        views: s.views,
+        avgDwell: s.views > 0 ? s.dwell / s.views : 0,
+        skipRate: percent(s.skips, s.views),
+        dropOffRate: percent(s.dropOffs, s.views),
+      }))
+    const visits = [...section.slides.values()].reduce((sum, s) => sum + s.views, 0)
+    const skips = [...section.slides.values()].reduce((sum, s) => sum + s.skips, 0)
+    const worst = [...section.slides.entries()].reduce<[number, SlideTally] | null>(
+      (best, entry) => (entry[1].dropOffs > (best?.[1].dropOffs ?? 0) ? entry : best),
+      null
+    )
+
+    return {
+      kind: section.kind,
+      id: section.id,
+      views: section.views,
+      avgDwell: section.views > 0 ? section.dwell / section.views : 0,
+      skipRate: percent(skips, visits),
+      dropOffRate: percent(section.dropOffs, section.views),
+      dropOffSlide: worst?.[0] ?? null,
+      slides,
+    }
+  })
+}
@@ -0,0 +1,227 @@
+import { parseRichText, type RichTextLine } from './rich-text'
+import { formatFieldValue } from './field-values'
+import type { EditableFieldDef } from '../types'
+
+/*
+ * Shrink-to-fit and overflow detection for editable fields. Text is measured
+ * in an off-screen 1280×720 box using the same markup and styles as the PDF
+ * overlays in pdf-service/src/assemble-html.ts, so what fits here fits there.
+ */
+
+/* ── Types ── */
+
+export interface FieldFit {
+  /** Font size to render at, in the field's own units (before the textarea/table scaling) */
+  fontSize: number
+  /** True when the text is clipped even at the smallest allowed size */
+  overflows: boolean
+}
+
+/** Everything measurement needs — autofill sources don't affect layout */
+export type MeasuredField = Omit<EditableFieldDef, 'autoFill'>
+
+export interface FieldOverflow {
+  slideId: string
+  slideLabel: string
+  fieldName: string
+  fieldLabel: string
+}
+
+/** Fields that shrink have a minimum below their design size */
+export function canShrink(field: Pick<EditableFieldDef, 'fontSize' | 'minFontSize'>): boolean {
+  return field.minFontSize !== undefined && field.minFontSize < field.fontSize
+}
+
+/* ── Measurement ── */
+
+const SLIDE_WIDTH = 1280
+const SLIDE_HEIGHT = 720
+
+// Same multipliers as the PDF overlays; other types render at their design size
+const SIZE_SCALE: Partial<Record<EditableFieldDef['type'], number>> = {
+  text: 1,
+  textarea: 0.9,
+  table: 0.85,
+}
+
+const FONT_WEIGHTS: Record<EditableFieldDef['fontWeight'], string> = {
+  normal: '400',
+  medium: '500',
+  semibold: '600',
+  bold: '700',
+}
+
+let stage: HTMLDivElement | null = null
+
+function getStage(): HTMLDivElement {
+  if (!stage) {
+    stage = document.createElement('div')
+    stage.setAttribute('aria-hidden', 'true')
+    Object.assign(stage.style, {
+      position: 'fixed',
+      left: '-20000px',
+      top: '0',
+      width: `${SLIDE_WIDTH}px`,
+      height: `${SLIDE_HEIGHT}px`,
+      visibility: 'hidden',
+      pointerEvents: 'none',
+    })
+    document.body.appendChild(stage)
+  }
+  return stage
+}
+
+function appendRuns(parent: HTMLElement, line: RichTextLine) {
+  for (const run of line) {
+    const span = document.createElement('span')
+    span.textContent = run.text
+    if (run.bold) span.style.fontWeight = '700'
+    if (run.italic) span.style.fontStyle = 'italic'
+    parent.appendChild(span)
+  }
+}
+
+function appendRichText(parent: HTMLElement, value: string) {
+  const root = document.createElement('div')
+  root.style.whiteSpace = 'normal'
+  parseRichText(value).forEach((block, i) => {
+    const gap = i > 0 ? '0.4em' : '0'
+    if (block.type === 'paragraph') {
+      const el = document.createElement('div')
+      el.style.marginTop = gap
+      for (const line of block.lines) {
+        const row = document.createElement('div')
+        appendRuns(row, line)
+        el.appendChild(row)
+      }
+      root.appendChild(el)
+      return
+    }
+    const list = document.createElement(block.type === 'bullet' ? 'ul' : 'ol')
+    Object.assign(list.style, { margin: `${gap} 0 0 0`, paddingLeft: '1.2em' })
+    for (const item of block.items) {
+      const li = document.createElement('li')
+      appendRuns(li, item)
+      list.appendChild(li)
+    }
+    root.appendChild(list)
+  })
+  parent.appendChild(root)
+}
+
+function buildOverlay(field: MeasuredField, value: string): HTMLDivElement {
+  const el = document.createElement('div')
+  Object.assign(el.style, {
+    position: 'absolute',
+    left: `${field.x}%`,
+    top: `${field.y}%`,
+    width: `${field.width}%`,
+    height: `${field.height}%`,
+    overflow: 'hidden',
+    boxSizing: 'border-box',
+    fontFamily:
+      field.fontFamily === 'heading' ? "'FT Calhern', 'Helvetica Neue', sans-serif" : "'Sentient', Georgia, serif",
+    fontWeight: FONT_WEIGHTS[field.fontWeight] || '400',
+    textAlign: field.textAlign,
+  })
+
+  if (field.type === 'table') {
+    el.style.lineHeight = 'normal'
+    const table = document.createElement('table')
+    Object.assign(table.style, { width: '100%', borderCollapse: 'collapse' })
+    for (const row of value.split('\n').filter((r) => r.trim())) {
+      const tr = document.createElement('tr')
+      for (const cell of row.split('|')) {
+        const td = document.createElement('td')
+        Object.assign(td.style, { padding: '2px 6px', borderBottom: '1px solid transparent' })
+        td.textContent = cell.trim()
+        tr.appendChild(td)
+      }
+      table.appendChild(tr)
+    }
+    el.appendChild(table)
+  } else if (field.type === 'textarea') {
+    Object.assign(el.style, { lineHeight: '1.45', padding: '2px 4px', whiteSpace: 'pre-wrap', overflowWrap: 'break-word' })
+    if (field.richText) appendRichText(el, value)
+    else el.textContent = value
+  } else {
+    Object.assign(el.style, { display: 'flex', alignItems: 'flex-start', lineHeight: '1.4', padding: '2px 4px', whiteSpace: 'nowrap' })
+    const span = document.createElement('span')
+    span.style.width = '100%'
+    span.textContent = value
+    el.appendChild(span)
+  }
+
+  return el
+}
+
+function overflowsAt(el: HTMLDivElement, field: MeasuredField, fontSize: number): boolean {
+  el.style.fontSize = `${Math.round(fontSize * (SIZE_SCALE[field.type] ?? 1))}px`
+  return el.scrollHeight > el.clientHeight + 1 || el.scrollWidth > el.clientWidth + 1
+}
+
+/**
+ * Largest font size (down to the field's minimum) at which the value fits its box.
+ * `value` is the stored value; dates and amounts are formatted for the region first.
+ * Call after `document.fonts.ready` — fallback fonts measure differently.
+ */
+export function fitFieldText(field: MeasuredField, stored: string, regionId?: string): FieldFit {
+  // Images scale to their box; everything else is measured as it will be displayed
+  const value = field.type === 'image' ? '' : formatFieldValue(field, stored, regionId)
+  if (!value) return { fontSize: field.fontSize, overflows: false }
+
+  const el = buildOverlay(field, value)
+  getStage().appendChild(el)
+  try {
+    if (!overflowsAt(el, field, field.fontSize)) return { fontSize: field.fontSize, overflows: false }
+    if (!canShrink(field)) return { fontSize: field.fontSize, overflows: true }
+
+    const min = field.minFontSize!
+    if (overflowsAt(el, field, min)) return { fontSize: min, overflows: true }
+
+    // Binary search in whole pixels between the minimum (fits) and design size (doesn't)
+    let lo = min
+    let hi = field.fontSize
+    while (hi - lo > 1) {
+      const mid = Math.floor((lo + hi) / 2)
+      if (overflowsAt(el, field, mid)) hi = mid
+      else lo = mid
+    }
+    return { fontSize: lo, overflows: false }
+  } finally {
+    el.remove()
+  }
+}
+
+/** Fitted font sizes for one slide's fields, keyed by field name */
+export async function fitSlideFields(
+  fields: MeasuredField[],
+  values: Record<string, string>,
+  regionId?: string
+): Promise<Record<string, FieldFit>> {
+  await document.fonts.ready
+  const fits: Record<string, FieldFit> = {}
+  for (const field of fields) {
+    fits[field.name] = fitFieldText(field, values[field.name] ?? '', regionId)
+  }
+  return fits
+}
+
+/** Every field across the given slides that would be clipped in the PDF */
+export async function findOverflowingFields(
+  slides: { id: string; label: string; editableFields?: MeasuredField[] }[],
+  fieldsData: Record<string, Record<string, string>>,
+  regionId?: string
+): Promise<FieldOverflow[]> {
+  await document.fonts.ready
+  const overflows: FieldOverflow[] = []
+  for (const slide of slides) {
+    for (const field of slide.editableFields ?? []) {
+      const value = fieldsData[slide.id]?.[field.name] ?? ''
+      if (fitFieldText(field, value, regionId).overflows) {
+        overflows.push({ slideId: slide.id, slideLabel: slide.label, fieldName: field.name, fieldLabel: field.label })
+      }
+    }
+  }
+  return overflows
+}
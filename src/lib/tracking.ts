@@ -1,6 +1,6 @@
 import { supabase } from './supabase'
 import { logProposalEvent } from './proposal-events'
-import type { ProposalLink } from '../types'
+import type { EmailStatus, ProposalLink } from '../types'
 
 const TOKEN_LENGTH = 12
 const TOKEN_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_'
@@ -83,6 +83,21 @@ export async function revokeProposalLink(
   return {}
 }
 
+/**
+ * Email the viewer link to its recipient via the send-proposal-email function,
+ * using the proposal region's template. Also used to resend.
+ */
+export async function sendProposalEmail(
+  linkId: string
+): Promise<{ status?: EmailStatus; error?: string }> {
+  const { data, error } = await supabase.functions.invoke('send-proposal-email', {
+    body: { link_id: linkId },
+  })
+  if (error) return { error: error.message }
+  if (data?.error && !data?.status) return { error: data.error as string }
+  return { status: data.status as EmailStatus, error: data.error as string | undefined }
+}
+
 export async function getProposalLinks(proposalId: string): Promise<ProposalLink[]> {
   const { data: links, error } = await supabase
     .from('proposal_links')
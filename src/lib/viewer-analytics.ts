@@ -1,4 +1,36 @@
-import { supabase } from './supabase'
+/*
+ * Viewer analytics beacons. Events are queued and posted in batches to the
+ * track-viewer-events edge function with the link's OTP session token; the
+ * function validates them and stamps IP, country and server time. Ids are
+ * generated here so a retried batch doesn't create duplicate rows.
+ */
+
+const EDGE_FN_URL = `${import.meta.env.VITE_SUPABASE_URL as string}/functions/v1/track-viewer-events`
+
+/** Send once this many events are waiting, otherwise on the timer */
+const BATCH_SIZE = 20
+const FLUSH_INTERVAL_MS = 5000
+
+type ViewerEvent =
+  | {
+      type: 'view'
+      id: string
+      at: string
+      session_id: string
+      total_slides: number
+      device_type: string
+      referrer: string | null
+    }
+  | {
+      type: 'enter'
+      id: string
+      at: string
+      view_id: string
+      slide_index: number
+      slide_id: string | null
+      slide_title: string
+    }
+  | { type: 'exit'; id: string; at: string }
 
 function getSessionId(): string {
   const key = 'hxt_viewer_session'
@@ -17,114 +49,105 @@ function getDeviceType(): string {
   return 'desktop'
 }
 
-export async function initViewSession(linkId: string): Promise<string | null> {
-  try {
-    console.log('[Analytics] initViewSession called with linkId:', linkId)
-    const userAgent = navigator.userAgent
-    const sessionId = getSessionId()
-
-    // Check if this session has already viewed this link (unique visitor detection)
-    let isUnique = true
-    try {
-      const { count } = await supabase
-        .from('link_views')
-        .select('id', { count: 'exact', head: true })
-        .eq('link_id', linkId)
-        .eq('session_id', sessionId)
-
-      if (count && count > 0) isUnique = false
-    } catch {
-      // Non-critical — default to unique
-    }
+/* ── Queue ── */
 
-    const { data, error } = await supabase
-      .from('link_views')
-      .insert({
-        link_id: linkId,
-        user_agent: userAgent,
-        device_type: getDeviceType(),
-        referrer: document.referrer || null,
-        session_id: sessionId,
-        is_unique_visitor: isUnique,
-      })
-      .select('id')
-      .single()
-
-    if (error) {
-      console.error('[Analytics] initViewSession INSERT error:', error)
-      return null
-    }
+let _target: { token: string; sessionToken: string } | null = null
+let _queue: ViewerEvent[] = []
+let _timer: ReturnType<typeof setTimeout> | null = null
+
+function enqueue(event: ViewerEvent) {
+  _queue.push(event)
+  if (_queue.length >= BATCH_SIZE) {
+    flush()
+  } else if (!_timer) {
+    _timer = setTimeout(() => flush(), FLUSH_INTERVAL_MS)
+  }
+}
 
-    console.log('[Analytics] initViewSession success, viewId:', data.id)
-    return data.id
-  } catch (err) {
-    console.error('[Analytics] initViewSession exception:', err)
-    return null
+/** Post the queued events. `keepalive` lets the request outlive the page on unload. */
+function flush(keepalive = false) {
+  if (_timer) {
+    clearTimeout(_timer)
+    _timer = null
   }
+  if (!_target || _queue.length === 0) return
+
+  const events = _queue
+  _queue = []
+
+  fetch(EDGE_FN_URL, {
+    method: 'POST',
+    keepalive,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      token: _target.token,
+      session_token: _target.sessionToken,
+      sent_at: new Date().toISOString(),
+      events,
+    }),
+  })
+    .then(async (res) => {
+      if (!res.ok) {
+        console.error('[Analytics] Batch rejected:', res.status, await res.text())
+        return
+      }
+      const result = await res.json()
+      if (result.rejected?.length) console.warn('[Analytics] Events rejected:', result.rejected)
+    })
+    .catch((err) => {
+      // Put the events back for the next flush; ids make the retry safe
+      if (!keepalive) _queue = [...events, ..._queue]
+      console.error('[Analytics] Batch failed:', err)
+    })
+}
+
+/* ── Tracking ── */
+
+/** Start a view for a verified session; returns the view id slide events belong to */
+export function initViewSession(token: string, sessionToken: string, totalSlides: number): string {
+  _target = { token, sessionToken }
+  const id = crypto.randomUUID()
+  enqueue({
+    type: 'view',
+    id,
+    at: new Date().toISOString(),
+    session_id: getSessionId(),
+    total_slides: totalSlides,
+    device_type: getDeviceType(),
+    referrer: document.referrer || null,
+  })
+  return id
 }
 
-export async function trackSlideEnter(
+/** Record entering a slide; returns the id to close it with */
+export function trackSlideEnter(
   viewId: string,
-  linkId: string,
   slideIndex: number,
-  slideTitle: string
-): Promise<string | null> {
-  try {
-    console.log('[Analytics] trackSlideEnter:', { viewId, linkId, slideIndex, slideTitle })
-    const { data, error } = await supabase
-      .from('slide_analytics')
-      .insert({
-        view_id: viewId,
-        link_id: linkId,
-        slide_index: slideIndex,
-        slide_title: slideTitle,
-        time_entered: new Date().toISOString(),
-      })
-      .select('id')
-      .single()
-
-    if (error) {
-      console.error('[Analytics] trackSlideEnter INSERT error:', error)
-      return null
-    }
-    console.log('[Analytics] trackSlideEnter success, analyticId:', data.id)
-    return data.id
-  } catch (err) {
-    console.error('[Analytics] trackSlideEnter exception:', err)
-    return null
-  }
+  slideTitle: string,
+  slideId?: string
+): string {
+  const id = crypto.randomUUID()
+  enqueue({
+    type: 'enter',
+    id,
+    at: new Date().toISOString(),
+    view_id: viewId,
+    slide_index: slideIndex,
+    slide_id: slideId ?? null,
+    slide_title: slideTitle,
+  })
+  return id
 }
 
-export async function trackSlideExit(
-  analyticId: string,
-  timeEntered: Date
-): Promise<void> {
-  try {
-    const now = new Date()
-    const durationSeconds = (now.getTime() - timeEntered.getTime()) / 1000
-
-    console.log('[Analytics] trackSlideExit:', { analyticId, durationSeconds: Math.round(durationSeconds * 100) / 100 })
-    const { error } = await supabase
-      .from('slide_analytics')
-      .update({
-        time_exited: now.toISOString(),
-        duration_seconds: Math.round(durationSeconds * 100) / 100,
-      })
-      .eq('id', analyticId)
-
-    if (error) {
-      console.error('[Analytics] trackSlideExit UPDATE error:', error)
-    }
-  } catch (err) {
-    console.error('[Analytics] trackSlideExit exception:', err)
-  }
+export function trackSlideExit(analyticId: string) {
+  enqueue({ type: 'exit', id: analyticId, at: new Date().toISOString() })
 }
 
-// State for flushing the last slide on unload
-let _pendingExit: { analyticId: string; timeEntered: Date } | null = null
+// The slide on screen, closed when the page unloads
+let _pendingExit: string | null = null
 
-export function setPendingExit(analyticId: string, timeEntered: Date) {
-  _pendingExit = { analyticId, timeEntered }
+export function setPendingExit(analyticId: string) {
+  _pendingExit = analyticId
 }
 
 export function clearPendingExit() {
@@ -132,30 +155,9 @@ export function clearPendingExit() {
 }
 
 export function flushOnUnload() {
-  if (!_pendingExit) return
-
-  const { analyticId, timeEntered } = _pendingExit
-  const now = new Date()
-  const durationSeconds = (now.getTime() - timeEntered.getTime()) / 1000
-
-  // Use fetch with keepalive for reliability on page unload (supports headers unlike sendBeacon)
-  const url = `${import.meta.env.VITE_SUPABASE_URL}/rest/v1/slide_analytics?id=eq.${analyticId}`
-  const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY as string
-
-  fetch(url, {
-    method: 'PATCH',
-    keepalive: true,
-    headers: {
-      'Content-Type': 'application/json',
-      'apikey': anonKey,
-      'Authorization': `Bearer ${anonKey}`,
-      'Prefer': 'return=minimal',
-    },
-    body: JSON.stringify({
-      time_exited: now.toISOString(),
-      duration_seconds: Math.round(durationSeconds * 100) / 100,
-    }),
-  }).catch(() => {})
-
-  _pendingExit = null
+  if (_pendingExit) {
+    _queue.push({ type: 'exit', id: _pendingExit, at: new Date().toISOString() })
+    _pendingExit = null
+  }
+  flush(true)
 }
@@ -0,0 +1,129 @@
+import type { ProposalLocale } from '../types'
+import { DEFAULT_LOCALE } from './locales'
+
+/*
+ * Client-facing text in the proposal viewer, per proposal language. Slide
+ * content is translated through the packs; this covers the chrome around it.
+ */
+
+export interface ViewerStrings {
+  linkUnavailable: string
+  linkRevoked: string
+  linkExpired: string
+  noToken: string
+  contactAdviser: string
+  sharedTitle: string
+  verifyIntro: string
+  willSendCodeTo: string
+  sending: string
+  sendCode: string
+  securedBy: string
+  enterCode: string
+  sentCodeTo: string
+  verifying: string
+  sendFailed: string
+  verifyFailed: string
+  invalidCode: string
+  codeExpired: string
+  codeExpiresIn: (time: string) => string
+  resendIn: (seconds: number) => string
+  resendCode: string
+  loadingProposal: string
+  proposalFor: (clientName: string) => string
+  downloadPdf: string
+  previousSlide: string
+  nextSlide: string
+}
+
+export type ViewerErrorKey = 'linkUnavailable' | 'linkRevoked' | 'linkExpired' | 'noToken'
+
+const VIEWER_STRINGS: Record<ProposalLocale, ViewerStrings> = {
+  en: {
+    linkUnavailable: 'This link is no longer available',
+    linkRevoked: 'This link has been revoked',
+    linkExpired: 'This link has expired',
+    noToken: 'No token provided',
+    contactAdviser: 'Please contact your adviser for a new link.',
+    sharedTitle: 'Your adviser has shared a proposal with you',
+    verifyIntro: 'To protect your information, please verify your email address.',
+    willSendCodeTo: 'We’ll send a code to',
+    sending: 'Sending...',
+    sendCode: 'Send Verification Code',
+    securedBy: 'Secured by Hoxton Wealth',
+    enterCode: 'Enter verification code',
+    sentCodeTo: 'We sent a 6-digit code to',
+    verifying: 'Verifying...',
+    sendFailed: 'Failed to send code. Please try again.',
+    verifyFailed: 'Verification failed. Please try again.',
+    invalidCode: 'Invalid code.',
+    codeExpired: 'Code expired',
+    codeExpiresIn: (time) => `Code expires in ${time}`,
+    resendIn: (seconds) => `Resend in ${seconds}s`,
+    resendCode: 'Resend Code',
+    loadingProposal: 'Loading your proposal...',
+    proposalFor: (clientName) => `Proposal for ${clientName}`,
+    downloadPdf: 'Download PDF',
+    previousSlide: 'Previous slide',
+    nextSlide: 'Next slide',
+  },
+  ja: {
+    linkUnavailable: 'このリンクは現在ご利用いただけません',
+    linkRevoked: 'このリンクは無効になりました',
+    linkExpired: 'このリンクの有効期限が切れています',
+    noToken: 'リンクが正しくありません',
+    contactAdviser: '新しいリンクについては担当アドバイザーにお問い合わせください。',
+    sharedTitle: '担当アドバイザーからご提案書が届いています',
+    verifyIntro: 'お客様の情報保護のため、メールアドレスの確認をお願いいたします。',
+    willSendCodeTo: '確認コードの送信先：',
+    sending: '送信中...',
+    sendCode: '確認コードを送信',
+    securedBy: 'Hoxton Wealth による保護',
+    enterCode: '確認コードを入力してください',
+    sentCodeTo: '6桁のコードを送信しました：',
+    verifying: '確認中...',
+    sendFailed: 'コードを送信できませんでした。もう一度お試しください。',
+    verifyFailed: '確認できませんでした。もう一度お試しください。',
+    invalidCode: 'コードが正しくありません。',
+    codeExpired: 'コードの有効期限が切れました',
+    codeExpiresIn: (time) => `コードの有効期限：残り ${time}`,
+    resendIn: (seconds) => `${seconds}秒後に再送信できます`,
+    resendCode: 'コードを再送信',
+    loadingProposal: 'ご提案書を読み込んでいます...',
+    proposalFor: (clientName) => `${clientName} 様へのご提案`,
+    downloadPdf: 'PDF をダウンロード',
+    previousSlide: '前のスライド',
+    nextSlide: '次のスライド',
+  },
+  fr: {
+    linkUnavailable: 'Ce lien n’est plus disponible',
+    linkRevoked: 'Ce lien a été révoqué',
+    linkExpired: 'Ce lien a expiré',
+    noToken: 'Lien incomplet',
+    contactAdviser: 'Veuillez contacter votre conseiller pour obtenir un nouveau lien.',
+    sharedTitle: 'Votre conseiller a partagé une proposition avec vous',
+    verifyIntro: 'Pour protéger vos informations, veuillez vérifier votre adresse e-mail.',
+    willSendCodeTo: 'Nous enverrons un code à',
+    sending: 'Envoi...',
+    sendCode: 'Envoyer le code de vérification',
+    securedBy: 'Sécurisé par Hoxton Wealth',
+    enterCode: 'Saisissez le code de vérification',
+    sentCodeTo: 'Nous avons envoyé un code à 6 chiffres à',
+    verifying: 'Vérification...',
+    sendFailed: 'Impossible d’envoyer le code. Veuillez réessayer.',
+    verifyFailed: 'La vérification a échoué. Veuillez réessayer.',
+    invalidCode: 'Code invalide.',
+    codeExpired: 'Code expiré',
+    codeExpiresIn: (time) => `Le code expire dans ${time}`,
+    resendIn: (seconds) => `Renvoyer dans ${seconds} s`,
+    resendCode: 'Renvoyer le code',
+    loadingProposal: 'Chargement de votre proposition...',
+    proposalFor: (clientName) => `Proposition pour ${clientName}`,
+    downloadPdf: 'Télécharger le PDF',
+    previousSlide: 'Diapositive précédente',
+    nextSlide: 'Diapositive suivante',
+  },
+}
+
+export function viewerStrings(locale: ProposalLocale | undefined): ViewerStrings {
+  return VIEWER_STRINGS[locale ?? DEFAULT_LOCALE] ?? VIEWER_STRINGS[DEFAULT_LOCALE]
+}
@@ -0,0 +1,459 @@
+import { useEffect, useState } from 'react'
+import {
+  Plus,
+  X,
+  Loader2,
+  ShieldCheck,
+  Pencil,
+  Trash2,
+  ChevronUp,
+  ChevronDown,
+  ArrowRight,
+} from 'lucide-react'
+import { useAuth } from '../lib/auth'
+import { useCatalog } from '../hooks/useCatalog'
+import { findModule, type Catalog } from '../lib/catalog'
+import {
+  APPROVER_ROLES,
+  approverRoleLabel,
+  deleteApprovalRule,
+  getApprovalRules,
+  saveApprovalRule,
+  type ApprovalRuleInput,
+} from '../lib/approvals'
+import { Badge } from '../components/ui/Badge'
+import { Portal } from '../components/ui/Portal'
+import { useToast } from '../components/ui/Toast'
+import type { ApprovalRule, UserRole } from '../types'
+
+const AUTHOR_ROLES: { value: UserRole; label: string }[] = [
+  { value: 'planner', label: 'Planner' },
+  { value: 'power_planner', label: 'Paraplanner' },
+  { value: 'planner_admin', label: 'Planner Admin' },
+]
+
+const EMPTY_RULE: ApprovalRuleInput = {
+  name: '',
+  description: '',
+  product_modules: [],
+  min_initial_fee: null,
+  min_ongoing_percent: null,
+  author_roles: [],
+  approver_roles: ['compliance'],
+  is_active: true,
+  sort_order: 0,
+}
+
+const inputClass =
+  'w-full rounded-xl border border-hoxton-grey bg-hoxton-light py-2.5 px-4 text-sm font-body text-hoxton-deep placeholder:text-hoxton-slate/50 focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise'
+
+const labelClass = 'mb-1 block text-xs font-heading font-semibold uppercase tracking-wider text-hoxton-slate'
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value]
+}
+
+function parseNumber(value: string): number | null {
+  if (value.trim() === '') return null
+  const n = Number(value)
+  return Number.isFinite(n) ? n : null
+}
+
+/** Short summary of a rule's conditions for the list view */
+function describeConditions(rule: ApprovalRule, catalog: Catalog): string[] {
+  const parts: string[] = []
+  if (rule.product_modules.length > 0) {
+    parts.push(
+      rule.product_modules
+        .map((id) => findModule(catalog, id)?.name ?? id)
+        .join(', ')
+    )
+  }
+  if (rule.min_initial_fee !== null) parts.push(`Initial fee > ${rule.min_initial_fee}`)
+  if (rule.min_ongoing_percent !== null) parts.push(`Ongoing fee > ${rule.min_ongoing_percent}%`)
+  if (rule.author_roles.length > 0) {
+    parts.push(
+      `Authored by ${rule.author_roles
+        .map((r) => AUTHOR_ROLES.find((a) => a.value === r)?.label ?? r)
+        .join(' / ')}`
+    )
+  }
+  return parts
+}
+
+export function AdminApprovalRulesPage() {
+  const { user } = useAuth()
+  const { addToast } = useToast()
+  const catalog = useCatalog()
+
+  const [rules, setRules] = useState<ApprovalRule[]>([])
+  const [loading, setLoading] = useState(true)
+
+  // Editor
+  const [editing, setEditing] = useState<{ id?: string; rule: ApprovalRuleInput } | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    getApprovalRules().then((data) => {
+      setRules(data)
+      setLoading(false)
+    })
+  }, [])
+
+  useEffect(() => {
+    if (!editing) return
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape') setEditing(null)
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [editing])
+
+  function updateRule(updates: Partial<ApprovalRuleInput>) {
+    setEditing((prev) => (prev ? { ...prev, rule: { ...prev.rule, ...updates } } : prev))
+  }
+
+  function moveApprover(index: number, delta: -1 | 1) {
+    if (!editing) return
+    const roles = [...editing.rule.approver_roles]
+    const target = index + delta
+    if (target < 0 || target >= roles.length) return
+    ;[roles[index], roles[target]] = [roles[target], roles[index]]
+    updateRule({ approver_roles: roles })
+  }
+
+  async function handleSave() {
+    if (!editing || !user) return
+    const { rule, id } = editing
+    if (!rule.name.trim() || rule.approver_roles.length === 0) return
+
+    setSaving(true)
+    const result = await saveApprovalRule(
+      { ...rule, name: rule.name.trim(), description: rule.description?.trim() || null },
+      user.id,
+      id
+    )
+    setSaving(false)
+
+    if (result.error || !result.rule) {
+      addToast('error', `Failed to save rule: ${result.error}`)
+      return
+    }
+
+    const saved = result.rule
+    setRules((prev) =>
+      (id ? prev.map((r) => (r.id === id ? saved : r)) : [...prev, saved]).sort(
+        (a, b) => a.sort_order - b.sort_order
+      )
+    )
+    setEditing(null)
+    addToast('success', id ? 'Rule updated' : 'Rule created')
+  }
+
+  async function handleDelete(rule: ApprovalRule) {
+    if (!user || !confirm(`Delete the approval rule "${rule.name}"? Proposals already submitted keep their chain.`)) return
+    setDeletingId(rule.id)
+    const result = await deleteApprovalRule(rule, user.id)
+    if (result.error) {
+      addToast('error', `Failed to delete rule: ${result.error}`)
+    } else {
+      setRules((prev) => prev.filter((r) => r.id !== rule.id))
+      addToast('info', 'Rule deleted')
+    }
+    setDeletingId(null)
+  }
+
+  const unusedApprovers = editing
+    ? APPROVER_ROLES.filter((r) => !editing.rule.approver_roles.includes(r.value))
+    : []
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-6 flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-heading font-semibold text-hoxton-deep">
+            Approval Rules
+          </h1>
+          <p className="mt-1 text-sm font-body text-hoxton-slate">
+            Decide which proposals need sign-off, and by whom, before they can be sent
+          </p>
+        </div>
+        <button
+          onClick={() => setEditing({ rule: { ...EMPTY_RULE, sort_order: rules.length } })}
+          className="inline-flex items-center gap-2 rounded-lg bg-hoxton-turquoise px-4 py-2.5 text-sm font-heading font-semibold text-white transition-colors hover:bg-hoxton-turquoise/90"
+        >
+          <Plus className="h-4 w-4" />
+          New Rule
+        </button>
+      </div>
+
+      {/* Rule list */}
+      <div className="rounded-2xl border border-gray-100 bg-white">
+        {loading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-6 w-6 animate-spin text-hoxton-turquoise" />
+          </div>
+        ) : rules.length === 0 ? (
+          <div className="px-6 py-16 text-center">
+            <ShieldCheck className="mx-auto mb-3 h-10 w-10 text-gray-300" />
+            <p className="font-heading font-medium text-hoxton-deep">No approval rules</p>
+            <p className="mt-1 text-sm font-body text-gray-400">
+              Without rules, submitted proposals only need a system admin sign-off
+            </p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-50">
+            {rules.map((rule) => (
+              <div key={rule.id} className={`flex items-start gap-4 px-6 py-4 ${rule.is_active ? '' : 'opacity-50'}`}>
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-heading font-semibold text-hoxton-deep">{rule.name}</p>
+                    {!rule.is_active && <Badge variant="default">Inactive</Badge>}
+                  </div>
+                  {rule.description && (
+                    <p className="mt-0.5 text-sm font-body text-hoxton-slate">{rule.description}</p>
+                  )}
+                  <p className="mt-2 text-xs font-body text-gray-400">
+                    Applies when: {describeConditions(rule, catalog).join(' · ') || 'no conditions set'}
+                  </p>
+                  <div className="mt-2 flex flex-wrap items-center gap-1.5">
+                    {rule.approver_roles.map((role, i) => (
+                      <span key={role} className="inline-flex items-center gap-1.5">
+                        {i > 0 && <ArrowRight className="h-3 w-3 text-gray-300" />}
+                        <Badge variant="info">{approverRoleLabel(role)}</Badge>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setEditing({ id: rule.id, rule: { ...rule } })}
+                    className="inline-flex items-center gap-1 rounded-md px-2 py-1 text-xs font-heading font-medium text-hoxton-slate hover:bg-hoxton-light hover:text-hoxton-deep"
+                  >
+                    <Pencil className="h-3 w-3" />
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(rule)}
+                    disabled={deletingId === rule.id}
+                    className="inline-flex items-center gap-1 rounded-md px-2 py-1 text-xs font-heading font-medium text-red-500 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    {deletingId === rule.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <Trash2 className="h-3 w-3" />}
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Rule editor */}
+      {editing && (
+        <Portal>
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4 backdrop-blur-sm"
+          onClick={() => setEditing(null)}
+        >
+          <div
+            className="w-full max-w-2xl rounded-2xl bg-white shadow-2xl"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between border-b border-gray-100 px-6 py-4">
+              <h3 className="font-heading font-semibold text-hoxton-deep">
+                {editing.id ? 'Edit Approval Rule' : 'New Approval Rule'}
+              </h3>
+              <button
+                onClick={() => setEditing(null)}
+                className="rounded-lg p-2 text-gray-400 hover:bg-gray-100 hover:text-hoxton-deep"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="max-h-[70vh] space-y-5 overflow-y-auto p-6">
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-[1fr_120px]">
+                <div>
+                  <label className={labelClass}>Name</label>
+                  <input
+                    type="text"
+                    value={editing.rule.name}
+                    onChange={(e) => updateRule({ name: e.target.value })}
+                    placeholder="e.g. Complex products"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Order</label>
+                  <input
+                    type="number"
+                    value={editing.rule.sort_order}
+                    onChange={(e) => updateRule({ sort_order: parseInt(e.target.value, 10) || 0 })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className={labelClass}>Description</label>
+                <input
+                  type="text"
+                  value={editing.rule.description ?? ''}
+                  onChange={(e) => updateRule({ description: e.target.value })}
+                  placeholder="Why this sign-off is needed"
+                  className={inputClass}
+                />
+              </div>
+
+              {/* Conditions */}
+              <div>
+                <p className="mb-2 text-sm font-heading font-semibold text-hoxton-deep">
+                  Applies when any of these match
+                </p>
+
+                <label className={labelClass}>Product modules</label>
+                <div className="mb-4 grid max-h-40 grid-cols-2 gap-1 overflow-y-auto rounded-xl border border-hoxton-grey p-3">
+                  {catalog.modules
+                    .filter((mod) => mod.isActive || editing.rule.product_modules.includes(mod.id))
+                    .map((mod) => (
+                      <label key={mod.id} className="flex items-center gap-2 text-sm font-body text-hoxton-deep">
+                        <input
+                          type="checkbox"
+                          checked={editing.rule.product_modules.includes(mod.id)}
+                          onChange={() => updateRule({ product_modules: toggle(editing.rule.product_modules, mod.id) })}
+                          className="rounded border-gray-300 text-hoxton-turquoise focus:ring-hoxton-turquoise"
+                        />
+                        {mod.name}
+                      </label>
+                    ))}
+                </div>
+
+                <div className="mb-4 grid grid-cols-1 gap-4 sm:grid-cols-2">
+                  <div>
+                    <label className={labelClass}>Initial fee above</label>
+                    <input
+                      type="number"
+                      min={0}
+                      value={editing.rule.min_initial_fee ?? ''}
+                      onChange={(e) => updateRule({ min_initial_fee: parseNumber(e.target.value) })}
+                      placeholder="Any amount"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Ongoing fee above (%)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.05}
+                      value={editing.rule.min_ongoing_percent ?? ''}
+                      onChange={(e) => updateRule({ min_ongoing_percent: parseNumber(e.target.value) })}
+                      placeholder="Any rate"
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+
+                <label className={labelClass}>Authored by</label>
+                <div className="flex flex-wrap gap-4">
+                  {AUTHOR_ROLES.map((r) => (
+                    <label key={r.value} className="flex items-center gap-2 text-sm font-body text-hoxton-deep">
+                      <input
+                        type="checkbox"
+                        checked={editing.rule.author_roles.includes(r.value)}
+                        onChange={() => updateRule({ author_roles: toggle(editing.rule.author_roles, r.value) })}
+                        className="rounded border-gray-300 text-hoxton-turquoise focus:ring-hoxton-turquoise"
+                      />
+                      {r.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {/* Approver chain */}
+              <div>
+                <p className="mb-2 text-sm font-heading font-semibold text-hoxton-deep">Sign-off order</p>
+                <div className="space-y-2">
+                  {editing.rule.approver_roles.map((role, i) => (
+                    <div key={role} className="flex items-center gap-3 rounded-xl border border-gray-100 px-4 py-2.5">
+                      <span className="flex h-6 w-6 items-center justify-center rounded-full bg-hoxton-turquoise/10 text-xs font-heading font-semibold text-hoxton-turquoise">
+                        {i + 1}
+                      </span>
+                      <span className="flex-1 text-sm font-heading font-medium text-hoxton-deep">
+                        {approverRoleLabel(role)}
+                      </span>
+                      <button
+                        onClick={() => moveApprover(i, -1)}
+                        disabled={i === 0}
+                        className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-hoxton-deep disabled:opacity-30"
+                      >
+                        <ChevronUp className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => moveApprover(i, 1)}
+                        disabled={i === editing.rule.approver_roles.length - 1}
+                        className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-hoxton-deep disabled:opacity-30"
+                      >
+                        <ChevronDown className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => updateRule({ approver_roles: editing.rule.approver_roles.filter((r) => r !== role) })}
+                        className="rounded p-1 text-red-400 hover:bg-red-50 hover:text-red-600"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                {unusedApprovers.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {unusedApprovers.map((r) => (
+                      <button
+                        key={r.value}
+                        onClick={() => updateRule({ approver_roles: [...editing.rule.approver_roles, r.value] })}
+                        className="inline-flex items-center gap-1 rounded-lg border border-dashed border-hoxton-grey px-3 py-1.5 text-xs font-heading font-medium text-hoxton-slate hover:border-hoxton-turquoise hover:text-hoxton-turquoise"
+                      >
+                        <Plus className="h-3 w-3" />
+                        {r.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <label className="flex items-center gap-2 text-sm font-body text-hoxton-deep">
+                <input
+                  type="checkbox"
+                  checked={editing.rule.is_active}
+                  onChange={(e) => updateRule({ is_active: e.target.checked })}
+                  className="rounded border-gray-300 text-hoxton-turquoise focus:ring-hoxton-turquoise"
+                />
+                Rule is active
+              </label>
+            </div>
+
+            <div className="flex items-center justify-end gap-3 border-t border-gray-100 px-6 py-4">
+              <button
+                onClick={() => setEditing(null)}
+                className="rounded-lg px-4 py-2.5 text-sm font-heading font-medium text-hoxton-slate hover:bg-hoxton-light hover:text-hoxton-deep"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving || !editing.rule.name.trim() || editing.rule.approver_roles.length === 0}
+                className="inline-flex items-center gap-2 rounded-lg bg-hoxton-turquoise px-4 py-2.5 text-sm font-heading font-semibold text-white transition-colors hover:bg-hoxton-turquoise/90 disabled:opacity-50"
+              >
+                {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+                {editing.id ? 'Save Changes' : 'Create Rule'}
+              </button>
+            </div>
+          </div>
+        </div>
+        </Portal>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,293 @@
+import { useEffect, useRef, useState } from 'react'
+import { Loader2, Mail, RotateCcw, Save } from 'lucide-react'
+import { useAuth } from '../lib/auth'
+import { useCatalog } from '../hooks/useCatalog'
+import { findRegion } from '../lib/catalog'
+import {
+  EMAIL_TEMPLATE_KINDS,
+  MERGE_FIELDS,
+  SAMPLE_MERGE_VALUES,
+  deleteEmailTemplate,
+  getEmailTemplates,
+  mergeFields,
+  saveEmailTemplate,
+} from '../lib/email-templates'
+import { FollowUpSettingsCard } from '../components/admin/FollowUpSettingsCard'
+import { DigestSettingsCard } from '../components/admin/DigestSettingsCard'
+import { Badge } from '../components/ui/Badge'
+import { useToast } from '../components/ui/Toast'
+import type { EmailTemplate, EmailTemplateKind } from '../types'
+
+const inputClass =
+  'w-full rounded-xl border border-hoxton-grey bg-hoxton-light py-2.5 px-4 text-sm font-body text-hoxton-deep placeholder:text-hoxton-slate/50 focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise'
+
+const labelClass = 'mb-1 block text-xs font-heading font-semibold uppercase tracking-wider text-hoxton-slate'
+
+/** '' = the default template */
+type TemplateKey = string
+
+export function AdminEmailTemplatesPage() {
+  const { user } = useAuth()
+  const { addToast } = useToast()
+  const catalog = useCatalog()
+
+  const [kind, setKind] = useState<EmailTemplateKind>('proposal_invite')
+  const [templates, setTemplates] = useState<EmailTemplate[] | null>(null)
+  const [selected, setSelected] = useState<TemplateKey>('')
+  const [subject, setSubject] = useState('')
+  const [body, setBody] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [reverting, setReverting] = useState(false)
+  const bodyRef = useRef<HTMLTextAreaElement>(null)
+
+  useEffect(() => {
+    getEmailTemplates(kind).then((rows) => {
+      const fallback = rows.find((t) => t.region_id === null)
+      setTemplates(rows)
+      setSelected('')
+      setSubject(fallback?.subject ?? '')
+      setBody(fallback?.body ?? '')
+    })
+  }, [kind])
+
+  const findTemplate = (key: TemplateKey) =>
+    templates?.find((t) => (t.region_id ?? '') === key) ?? null
+  const defaultTemplate = findTemplate('')
+  const current = findTemplate(selected)
+
+  function switchKind(next: EmailTemplateKind) {
+    if (next === kind) return
+    setTemplates(null)
+    setKind(next)
+  }
+
+  function select(key: TemplateKey) {
+    // Regions without their own template start from the default
+    const source = findTemplate(key) ?? defaultTemplate
+    setSelected(key)
+    setSubject(source?.subject ?? '')
+    setBody(source?.body ?? '')
+  }
+
+  function insertField(key: string) {
+    const token = `{{${key}}}`
+    const el = bodyRef.current
+    if (!el) {
+      setBody((prev) => prev + token)
+      return
+    }
+    const start = el.selectionStart
+    const end = el.selectionEnd
+    setBody(body.slice(0, start) + token + body.slice(end))
+    requestAnimationFrame(() => {
+      el.focus()
+      el.setSelectionRange(start + token.length, start + token.length)
+    })
+  }
+
+  async function handleSave() {
+    if (!user || !subject.trim() || !body.trim()) return
+    setSaving(true)
+    const result = await saveEmailTemplate(
+      { kind, region_id: selected || null, subject: subject.trim(), body: body.trim() },
+      user.id,
+      current?.id
+    )
+    setSaving(false)
+
+    if (result.error || !result.template) {
+      addToast('error', `Failed to save template: ${result.error}`)
+      return
+    }
+    const saved = result.template
+    setTemplates((prev) =>
+      current ? (prev ?? []).map((t) => (t.id === saved.id ? saved : t)) : [...(prev ?? []), saved]
+    )
+    addToast('success', 'Email template saved')
+  }
+
+  async function handleRevert() {
+    if (!user || !current || !selected) return
+    if (!confirm('Remove this region\'s template? It will use the default template instead.')) return
+    setReverting(true)
+    const result = await deleteEmailTemplate(current, user.id)
+    setReverting(false)
+    if (result.error) {
+      addToast('error', `Failed to remove template: ${result.error}`)
+      return
+    }
+    setTemplates((prev) => (prev ?? []).filter((t) => t.id !== current.id))
+    setSubject(defaultTemplate?.subject ?? '')
+    setBody(defaultTemplate?.body ?? '')
+    addToast('info', 'Region now uses the default template')
+  }
+
+  const options: { key: TemplateKey; label: string }[] = [
+    { key: '', label: 'Default' },
+    ...catalog.regions.filter((r) => r.isActive || findTemplate(r.id)).map((r) => ({ key: r.id, label: r.display })),
+  ]
+  const previewValues = {
+    ...SAMPLE_MERGE_VALUES,
+    region_name: findRegion(catalog, selected)?.display ?? SAMPLE_MERGE_VALUES.region_name,
+  }
+
+  const kindInfo = EMAIL_TEMPLATE_KINDS.find((k) => k.kind === kind)
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-heading font-semibold text-hoxton-deep">Email Templates</h1>
+        <p className="mt-1 text-sm font-body text-hoxton-slate">
+          {kindInfo?.description} Regions without their own template use the default.
+        </p>
+      </div>
+
+      {/* Kind tabs */}
+      <div className="mb-6 flex gap-1 border-b border-gray-100">
+        {EMAIL_TEMPLATE_KINDS.map((k) => (
+          <button
+            key={k.kind}
+            onClick={() => switchKind(k.kind)}
+            className={`-mb-px border-b-2 px-4 py-2.5 text-sm font-heading font-medium transition-colors ${
+              kind === k.kind
+                ? 'border-hoxton-turquoise text-hoxton-deep'
+                : 'border-transparent text-hoxton-slate hover:text-hoxton-deep'
+            }`}
+          >
+            {k.label}
+          </button>
+        ))}
+      </div>
+
+      {kind === 'follow_up_reminder' && (
+        <div className="mb-6">
+          <FollowUpSettingsCard />
+        </div>
+      )}
+
+      {templates === null ? (
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="h-6 w-6 animate-spin text-hoxton-turquoise" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-[240px_1fr]">
+          {/* Template list */}
+          <div className="h-fit rounded-2xl border border-gray-100 bg-white p-2">
+            {options.map((opt) => {
+              const hasOwn = !!findTemplate(opt.key)
+              return (
+                <button
+                  key={opt.key || 'default'}
+                  onClick={() => select(opt.key)}
+                  className={`flex w-full items-center justify-between rounded-lg px-3 py-2.5 text-left text-sm font-heading font-medium transition-colors ${
+                    selected === opt.key ? 'bg-hoxton-light text-hoxton-deep' : 'text-hoxton-slate hover:bg-gray-50'
+                  }`}
+                >
+                  {opt.label}
+                  {opt.key && hasOwn && <Badge variant="success">Custom</Badge>}
+                </button>
+              )
+            })}
+          </div>
+
+          {/* Editor + preview */}
+          <div className="space-y-6">
+            <div className="rounded-2xl border border-gray-100 bg-white p-6">
+              <div className="mb-4 flex items-center gap-2">
+                <Mail className="h-5 w-5 text-hoxton-turquoise" />
+                <h2 className="font-heading font-semibold text-hoxton-deep">
+                  {options.find((o) => o.key === selected)?.label} template
+                </h2>
+                {selected && !current && (
+                  <span className="text-xs font-body text-gray-400">(currently using the default)</span>
+                )}
+              </div>
+
+              <div className="space-y-4">
+                <div>
+                  <label className={labelClass}>Subject</label>
+                  <input value={subject} onChange={(e) => setSubject(e.target.value)} className={inputClass} />
+                </div>
+
+                <div>
+                  <label className={labelClass}>Message</label>
+                  <textarea
+                    ref={bodyRef}
+                    value={body}
+                    onChange={(e) => setBody(e.target.value)}
+                    rows={12}
+                    className={inputClass}
+                  />
+                  <p className="mt-1 text-xs font-body text-gray-400">
+                    Leave a blank line between paragraphs. A “View your proposal” button is added below the message.
+                  </p>
+                </div>
+
+                <div>
+                  <p className={labelClass}>Merge fields</p>
+                  <div className="flex flex-wrap gap-1.5">
+                    {MERGE_FIELDS.map((f) => (
+                      <button
+                        key={f.key}
+                        onClick={() => insertField(f.key)}
+                        className="rounded-full border border-hoxton-grey bg-white px-2.5 py-1 text-xs font-heading font-medium text-hoxton-deep transition-colors hover:border-hoxton-turquoise hover:text-hoxton-turquoise"
+                        title={`Insert {{${f.key}}}`}
+                      >
+                        {f.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              <div className="mt-6 flex items-center gap-3">
+                <button
+                  onClick={handleSave}
+                  disabled={saving || !subject.trim() || !body.trim()}
+                  className="inline-flex items-center gap-2 rounded-lg bg-hoxton-turquoise px-4 py-2.5 text-sm font-heading font-semibold text-white transition-colors hover:bg-hoxton-turquoise/90 disabled:opacity-50"
+                >
+                  {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                  Save Template
+                </button>
+                {selected && current && (
+                  <button
+                    onClick={handleRevert}
+                    disabled={reverting}
+                    className="inline-flex items-center gap-2 rounded-lg border border-gray-200 px-4 py-2.5 text-sm font-heading font-medium text-hoxton-slate transition-colors hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {reverting ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                    Use Default
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {/* Preview */}
+            <div className="rounded-2xl border border-gray-100 bg-white p-6">
+              <h3 className="mb-3 text-sm font-heading font-semibold uppercase tracking-wider text-gray-400">
+                Preview
+              </h3>
+              <div className="rounded-xl bg-hoxton-light p-5">
+                <p className="mb-3 text-sm font-heading font-semibold text-hoxton-deep">
+                  {mergeFields(subject, previewValues)}
+                </p>
+                <p className="whitespace-pre-wrap text-sm font-body leading-relaxed text-hoxton-deep">
+                  {mergeFields(body, previewValues)}
+                </p>
+                <span className="mt-4 inline-block rounded-lg bg-hoxton-turquoise px-5 py-2.5 text-sm font-heading font-semibold text-white">
+                  View your proposal
+                </span>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Internal digests use a fixed layout, so only their schedule is configurable */}
+      <div className="mt-8">
+        <DigestSettingsCard />
+      </div>
+    </div>
+  )
+}
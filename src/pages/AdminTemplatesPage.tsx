@@ -5,8 +5,9 @@ import { useTemplateData } from '../hooks/useTemplateData'
 import { IntroPacksTab } from '../components/admin/templates/IntroPacksTab'
 import { ProductModulesTab } from '../components/admin/templates/ProductModulesTab'
 import { ClosingPacksTab } from '../components/admin/templates/ClosingPacksTab'
+import { TemplateAnalyticsTab } from '../components/admin/templates/TemplateAnalyticsTab'
 
-type Tab = 'intro' | 'products' | 'closing'
+type Tab = 'intro' | 'products' | 'closing' | 'performance'
 
 export function AdminTemplatesPage() {
   const { user } = useAuth()
@@ -49,7 +50,7 @@ export function AdminTemplatesPage() {
           Template Library
         </h1>
         <p className="mt-1 text-sm font-body text-hoxton-slate">
-          Manage intro packs, product modules, and closing packs
+          Manage intro packs, product modules, and closing packs, and see how clients read them
         </p>
       </div>
 
@@ -60,6 +61,7 @@ export function AdminTemplatesPage() {
             { key: 'intro', label: 'Intro Packs' },
             { key: 'products', label: 'Product Modules' },
             { key: 'closing', label: 'Closing Packs' },
+            { key: 'performance', label: 'Performance' },
           ] as { key: Tab; label: string }[]
         ).map((t) => (
           <button
@@ -101,6 +103,9 @@ export function AdminTemplatesPage() {
           onRefresh={refreshRegions}
         />
       )}
+      {tab === 'performance' && (
+        <TemplateAnalyticsTab regions={regions} productModules={productModules} />
+      )}
     </div>
   )
 }
@@ -13,7 +13,8 @@ import {
 import { supabase } from '../lib/supabase'
 import { useAuth } from '../lib/auth'
 import { Badge } from '../components/ui/Badge'
-import { REGIONS } from '../lib/constants'
+import { useCatalog } from '../hooks/useCatalog'
+import { activeRegions, regionDisplayName, type Catalog } from '../lib/catalog'
 import { Portal } from '../components/ui/Portal'
 import type { UserRole, Profile } from '../types'
 
@@ -21,6 +22,7 @@ const ROLES: { value: UserRole; label: string }[] = [
   { value: 'planner', label: 'Planner' },
   { value: 'planner_admin', label: 'Planner Admin' },
   { value: 'power_planner', label: 'Paraplanner' },
+  { value: 'compliance', label: 'Compliance' },
   { value: 'system_admin', label: 'System Admin' },
 ]
 
@@ -28,16 +30,18 @@ const ROLE_BADGE: Record<UserRole, { label: string; variant: 'default' | 'succes
   planner: { label: 'Planner', variant: 'default' },
   planner_admin: { label: 'Planner Admin', variant: 'info' },
   power_planner: { label: 'Paraplanner', variant: 'warning' },
+  compliance: { label: 'Compliance', variant: 'success' },
   system_admin: { label: 'System Admin', variant: 'error' },
 }
 
-function regionLabel(id?: string): string {
+function regionLabel(catalog: Catalog, id?: string): string {
   if (!id) return '—'
-  return REGIONS.find((r) => r.id === id)?.display ?? id.toUpperCase()
+  return regionDisplayName(catalog, id)
 }
 
 export function AdminUsersPage() {
   const { user } = useAuth()
+  const catalog = useCatalog()
   const [users, setUsers] = useState<Profile[]>([])
   const [loading, setLoading] = useState(true)
 
@@ -245,7 +249,7 @@ export function AdminUsersPage() {
                 onChange={(e) => setInviteRegion(e.target.value)}
                 className="w-full rounded-xl border border-hoxton-grey bg-hoxton-light py-2.5 px-4 text-sm font-body text-hoxton-deep focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise"
               >
-                {REGIONS.map((r) => (
+                {activeRegions(catalog).map((r) => (
                   <option key={r.id} value={r.id}>{r.display}</option>
                 ))}
               </select>
@@ -351,7 +355,7 @@ export function AdminUsersPage() {
                         <Badge variant={roleBadge.variant}>{roleBadge.label}</Badge>
                       </td>
                       <td className="px-6 py-4 text-sm font-body text-hoxton-slate">
-                        {regionLabel(u.region)}
+                        {regionLabel(catalog, u.region)}
                       </td>
                       <td className="px-6 py-4">
                         <div className="flex items-center gap-1.5">
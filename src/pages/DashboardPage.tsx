@@ -1,4 +1,4 @@
-import { useEffect, useState, useMemo } from 'react'
+import { useEffect, useState, useMemo, useCallback } from 'react'
 import { Link, useNavigate } from 'react-router-dom'
 import {
   Plus,
@@ -9,23 +9,23 @@ import {
   ChevronRight,
   ArrowRight,
   Users,
-  Eye,
-  FileDown,
   ShieldCheck,
-  CheckCircle2,
-  XCircle,
   Bell,
+  CheckCheck,
+  Flame,
+  SlidersHorizontal,
 } from 'lucide-react'
 import { supabase } from '../lib/supabase'
 import { useAuth } from '../lib/auth'
 import { StatusBadge } from '../components/ui/StatusBadge'
 import { HoxtonLogo } from '../components/ui/HoxtonLogo'
-import {
-  getRecentNotifications,
-  getLastSeenTimestamp,
-  markNotificationsAsSeen,
-  type NotificationItem,
-} from '../lib/notifications'
+import { Modal } from '../components/ui/Modal'
+import { EngagementScorePill, EngagementSignals } from '../components/proposal/EngagementSignals'
+import { EngagementSettingsForm } from '../components/admin/EngagementSettingsForm'
+import { getHotProposals, type HotProposal } from '../lib/engagement'
+import { markAllNotificationsRead } from '../lib/notifications'
+import { useNotifications } from '../hooks/useNotifications'
+import { NotificationRow } from '../components/notifications/NotificationRow'
 import type { ProposalStatus } from '../types'
 
 interface ProposalRow {
@@ -86,56 +86,22 @@ function getMonthStart(): string {
   return new Date(now.getFullYear(), now.getMonth(), 1).toISOString()
 }
 
-/* ── Notification display helpers ── */
-
-function notifIcon(type: string): React.ReactNode {
-  switch (type) {
-    case 'opened': return <Eye className="h-4 w-4" />
-    case 'downloaded': return <FileDown className="h-4 w-4" />
-    case 'sent': return <Send className="h-4 w-4" />
-    case 'approved': return <CheckCircle2 className="h-4 w-4" />
-    case 'rejected': return <XCircle className="h-4 w-4" />
-    case 'pdf_generated': return <FileDown className="h-4 w-4" />
-    default: return <Bell className="h-4 w-4" />
-  }
-}
-
-function notifColor(type: string): string {
-  switch (type) {
-    case 'opened': return 'text-emerald-600 bg-emerald-50'
-    case 'downloaded': return 'text-hoxton-turquoise bg-hoxton-turquoise/10'
-    case 'sent': return 'text-hoxton-turquoise bg-hoxton-turquoise/10'
-    case 'approved': return 'text-emerald-600 bg-emerald-50'
-    case 'rejected': return 'text-red-500 bg-red-50'
-    case 'pdf_generated': return 'text-hoxton-deep bg-hoxton-light'
-    default: return 'text-gray-400 bg-gray-50'
-  }
-}
-
-function notifText(n: NotificationItem): string {
-  const name = (n.event_data?.recipient_name as string) || n.client_name
-  switch (n.event_type) {
-    case 'opened': return `${name} opened your proposal`
-    case 'downloaded': return `${name} downloaded the PDF`
-    case 'sent': return `Tracking link sent to ${name}`
-    case 'approved': return `Proposal for ${n.client_name} approved`
-    case 'rejected': return `Proposal for ${n.client_name} rejected`
-    case 'pdf_generated': return `PDF generated for ${n.client_name}`
-    default: return `Activity on ${n.client_name}`
-  }
-}
-
 export function DashboardPage() {
   const { user, profile } = useAuth()
   const navigate = useNavigate()
   const [stats, setStats] = useState<ProposalStats>({ total: 0, sentThisMonth: 0, pendingApproval: 0, draft: 0 })
   const [proposals, setProposals] = useState<ProposalRow[]>([])
   const [loading, setLoading] = useState(true)
-  const [notifications, setNotifications] = useState<NotificationItem[]>([])
-  const [lastSeen, setLastSeen] = useState<string | null>(null)
+  const { items: notifications, unreadCount } = useNotifications()
+  const [hotProposals, setHotProposals] = useState<HotProposal[] | null>(null)
+  const [scoringOpen, setScoringOpen] = useState(false)
 
   const isAdmin = profile?.role === 'system_admin'
 
+  const loadHotProposals = useCallback(() => {
+    getHotProposals(5).then(setHotProposals)
+  }, [])
+
   useEffect(() => {
     if (!user) return
 
@@ -172,17 +138,9 @@ export function DashboardPage() {
       setLoading(false)
     }
 
-    // Fetch notifications
-    const ls = getLastSeenTimestamp()
-    setLastSeen(ls)
-
-    getRecentNotifications(user.id, 10).then(setNotifications)
-
-    // Mark as seen when viewing dashboard
-    markNotificationsAsSeen()
-
     fetchDashboard()
-  }, [user])
+    loadHotProposals()
+  }, [user, loadHotProposals])
 
   // Group proposals by client name
   const clientGroups = useMemo<ClientGroup[]>(() => {
@@ -277,6 +235,83 @@ export function DashboardPage() {
         ))}
       </div>
 
+      {/* Hot Proposals */}
+      <div className="mb-8 rounded-2xl border border-gray-100 bg-white">
+        <div className="flex items-center justify-between border-b border-gray-100 px-6 py-4">
+          <div className="flex items-center gap-2">
+            <Flame className="h-4 w-4 text-red-500" />
+            <h2 className="text-lg font-heading font-semibold text-hoxton-deep">
+              Hot Proposals
+            </h2>
+          </div>
+          {isAdmin && (
+            <button
+              onClick={() => setScoringOpen(true)}
+              className="inline-flex items-center gap-1.5 text-sm font-heading font-medium text-hoxton-slate hover:text-hoxton-turquoise"
+            >
+              <SlidersHorizontal className="h-4 w-4" />
+              Scoring
+            </button>
+          )}
+        </div>
+
+        {hotProposals === null ? (
+          <div className="divide-y divide-gray-50">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="flex items-center gap-6 px-6 py-4 animate-pulse">
+                <div className="h-5 w-12 rounded-full bg-gray-100" />
+                <div className="h-4 w-40 rounded bg-gray-100" />
+                <div className="h-4 w-24 rounded bg-gray-100" />
+              </div>
+            ))}
+          </div>
+        ) : hotProposals.length === 0 ? (
+          <div className="px-6 py-12 text-center">
+            <Flame className="mx-auto mb-3 h-10 w-10 text-gray-300" />
+            <p className="font-heading font-medium text-hoxton-deep">No client engagement yet</p>
+            <p className="mt-1 text-sm font-body text-gray-400">
+              Sent proposals are ranked here once clients start viewing them.
+            </p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-50">
+            {hotProposals.map((p) => (
+              <Link
+                key={p.proposalId}
+                to={`/proposals/${p.proposalId}?tab=analytics`}
+                className="flex items-center gap-4 px-6 py-3.5 transition-colors hover:bg-hoxton-light/50"
+              >
+                <EngagementScorePill score={p.score} />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-heading font-medium text-hoxton-deep">{p.clientName}</p>
+                  <div className="mt-1">
+                    <EngagementSignals engagement={p} />
+                  </div>
+                </div>
+                <div className="shrink-0 text-right">
+                  <p className="text-xs font-body text-gray-400">
+                    {p.visits} {p.visits === 1 ? 'visit' : 'visits'}
+                  </p>
+                  {p.lastViewedAt && (
+                    <p className="text-xs font-body text-gray-400">Last viewed {timeAgo(p.lastViewedAt)}</p>
+                  )}
+                </div>
+                <ChevronRight className="h-4 w-4 shrink-0 text-gray-300" />
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Modal open={scoringOpen} onClose={() => setScoringOpen(false)} title="Engagement Scoring">
+        <EngagementSettingsForm
+          onSaved={() => {
+            setScoringOpen(false)
+            loadHotProposals()
+          }}
+        />
+      </Modal>
+
       {/* Recent Activity */}
       <div className="mb-8 rounded-2xl border border-gray-100 bg-white">
         <div className="flex items-center justify-between border-b border-gray-100 px-6 py-4">
@@ -286,6 +321,15 @@ export function DashboardPage() {
               Recent Activity
             </h2>
           </div>
+          {unreadCount > 0 && (
+            <button
+              onClick={() => void markAllNotificationsRead()}
+              className="inline-flex items-center gap-1.5 text-sm font-heading font-medium text-hoxton-slate hover:text-hoxton-turquoise"
+            >
+              <CheckCheck className="h-4 w-4" />
+              Mark all read
+            </button>
+          )}
         </div>
 
         {notifications.length === 0 ? (
@@ -298,33 +342,9 @@ export function DashboardPage() {
           </div>
         ) : (
           <div className="divide-y divide-gray-50">
-            {notifications.map((n) => {
-              const isNew = lastSeen ? n.created_at > lastSeen : true
-              return (
-                <Link
-                  key={n.id}
-                  to={`/proposals/${n.proposal_id}?tab=analytics`}
-                  className={`flex items-start gap-3 px-6 py-3.5 transition-colors hover:bg-hoxton-light/50 ${
-                    isNew ? 'bg-hoxton-turquoise/[0.04]' : ''
-                  }`}
-                >
-                  <div className={`mt-0.5 flex h-7 w-7 shrink-0 items-center justify-center rounded-full ${notifColor(n.event_type)}`}>
-                    {notifIcon(n.event_type)}
-                  </div>
-                  <div className="min-w-0 flex-1">
-                    <p className="text-sm font-heading font-medium text-hoxton-deep">
-                      {notifText(n)}
-                    </p>
-                    <p className="mt-0.5 text-xs font-body text-hoxton-slate">
-                      {n.client_name}
-                    </p>
-                  </div>
-                  <span className="shrink-0 text-xs font-body text-gray-400">
-                    {timeAgo(n.created_at)}
-                  </span>
-                </Link>
-              )
-            })}
+            {notifications.slice(0, 10).map((n) => (
+              <NotificationRow key={n.id} notification={n} />
+            ))}
           </div>
         )}
       </div>
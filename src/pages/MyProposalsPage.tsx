@@ -11,8 +11,9 @@ import {
 import { supabase } from '../lib/supabase'
 import { useAuth } from '../lib/auth'
 import { StatusBadge } from '../components/ui/StatusBadge'
-import { markNotificationsAsSeen, getProposalViewStats, type ProposalViewStats } from '../lib/notifications'
-import { REGIONS } from '../lib/constants'
+import { getProposalViewStats, type ProposalViewStats } from '../lib/notifications'
+import { useCatalog } from '../hooks/useCatalog'
+import { regionDisplayName } from '../lib/catalog'
 import type { ProposalStatus } from '../types'
 
 type FilterTab = 'all' | 'draft' | 'pending_approval' | 'sent'
@@ -57,13 +58,10 @@ function timeAgo(dateStr: string): string {
   return formatDate(dateStr)
 }
 
-function regionName(regionId: string): string {
-  return REGIONS.find((r) => r.id === regionId)?.display ?? regionId.toUpperCase()
-}
-
 export function MyProposalsPage() {
   const { user, profile } = useAuth()
   const navigate = useNavigate()
+  const catalog = useCatalog()
   const [tab, setTab] = useState<FilterTab>('all')
   const [sortMode, setSortMode] = useState<SortMode>('newest')
   const [proposals, setProposals] = useState<ProposalRow[]>([])
@@ -73,11 +71,8 @@ export function MyProposalsPage() {
   const [loading, setLoading] = useState(true)
 
   const isAdmin = profile?.role === 'system_admin'
-
-  // Mark notifications as seen when visiting this page
-  useEffect(() => {
-    markNotificationsAsSeen()
-  }, [])
+  // Approvers see every pending proposal RLS lets them read, not just their own
+  const isApprover = profile?.role === 'compliance' || profile?.role === 'planner_admin'
 
   useEffect(() => {
     if (!user) return
@@ -91,7 +86,7 @@ export function MyProposalsPage() {
         .order('created_at', { ascending: false })
         .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1)
 
-      if (!isAdmin) {
+      if (!isAdmin && !(isApprover && tab === 'pending_approval')) {
         query = query.eq('advisor_id', user!.id)
       }
 
@@ -117,7 +112,7 @@ export function MyProposalsPage() {
     }
 
     fetchProposals()
-  }, [user, isAdmin, tab, page])
+  }, [user, isAdmin, isApprover, tab, page])
 
   // Reset to page 0 when changing tab
   useEffect(() => {
@@ -281,7 +276,7 @@ export function MyProposalsPage() {
                         )}
                       </td>
                       <td className="px-6 py-4 text-sm font-body text-hoxton-slate">
-                        {regionName(p.region_id)}
+                        {regionDisplayName(catalog, p.region_id)}
                       </td>
                       <td className="px-6 py-4 text-sm font-body text-hoxton-slate">
                         {p.selected_products.length}
@@ -1,9 +1,10 @@
-import { useState, useCallback, useEffect } from 'react'
+import { useState, useCallback, useEffect, useRef } from 'react'
 import { useNavigate, useSearchParams } from 'react-router-dom'
 import { ChevronLeft, Save, ChevronRight, Loader2 } from 'lucide-react'
 import { supabase } from '../lib/supabase'
 import { useAuth } from '../lib/auth'
 import { logProposalEvent } from '../lib/proposal-events'
+import { collectAdhocPaths, deleteAdhocImages } from '../lib/custom-slides'
 import { useKeyboardShortcut } from '../hooks/useKeyboardShortcut'
 import { ProposalProgress } from '../components/proposal/ProposalProgress'
 import { StepClientDetails } from '../components/proposal/StepClientDetails'
@@ -11,22 +12,31 @@ import { StepRegionSelect } from '../components/proposal/StepRegionSelect'
 import { StepTranscript } from '../components/proposal/StepTranscript'
 import { StepSummaryContext } from '../components/proposal/StepSummaryContext'
 import { StepProductSelect } from '../components/proposal/StepProductSelect'
+import { StepFeeStructure } from '../components/proposal/StepFeeStructure'
 import { StepCustomiseSlides } from '../components/proposal/StepCustomiseSlides'
 import { StepPreviewGenerate } from '../components/proposal/StepPreviewGenerate'
+import { EMPTY_FEE_DATA, isFeeDataValid, normaliseFeeData } from '../lib/fees'
+import { DEFAULT_LOCALE, normaliseLocale } from '../lib/locales'
 import type { ProposalDraft } from '../types'
 
 const INITIAL_DRAFT: ProposalDraft = {
   hxtNumber: '',
   clientName: '',
   clientEmail: '',
+  clientDetails: {},
   advisorId: null,
   regionId: '',
+  locale: DEFAULT_LOCALE,
   transcript: '',
   aiParsedContext: null,
   context: { situation: '', objectives: '', focus: '' },
   selectedProducts: [],
   disabledSlides: [],
+  slideOverrides: {},
+  slideOrder: [],
+  customSlides: [],
   editableFieldsData: {},
+  feeData: EMPTY_FEE_DATA,
 }
 
 export function NewProposalPage() {
@@ -40,6 +50,8 @@ export function NewProposalPage() {
   const [proposalId, setProposalId] = useState<string | null>(null)
   const [isEditMode, setIsEditMode] = useState(false)
   const [loadingEdit, setLoadingEdit] = useState(false)
+  // Uploads the saved proposal uses, so ones dropped from the draft can be deleted after saving
+  const savedAdhocPaths = useRef<string[]>([])
 
   // Load existing proposal when ?edit={id} is present
   useEffect(() => {
@@ -59,16 +71,26 @@ export function NewProposalPage() {
           hxtNumber: data.hxt_reference || '',
           clientName: data.client_name || '',
           clientEmail: data.client_email || '',
+          clientDetails: data.client_details || {},
           advisorId: data.advisor_id || null,
           regionId: data.region_id || '',
+          locale: normaliseLocale(data.locale),
           transcript: data.transcript_text || '',
           aiParsedContext: data.ai_parsed_context as ProposalDraft['aiParsedContext'] ?? null,
           context: data.summary_context || { situation: '', objectives: '', focus: '' },
           selectedProducts: data.selected_products || [],
           disabledSlides: data.disabled_slides || [],
+          // Proposals saved before inclusion rules: every disabled slide was the adviser's choice
+          slideOverrides:
+            data.slide_overrides ??
+            Object.fromEntries((data.disabled_slides || []).map((slideId: string) => [slideId, false])),
+          slideOrder: data.slide_order || [],
+          customSlides: data.custom_slides || [],
           editableFieldsData: data.editable_fields_data || {},
+          feeData: normaliseFeeData(data.fee_data),
         })
         setProposalId(data.id)
+        savedAdhocPaths.current = collectAdhocPaths(data.custom_slides || [], data.editable_fields_data || {})
         setStep(2)
         setMaxStepReached(2)
         setIsEditMode(true)
@@ -102,9 +124,11 @@ export function NewProposalPage() {
       case 5:
         return draft.selectedProducts.length > 0
       case 6:
-        return true
+        return isFeeDataValid(draft.feeData)
       case 7:
         return true
+      case 8:
+        return true
       default:
         return false
     }
@@ -120,29 +144,41 @@ export function NewProposalPage() {
       client_name: draft.clientName,
       client_email: draft.clientEmail || null,
       hxt_reference: draft.hxtNumber || null,
+      client_details: draft.clientDetails,
       region_id: draft.regionId || 'int',
+      locale: draft.locale,
       selected_products: draft.selectedProducts,
       summary_context: draft.context,
       transcript_text: draft.transcript || null,
       ai_parsed_context: draft.aiParsedContext,
       editable_fields_data: draft.editableFieldsData,
       disabled_slides: draft.disabledSlides,
-      status: 'draft' as const,
+      slide_overrides: draft.slideOverrides,
+      slide_order: draft.slideOrder.length > 0 ? draft.slideOrder : null,
+      custom_slides: draft.customSlides,
+      fee_data: draft.feeData,
     }
 
     let id = proposalId
 
     if (id) {
-      await supabase.from('proposals').update(payload).eq('id', id)
+      // Status is left to the database: content changes send a submitted proposal back to draft
+      const { error } = await supabase.from('proposals').update(payload).eq('id', id)
+      if (!error) {
+        const inUse = collectAdhocPaths(draft.customSlides, draft.editableFieldsData)
+        deleteAdhocImages(savedAdhocPaths.current.filter((path) => !inUse.includes(path)))
+        savedAdhocPaths.current = inUse
+      }
     } else {
       const { data } = await supabase
         .from('proposals')
-        .insert(payload)
+        .insert({ ...payload, status: 'draft' as const })
         .select('id')
         .single()
       if (data) {
         id = data.id
         setProposalId(id)
+        savedAdhocPaths.current = collectAdhocPaths(draft.customSlides, draft.editableFieldsData)
         logProposalEvent(data.id, 'created', { client_name: draft.clientName }, user?.id ?? undefined)
       }
     }
@@ -152,7 +188,7 @@ export function NewProposalPage() {
   }
 
   function goNext() {
-    if (step < 7 && isStepValid()) {
+    if (step < 8 && isStepValid()) {
       const next = step + 1
       setStep(next)
       setMaxStepReached((prev) => Math.max(prev, next))
@@ -205,9 +241,12 @@ export function NewProposalPage() {
           <StepProductSelect draft={draft} updateDraft={updateDraft} />
         )}
         {step === 6 && (
-          <StepCustomiseSlides draft={draft} updateDraft={updateDraft} />
+          <StepFeeStructure draft={draft} updateDraft={updateDraft} />
         )}
         {step === 7 && (
+          <StepCustomiseSlides draft={draft} updateDraft={updateDraft} proposalId={proposalId} />
+        )}
+        {step === 8 && (
           <StepPreviewGenerate draft={draft} onSaveDraft={saveDraft} proposalId={proposalId} updateDraft={updateDraft} />
         )}
       </div>
@@ -251,7 +290,7 @@ export function NewProposalPage() {
               </button>
             )}
 
-            {step < 7 && (
+            {step < 8 && (
               <button
                 onClick={goNext}
                 disabled={!isStepValid()}
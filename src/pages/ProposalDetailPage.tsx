@@ -21,21 +21,43 @@ import {
   Send,
   Link2,
   ExternalLink,
+  Presentation,
+  MessageSquare,
+  History,
+  BellRing,
+  BellOff,
 } from 'lucide-react'
 import { supabase } from '../lib/supabase'
 import { useAuth } from '../lib/auth'
 import { logProposalEvent } from '../lib/proposal-events'
 import { StatusBadge } from '../components/ui/StatusBadge'
 import { Badge } from '../components/ui/Badge'
-import { REGIONS, PRODUCT_MODULES, CATEGORIES } from '../lib/constants'
+import { useCatalog } from '../hooks/useCatalog'
+import { findModule, findRegion, groupByCategory, regionDisplayName, selectedModules } from '../lib/catalog'
 import { getSlideUrl } from '../lib/storage'
+import { getPackSlides } from '../lib/packs'
 import { getProposalLinks, getViewerUrl } from '../lib/tracking'
+import { buildFeeRows, hasFeeData, normaliseFeeData } from '../lib/fees'
+import { approverRoleLabel, getSendGate, type SendGate } from '../lib/approvals'
+import { countOpenThreads, getProposalComments } from '../lib/comments'
+import { FOLLOW_UP_REASON_LABELS, getProposalFollowUps, setProposalFollowUps } from '../lib/follow-ups'
 import { SendProposalModal } from '../components/proposal/SendProposalModal'
 import { ProposalAnalyticsTab } from '../components/proposal/ProposalAnalyticsTab'
+import { ProposalRevisionsTab } from '../components/proposal/ProposalRevisionsTab'
+import { ApprovalChainPanel } from '../components/proposal/ApprovalChainPanel'
+import { SlideReviewModal, type ReviewSlide } from '../components/proposal/SlideReviewModal'
 import { useToast } from '../components/ui/Toast'
-import type { Proposal, ProposalStatus, ProposalLink } from '../types'
-
-type Tab = 'overview' | 'slides' | 'activity' | 'tracking' | 'analytics'
+import type {
+  EditableFieldDef,
+  FollowUpReason,
+  Proposal,
+  ProposalComment,
+  ProposalFollowUp,
+  ProposalLink,
+  UserRole,
+} from '../types'
+
+type Tab = 'overview' | 'slides' | 'revisions' | 'activity' | 'tracking' | 'analytics'
 
 interface ProposalEvent {
   id: string
@@ -63,14 +85,6 @@ function formatDateTime(dateStr: string): string {
   })
 }
 
-function regionDisplay(regionId: string): string {
-  return REGIONS.find((r) => r.id === regionId)?.display ?? regionId.toUpperCase()
-}
-
-function regionIntroSlides(regionId: string): number {
-  return REGIONS.find((r) => r.id === regionId)?.introSlides ?? 0
-}
-
 /* ── Slide image with fallback ── */
 function SlideThumb({ src, alt }: { src: string; alt: string }) {
   const [failed, setFailed] = useState(false)
@@ -122,6 +136,7 @@ function eventIcon(type: string): { icon: React.ReactNode; color: string } {
     case 'submitted':
       return { icon: <Clock className="h-4 w-4" />, color: 'text-amber-500 bg-amber-50' }
     case 'approved':
+    case 'step_approved':
       return { icon: <CheckCircle2 className="h-4 w-4" />, color: 'text-emerald-600 bg-emerald-50' }
     case 'rejected':
       return { icon: <XCircle className="h-4 w-4" />, color: 'text-red-500 bg-red-50' }
@@ -135,6 +150,14 @@ function eventIcon(type: string): { icon: React.ReactNode; color: string } {
       return { icon: <FileDown className="h-4 w-4" />, color: 'text-hoxton-turquoise bg-hoxton-turquoise/10' }
     case 'link_revoked':
       return { icon: <XCircle className="h-4 w-4" />, color: 'text-red-500 bg-red-50' }
+    case 'email_sent':
+      return { icon: <Mail className="h-4 w-4" />, color: 'text-hoxton-turquoise bg-hoxton-turquoise/10' }
+    case 'revision_restored':
+      return { icon: <History className="h-4 w-4" />, color: 'text-amber-500 bg-amber-50' }
+    case 'follow_up_sent':
+      return { icon: <BellRing className="h-4 w-4" />, color: 'text-hoxton-turquoise bg-hoxton-turquoise/10' }
+    case 'follow_up_due':
+      return { icon: <BellRing className="h-4 w-4" />, color: 'text-amber-500 bg-amber-50' }
     default:
       return { icon: <Clock className="h-4 w-4" />, color: 'text-gray-400 bg-gray-50' }
   }
@@ -147,12 +170,17 @@ function eventLabel(type: string, data: Record<string, unknown> | null): string
     case 'edited': return 'Proposal edited'
     case 'submitted': return 'Submitted for approval'
     case 'approved': return 'Proposal approved'
+    case 'step_approved': return data?.role ? `${approverRoleLabel(data.role as UserRole)} sign-off given` : 'Sign-off given'
     case 'rejected': return 'Proposal rejected'
     case 'sent': return name ? `Tracking link sent to ${name}` : 'Tracking link sent'
     case 'opened': return name ? `Proposal opened by ${name}` : 'Proposal opened by client'
     case 'pdf_generated': return 'PDF generated'
     case 'downloaded': return name ? `PDF downloaded by ${name}` : 'PDF downloaded by client'
     case 'link_revoked': return name ? `Tracking link revoked for ${name}` : 'Tracking link revoked'
+    case 'email_sent': return name ? `Proposal emailed to ${name}` : 'Proposal emailed'
+    case 'revision_restored': return data?.revision ? `Revision ${data.revision} restored` : 'Revision restored'
+    case 'follow_up_sent': return name ? `Follow-up reminder emailed to ${name}` : 'Follow-up reminder emailed'
+    case 'follow_up_due': return name ? `Follow up with ${name}` : 'Follow-up due'
     default: return type
   }
 }
@@ -163,7 +191,7 @@ function eventSubtitle(type: string, data: Record<string, unknown> | null): stri
   const device = data.device_type as string | undefined
   const notes = data.notes as string | undefined
 
-  if (type === 'sent' && email) return email
+  if ((type === 'sent' || type === 'email_sent') && email) return data.resend ? `${email} · resent` : email
   if (type === 'opened') {
     const parts: string[] = []
     if (email) parts.push(email)
@@ -171,7 +199,12 @@ function eventSubtitle(type: string, data: Record<string, unknown> | null): stri
     return parts.length > 0 ? parts.join(' · ') : null
   }
   if (type === 'downloaded' && email) return email
-  if ((type === 'approved' || type === 'rejected') && notes) return notes
+  if (type === 'follow_up_sent' || type === 'follow_up_due') {
+    const reason = FOLLOW_UP_REASON_LABELS[data.reason as FollowUpReason]
+    const completion = data.completion_percent as number | null | undefined
+    return completion != null ? `${reason} · ${completion}% of slides viewed` : reason ?? null
+  }
+  if ((type === 'approved' || type === 'step_approved' || type === 'rejected') && notes) return notes
   return null
 }
 
@@ -180,6 +213,7 @@ export function ProposalDetailPage() {
   const navigate = useNavigate()
   const { user, profile } = useAuth()
   const { addToast } = useToast()
+  const catalog = useCatalog()
 
   const [proposal, setProposal] = useState<Proposal | null>(null)
   const [events, setEvents] = useState<ProposalEvent[]>([])
@@ -190,19 +224,23 @@ export function ProposalDetailPage() {
   const [generating, setGenerating] = useState(false)
   const [deleting, setDeleting] = useState(false)
 
-  // Approval
-  const [approvalNotes, setApprovalNotes] = useState('')
-  const [approving, setApproving] = useState(false)
-  const [rejecting, setRejecting] = useState(false)
-
-  // Send modal
+  // Send modal — link creation is gated on the approval chain
   const [showSendModal, setShowSendModal] = useState(false)
+  const [approvalGate, setApprovalGate] = useState<SendGate | null>(null)
 
   // Tracking links
   const [trackingLinks, setTrackingLinks] = useState<ProposalLink[]>([])
   const [loadingLinks, setLoadingLinks] = useState(false)
+  const [followUps, setFollowUps] = useState<ProposalFollowUp[]>([])
+  const [savingFollowUps, setSavingFollowUps] = useState(false)
+
+  // Intro image paths and editable fields from the pack version this proposal is pinned to
+  const [pinnedIntroImages, setPinnedIntroImages] = useState<Record<number, string>>({})
+  const [pinnedIntroFields, setPinnedIntroFields] = useState<Record<number, EditableFieldDef[]>>({})
 
-  const isAdmin = profile?.role === 'system_admin'
+  // Review comments pinned to slides
+  const [comments, setComments] = useState<ProposalComment[]>([])
+  const [reviewSlide, setReviewSlide] = useState<ReviewSlide | null>(null)
 
   useEffect(() => {
     if (!id) return
@@ -244,8 +282,34 @@ export function ProposalDetailPage() {
       setTrackingLinks(data)
       setLoadingLinks(false)
     })
+    getProposalFollowUps(id).then(setFollowUps)
   }, [id])
 
+  const pinnedIntroPackId = proposal?.intro_pack_id
+  useEffect(() => {
+    if (!pinnedIntroPackId) return
+    getPackSlides('intro', pinnedIntroPackId).then((rows) => {
+      const images: Record<number, string> = {}
+      const fields: Record<number, EditableFieldDef[]> = {}
+      for (const row of rows) {
+        if (row.image_path) images[row.slide_number] = row.image_path
+        if (row.editable_fields.length > 0) fields[row.slide_number] = row.editable_fields
+      }
+      setPinnedIntroImages(images)
+      setPinnedIntroFields(fields)
+    })
+  }, [pinnedIntroPackId])
+
+  useEffect(() => {
+    if (!id) return
+    getProposalComments(id).then(setComments)
+  }, [id])
+
+  useEffect(() => {
+    if (!proposal) return
+    getSendGate(proposal, profile?.role ?? null).then(setApprovalGate)
+  }, [proposal, profile?.role])
+
   // Refresh events helper
   async function refreshEvents() {
     if (!id) return
@@ -291,45 +355,47 @@ export function ProposalDetailPage() {
     navigate('/proposals')
   }
 
-  async function handleApprove() {
-    if (!proposal || !user) return
-    setApproving(true)
-    await supabase
-      .from('proposals')
-      .update({
-        status: 'approved' as ProposalStatus,
-        approved_by: user.id,
-        approval_notes: approvalNotes || null,
-      })
-      .eq('id', proposal.id)
-    setProposal({ ...proposal, status: 'approved', approved_by: user.id, approval_notes: approvalNotes || undefined })
-    logProposalEvent(proposal.id, 'approved', { notes: approvalNotes || undefined }, user.id)
-    refreshEvents()
-    setApproving(false)
+  async function handleToggleFollowUps() {
+    if (!proposal) return
+    const enabled = proposal.follow_ups_enabled === false
+    setSavingFollowUps(true)
+    const result = await setProposalFollowUps(proposal.id, enabled)
+    setSavingFollowUps(false)
+    if (result.error) {
+      addToast('error', `Failed to update follow-ups: ${result.error}`)
+      return
+    }
+    setProposal({ ...proposal, follow_ups_enabled: enabled })
+    addToast('info', enabled ? 'Automatic follow-ups turned on' : 'Automatic follow-ups turned off')
   }
 
-  async function handleReject() {
-    if (!proposal || !user) return
-    setRejecting(true)
-    await supabase
-      .from('proposals')
-      .update({
-        status: 'rejected' as ProposalStatus,
-        approved_by: user.id,
-        approval_notes: approvalNotes || null,
-      })
-      .eq('id', proposal.id)
-    setProposal({ ...proposal, status: 'rejected', approved_by: user.id, approval_notes: approvalNotes || undefined })
-    logProposalEvent(proposal.id, 'rejected', { notes: approvalNotes || undefined }, user.id)
-    refreshEvents()
-    setRejecting(false)
+  function regionDisplay(regionId: string): string {
+    return regionDisplayName(catalog, regionId)
+  }
+
+  function regionIntroSlides(regionId: string): number {
+    return findRegion(catalog, regionId)?.introSlides ?? 0
+  }
+
+  /* ── Slide image paths (pinned version first, then the default location) ── */
+  function introSlidePath(regionId: string, slideNumber: number): string {
+    return pinnedIntroImages[slideNumber] ?? `intro-${regionId}/Slide${slideNumber}.PNG`
+  }
+
+  function productSlidePath(moduleId: string, slideNumber: number): string {
+    const pinned = proposal?.product_slides_snapshot?.[moduleId]?.find((s) => s.slide_number === slideNumber)
+    return pinned?.image_path ?? `products/${moduleId}/Slide${slideNumber}.PNG`
   }
 
-  /* ── Build slide list for preview tab ── */
-  function buildSlideList(): { section: string; slides: { src: string; label: string }[] }[] {
+  function commentableFields(fields: EditableFieldDef[] | undefined): ReviewSlide['fields'] {
+    return (fields ?? []).map((f) => ({ name: f.name, label: f.label }))
+  }
+
+  /* ── Build slide list for preview tab (ids match the builder's, so comments line up) ── */
+  function buildSlideList(): { section: string; slides: ReviewSlide[] }[] {
     if (!proposal) return []
 
-    const sections: { section: string; slides: { src: string; label: string }[] }[] = []
+    const sections: { section: string; slides: ReviewSlide[] }[] = []
 
     // Intro slides
     const introCount = regionIntroSlides(proposal.region_id)
@@ -337,25 +403,28 @@ export function ProposalDetailPage() {
       sections.push({
         section: `Intro Pack — ${regionDisplay(proposal.region_id)}`,
         slides: Array.from({ length: introCount }).map((_, i) => ({
-          src: getSlideUrl(`intro-${proposal.region_id}/Slide${i + 1}.PNG`),
+          id: `intro-${i + 1}`,
+          src: getSlideUrl(introSlidePath(proposal.region_id, i + 1)),
           label: `Intro Slide ${i + 1}`,
+          fields: commentableFields(pinnedIntroFields[i + 1]),
         })),
       })
     }
 
     // Product slides grouped by category
-    const selectedMods = PRODUCT_MODULES.filter((m) =>
-      proposal.selected_products.includes(m.id)
-    )
+    const selectedMods = selectedModules(catalog, proposal.selected_products)
 
-    CATEGORIES.forEach((cat) => {
-      const catMods = selectedMods.filter((m) => m.category === cat)
+    groupByCategory(catalog, selectedMods).forEach(({ modules: catMods }) => {
       catMods.forEach((mod) => {
         sections.push({
           section: mod.name,
           slides: Array.from({ length: mod.slides }).map((_, i) => ({
-            src: getSlideUrl(`products/${mod.id}/Slide${i + 1}.PNG`),
+            id: `product-${mod.id}-${i + 1}`,
+            src: getSlideUrl(productSlidePath(mod.id, i + 1)),
             label: `${mod.name} — Slide ${i + 1}`,
+            fields: commentableFields(
+              proposal.product_slides_snapshot?.[mod.id]?.find((s) => s.slide_number === i + 1)?.editable_fields
+            ),
           })),
         })
       })
@@ -403,12 +472,14 @@ export function ProposalDetailPage() {
 
   const totalSlides =
     regionIntroSlides(proposal.region_id) +
-    PRODUCT_MODULES.filter((m) => proposal.selected_products.includes(m.id)).reduce(
+    selectedModules(catalog, proposal.selected_products).reduce(
       (sum, m) => sum + m.slides,
       0
     )
 
   const slideSections = buildSlideList()
+  const openComments = countOpenThreads(comments)
+  const feeData = normaliseFeeData(proposal.fee_data)
 
   return (
     <div>
@@ -485,6 +556,23 @@ export function ProposalDetailPage() {
                 <FileDown className="h-3.5 w-3.5" />
                 Download PDF
               </button>
+              {proposal.pptx_path && (
+                <button
+                  onClick={async () => {
+                    const { data } = await supabase.storage.from('proposals').createSignedUrl(proposal.pptx_path!, 3600)
+                    if (data?.signedUrl) {
+                      const a = document.createElement('a')
+                      a.href = data.signedUrl
+                      a.download = `${proposal.client_name.replace(/[^a-zA-Z0-9-_]/g, '_')}.pptx`
+                      a.click()
+                    }
+                  }}
+                  className="inline-flex items-center gap-1.5 rounded-lg border border-hoxton-grey bg-white px-3.5 py-2 text-sm font-heading font-medium text-hoxton-deep transition-colors hover:bg-hoxton-light"
+                >
+                  <Presentation className="h-3.5 w-3.5" />
+                  Download PPTX
+                </button>
+              )}
               <button
                 onClick={async () => {
                   const { data } = await supabase.storage.from('proposals').createSignedUrl(proposal.pdf_path!, 3600)
@@ -541,7 +629,8 @@ export function ProposalDetailPage() {
           {(
             [
               { key: 'overview', label: 'Overview' },
-              { key: 'slides', label: 'Slide Preview' },
+              { key: 'slides', label: openComments > 0 ? `Slide Preview (${openComments})` : 'Slide Preview' },
+              { key: 'revisions', label: 'Revisions' },
               { key: 'activity', label: 'Activity' },
               { key: 'tracking', label: 'Tracking' },
               { key: 'analytics', label: 'Analytics' },
@@ -636,7 +725,7 @@ export function ProposalDetailPage() {
             ) : (
               <div className="flex flex-wrap gap-2">
                 {proposal.selected_products.map((pid) => {
-                  const mod = PRODUCT_MODULES.find((m) => m.id === pid)
+                  const mod = findModule(catalog, pid)
                   return (
                     <div
                       key={pid}
@@ -702,67 +791,37 @@ export function ProposalDetailPage() {
           )}
 
           {/* Fee data */}
-          {proposal.fee_data && Object.keys(proposal.fee_data).length > 0 && (
+          {hasFeeData(feeData) && (
             <div className="rounded-2xl border border-gray-100 bg-white p-6">
               <h3 className="mb-4 text-sm font-heading font-semibold uppercase tracking-wider text-gray-400">
                 Fee Information
               </h3>
-              <pre className="text-sm font-body text-hoxton-deep whitespace-pre-wrap">
-                {JSON.stringify(proposal.fee_data, null, 2)}
-              </pre>
+              <table className="w-full text-sm">
+                <tbody>
+                  {buildFeeRows(feeData).map((row) => (
+                    <tr key={row.label} className="border-b border-gray-50 last:border-0">
+                      <td className="py-2 font-body text-hoxton-slate">{row.label}</td>
+                      <td className="py-2 text-right font-heading font-medium text-hoxton-deep">{row.value}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {feeData.notes.trim() && (
+                <p className="mt-3 whitespace-pre-wrap text-xs font-body text-hoxton-slate">{feeData.notes}</p>
+              )}
             </div>
           )}
 
-          {/* Approval section (admin only, pending proposals) */}
-          {isAdmin && proposal.status === 'pending_approval' && (
-            <div className="rounded-2xl border-2 border-amber-200 bg-amber-50/50 p-6">
-              <div className="mb-4 flex items-center gap-2">
-                <Clock className="h-5 w-5 text-amber-600" />
-                <h3 className="text-sm font-heading font-semibold uppercase tracking-wider text-amber-700">
-                  Approval Required
-                </h3>
-              </div>
-              <p className="mb-4 text-sm font-body text-hoxton-slate">
-                This proposal is awaiting your approval before it can be sent to the client.
-              </p>
-              <textarea
-                value={approvalNotes}
-                onChange={(e) => setApprovalNotes(e.target.value)}
-                placeholder="Add notes (optional)..."
-                rows={3}
-                className="mb-4 w-full rounded-xl border border-amber-200 bg-white px-4 py-3 text-sm font-body text-hoxton-deep placeholder:text-gray-400 focus:border-hoxton-turquoise focus:outline-none focus:ring-1 focus:ring-hoxton-turquoise"
-              />
-              <div className="flex items-center gap-3">
-                <button
-                  onClick={handleApprove}
-                  disabled={approving || rejecting}
-                  className="inline-flex items-center gap-1.5 rounded-lg bg-emerald-600 px-4 py-2.5 text-sm font-heading font-semibold text-white transition-colors hover:bg-emerald-700 disabled:opacity-50"
-                >
-                  {approving ? (
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                  ) : (
-                    <CheckCircle2 className="h-4 w-4" />
-                  )}
-                  Approve
-                </button>
-                <button
-                  onClick={handleReject}
-                  disabled={approving || rejecting}
-                  className="inline-flex items-center gap-1.5 rounded-lg bg-red-600 px-4 py-2.5 text-sm font-heading font-semibold text-white transition-colors hover:bg-red-700 disabled:opacity-50"
-                >
-                  {rejecting ? (
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                  ) : (
-                    <XCircle className="h-4 w-4" />
-                  )}
-                  Reject
-                </button>
-              </div>
-            </div>
-          )}
+          {/* Approval chain — submission, per-step sign-offs and notes */}
+          <ApprovalChainPanel
+            proposal={proposal}
+            openComments={openComments}
+            onProposalUpdate={(updates) => setProposal({ ...proposal, ...updates })}
+            onActivity={refreshEvents}
+          />
 
-          {/* Show approval notes if already actioned */}
-          {proposal.approval_notes && proposal.status !== 'pending_approval' && (
+          {/* Approval notes on proposals approved before the chain existed */}
+          {proposal.approval_notes && !proposal.approval_round && proposal.status !== 'pending_approval' && (
             <div className="rounded-2xl border border-gray-100 bg-white p-6">
               <h3 className="mb-2 text-sm font-heading font-semibold uppercase tracking-wider text-gray-400">
                 Approval Notes
@@ -785,40 +844,72 @@ export function ProposalDetailPage() {
               </p>
             </div>
           ) : (
-            slideSections.map((section, sIdx) => (
-              <div key={sIdx}>
-                <div className="mb-3 flex items-center gap-2">
-                  <Layers className="h-4 w-4 text-hoxton-slate" />
-                  <h3 className="text-xs font-heading font-semibold uppercase tracking-wider text-hoxton-slate">
-                    {section.section}
-                  </h3>
-                  <span className="rounded-full bg-hoxton-grey px-2 py-0.5 text-[10px] font-heading font-medium text-hoxton-deep">
-                    {section.slides.length} slides
+            <>
+              <p className="flex items-center gap-1.5 text-sm font-body text-hoxton-slate">
+                <MessageSquare className="h-4 w-4 text-hoxton-turquoise" />
+                Click a slide to review it and leave comments.
+                {openComments > 0 && (
+                  <span className="font-heading font-medium text-amber-700">
+                    {openComments} comment{openComments !== 1 ? 's' : ''} open.
                   </span>
+                )}
+              </p>
+              {slideSections.map((section, sIdx) => (
+                <div key={sIdx}>
+                  <div className="mb-3 flex items-center gap-2">
+                    <Layers className="h-4 w-4 text-hoxton-slate" />
+                    <h3 className="text-xs font-heading font-semibold uppercase tracking-wider text-hoxton-slate">
+                      {section.section}
+                    </h3>
+                    <span className="rounded-full bg-hoxton-grey px-2 py-0.5 text-[10px] font-heading font-medium text-hoxton-deep">
+                      {section.slides.length} slides
+                    </span>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5">
+                    {section.slides.map((slide) => {
+                      const slideOpenComments = countOpenThreads(comments, slide.id)
+                      return (
+                        <button
+                          key={slide.id}
+                          onClick={() => setReviewSlide(slide)}
+                          className={`group relative overflow-hidden rounded-xl border bg-white text-left shadow-sm transition-shadow hover:shadow-md ${
+                            slideOpenComments > 0 ? 'border-amber-300' : 'border-gray-100'
+                          }`}
+                        >
+                          <div className="aspect-video overflow-hidden bg-gray-50">
+                            <SlideThumb src={slide.src} alt={slide.label} />
+                          </div>
+                          <div className="px-2.5 py-2">
+                            <p className="truncate text-[11px] font-heading font-medium text-hoxton-deep">
+                              {slide.label}
+                            </p>
+                          </div>
+                          {slideOpenComments > 0 && (
+                            <span className="absolute right-1.5 top-1.5 inline-flex items-center gap-0.5 rounded-full bg-amber-100 px-1.5 py-0.5 text-[10px] font-heading font-semibold text-amber-700 shadow-sm">
+                              <MessageSquare className="h-2.5 w-2.5" />
+                              {slideOpenComments}
+                            </span>
+                          )}
+                        </button>
+                      )
+                    })}
+                  </div>
                 </div>
-                <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5">
-                  {section.slides.map((slide, i) => (
-                    <div
-                      key={i}
-                      className="group overflow-hidden rounded-xl border border-gray-100 bg-white shadow-sm transition-shadow hover:shadow-md"
-                    >
-                      <div className="aspect-video overflow-hidden bg-gray-50">
-                        <SlideThumb src={slide.src} alt={slide.label} />
-                      </div>
-                      <div className="px-2.5 py-2">
-                        <p className="truncate text-[11px] font-heading font-medium text-hoxton-deep">
-                          {slide.label}
-                        </p>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            ))
+              ))}
+            </>
           )}
         </div>
       )}
 
+      {/* ── Tab: Revisions ── */}
+      {tab === 'revisions' && (
+        <ProposalRevisionsTab
+          proposal={proposal}
+          onProposalUpdate={(updates) => setProposal({ ...proposal, ...updates })}
+          onActivity={refreshEvents}
+        />
+      )}
+
       {/* ── Tab: Activity ── */}
       {tab === 'activity' && (
         <div className="rounded-2xl border border-gray-100 bg-white">
@@ -902,14 +993,35 @@ export function ProposalDetailPage() {
                   <h3 className="text-sm font-heading font-semibold text-hoxton-deep">
                     {trackingLinks.length} tracking link{trackingLinks.length !== 1 ? 's' : ''}
                   </h3>
-                  <span className="text-sm font-body text-hoxton-slate">
-                    {trackingLinks.reduce((sum, l) => sum + (l.view_count ?? 0), 0)} total views
-                  </span>
+                  <div className="flex items-center gap-4">
+                    <span className="text-sm font-body text-hoxton-slate">
+                      {trackingLinks.reduce((sum, l) => sum + (l.view_count ?? 0), 0)} total views
+                    </span>
+                    <button
+                      onClick={handleToggleFollowUps}
+                      disabled={savingFollowUps}
+                      className="inline-flex items-center gap-1.5 rounded-lg border border-gray-200 px-3 py-1.5 text-xs font-heading font-medium text-hoxton-slate transition-colors hover:bg-gray-50 disabled:opacity-50"
+                      title="Automatic reminders when a client hasn't opened or finished the proposal"
+                    >
+                      {proposal.follow_ups_enabled === false ? (
+                        <>
+                          <BellOff className="h-3.5 w-3.5" />
+                          Follow-ups off
+                        </>
+                      ) : (
+                        <>
+                          <BellRing className="h-3.5 w-3.5 text-hoxton-turquoise" />
+                          Follow-ups on
+                        </>
+                      )}
+                    </button>
+                  </div>
                 </div>
               </div>
               <div className="divide-y divide-gray-50">
                 {trackingLinks.map((link) => {
                   const isExpired = link.expires_at && new Date(link.expires_at) < new Date()
+                  const linkFollowUps = followUps.filter((f) => f.link_id === link.id)
                   return (
                     <div key={link.id} className="flex items-center gap-4 px-6 py-4">
                       <div className="min-w-0 flex-1">
@@ -917,6 +1029,14 @@ export function ProposalDetailPage() {
                           {link.recipient_name}
                         </p>
                         <p className="text-xs font-body text-gray-400">{link.recipient_email}</p>
+                        {linkFollowUps.length > 0 && (
+                          <p className="mt-0.5 flex items-center gap-1 text-[10px] font-body text-gray-400">
+                            <BellRing className="h-3 w-3" />
+                            {linkFollowUps.length} reminder{linkFollowUps.length !== 1 ? 's' : ''} · last{' '}
+                            {formatDateTime(linkFollowUps[0].created_at)} (
+                            {FOLLOW_UP_REASON_LABELS[linkFollowUps[0].reason].toLowerCase()})
+                          </p>
+                        )}
                       </div>
                       <div className="text-right">
                         <p className="text-sm font-heading font-medium text-hoxton-deep">
@@ -985,19 +1105,17 @@ export function ProposalDetailPage() {
             for (let i = 1; i <= introCount; i++) {
               images.push({
                 index: idx++,
-                url: getSlideUrl(`intro-${proposal.region_id}/Slide${i}.PNG`),
+                url: getSlideUrl(introSlidePath(proposal.region_id, i)),
                 label: `Intro ${i}`,
               })
             }
             // Product slides
-            const selectedMods = PRODUCT_MODULES.filter((m) =>
-              proposal.selected_products.includes(m.id)
-            )
+            const selectedMods = selectedModules(catalog, proposal.selected_products)
             for (const mod of selectedMods) {
               for (let i = 1; i <= mod.slides; i++) {
                 images.push({
                   index: idx++,
-                  url: getSlideUrl(`products/${mod.id}/Slide${i}.PNG`),
+                  url: getSlideUrl(productSlidePath(mod.id, i)),
                   label: `${mod.name} ${i}`,
                 })
               }
@@ -1007,6 +1125,17 @@ export function ProposalDetailPage() {
         />
       )}
 
+      {/* Slide review + comments */}
+      {reviewSlide && (
+        <SlideReviewModal
+          proposalId={proposal.id}
+          slide={reviewSlide}
+          comments={comments}
+          onCommentsChange={setComments}
+          onClose={() => setReviewSlide(null)}
+        />
+      )}
+
       {/* Send Proposal Modal */}
       {showSendModal && (
         <SendProposalModal
@@ -1018,6 +1147,9 @@ export function ProposalDetailPage() {
           proposalId={proposal.id}
           clientName={proposal.client_name}
           clientEmail={proposal.client_email}
+          regionId={proposal.region_id}
+          advisorId={proposal.advisor_id}
+          approvalGate={approvalGate}
         />
       )}
     </div>
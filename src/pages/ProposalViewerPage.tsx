@@ -2,8 +2,12 @@ import { useEffect, useState, useCallback, useRef, useMemo } from 'react'
 import { useParams } from 'react-router-dom'
 import { ChevronLeft, ChevronRight, Download, Loader2, ShieldCheck, Mail } from 'lucide-react'
 import { supabase } from '../lib/supabase'
-import { getSlideUrl } from '../lib/storage'
-import { REGIONS, PRODUCT_MODULES } from '../lib/constants'
+import { getImageUrl, getSlideUrl } from '../lib/storage'
+import { resolveProposalPack, getPackSlides } from '../lib/packs'
+import { findRegion, loadCatalog, selectedModules as pickModules } from '../lib/catalog'
+import { applySlideOrder } from '../lib/slide-order'
+import { fieldImageUrl, formatFieldValue } from '../lib/field-values'
+import { fitSlideFields, type FieldFit } from '../lib/text-fit'
 import {
   initViewSession,
   trackSlideEnter,
@@ -12,6 +16,12 @@ import {
   clearPendingExit,
   flushOnUnload,
 } from '../lib/viewer-analytics'
+import { normaliseFeeData } from '../lib/fees'
+import { localeFallbacks, normaliseLocale, pickLocaleRows } from '../lib/locales'
+import { viewerStrings, type ViewerErrorKey } from '../lib/viewer-i18n'
+import { FeeSlidePreview } from '../components/proposal/FeeSlidePreview'
+import { BlankSlidePreview } from '../components/proposal/BlankSlidePreview'
+import { RichTextContent } from '../components/ui/RichText'
 import type { Proposal, EditableFieldDef } from '../types'
 
 /* ── Types ── */
@@ -26,15 +36,27 @@ interface LinkData {
   allow_download: boolean
   recipient_name: string
   recipient_email: string
+  /** The proposal's language, so the verification screens can use it */
+  locale: string | null
 }
 
 interface ViewerSlide {
   id: string
   label: string
   imageUrl: string
+  isFeeSlide?: boolean
+  /** Adviser's blank branded slide — no image, text comes from the field overlays */
+  isBlank?: boolean
   editableFields?: EditableFieldDef[]
 }
 
+interface SlideDefs {
+  fieldDefs: Record<string, EditableFieldDef[]>
+  feeSlideIds: Set<string>
+  /** Image paths from the pinned pack versions / product snapshot, keyed by slide id */
+  imagePaths: Record<string, string>
+}
+
 /* ── Constants ── */
 
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL as string
@@ -88,14 +110,39 @@ async function callEdgeFunction(body: Record<string, string>) {
   return res.json()
 }
 
+/** Signed URLs for the adviser's uploads, keyed by path — the bucket is private */
+async function fetchAdhocImageUrls(token: string, sessionToken: string): Promise<Record<string, string>> {
+  try {
+    const res = await fetch(`${SUPABASE_URL}/functions/v1/get-viewer-images`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token, session_token: sessionToken }),
+    })
+    const data = await res.json()
+    return data?.urls ?? {}
+  } catch {
+    // Uploaded images just don't show
+    return {}
+  }
+}
+
 /* ── SlideFieldOverlays ── */
 
 function SlideFieldOverlays({
   fields,
   values,
+  fits,
+  regionId,
+  imageUrls,
 }: {
   fields: EditableFieldDef[]
   values: Record<string, string>
+  /** Signed URLs for ad-hoc image uploads, keyed by path */
+  imageUrls?: Record<string, string>
+  /** Shrink-to-fit sizes from lib/text-fit, keyed by field name */
+  fits?: Record<string, FieldFit>
+  /** Formats date and currency fields for the proposal's region */
+  regionId?: string
 }) {
   return (
     <>
@@ -103,16 +150,38 @@ function SlideFieldOverlays({
         const value = values[field.name]
         if (!value) return null
 
+        if (field.type === 'image') {
+          return (
+            <img
+              key={field.id}
+              src={fieldImageUrl(value, imageUrls)}
+              alt=""
+              style={{
+                position: 'absolute',
+                left: `${field.x}%`,
+                top: `${field.y}%`,
+                width: `${field.width}%`,
+                height: `${field.height}%`,
+                objectFit: field.imageFit ?? 'contain',
+              }}
+            />
+          )
+        }
+
+        const text = formatFieldValue(field, value, regionId)
+        if (!text) return null
+
         const fontFamily =
           field.fontFamily === 'heading'
             ? "'FT Calhern', 'Helvetica Neue', sans-serif"
             : "'Sentient', Georgia, serif"
 
-        const scaledFontSize = `${field.fontSize / 12.8}cqw`
+        const fontSize = fits?.[field.name]?.fontSize ?? field.fontSize
+        const scaledFontSize = `${fontSize / 12.8}cqw`
 
         if (field.type === 'table') {
           const rows = value.split('\n').filter((r) => r.trim())
-          const scaledTableFontSize = `${(field.fontSize * 0.85) / 12.8}cqw`
+          const scaledTableFontSize = `${(fontSize * 0.85) / 12.8}cqw`
           return (
             <div
               key={field.id}
@@ -177,9 +246,13 @@ function SlideFieldOverlays({
               whiteSpace: 'pre-wrap',
             }}
           >
-            <span style={{ width: '100%', textAlign: field.textAlign }}>
-              {value}
-            </span>
+            {field.type === 'textarea' && field.richText ? (
+              <RichTextContent value={value} />
+            ) : (
+              <span style={{ width: '100%', textAlign: field.textAlign }}>
+                {text}
+              </span>
+            )}
           </div>
         )
       })}
@@ -301,13 +374,13 @@ function OtpInput({
 
 async function assembleSlides(
   proposal: Proposal,
-  fieldDefs: Record<string, EditableFieldDef[]>
+  { fieldDefs, feeSlideIds, imagePaths }: SlideDefs,
+  adhocUrls: Record<string, string>
 ): Promise<ViewerSlide[]> {
   const items: ViewerSlide[] = []
-  const region = REGIONS.find((r) => r.id === proposal.region_id)
-  const selectedModules = PRODUCT_MODULES.filter((p) =>
-    proposal.selected_products.includes(p.id)
-  )
+  const catalog = await loadCatalog()
+  const region = findRegion(catalog, proposal.region_id)
+  const selectedModules = pickModules(catalog, proposal.selected_products)
   const disabledSet = new Set(proposal.disabled_slides || [])
 
   // 1. Intro slides
@@ -318,7 +391,7 @@ async function assembleSlides(
     items.push({
       id,
       label: `Introduction Slide ${i}`,
-      imageUrl: getSlideUrl(`intro-${proposal.region_id}/Slide${i}.PNG`),
+      imageUrl: getSlideUrl(imagePaths[id] ?? `intro-${proposal.region_id}/Slide${i}.PNG`),
       editableFields: fieldDefs[id],
     })
   }
@@ -350,35 +423,25 @@ async function assembleSlides(
       items.push({
         id,
         label: `${mod.name} — Slide ${i}`,
-        imageUrl: getSlideUrl(`products/${mod.id}/Slide${i}.PNG`),
+        imageUrl: getSlideUrl(imagePaths[id] ?? `products/${mod.id}/Slide${i}.PNG`),
+        isFeeSlide: feeSlideIds.has(id),
         editableFields: fieldDefs[id],
       })
     }
   }
 
-  // 5. Closing slides (from DB)
+  // 5. Closing slides (from the pinned pack version, or the active one)
   try {
-    const { data: closingPack } = await supabase
-      .from('closing_packs')
-      .select('id')
-      .eq('region_id', proposal.region_id)
-      .eq('is_active', true)
-      .single()
-
-    if (closingPack) {
-      const { data: closingSlides } = await supabase
-        .from('closing_slides')
-        .select('slide_number, image_path, editable_fields')
-        .eq('closing_pack_id', closingPack.id)
-        .order('slide_number')
-
-      if (closingSlides && closingSlides.length > 0) {
+    const closingPackId = await resolveProposalPack('closing', proposal)
+
+    if (closingPackId) {
+      const closingSlides = await getPackSlides('closing', closingPackId)
+
+      if (closingSlides.length > 0) {
         for (const s of closingSlides) {
           const id = `closing-${s.slide_number}`
           if (disabledSet.has(id)) continue
-          const fields = Array.isArray(s.editable_fields)
-            ? (s.editable_fields as EditableFieldDef[])
-            : []
+          const fields = s.editable_fields
           items.push({
             id,
             label: `Closing Slide ${s.slide_number}`,
@@ -412,55 +475,59 @@ async function assembleSlides(
     // Closing slides unavailable
   }
 
-  return items
+  // 6. Adviser's own slides — appended here, placed by slide_order below
+  for (const c of proposal.custom_slides ?? []) {
+    if (disabledSet.has(c.id)) continue
+    items.push({
+      id: c.id,
+      label: c.label,
+      imageUrl: c.imagePath ? getImageUrl(c.imagePath, adhocUrls) : '',
+      isBlank: c.kind === 'blank',
+      editableFields: c.editableFields,
+    })
+  }
+
+  // 7. Adviser's custom order, if any
+  return applySlideOrder(items, proposal.slide_order)
 }
 
-/* ── Fetch editable field definitions from DB ── */
+/* ── Fetch editable field definitions (and fee slide ids) from DB ── */
 
-async function fetchFieldDefs(
-  proposal: Proposal
-): Promise<Record<string, EditableFieldDef[]>> {
+async function fetchFieldDefs(proposal: Proposal): Promise<SlideDefs> {
   const fieldMap: Record<string, EditableFieldDef[]> = {}
+  const feeSlideIds = new Set<string>()
+  const imagePaths: Record<string, string> = {}
 
   try {
-    const { data: introPack } = await supabase
-      .from('intro_packs')
-      .select('id')
-      .eq('region_id', proposal.region_id)
-      .eq('is_active', true)
-      .single()
-
-    if (introPack) {
-      const { data: introSlides } = await supabase
-        .from('intro_slides')
-        .select('slide_number, editable_fields')
-        .eq('intro_pack_id', introPack.id)
-
-      if (introSlides) {
-        for (const s of introSlides) {
-          const fields = Array.isArray(s.editable_fields)
-            ? (s.editable_fields as EditableFieldDef[])
-            : []
-          if (fields.length > 0) {
-            fieldMap[`intro-${s.slide_number}`] = fields
-          }
+    const introPackId = await resolveProposalPack('intro', proposal)
+
+    if (introPackId) {
+      for (const s of await getPackSlides('intro', introPackId)) {
+        if (s.editable_fields.length > 0) {
+          fieldMap[`intro-${s.slide_number}`] = s.editable_fields
         }
+        if (s.image_path) imagePaths[`intro-${s.slide_number}`] = s.image_path
       }
     }
   } catch {
     // Non-critical
   }
 
-  const selectedModules = PRODUCT_MODULES.filter((p) =>
-    proposal.selected_products.includes(p.id)
-  )
+  const selectedModules = pickModules(await loadCatalog(), proposal.selected_products)
+  const locale = normaliseLocale(proposal.locale)
 
   for (const mod of selectedModules) {
     try {
-      const { data: productSlides } = await supabase
-        .from('product_slides')
-        .select('slide_number, editable_fields')
-        .eq('module_id', mod.id)
+      // Prefer the slide set captured when the proposal was generated
+      const pinned = proposal.product_slides_snapshot?.[mod.id]
+      const { data: productSlides } = pinned
+        ? { data: pinned }
+        : await supabase
+            .from('product_slides')
+            .select('slide_number, slide_type, image_path, editable_fields, locale')
+            .eq('module_id', mod.id)
+            .in('locale', localeFallbacks(locale))
+            .then(({ data }) => ({ data: data ? pickLocaleRows(data, locale) : null }))
 
       if (productSlides) {
         for (const s of productSlides) {
@@ -470,6 +537,10 @@ async function fetchFieldDefs(
           if (fields.length > 0) {
             fieldMap[`product-${mod.id}-${s.slide_number}`] = fields
           }
+          if (s.slide_type === 'fee_structure') {
+            feeSlideIds.add(`product-${mod.id}-${s.slide_number}`)
+          }
+          if (s.image_path) imagePaths[`product-${mod.id}-${s.slide_number}`] = s.image_path
         }
       }
     } catch {
@@ -477,7 +548,7 @@ async function fetchFieldDefs(
     }
   }
 
-  return fieldMap
+  return { fieldDefs: fieldMap, feeSlideIds, imagePaths }
 }
 
 /* ═══════════════════════════════════════════════════════
@@ -489,8 +560,10 @@ export function ProposalViewerPage() {
 
   // ── Verification state ──
   const [viewerState, setViewerState] = useState<ViewerState>('loading')
-  const [error, setError] = useState<string | null>(null)
+  const [error, setError] = useState<ViewerErrorKey | null>(null)
   const [link, setLink] = useState<LinkData | null>(null)
+  const locale = normaliseLocale(link?.locale)
+  const t = viewerStrings(locale)
 
   // OTP state
   const [otpCode, setOtpCode] = useState('')
@@ -504,13 +577,14 @@ export function ProposalViewerPage() {
 
   // ── Slide viewer state ──
   const [proposal, setProposal] = useState<Proposal | null>(null)
+  const [adhocUrls, setAdhocUrls] = useState<Record<string, string>>({})
   const [slides, setSlides] = useState<ViewerSlide[]>([])
   const [currentIndex, setCurrentIndex] = useState(0)
   const [transitioning, setTransitioning] = useState(false)
 
   // Analytics refs
   const viewIdRef = useRef<string | null>(null)
-  const currentAnalyticRef = useRef<{ id: string; enteredAt: Date } | null>(null)
+  const currentAnalyticRef = useRef<string | null>(null)
 
   // Thumbnail strip ref
   const thumbStripRef = useRef<HTMLDivElement>(null)
@@ -521,40 +595,37 @@ export function ProposalViewerPage() {
   /* ── Step 1: Validate link + check existing session ── */
   useEffect(() => {
     if (!token) {
-      setError('No token provided')
+      setError('noToken')
       setViewerState('error')
       return
     }
 
     async function validateLink() {
       const { data: linkData, error: linkError } = await supabase
-        .from('proposal_links')
-        .select('id, proposal_id, is_active, expires_at, allow_download, recipient_name, recipient_email')
-        .eq('token', token!)
-        .single()
+        .rpc('get_viewer_link', { p_token: token! })
+        .maybeSingle()
 
       if (linkError || !linkData) {
-        setError('This link is no longer available')
+        setError('linkUnavailable')
         setViewerState('error')
         return
       }
 
-      const ld = linkData as LinkData
+      const ld = linkData as unknown as LinkData
+      setLink(ld)
 
       if (!ld.is_active) {
-        setError('This link has been revoked')
+        setError('linkRevoked')
         setViewerState('error')
         return
       }
 
       if (ld.expires_at && new Date(ld.expires_at) < new Date()) {
-        setError('This link has expired')
+        setError('linkExpired')
         setViewerState('error')
         return
       }
 
-      setLink(ld)
-
       // Check for existing valid session
       const existingSession = getSessionToken(token!)
       if (existingSession) {
@@ -585,14 +656,13 @@ export function ProposalViewerPage() {
     if (viewerState !== 'verified' || !link || !token) return
 
     async function loadProposal() {
+      // Only returned while the OTP session is valid
       const { data: proposalData, error: proposalError } = await supabase
-        .from('proposals')
-        .select('*')
-        .eq('id', link!.proposal_id)
-        .single()
+        .rpc('get_viewer_proposal', { p_token: token!, p_session_token: getSessionToken(token!) ?? '' })
+        .maybeSingle()
 
       if (proposalError || !proposalData) {
-        setError('This link is no longer available')
+        setError('linkUnavailable')
         setViewerState('error')
         return
       }
@@ -600,14 +670,19 @@ export function ProposalViewerPage() {
       const prop = proposalData as Proposal
       setProposal(prop)
 
-      const fieldDefs = await fetchFieldDefs(prop)
-      const assembled = await assembleSlides(prop, fieldDefs)
+      const sessionToken = getSessionToken(token!)
+      const [slideDefs, imageUrls] = await Promise.all([
+        fetchFieldDefs(prop),
+        sessionToken ? fetchAdhocImageUrls(token!, sessionToken) : Promise.resolve({}),
+      ])
+      const assembled = await assembleSlides(prop, slideDefs, imageUrls)
+      setAdhocUrls(imageUrls)
 
       // Init analytics BEFORE transitioning to viewing state
       // so viewIdRef is set when slide tracking effect fires
-      const vid = await initViewSession(link!.id)
-      console.log('[Viewer] initViewSession returned viewId:', vid)
-      viewIdRef.current = vid
+      if (sessionToken) {
+        viewIdRef.current = initViewSession(token!, sessionToken, assembled.length)
+      }
 
       setSlides(assembled)
       setViewerState('viewing')
@@ -638,10 +713,10 @@ export function ProposalViewerPage() {
       setOtpError(null)
       setViewerState('code_entry')
     } catch {
-      setOtpError('Failed to send code. Please try again.')
+      setOtpError(t.sendFailed)
     }
     setOtpSending(false)
-  }, [token, otpSending])
+  }, [token, otpSending, t])
 
   /* ── OTP: Verify code ── */
   const handleVerifyOtp = useCallback(async (codeToVerify: string) => {
@@ -661,16 +736,16 @@ export function ProposalViewerPage() {
         saveSessionToken(token, result.session_token, result.expires_at)
         setViewerState('verified')
       } else {
-        setOtpError(result.error || 'Invalid code.')
+        setOtpError(result.error || t.invalidCode)
         setOtpShake(true)
         setTimeout(() => setOtpShake(false), 500)
         setOtpCode('')
       }
     } catch {
-      setOtpError('Verification failed. Please try again.')
+      setOtpError(t.verifyFailed)
     }
     setOtpVerifying(false)
-  }, [token, otpVerifying])
+  }, [token, otpVerifying, t])
 
   /* ── Auto-verify when 6 digits entered ── */
   useEffect(() => {
@@ -694,18 +769,18 @@ export function ProposalViewerPage() {
     function updateDisplay() {
       const remaining = Math.max(0, Math.floor((codeExpiresAt!.getTime() - Date.now()) / 1000))
       if (remaining <= 0) {
-        setExpiryDisplay('Code expired')
+        setExpiryDisplay(t.codeExpired)
         return
       }
       const m = Math.floor(remaining / 60)
       const s = remaining % 60
-      setExpiryDisplay(`Code expires in ${m}:${String(s).padStart(2, '0')}`)
+      setExpiryDisplay(t.codeExpiresIn(`${m}:${String(s).padStart(2, '0')}`))
     }
 
     updateDisplay()
     const timer = setInterval(updateDisplay, 1000)
     return () => clearInterval(timer)
-  }, [codeExpiresAt, viewerState])
+  }, [codeExpiresAt, viewerState, t])
 
   /* ── Slide transition helper ── */
   const goToSlide = useCallback(
@@ -731,23 +806,15 @@ export function ProposalViewerPage() {
     console.log('[Viewer] Slide tracking effect fired for slide', currentIndex, '| viewIdRef:', viewIdRef.current)
 
     if (currentAnalyticRef.current) {
-      trackSlideExit(currentAnalyticRef.current.id, currentAnalyticRef.current.enteredAt)
+      trackSlideExit(currentAnalyticRef.current)
       clearPendingExit()
       currentAnalyticRef.current = null
     }
 
-    const enteredAt = new Date()
     if (viewIdRef.current) {
-      trackSlideEnter(viewIdRef.current, link.id, currentIndex, slide.label).then(
-        (analyticId) => {
-          if (analyticId) {
-            currentAnalyticRef.current = { id: analyticId, enteredAt }
-            setPendingExit(analyticId, enteredAt)
-          } else {
-            console.warn('[Viewer] trackSlideEnter returned null analyticId')
-          }
-        }
-      )
+      const analyticId = trackSlideEnter(viewIdRef.current, currentIndex, slide.label, slide.id)
+      currentAnalyticRef.current = analyticId
+      setPendingExit(analyticId)
     } else {
       console.warn('[Viewer] viewIdRef.current is null — cannot track slide')
     }
@@ -832,6 +899,20 @@ export function ProposalViewerPage() {
     if (!currentSlide || !proposal?.editable_fields_data) return {}
     return proposal.editable_fields_data[currentSlide.id] || {}
   }, [currentSlide, proposal?.editable_fields_data])
+  const feeData = useMemo(() => normaliseFeeData(proposal?.fee_data), [proposal?.fee_data])
+
+  // Shrink-to-fit sizes for the current slide, tagged with its id so a stale result is never applied
+  const [slideFits, setSlideFits] = useState<{ slideId: string; fits: Record<string, FieldFit> } | null>(null)
+  useEffect(() => {
+    if (!currentSlide?.editableFields?.length) return
+    let cancelled = false
+    fitSlideFields(currentSlide.editableFields, fieldValues, proposal?.region_id).then((fits) => {
+      if (!cancelled) setSlideFits({ slideId: currentSlide.id, fits })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [currentSlide, fieldValues, proposal?.region_id])
 
   /* ═══════════════════════════════════
      RENDER: Loading
@@ -854,10 +935,10 @@ export function ProposalViewerPage() {
         <img src="/hoxton-logo-white.svg" alt="Hoxton" className="mb-8 h-10" />
         <div className="max-w-sm text-center">
           <h1 className="text-xl font-heading font-semibold text-white">
-            {error || 'This link is no longer available'}
+            {t[error ?? 'linkUnavailable']}
           </h1>
           <p className="mt-3 text-sm font-body text-hoxton-grey">
-            Please contact your adviser for a new link.
+            {t.contactAdviser}
           </p>
         </div>
       </div>
@@ -881,15 +962,15 @@ export function ProposalViewerPage() {
             </div>
 
             <h1 className="text-center text-xl font-heading font-semibold text-hoxton-deep">
-              Your adviser has shared a proposal with you
+              {t.sharedTitle}
             </h1>
             <p className="mt-3 text-center text-sm font-body leading-relaxed text-hoxton-slate">
-              To protect your information, please verify your email address.
+              {t.verifyIntro}
             </p>
 
             <div className="mt-6 rounded-xl bg-hoxton-light/60 px-4 py-3 text-center">
               <p className="text-sm font-body text-hoxton-slate">
-                We&apos;ll send a code to{' '}
+                {t.willSendCodeTo}{' '}
                 <span className="font-medium text-hoxton-deep">{maskEmail(link.recipient_email)}</span>
               </p>
             </div>
@@ -910,12 +991,12 @@ export function ProposalViewerPage() {
               ) : (
                 <Mail className="h-4 w-4" />
               )}
-              {otpSending ? 'Sending...' : 'Send Verification Code'}
+              {otpSending ? t.sending : t.sendCode}
             </button>
           </div>
 
           <p className="mt-6 text-center text-xs font-body text-hoxton-slate/70">
-            Secured by Hoxton Wealth
+            {t.securedBy}
           </p>
         </div>
       </div>
@@ -935,10 +1016,10 @@ export function ProposalViewerPage() {
 
           <div className="rounded-2xl bg-white p-8 shadow-sm ring-1 ring-hoxton-grey/30 sm:p-10">
             <h1 className="text-center text-xl font-heading font-semibold text-hoxton-deep">
-              Enter verification code
+              {t.enterCode}
             </h1>
             <p className="mt-2 text-center text-sm font-body text-hoxton-slate">
-              We sent a 6-digit code to{' '}
+              {t.sentCodeTo}{' '}
               <span className="font-medium text-hoxton-deep">{maskEmail(link.recipient_email)}</span>
             </p>
 
@@ -954,7 +1035,7 @@ export function ProposalViewerPage() {
             {otpVerifying && (
               <div className="mt-5 flex items-center justify-center gap-2 text-sm font-body text-hoxton-slate">
                 <Loader2 className="h-4 w-4 animate-spin" />
-                Verifying...
+                {t.verifying}
               </div>
             )}
 
@@ -971,13 +1052,13 @@ export function ProposalViewerPage() {
                 disabled={resendCooldown > 0 || otpSending}
                 className="font-medium text-hoxton-turquoise transition-colors hover:text-hoxton-turquoise/80 disabled:text-hoxton-slate/40"
               >
-                {resendCooldown > 0 ? `Resend in ${resendCooldown}s` : 'Resend Code'}
+                {resendCooldown > 0 ? t.resendIn(resendCooldown) : t.resendCode}
               </button>
             </div>
           </div>
 
           <p className="mt-6 text-center text-xs font-body text-hoxton-slate/70">
-            Secured by Hoxton Wealth
+            {t.securedBy}
           </p>
         </div>
       </div>
@@ -992,7 +1073,7 @@ export function ProposalViewerPage() {
       <div className="flex min-h-screen flex-col items-center justify-center bg-hoxton-deep">
         <img src="/hoxton-logo-white.svg" alt="Hoxton" className="mb-6 h-10 animate-pulse" />
         <Loader2 className="h-6 w-6 animate-spin text-hoxton-turquoise" />
-        <p className="mt-4 text-sm font-body text-white/60">Loading your proposal...</p>
+        <p className="mt-4 text-sm font-body text-white/60">{t.loadingProposal}</p>
       </div>
     )
   }
@@ -1006,10 +1087,10 @@ export function ProposalViewerPage() {
         <img src="/hoxton-logo-white.svg" alt="Hoxton" className="mb-8 h-10" />
         <div className="max-w-sm text-center">
           <h1 className="text-xl font-heading font-semibold text-white">
-            This link is no longer available
+            {t.linkUnavailable}
           </h1>
           <p className="mt-3 text-sm font-body text-hoxton-grey">
-            Please contact your adviser for a new link.
+            {t.contactAdviser}
           </p>
         </div>
       </div>
@@ -1023,7 +1104,7 @@ export function ProposalViewerPage() {
         <div className="flex items-center gap-3 min-w-0">
           <img src="/hoxton-logo-white.svg" alt="Hoxton" className="h-6 shrink-0 sm:h-7" />
           <span className="hidden truncate text-sm font-heading font-medium text-white/80 sm:block">
-            Proposal for {proposal.client_name}
+            {t.proposalFor(proposal.client_name)}
           </span>
         </div>
 
@@ -1038,7 +1119,7 @@ export function ProposalViewerPage() {
               className="inline-flex items-center gap-1.5 rounded-lg bg-hoxton-turquoise px-3 py-1.5 text-xs font-heading font-semibold text-white transition-colors hover:bg-hoxton-turquoise/80"
             >
               <Download className="h-3.5 w-3.5" />
-              <span className="hidden sm:inline">Download PDF</span>
+              <span className="hidden sm:inline">{t.downloadPdf}</span>
             </button>
           )}
         </div>
@@ -1054,7 +1135,7 @@ export function ProposalViewerPage() {
           onClick={() => goToSlide(currentIndex - 1)}
           disabled={currentIndex === 0}
           className="absolute left-1 z-10 rounded-full bg-black/30 p-1.5 text-white/70 backdrop-blur-sm transition-colors hover:bg-black/50 hover:text-white disabled:opacity-0 sm:left-3 sm:p-2"
-          aria-label="Previous slide"
+          aria-label={t.previousSlide}
         >
           <ChevronLeft className="h-5 w-5 sm:h-6 sm:w-6" />
         </button>
@@ -1065,18 +1146,28 @@ export function ProposalViewerPage() {
           }`}
           style={{ containerType: 'inline-size' }}
         >
-          {currentSlide && (
+          {currentSlide && currentSlide.isFeeSlide && (
+            <FeeSlidePreview fee={feeData} clientName={proposal?.client_name ?? ''} />
+          )}
+          {currentSlide && !currentSlide.isFeeSlide && (
             <>
-              <SlideImage
-                src={currentSlide.imageUrl}
-                alt={currentSlide.label}
-                className="h-full w-full"
-              />
+              {currentSlide.isBlank ? (
+                <BlankSlidePreview />
+              ) : (
+                <SlideImage
+                  src={currentSlide.imageUrl}
+                  alt={currentSlide.label}
+                  className="h-full w-full"
+                />
+              )}
               {currentSlide.editableFields &&
                 currentSlide.editableFields.length > 0 && (
                   <SlideFieldOverlays
                     fields={currentSlide.editableFields}
                     values={fieldValues}
+                    fits={slideFits?.slideId === currentSlide.id ? slideFits.fits : undefined}
+                    regionId={proposal?.region_id}
+                    imageUrls={adhocUrls}
                   />
                 )}
             </>
@@ -1087,7 +1178,7 @@ export function ProposalViewerPage() {
           onClick={() => goToSlide(currentIndex + 1)}
           disabled={currentIndex === slides.length - 1}
           className="absolute right-1 z-10 rounded-full bg-black/30 p-1.5 text-white/70 backdrop-blur-sm transition-colors hover:bg-black/50 hover:text-white disabled:opacity-0 sm:right-3 sm:p-2"
-          aria-label="Next slide"
+          aria-label={t.nextSlide}
         >
           <ChevronRight className="h-5 w-5 sm:h-6 sm:w-6" />
         </button>
@@ -1111,12 +1202,16 @@ export function ProposalViewerPage() {
               }`}
               title={slide.label}
             >
-              <div className="h-[42px] w-[75px] sm:h-[50px] sm:w-[89px]">
-                <SlideImage
-                  src={slide.imageUrl}
-                  alt={slide.label}
-                  className="h-full w-full"
-                />
+              <div className="relative h-[42px] w-[75px] sm:h-[50px] sm:w-[89px]">
+                {slide.isBlank ? (
+                  <BlankSlidePreview />
+                ) : (
+                  <SlideImage
+                    src={slide.imageUrl}
+                    alt={slide.label}
+                    className="h-full w-full"
+                  />
+                )}
               </div>
               {i === currentIndex && (
                 <div className="absolute inset-x-0 bottom-0 h-0.5 bg-hoxton-turquoise" />
@@ -1,16 +1,19 @@
-export type UserRole = 'system_admin' | 'planner' | 'planner_admin' | 'power_planner'
+export type UserRole = 'system_admin' | 'planner' | 'planner_admin' | 'power_planner' | 'compliance'
 
 export type ProposalStatus = 'draft' | 'pending_approval' | 'approved' | 'rejected' | 'sent'
 
 export type ProductLayout = 'new' | 'old'
 
-export type Category = 'Retirement' | 'Investment' | 'Tax Planning' | 'Estate Planning' | 'Insurance' | 'Services'
+/** Category names come from the categories table */
+export type Category = string
 
 export interface Region {
   id: string
   name: string
   display: string
   introSlides: number
+  /** Inactive regions stay in the catalog so existing proposals still resolve */
+  isActive: boolean
 }
 
 export interface ProductModule {
@@ -20,6 +23,8 @@ export interface ProductModule {
   regions: string[]
   slides: number
   layout: ProductLayout
+  /** Inactive modules stay in the catalog so existing proposals still resolve */
+  isActive: boolean
 }
 
 export interface Profile {
@@ -35,27 +40,133 @@ export interface Profile {
   updated_at: string
 }
 
+/** Extra client data from the client directory, used to autofill slide fields */
+export interface ClientDetails {
+  dob?: string
+  nationality?: string
+  address?: string
+  employer?: string
+  riskProfile?: string
+}
+
+/** Facts pulled out of the call transcript; they feed the transcript autofill variables */
+export interface TranscriptFacts {
+  age?: string
+  pensionValue?: string
+  residency?: string
+  dependants?: string
+}
+
+/** A product module suggested from the call, with why it fits */
+export interface ModuleRecommendation {
+  moduleId: string
+  rationale: string
+}
+
+/** What parse-transcript returned, as edited facts and all */
+export interface AiParsedContext {
+  situation: string
+  objectives: string
+  focus: string
+  /** Best match first; only modules available in the proposal's region */
+  recommendations?: ModuleRecommendation[]
+  facts?: TranscriptFacts
+}
+
+/** Languages a proposal can be written in */
+export type ProposalLocale = 'en' | 'ja' | 'fr'
+
 export interface ProposalDraft {
   hxtNumber: string
   clientName: string
   clientEmail: string
+  clientDetails: ClientDetails
   advisorId: string | null
   regionId: string
+  /** Language of the slides, viewer and AI summary; slides fall back to English */
+  locale: ProposalLocale
   transcript: string
-  aiParsedContext: { situation: string; objectives: string; focus: string } | null
+  aiParsedContext: AiParsedContext | null
   context: { situation: string; objectives: string; focus: string }
   selectedProducts: string[]
+  /** Effective exclusions — inclusion rules plus the adviser's overrides */
   disabledSlides: string[]
+  /** Adviser's explicit choices that win over inclusion rules (true = include) */
+  slideOverrides: SlideOverrides
+  /** Adviser's slide order by slide id; empty = default (intro, context, products, closing) */
+  slideOrder: string[]
+  /** Adviser-uploaded slides that only exist in this proposal */
+  customSlides: CustomSlide[]
   editableFieldsData: EditableFieldsData
+  feeData: FeeData
+}
+
+// ── Slide inclusion rules ──
+
+export type SlideConditionType = 'client_nationality' | 'client_risk_profile' | 'product_selected' | 'fee_present'
+
+export type FeeComponent = 'initial_advice' | 'ongoing' | 'platform_charge' | 'fund_charge'
+
+export interface SlideCondition {
+  type: SlideConditionType
+  /** Matches when any value matches — nationalities, risk profiles, module ids or fee components */
+  values: string[]
+  /** Match when none of the values match */
+  negate?: boolean
+}
+
+/** Attached to intro/product slides; slides without a rule are always included */
+export interface SlideInclusionRule {
+  match: 'all' | 'any'
+  conditions: SlideCondition[]
+}
+
+export type SlideOverrides = Record<string, boolean>
+
+// ── Ad-hoc slides ──
+
+export type CustomSlideKind = 'image' | 'pdf' | 'blank'
+
+/** One-off slide added by the adviser; ids start with `custom-` */
+export interface CustomSlide {
+  id: string
+  kind: CustomSlideKind
+  label: string
+  /** Path in the slides bucket; null for blank slides */
+  imagePath: string | null
+  editableFields: EditableFieldDef[]
+}
+
+// ── Fee structure ──
+
+export type FeeCurrency = 'GBP' | 'USD' | 'EUR' | 'AUD' | 'SGD' | 'HKD' | 'JPY' | 'AED'
+
+/** One tier of a tiered ongoing fee. `upTo` is the band ceiling; null = no ceiling. */
+export interface FeeBand {
+  upTo: number | null
+  percent: number
+}
+
+export interface FeeData {
+  currency: FeeCurrency
+  initialAdviceFee: number | null       // flat amount in `currency`
+  ongoingPercent: number | null         // flat % of AUM p.a. (unused when aumBands set)
+  aumBands: FeeBand[]                   // tiered ongoing fee, ascending by upTo
+  platformChargePercent: number | null  // % p.a.
+  fundChargePercent: number | null      // % p.a. (OCF)
+  notes: string
 }
 
 // ── Editable slide field types ──
 
+/** Variables available to autofill expressions */
 export type AutoFillSource =
   // Client Details
   | 'client_name' | 'client_email' | 'hxt_reference'
   | 'client_dob' | 'client_nationality' | 'client_address'
   | 'client_employer' | 'client_risk_profile'
+  // From the call transcript
+  | 'client_age' | 'client_pension_value' | 'client_residency' | 'client_dependants'
   // Adviser Details
   | 'advisor_name' | 'advisor_email' | 'advisor_phone'
   // Proposal Info
@@ -63,11 +174,13 @@ export type AutoFillSource =
   // AI Summary
   | 'situation' | 'objectives' | 'focus'
 
+export type EditableFieldType = 'text' | 'textarea' | 'table' | 'image' | 'date' | 'currency' | 'checkbox'
+
 export interface EditableFieldDef {
   id: string
   name: string
   label: string
-  type: 'text' | 'textarea' | 'table'
+  type: EditableFieldType
   x: number       // percentage 0-100
   y: number       // percentage 0-100
   width: number   // percentage 0-100
@@ -77,7 +190,18 @@ export interface EditableFieldDef {
   fontWeight: 'normal' | 'medium' | 'semibold' | 'bold'
   color: string   // hex color
   textAlign: 'left' | 'center' | 'right'
-  autoFill?: AutoFillSource
+  /** A variable (`client_name`) or template (`Prepared for {client_name | first_name}`) — see lib/autofill */
+  autoFill?: string
+  /** Textarea only — value uses the markup in lib/rich-text (bold, italic, lists, links) */
+  richText?: boolean
+  /** Shrink-to-fit floor in px; unset means the text never shrinks */
+  minFontSize?: number
+  /** Date only — Intl date style; defaults to 'long' */
+  dateStyle?: 'long' | 'medium' | 'short'
+  /** Currency only — overrides the region's default currency */
+  currency?: FeeCurrency
+  /** Image only — how the upload fills the box; defaults to 'contain' */
+  imageFit?: 'contain' | 'cover'
 }
 
 /** Map of slideId -> { fieldName: value } */
@@ -104,9 +228,12 @@ export interface DbRegion {
 export interface DbIntroPack {
   id: string
   region_id: string
+  locale: ProposalLocale
   name: string
   version: number
   is_active: boolean
+  published_at: string | null
+  published_by: string | null
   created_at: string
   updated_at: string
 }
@@ -119,15 +246,19 @@ export interface DbIntroSlide {
   slide_type: 'static' | 'editable' | 'product_insert' | 'divider'
   image_path: string | null
   editable_fields: EditableFieldDef[]
+  include_rule: SlideInclusionRule | null
   created_at: string
 }
 
 export interface DbClosingPack {
   id: string
   region_id: string
+  locale: ProposalLocale
   name: string
   version: number
   is_active: boolean
+  published_at: string | null
+  published_by: string | null
   created_at: string
   updated_at: string
 }
@@ -161,14 +292,30 @@ export interface DbProductModule {
 export interface DbProductSlide {
   id: string
   module_id: string
+  locale: ProposalLocale
   slide_number: number
   title: string
   slide_type: 'static' | 'editable' | 'fee_structure'
   image_path: string | null
   editable_fields: EditableFieldDef[]
+  include_rule: SlideInclusionRule | null
   created_at: string
 }
 
+export type PackKind = 'intro' | 'closing'
+
+/** Product slide as captured on a proposal at generation time */
+export interface PinnedProductSlide {
+  slide_number: number
+  title: string
+  slide_type: DbProductSlide['slide_type']
+  image_path: string | null
+  editable_fields: EditableFieldDef[]
+}
+
+/** Map of moduleId -> slides pinned on the proposal */
+export type ProductSlidesSnapshot = Record<string, PinnedProductSlide[]>
+
 export interface DbCategory {
   id: string
   name: string
@@ -184,9 +331,13 @@ export type AuditAction =
   | 'module_created' | 'module_updated' | 'module_disabled'
   | 'region_created' | 'region_updated'
   | 'category_created' | 'category_updated' | 'category_deleted'
-  | 'intro_pack_created'
-  | 'closing_pack_created'
-  | 'editable_fields_updated'
+  | 'intro_pack_created' | 'intro_pack_published'
+  | 'closing_pack_created' | 'closing_pack_published'
+  | 'editable_fields_updated' | 'slide_rule_updated'
+  | 'approval_rule_created' | 'approval_rule_updated' | 'approval_rule_deleted'
+  | 'email_template_updated' | 'email_template_deleted'
+  | 'follow_up_settings_updated' | 'engagement_settings_updated'
+  | 'digest_settings_updated'
 
 export interface Proposal {
   id: string
@@ -195,28 +346,142 @@ export interface Proposal {
   client_name: string
   client_email?: string
   hxt_reference?: string
+  client_details?: ClientDetails | null
   region_id: string
+  locale?: ProposalLocale
   intro_pack_id?: string
+  closing_pack_id?: string
+  product_slides_snapshot?: ProductSlidesSnapshot | null
+  templates_pinned_at?: string
   selected_products: string[]
   summary_context: ProposalContext
-  fee_data: Record<string, unknown>
+  fee_data: Partial<FeeData>
   status: ProposalStatus
   transcript_text?: string
   ai_parsed_context?: Record<string, unknown>
   pdf_path?: string
   editable_fields_data?: Record<string, Record<string, string>>
   disabled_slides?: string[]
+  slide_overrides?: SlideOverrides | null
+  slide_order?: string[] | null
+  custom_slides?: CustomSlide[] | null
   pdf_generated_at?: string
+  pptx_path?: string
+  pptx_generated_at?: string
   viewer_token?: string
   sent_at?: string
   approval_notes?: string
   approved_by?: string
+  approval_round?: number
+  /** Automated follow-up reminders for this proposal's links */
+  follow_ups_enabled?: boolean
+  created_at: string
+  updated_at: string
+}
+
+// ── Approval workflow ──
+
+export interface ApprovalRule {
+  id: string
+  name: string
+  description: string | null
+  /** Conditions — the rule applies when any configured one matches */
+  product_modules: string[]
+  min_initial_fee: number | null
+  min_ongoing_percent: number | null
+  author_roles: UserRole[]
+  /** Ordered sign-offs, e.g. ['compliance', 'planner_admin'] */
+  approver_roles: UserRole[]
+  is_active: boolean
+  sort_order: number
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type ApprovalStepStatus = 'pending' | 'approved' | 'rejected'
+
+export interface ProposalApprovalStep {
+  id: string
+  proposal_id: string
+  round: number
+  step_order: number
+  approver_role: UserRole
+  required_by: string[]
+  status: ApprovalStepStatus
+  notes: string | null
+  decided_by: string | null
+  decided_at: string | null
+  created_at: string
+}
+
+// ── Review comments ──
+
+export interface ProposalComment {
+  id: string
+  proposal_id: string
+  /** Builder slide id, e.g. 'intro-2' or 'product-sipp-intl-3' */
+  slide_id: string
+  /** Editable field the comment is pinned to; null for the whole slide */
+  field_name: string | null
+  /** Root comment of the thread, for replies */
+  parent_id: string | null
+  body: string
+  author_id: string
+  resolved_at: string | null
+  resolved_by: string | null
   created_at: string
   updated_at: string
+  author?: { full_name: string } | null
+}
+
+/** A root comment with its replies, oldest first */
+export interface CommentThread {
+  root: ProposalComment
+  replies: ProposalComment[]
+}
+
+// ── Revisions ──
+
+export type RevisionReason = 'saved' | 'generated' | 'restored'
+
+/** Immutable snapshot of a proposal's content, written on every save / PDF generation */
+export interface ProposalRevision {
+  id: string
+  proposal_id: string
+  revision_number: number
+  reason: RevisionReason
+  restored_from: string | null
+  summary_context: ProposalContext | null
+  selected_products: string[]
+  disabled_slides: string[]
+  editable_fields_data: Record<string, Record<string, string>>
+  fee_data: Partial<FeeData> | null
+  pdf_path: string | null
+  created_by: string | null
+  created_at: string
+  author?: { full_name: string } | null
 }
 
 // ── Proposal Tracking ──
 
+/** sent: accepted by the mail provider · logged: no provider configured (console fallback) */
+export type EmailStatus = 'sent' | 'logged' | 'failed'
+
+export type EmailTemplateKind = 'proposal_invite' | 'follow_up_reminder'
+
+export interface EmailTemplate {
+  id: string
+  kind: EmailTemplateKind
+  /** Null for the default template */
+  region_id: string | null
+  subject: string
+  body: string
+  updated_by: string | null
+  created_at: string
+  updated_at: string
+}
+
 export interface ProposalLink {
   id: string
   proposal_id: string
@@ -229,6 +494,11 @@ export interface ProposalLink {
   sent_at: string
   sent_by: string
   created_at: string
+  /** Last email delivery — null when the link was only copied, never emailed */
+  email_status: EmailStatus | null
+  email_sent_at: string | null
+  email_error: string | null
+  email_send_count: number
   // Joined fields (not in table)
   view_count?: number
   last_viewed_at?: string | null
@@ -246,6 +516,8 @@ export interface LinkView {
   session_id: string | null
   started_at: string
   ended_at: string | null
+  /** Deck size when the view started (null for views recorded before it was tracked) */
+  total_slides: number | null
 }
 
 export interface SlideAnalytic {
@@ -254,6 +526,8 @@ export interface SlideAnalytic {
   link_id: string
   slide_index: number
   slide_title: string | null
+  /** Draft slide id (e.g. `product-pension-2`); null on rows recorded before it was tracked */
+  slide_id: string | null
   time_entered: string
   time_exited: string | null
   duration_seconds: number | null
@@ -270,3 +544,96 @@ export interface LinkOtp {
   session_expires_at: string | null
   created_at: string
 }
+
+// ── Follow-up reminders ──
+
+export type FollowUpReason = 'unopened' | 'low_completion'
+
+/** Single-row schedule for the send-follow-up-reminders job */
+export interface FollowUpSettings {
+  enabled: boolean
+  unopened_after_days: number
+  low_completion_after_days: number
+  repeat_every_days: number
+  max_reminders: number
+  email_client: boolean
+  notify_adviser: boolean
+  updated_by: string | null
+  updated_at: string
+}
+
+export interface ProposalFollowUp {
+  id: string
+  link_id: string
+  proposal_id: string
+  reason: FollowUpReason
+  /** Best completion across the link's views when the reminder went out */
+  completion_percent: number | null
+  /** Null when the client wasn't emailed */
+  email_status: EmailStatus | null
+  adviser_notified: boolean
+  created_at: string
+}
+
+// ── Engagement scoring ──
+
+/** Single-row weights for proposal engagement scores; each weight is 0-10 */
+export interface EngagementSettings {
+  recency_weight: number
+  repeat_visits_weight: number
+  fee_time_weight: number
+  product_time_weight: number
+  completion_weight: number
+  download_weight: number
+  new_device_weight: number
+  /** A view older than this no longer counts towards recency */
+  recency_window_days: number
+  updated_by: string | null
+  updated_at: string
+}
+
+export type EngagementSignal = 'recency' | 'repeat_visits' | 'fee_time' | 'product_time' | 'completion' | 'download' | 'new_device'
+
+export interface EngagementScore {
+  proposalId: string
+  /** 0-100 */
+  score: number
+  /** Each signal's strength, 0-1, before weighting */
+  signals: Record<EngagementSignal, number>
+  lastViewedAt: string | null
+  visits: number
+  feeSeconds: number
+  productSeconds: number
+  /** Best single-visit completion, 0-100 */
+  completion: number
+  downloaded: boolean
+  newDevice: boolean
+}
+
+// ── Analytics digests ──
+
+/** Single-row schedule for the send-analytics-digests job */
+export interface DigestSettings {
+  enabled: boolean
+  /** Days between digests for the same person (7 = weekly) */
+  every_days: number
+  adviser_digest: boolean
+  team_digest: boolean
+  stale_draft_days: number
+  expiring_within_days: number
+  updated_by: string | null
+  updated_at: string
+}
+
+export type DigestKind = 'adviser' | 'team'
+
+export interface DigestRun {
+  id: string
+  recipient_id: string
+  kind: DigestKind
+  period_start: string
+  period_end: string
+  email_status: EmailStatus
+  summary: Record<string, unknown>
+  created_at: string
+}
@@ -0,0 +1,265 @@
+/**
+ * Rendering for the analytics digests sent by send-analytics-digests: one per
+ * adviser covering their own proposals, and a team version for planner admins.
+ * Each comes as HTML plus a plain-text alternative.
+ */
+
+import { emailLayout, escapeHtml } from "./mail.ts"
+
+export interface ProposalCount {
+  clientName: string
+  count: number
+}
+
+export interface AdviserDigest {
+  /** Proposals the client opened in the period, with the number of opens */
+  opened: ProposalCount[]
+  downloads: ProposalCount[]
+  approved: string[]
+  rejected: string[]
+  /** Proposals still waiting on sign-off (not limited to the period) */
+  pendingApproval: number
+  staleDrafts: { clientName: string; updatedAt: string }[]
+  expiringLinks: { clientName: string; recipientName: string; expiresAt: string }[]
+}
+
+export interface DigestPeriod {
+  start: Date
+  end: Date
+}
+
+export interface RenderedDigest {
+  subject: string
+  html: string
+  text: string
+}
+
+// Longer lists are cut short with "and N more"
+const MAX_LIST_ITEMS = 5
+
+export function emptyDigest(): AdviserDigest {
+  return { opened: [], downloads: [], approved: [], rejected: [], pendingApproval: 0, staleDrafts: [], expiringLinks: [] }
+}
+
+export function isEmptyDigest(d: AdviserDigest): boolean {
+  return (
+    d.opened.length === 0 && d.downloads.length === 0 && d.approved.length === 0 &&
+    d.rejected.length === 0 && d.pendingApproval === 0 && d.staleDrafts.length === 0 &&
+    d.expiringLinks.length === 0
+  )
+}
+
+function sum(items: ProposalCount[]): number {
+  return items.reduce((total, i) => total + i.count, 0)
+}
+
+function shortDate(date: Date | string): string {
+  return new Date(date).toLocaleDateString("en-GB", { day: "numeric", month: "short" })
+}
+
+function periodLabel(period: DigestPeriod): string {
+  return `${shortDate(period.start)} – ${shortDate(period.end)}`
+}
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? "" : "s"}`
+}
+
+/* ── Building blocks ── */
+
+interface Section {
+  title: string
+  lines: string[]
+}
+
+function adviserSections(d: AdviserDigest): Section[] {
+  const sections: Section[] = [
+    {
+      title: "Opened by clients",
+      lines: d.opened.map((p) => `${p.clientName} (${plural(p.count, "visit")})`),
+    },
+    {
+      title: "PDF downloads",
+      lines: d.downloads.map((p) => `${p.clientName}${p.count > 1 ? ` (${p.count}×)` : ""}`),
+    },
+    {
+      title: "Approval decisions",
+      lines: [
+        ...d.approved.map((name) => `${name} — approved`),
+        ...d.rejected.map((name) => `${name} — changes requested`),
+        ...(d.pendingApproval > 0 ? [`${plural(d.pendingApproval, "proposal")} still awaiting approval`] : []),
+      ],
+    },
+    {
+      title: "Stale drafts",
+      lines: d.staleDrafts.map((p) => `${p.clientName} — last edited ${shortDate(p.updatedAt)}`),
+    },
+    {
+      title: "Links expiring soon",
+      lines: d.expiringLinks.map((l) => `${l.clientName} (${l.recipientName}) — expires ${shortDate(l.expiresAt)}`),
+    },
+  ]
+  return sections.filter((s) => s.lines.length > 0)
+}
+
+function truncate(lines: string[]): string[] {
+  if (lines.length <= MAX_LIST_ITEMS) return lines
+  return [...lines.slice(0, MAX_LIST_ITEMS), `and ${lines.length - MAX_LIST_ITEMS} more`]
+}
+
+function htmlHeading(title: string, subtitle: string): string {
+  return `
+          <h1 style="margin:0 0 4px;font-size:20px;color:#033839;">${escapeHtml(title)}</h1>
+          <p style="margin:0 0 24px;font-size:13px;color:#527C7E;">${escapeHtml(subtitle)}</p>`
+}
+
+function htmlStats(stats: { label: string; value: number }[]): string {
+  const cells = stats
+    .map(
+      (s) => `
+              <td align="center" style="padding:12px 4px;background:#f0f7f6;border-radius:8px;">
+                <div style="font-size:22px;font-weight:700;color:#033839;">${s.value}</div>
+                <div style="font-size:11px;color:#527C7E;text-transform:uppercase;letter-spacing:0.5px;">${escapeHtml(s.label)}</div>
+              </td>`
+    )
+    .join(`
+              <td width="8"></td>`)
+  return `
+          <table width="100%" cellpadding="0" cellspacing="0" style="margin:0 0 24px;">
+            <tr>${cells}
+            </tr>
+          </table>`
+}
+
+function htmlSection(section: Section): string {
+  const items = truncate(section.lines)
+    .map((line) => `<li style="margin:0 0 4px;">${escapeHtml(line)}</li>`)
+    .join("")
+  return `
+          <h2 style="margin:0 0 8px;font-size:13px;color:#527C7E;text-transform:uppercase;letter-spacing:0.5px;">${escapeHtml(section.title)}</h2>
+          <ul style="margin:0 0 20px;padding-left:18px;font-size:14px;color:#033839;line-height:1.5;">${items}</ul>`
+}
+
+function htmlButton(appUrl: string): string {
+  return `
+          <div style="text-align:center;margin:28px 0 12px;">
+            <a href="${escapeHtml(appUrl)}" style="display:inline-block;background:#1AB0C4;color:#ffffff;text-decoration:none;font-size:15px;font-weight:600;padding:14px 28px;border-radius:8px;">Open your dashboard</a>
+          </div>`
+}
+
+function textSection(section: Section): string {
+  return [section.title.toUpperCase(), ...truncate(section.lines).map((line) => `- ${line}`)].join("\n")
+}
+
+/* ── Adviser digest ── */
+
+export function renderAdviserDigest(
+  adviserName: string,
+  period: DigestPeriod,
+  digest: AdviserDigest,
+  appUrl: string,
+): RenderedDigest {
+  const firstName = adviserName.split(" ")[0] || adviserName
+  const stats = [
+    { label: "Opens", value: sum(digest.opened) },
+    { label: "Downloads", value: sum(digest.downloads) },
+    { label: "Approved", value: digest.approved.length },
+    { label: "Expiring", value: digest.expiringLinks.length },
+  ]
+  const sections = adviserSections(digest)
+  const subtitle = `${firstName}, here's what happened with your proposals, ${periodLabel(period)}.`
+
+  const html = emailLayout(`
+          ${htmlHeading("Your proposal digest", subtitle)}
+          ${htmlStats(stats)}
+          ${sections.map(htmlSection).join("")}
+          ${appUrl ? htmlButton(appUrl) : ""}`)
+
+  const text = [
+    `Your proposal digest`,
+    subtitle,
+    stats.map((s) => `${s.label}: ${s.value}`).join(" | "),
+    ...sections.map(textSection),
+    ...(appUrl ? [`Open your dashboard: ${appUrl}`] : []),
+  ].join("\n\n")
+
+  return {
+    subject: `Your proposal digest: ${plural(sum(digest.opened), "open")}, ${plural(sum(digest.downloads), "download")}`,
+    html,
+    text,
+  }
+}
+
+/* ── Team digest ── */
+
+export function renderTeamDigest(
+  managerName: string,
+  period: DigestPeriod,
+  team: { adviserName: string; digest: AdviserDigest }[],
+  appUrl: string,
+): RenderedDigest {
+  const firstName = managerName.split(" ")[0] || managerName
+  const rows = team.map(({ adviserName, digest }) => ({
+    adviserName,
+    opens: sum(digest.opened),
+    downloads: sum(digest.downloads),
+    approvals: digest.approved.length + digest.rejected.length,
+    pending: digest.pendingApproval,
+    stale: digest.staleDrafts.length,
+    expiring: digest.expiringLinks.length,
+  }))
+  const total = (key: Exclude<keyof (typeof rows)[number], "adviserName">) =>
+    rows.reduce((n, r) => n + r[key], 0)
+
+  const stats = [
+    { label: "Opens", value: total("opens") },
+    { label: "Downloads", value: total("downloads") },
+    { label: "Pending", value: total("pending") },
+    { label: "Stale drafts", value: total("stale") },
+  ]
+  const subtitle = `${firstName}, here's how your team's proposals did, ${periodLabel(period)}.`
+  const columns = ["Opens", "Downloads", "Decisions", "Pending", "Stale", "Expiring"]
+
+  const headerCells = columns
+    .map((c) => `<th align="right" style="padding:6px 4px;font-size:10px;color:#527C7E;text-transform:uppercase;">${c}</th>`)
+    .join("")
+  const bodyRows = rows
+    .map(
+      (r) => `
+            <tr style="border-top:1px solid #D7E5E3;">
+              <td style="padding:8px 4px;font-size:13px;color:#033839;">${escapeHtml(r.adviserName)}</td>
+              ${[r.opens, r.downloads, r.approvals, r.pending, r.stale, r.expiring]
+                .map((v) => `<td align="right" style="padding:8px 4px;font-size:13px;color:#033839;">${v}</td>`)
+                .join("")}
+            </tr>`
+    )
+    .join("")
+
+  const html = emailLayout(`
+          ${htmlHeading("Team proposal digest", subtitle)}
+          ${htmlStats(stats)}
+          <table width="100%" cellpadding="0" cellspacing="0" style="margin:0 0 20px;border-collapse:collapse;">
+            <tr><th align="left" style="padding:6px 4px;font-size:10px;color:#527C7E;text-transform:uppercase;">Adviser</th>${headerCells}</tr>${bodyRows}
+          </table>
+          ${appUrl ? htmlButton(appUrl) : ""}`)
+
+  const text = [
+    `Team proposal digest`,
+    subtitle,
+    stats.map((s) => `${s.label}: ${s.value}`).join(" | "),
+    rows
+      .map(
+        (r) =>
+          `${r.adviserName}: ${plural(r.opens, "open")}, ${plural(r.downloads, "download")}, ` +
+          `${plural(r.approvals, "decision")}, ${r.pending} pending, ${r.stale} stale, ${r.expiring} expiring`,
+      )
+      .join("\n"),
+    ...(appUrl ? [`Open your dashboard: ${appUrl}`] : []),
+  ].join("\n\n")
+
+  return {
+    subject: `Team proposal digest: ${plural(total("opens"), "open")} across ${plural(rows.length, "adviser")}`,
+    html,
+    text,
+  }
+}
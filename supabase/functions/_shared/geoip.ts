@@ -0,0 +1,55 @@
+/**
+ * Country lookup against a local MaxMind-format database (e.g. GeoLite2-Country).
+ * The file is read from GEOIP_DB_PATH, or GeoLite2-Country.mmdb next to this
+ * module. Without it every lookup returns null — analytics still record, just
+ * without a country.
+ */
+
+import { Buffer } from "node:buffer"
+import { Reader, type CountryResponse } from "npm:mmdb-lib@2"
+
+const DB_PATH =
+  Deno.env.get("GEOIP_DB_PATH") ??
+  new URL("./GeoLite2-Country.mmdb", import.meta.url).pathname
+
+// undefined = not loaded yet, null = unavailable
+let reader: Reader<CountryResponse> | null | undefined
+
+async function getReader(): Promise<Reader<CountryResponse> | null> {
+  if (reader !== undefined) return reader
+  try {
+    const file = await Deno.readFile(DB_PATH)
+    reader = new Reader<CountryResponse>(Buffer.from(file))
+  } catch (err) {
+    console.warn(`[geoip] No database at ${DB_PATH} — countries will be left empty:`, String(err))
+    reader = null
+  }
+  return reader
+}
+
+/**
+ * The caller's IP from the proxy headers Supabase sets. The browser can send its own
+ * X-Forwarded-For, and proxies append to it, so only the last hop was written by our
+ * edge — the headers the edge sets outright are preferred, and the first XFF entry is
+ * never trusted.
+ */
+export function clientIp(req: Request): string | null {
+  const direct = req.headers.get("cf-connecting-ip") ?? req.headers.get("x-real-ip")
+  if (direct?.trim()) return direct.trim()
+  const hops = req.headers.get("x-forwarded-for")?.split(",")
+  return hops?.[hops.length - 1].trim() || null
+}
+
+/** ISO 3166 country code for an IP, or null when unknown */
+export async function lookupCountry(ip: string | null): Promise<string | null> {
+  if (!ip) return null
+  const db = await getReader()
+  if (!db) return null
+  try {
+    const result = db.get(ip)
+    return result?.country?.iso_code ?? result?.registered_country?.iso_code ?? null
+  } catch {
+    // Malformed address
+    return null
+  }
+}
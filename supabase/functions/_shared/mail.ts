@@ -0,0 +1,104 @@
+/**
+ * Mail provider shared by the edge functions. Sends through Resend when
+ * RESEND_API_KEY is set; otherwise (and on provider errors) the message is
+ * logged to the console so local setups keep working.
+ */
+
+export type MailStatus = "sent" | "logged" | "failed"
+
+export interface MailResult {
+  status: MailStatus
+  providerId?: string
+  error?: string
+}
+
+interface MailMessage {
+  to: string
+  subject: string
+  html: string
+  /** Plain-text alternative for clients that don't render HTML */
+  text?: string
+  replyTo?: string
+  /** What to print when falling back to the console (e.g. the OTP code or link) */
+  fallbackLog: string
+}
+
+const FROM_ADDRESS = "Hoxton Wealth <proposals@notifications.hoxtonwealth.com>"
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
+
+/** Branded wrapper used by every transactional email */
+export function emailLayout(content: string): string {
+  return `
+<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"></head>
+<body style="margin:0;padding:0;background:#f0f7f6;font-family:'Helvetica Neue',Helvetica,Arial,sans-serif;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background:#f0f7f6;padding:40px 20px;">
+    <tr><td align="center">
+      <table width="480" cellpadding="0" cellspacing="0" style="background:#ffffff;border-radius:12px;overflow:hidden;">
+        <tr><td style="background:#033839;padding:28px 32px;text-align:center;">
+          <img src="https://www.hoxtonwealth.com/wp-content/themes/developer/assets/img/hoxton-wealth-logo.svg" alt="Hoxton Wealth" height="32" style="height:32px;" />
+        </td></tr>
+        <tr><td style="padding:36px 32px 16px;">
+          ${content}
+        </td></tr>
+        <tr><td style="padding:20px 32px 28px;border-top:1px solid #D7E5E3;">
+          <p style="margin:0;font-size:12px;color:#527C7E;text-align:center;">
+            Hoxton Wealth &mdash; Trusted financial advice, worldwide.
+          </p>
+        </td></tr>
+      </table>
+    </td></tr>
+  </table>
+</body>
+</html>`
+}
+
+export async function sendEmail(message: MailMessage): Promise<MailResult> {
+  const resendApiKey = Deno.env.get("RESEND_API_KEY")
+
+  if (!resendApiKey) {
+    console.log(`[MAIL FALLBACK] To ${message.to}: ${message.fallbackLog}`)
+    return { status: "logged" }
+  }
+
+  try {
+    const res = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${resendApiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: FROM_ADDRESS,
+        to: [message.to],
+        subject: message.subject,
+        html: message.html,
+        ...(message.text ? { text: message.text } : {}),
+        ...(message.replyTo ? { reply_to: message.replyTo } : {}),
+      }),
+    })
+
+    if (!res.ok) {
+      const err = await res.text()
+      console.error(`Resend API error: ${res.status} ${err}`)
+      console.log(`[MAIL FALLBACK] To ${message.to}: ${message.fallbackLog}`)
+      return { status: "failed", error: `Mail provider returned ${res.status}` }
+    }
+
+    const data = await res.json().catch(() => null)
+    return { status: "sent", providerId: data?.id }
+  } catch (err) {
+    console.error("Email send failed:", err)
+    console.log(`[MAIL FALLBACK] To ${message.to}: ${message.fallbackLog}`)
+    return { status: "failed", error: err instanceof Error ? err.message : "Email send failed" }
+  }
+}
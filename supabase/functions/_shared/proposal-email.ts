@@ -0,0 +1,82 @@
+/**
+ * Template rendering for emails that carry a proposal link (the initial invite
+ * and follow-up reminders). Templates live in email_templates per region, with
+ * a default row (region_id null) as the fallback.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { emailLayout, escapeHtml } from "./mail.ts"
+
+export type ProposalEmailKind = "proposal_invite" | "follow_up_reminder"
+
+interface EmailTemplate {
+  subject: string
+  body: string
+}
+
+// Used when no template row exists at all (kept in step with the seeded defaults)
+const FALLBACK_TEMPLATES: Record<ProposalEmailKind, EmailTemplate> = {
+  proposal_invite: {
+    subject: "Your Hoxton Wealth proposal, {{client_name}}",
+    body:
+      "Dear {{recipient_name}},\n\nYour personalised proposal is ready to view using the button below.\n\n" +
+      "This link is valid until {{expiry_date}}.\n\nKind regards,\n{{adviser_name}}",
+  },
+  follow_up_reminder: {
+    subject: "A reminder about your Hoxton Wealth proposal",
+    body:
+      "Dear {{recipient_name}},\n\nJust a reminder that your proposal is ready to view using the button below.\n\n" +
+      "This link is valid until {{expiry_date}}.\n\nKind regards,\n{{adviser_name}}",
+  },
+}
+
+/** Replace {{field}} placeholders; unknown fields are left as-is so typos are visible */
+export function mergeFields(text: string, values: Record<string, string>): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match)
+}
+
+export function renderBody(body: string, values: Record<string, string>, link: string): string {
+  const paragraphs = mergeFields(body, values)
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .map(
+      (p) =>
+        `<p style="margin:0 0 16px;font-size:15px;color:#033839;line-height:1.6;">${escapeHtml(p).replace(/\n/g, "<br />")}</p>`
+    )
+    .join("\n          ")
+
+  return emailLayout(`
+          ${paragraphs}
+          <div style="text-align:center;margin:28px 0 12px;">
+            <a href="${escapeHtml(link)}" style="display:inline-block;background:#1AB0C4;color:#ffffff;text-decoration:none;font-size:15px;font-weight:600;padding:14px 28px;border-radius:8px;">View your proposal</a>
+          </div>`)
+}
+
+export function formatExpiry(expiresAt: string | null): string {
+  if (!expiresAt) return "further notice"
+  return new Date(expiresAt).toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  })
+}
+
+/** Region template first, then the default, then the hardcoded fallback */
+export async function loadTemplate(
+  supabase: SupabaseClient,
+  kind: ProposalEmailKind,
+  regionId: string,
+): Promise<EmailTemplate> {
+  const { data: templates } = await supabase
+    .from("email_templates")
+    .select("region_id, subject, body")
+    .eq("kind", kind)
+    .or(`region_id.eq.${regionId},region_id.is.null`)
+
+  return (
+    templates?.find((t) => t.region_id === regionId) ??
+    templates?.find((t) => t.region_id === null) ??
+    FALLBACK_TEMPLATES[kind]
+  )
+}
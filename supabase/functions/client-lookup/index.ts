@@ -0,0 +1,110 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  })
+}
+
+function readPath(obj: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>(
+    (acc, key) => (acc && typeof acc === "object" ? (acc as Record<string, unknown>)[key] : undefined),
+    obj,
+  )
+}
+
+// Proxies the proposal wizard's client lookup to the client management system so its
+// credential stays server-side. Records are returned as the API sends them; the browser
+// maps fields (VITE_CLIENT_API_FIELD_MAP).
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders })
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, 405)
+    }
+
+    // ── Auth: verify caller is logged in ──
+
+    const authHeader = req.headers.get("Authorization")
+    if (!authHeader) {
+      return jsonResponse({ error: "Missing authorization" }, 401)
+    }
+
+    const supabaseAuth = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { global: { headers: { Authorization: authHeader } } },
+    )
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseAuth.auth.getUser()
+
+    if (authError || !user) {
+      console.error("[client-lookup] Auth failed:", authError?.message)
+      return jsonResponse({ error: "Unauthorized" }, 401)
+    }
+
+    // ── Upstream config ──
+
+    const baseUrl = Deno.env.get("CLIENT_API_URL")?.replace(/\/+$/, "")
+    if (!baseUrl) {
+      console.error("[client-lookup] CLIENT_API_URL is not set")
+      return jsonResponse({ error: "Client lookup is not configured" }, 503)
+    }
+
+    const authValue = Deno.env.get("CLIENT_API_AUTH_VALUE")
+    const headers: Record<string, string> = { Accept: "application/json" }
+    if (authValue) headers[Deno.env.get("CLIENT_API_AUTH_HEADER") || "Authorization"] = authValue
+
+    // ── Parse body ──
+
+    const { hxtNumber, query } = await req.json()
+
+    let path: string
+    if (typeof hxtNumber === "string" && hxtNumber.trim()) {
+      path = (Deno.env.get("CLIENT_API_LOOKUP_PATH") || "/clients/{hxtNumber}")
+        .replace("{hxtNumber}", encodeURIComponent(hxtNumber.trim()))
+    } else if (typeof query === "string" && query.trim()) {
+      path = (Deno.env.get("CLIENT_API_SEARCH_PATH") || "/clients?name={query}")
+        .replace("{query}", encodeURIComponent(query.trim()))
+    } else {
+      return jsonResponse({ error: "hxtNumber or query is required" }, 400)
+    }
+
+    // ── Upstream request ──
+
+    const res = await fetch(`${baseUrl}${path}`, { headers })
+
+    if (res.status === 404) {
+      return jsonResponse(hxtNumber ? { client: null } : { clients: [] })
+    }
+    if (!res.ok) {
+      console.error(`[client-lookup] Client API returned ${res.status}`)
+      return jsonResponse({ error: "Client directory request failed" }, 502)
+    }
+
+    const body = await res.json()
+    if (hxtNumber) {
+      return jsonResponse({ client: body })
+    }
+
+    const resultsKey = Deno.env.get("CLIENT_API_RESULTS_KEY")
+    const rows = resultsKey ? readPath(body, resultsKey) : body
+    return jsonResponse({ clients: Array.isArray(rows) ? rows : [] })
+  } catch (err) {
+    console.error("[client-lookup] Error:", err)
+    return jsonResponse({ error: "Internal server error" }, 500)
+  }
+})
@@ -13,6 +13,14 @@ function jsonResponse(body: unknown, status = 200) {
   })
 }
 
+const LOCALES = ["en", "ja", "fr"]
+
+// Locales to try, most preferred first — English slides stand in for missing translations
+function localeFallbacks(locale: string, fallback: boolean): string[] {
+  if (!fallback || locale === "en") return [locale]
+  return [locale, "en"]
+}
+
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response("ok", { headers: corsHeaders })
@@ -55,13 +63,20 @@ Deno.serve(async (req) => {
     // ── Parse body ──
 
     const body = await req.json()
-    const { slideType, parentId } = body
+    // proposalId (optional) resolves the pack version / product snapshot the proposal is pinned to.
+    // locale picks product slides; admin screens pass fallback: false to edit one translation.
+    const { slideType, parentId, proposalId, fallback = true } = body
+    let locale: string = body.locale ?? "en"
+
+    if (!LOCALES.includes(locale)) {
+      return jsonResponse({ error: `locale must be one of ${LOCALES.join(", ")}` }, 400)
+    }
 
     if (!slideType || !["intro", "product", "closing"].includes(slideType)) {
       return jsonResponse({ error: "slideType must be 'intro', 'product', or 'closing'" }, 400)
     }
 
-    if (!parentId) {
+    if (!parentId && !(proposalId && slideType !== "product")) {
       return jsonResponse({ error: "parentId is required" }, 400)
     }
 
@@ -77,23 +92,96 @@ Deno.serve(async (req) => {
     }
     const table = tableMap[slideType]
     const parentKey = parentKeyMap[slideType]
+    let resolvedParentId = parentId
+
+    // ── Pinned version ──
+
+    if (proposalId) {
+      const { data: proposal, error: proposalError } = await supabase
+        .from("proposals")
+        .select("region_id, locale, intro_pack_id, closing_pack_id, product_slides_snapshot")
+        .eq("id", proposalId)
+        .maybeSingle()
+
+      if (proposalError) {
+        console.error(`[get-slide-fields] Proposal lookup error:`, proposalError)
+        return jsonResponse({ error: proposalError.message }, 500)
+      }
+      if (!proposal) {
+        return jsonResponse({ error: "Proposal not found" }, 404)
+      }
+      locale = proposal.locale ?? locale
+
+      if (slideType === "product") {
+        const pinnedSlides = proposal.product_slides_snapshot?.[parentId]
+        if (Array.isArray(pinnedSlides)) {
+          console.log(`[get-slide-fields] Returned ${pinnedSlides.length} pinned slides for module_id=${parentId}, proposal=${proposalId}`)
+          return jsonResponse({ slides: pinnedSlides, pinned: true })
+        }
+      } else {
+        const packTable = slideType === "intro" ? "intro_packs" : "closing_packs"
+        const pinnedPackId = slideType === "intro" ? proposal.intro_pack_id : proposal.closing_pack_id
+
+        if (pinnedPackId) {
+          resolvedParentId = pinnedPackId
+        } else if (!resolvedParentId) {
+          // A translation without slides yet falls through to the English pack
+          let activePackId: string | null = null
+          for (const candidate of localeFallbacks(locale, true)) {
+            const { data: activePack } = await supabase
+              .from(packTable)
+              .select("id")
+              .eq("region_id", proposal.region_id)
+              .eq("locale", candidate)
+              .eq("is_active", true)
+              .maybeSingle()
+            if (!activePack) continue
+
+            const { count } = await supabase
+              .from(table)
+              .select("id", { count: "exact", head: true })
+              .eq(parentKey, activePack.id)
+            if ((count ?? 0) > 0 || candidate === "en") {
+              activePackId = activePack.id
+              break
+            }
+          }
+
+          if (!activePackId) {
+            return jsonResponse({ slides: [] })
+          }
+          resolvedParentId = activePackId
+        }
+      }
+    }
 
     // ── Query ──
 
-    const { data: slides, error } = await supabase
+    let query = supabase
       .from(table)
       .select("*")
-      .eq(parentKey, parentId)
-      .order("slide_number")
+      .eq(parentKey, resolvedParentId)
+    if (slideType === "product") {
+      query = query.in("locale", localeFallbacks(locale, fallback))
+    }
+    const { data: rows, error } = await query.order("slide_number")
 
     if (error) {
       console.error(`[get-slide-fields] SELECT error:`, error)
       return jsonResponse({ error: error.message }, 500)
     }
 
-    console.log(`[get-slide-fields] Returned ${(slides || []).length} slides from ${table} for ${parentKey}=${parentId}`)
+    // Product slides: the translation if the module has one, otherwise English
+    let slides = rows || []
+    if (slideType === "product") {
+      const usedLocale = localeFallbacks(locale, fallback)
+        .find((l) => slides.some((s: { locale: string }) => s.locale === l))
+      slides = slides.filter((s: { locale: string }) => s.locale === usedLocale)
+    }
+
+    console.log(`[get-slide-fields] Returned ${slides.length} slides from ${table} for ${parentKey}=${resolvedParentId}, locale=${locale}`)
 
-    return jsonResponse({ slides: slides || [] })
+    return jsonResponse({ slides })
   } catch (err) {
     console.error("[get-slide-fields] Exception:", err)
     return jsonResponse({ error: String(err) }, 500)
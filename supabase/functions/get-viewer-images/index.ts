@@ -0,0 +1,122 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  })
+}
+
+const ADHOC_BUCKET = "adhoc-slides"
+const SIGNED_URL_SECONDS = 3600
+
+function isAdhocPath(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith("adhoc/")
+}
+
+// Signed URLs for the adviser's uploads (ad-hoc slides and image fields) on a shared
+// proposal. The bucket is private, so the viewer gets them here once its OTP session
+// checks out, the same way get-proposal-pdf hands out the PDF.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders })
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405)
+  }
+
+  try {
+    const { token, session_token } = await req.json()
+
+    if (!token || !session_token) {
+      return jsonResponse({ error: "Token and session_token required" }, 400)
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    )
+
+    // Look up the link
+    const { data: link, error: linkErr } = await supabaseAdmin
+      .from("proposal_links")
+      .select("id, proposal_id, is_active, expires_at")
+      .eq("token", token)
+      .single()
+
+    if (linkErr || !link) {
+      return jsonResponse({ error: "Invalid link" }, 404)
+    }
+
+    if (!link.is_active) {
+      return jsonResponse({ error: "Link has been revoked" }, 403)
+    }
+
+    if (link.expires_at && new Date(link.expires_at) < new Date()) {
+      return jsonResponse({ error: "Link has expired" }, 403)
+    }
+
+    // Validate session token
+    const { data: otp } = await supabaseAdmin
+      .from("link_otps")
+      .select("session_expires_at")
+      .eq("link_id", link.id)
+      .eq("session_token", session_token)
+      .eq("is_used", true)
+      .gte("session_expires_at", new Date().toISOString())
+      .limit(1)
+      .single()
+
+    if (!otp) {
+      return jsonResponse({ error: "Invalid or expired session" }, 401)
+    }
+
+    // Only paths the proposal itself uses are signed
+    const { data: proposal } = await supabaseAdmin
+      .from("proposals")
+      .select("custom_slides, editable_fields_data")
+      .eq("id", link.proposal_id)
+      .single()
+
+    const paths = new Set<string>()
+    for (const slide of proposal?.custom_slides ?? []) {
+      if (isAdhocPath(slide?.imagePath)) paths.add(slide.imagePath)
+    }
+    for (const values of Object.values(proposal?.editable_fields_data ?? {})) {
+      for (const value of Object.values((values ?? {}) as Record<string, unknown>)) {
+        if (isAdhocPath(value)) paths.add(value)
+      }
+    }
+
+    if (paths.size === 0) {
+      return jsonResponse({ urls: {} })
+    }
+
+    const { data: signed, error: signErr } = await supabaseAdmin.storage
+      .from(ADHOC_BUCKET)
+      .createSignedUrls([...paths], SIGNED_URL_SECONDS)
+
+    if (signErr) {
+      console.error("[get-viewer-images] Signed URL error:", signErr)
+      return jsonResponse({ error: "Failed to sign images" }, 500)
+    }
+
+    const urls: Record<string, string> = {}
+    for (const item of signed ?? []) {
+      if (item.path && item.signedUrl) urls[item.path] = item.signedUrl
+    }
+
+    return jsonResponse({ urls })
+  } catch (err) {
+    console.error("[get-viewer-images] Error:", err)
+    return jsonResponse({ error: "Internal server error" }, 500)
+  }
+})
@@ -6,6 +6,56 @@ const corsHeaders = {
   "Access-Control-Allow-Methods": "POST, OPTIONS",
 }
 
+/** Proposal locales and the language the summary should be written in */
+const LANGUAGES: Record<string, string> = {
+  en: "British English",
+  ja: "Japanese",
+  fr: "French",
+}
+
+/** Most modules the AI may recommend */
+const MAX_RECOMMENDATIONS = 5
+
+const FACT_KEYS = ["age", "pensionValue", "residency", "dependants"] as const
+
+interface CatalogModule {
+  id: string
+  name: string
+  category: string
+  description: string | null
+}
+
+/** Keep recommendations for modules in the region's catalog, best first, once each */
+function cleanRecommendations(raw: unknown, modules: CatalogModule[]) {
+  if (!Array.isArray(raw)) return []
+  const known = new Set(modules.map((m) => m.id))
+  const seen = new Set<string>()
+  const recommendations: { moduleId: string; rationale: string }[] = []
+  for (const item of raw) {
+    const moduleId = typeof item?.moduleId === "string" ? item.moduleId : ""
+    if (!known.has(moduleId) || seen.has(moduleId)) continue
+    seen.add(moduleId)
+    recommendations.push({
+      moduleId,
+      rationale: typeof item.rationale === "string" ? item.rationale.trim() : "",
+    })
+    if (recommendations.length >= MAX_RECOMMENDATIONS) break
+  }
+  return recommendations
+}
+
+/** Keep only the facts we know about, as non-empty strings */
+function cleanFacts(raw: unknown) {
+  const facts: Record<string, string> = {}
+  if (!raw || typeof raw !== "object") return facts
+  for (const key of FACT_KEYS) {
+    const value = (raw as Record<string, unknown>)[key]
+    if (typeof value === "string" && value.trim()) facts[key] = value.trim()
+    else if (typeof value === "number") facts[key] = String(value)
+  }
+  return facts
+}
+
 Deno.serve(async (req) => {
   console.log("Function invoked:", req.method, req.url)
 
@@ -60,6 +110,8 @@ Deno.serve(async (req) => {
 
     const body = await req.json()
     const transcript = body?.transcript
+    const language = LANGUAGES[body?.locale as string] ?? LANGUAGES.en
+    const regionId = typeof body?.regionId === "string" ? body.regionId : ""
 
     if (!transcript || typeof transcript !== "string") {
       return new Response(
@@ -77,6 +129,24 @@ Deno.serve(async (req) => {
       )
     }
 
+    // The region's catalog — the only modules the AI may recommend
+    let modules: CatalogModule[] = []
+    if (regionId) {
+      const { data, error: modulesError } = await supabase
+        .from("product_modules")
+        .select("id, name, category, description")
+        .eq("is_active", true)
+        .contains("regions", [regionId])
+        .order("sort_order")
+      if (modulesError) console.error("Failed to load catalog:", modulesError.message)
+      modules = (data ?? []) as CatalogModule[]
+    }
+    console.log("Catalog modules for region:", regionId || "(none)", modules.length)
+
+    const catalogList = modules
+      .map((m) => `- ${m.id}: ${m.name} (${m.category})${m.description ? ` — ${m.description}` : ""}`)
+      .join("\n")
+
     const systemPrompt = `You are a financial planning assistant for Hoxton Wealth. Given the following call transcript between a Hoxton advisor and a client, extract the following in professional, client-facing language written from the adviser's perspective to the client (as if the adviser is speaking directly to the client using 'you' and 'your'):
 
 1. CURRENT SITUATION: A 2-4 sentence summary of the client's current financial position, life stage, and relevant circumstances. Write as if the adviser is summarising back to the client what was discussed.
@@ -85,13 +155,24 @@ Deno.serve(async (req) => {
 
 3. FOCUS AREAS: Bullet points listing the specific product areas or solutions to explore based on the conversation.
 
+4. RECOMMENDED MODULES: Up to ${MAX_RECOMMENDATIONS} product modules from the catalog below that best fit what was discussed, best match first, each with a one-sentence rationale for the adviser. Use the module ids exactly as listed. Recommend nothing if the catalog is empty or nothing fits.
+
+5. CLIENT FACTS: Only facts stated in the transcript — the client's age, the value of their pensions, their country of residency and their dependants. Leave out any fact that wasn't mentioned rather than guessing.
+
 Keep language professional, clear, and suitable for a client-facing proposal. Do not include speculative advice or recommendations not discussed in the transcript.
 
+Write the situation, objectives, focus areas, rationales and facts in ${language}, whatever language the transcript is in. Keep the JSON keys in English.
+
+Product module catalog:
+${catalogList || "(no modules)"}
+
 Respond ONLY with valid JSON in this exact format:
 {
   "situation": "...",
   "objectives": "...",
-  "focus": "..."
+  "focus": "...",
+  "recommendations": [{ "moduleId": "...", "rationale": "..." }],
+  "facts": { "age": "...", "pensionValue": "...", "residency": "...", "dependants": "..." }
 }`
 
     console.log("Calling Anthropic API...")
@@ -105,7 +186,7 @@ Respond ONLY with valid JSON in this exact format:
       },
       body: JSON.stringify({
         model: "claude-sonnet-4-20250514",
-        max_tokens: 1024,
+        max_tokens: 2048,
         system: systemPrompt,
         messages: [
           {
@@ -174,6 +255,8 @@ Respond ONLY with valid JSON in this exact format:
         situation: parsed.situation,
         objectives: parsed.objectives,
         focus: parsed.focus,
+        recommendations: cleanRecommendations(parsed.recommendations, modules),
+        facts: cleanFacts(parsed.facts),
       }),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     )
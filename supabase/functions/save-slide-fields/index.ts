@@ -13,6 +13,57 @@ function jsonResponse(body: unknown, status = 200) {
   })
 }
 
+const FIELD_TYPES = ["text", "textarea", "table", "image", "date", "currency", "checkbox"]
+const DATE_STYLES = ["long", "medium", "short"]
+const CURRENCIES = ["GBP", "USD", "EUR", "AUD", "SGD", "HKD", "JPY", "AED"]
+const IMAGE_FITS = ["contain", "cover"]
+const LOCALES = ["en", "ja", "fr"]
+
+// Returns a message describing the first invalid field, or null when all are valid
+function validateFields(fields: unknown[]): string | null {
+  for (const [i, raw] of fields.entries()) {
+    if (!raw || typeof raw !== "object") return `editableFields[${i}] must be an object`
+    const field = raw as Record<string, unknown>
+    const label = typeof field.label === "string" ? `"${field.label}"` : `editableFields[${i}]`
+
+    for (const key of ["id", "name", "label"]) {
+      if (typeof field[key] !== "string" || !field[key]) return `${label}: ${key} is required`
+    }
+    if (!FIELD_TYPES.includes(field.type as string)) {
+      return `${label}: type must be one of ${FIELD_TYPES.join(", ")}`
+    }
+    for (const key of ["x", "y", "width", "height"]) {
+      const value = field[key]
+      if (typeof value !== "number" || value < 0 || value > 100) return `${label}: ${key} must be a percentage (0–100)`
+    }
+    if (typeof field.fontSize !== "number" || field.fontSize <= 0) {
+      return `${label}: fontSize must be a positive number`
+    }
+    if (
+      field.minFontSize !== undefined &&
+      (typeof field.minFontSize !== "number" || field.minFontSize <= 0 || field.minFontSize > field.fontSize)
+    ) {
+      return `${label}: minFontSize must be a positive number no larger than fontSize`
+    }
+    if (field.autoFill !== undefined && typeof field.autoFill !== "string") {
+      return `${label}: autoFill must be a variable name or template string`
+    }
+    if (field.richText !== undefined && typeof field.richText !== "boolean") {
+      return `${label}: richText must be true or false`
+    }
+    if (field.dateStyle !== undefined && !DATE_STYLES.includes(field.dateStyle as string)) {
+      return `${label}: dateStyle must be one of ${DATE_STYLES.join(", ")}`
+    }
+    if (field.currency !== undefined && !CURRENCIES.includes(field.currency as string)) {
+      return `${label}: currency must be one of ${CURRENCIES.join(", ")}`
+    }
+    if (field.imageFit !== undefined && !IMAGE_FITS.includes(field.imageFit as string)) {
+      return `${label}: imageFit must be 'contain' or 'cover'`
+    }
+  }
+  return null
+}
+
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response("ok", { headers: corsHeaders })
@@ -66,17 +117,44 @@ Deno.serve(async (req) => {
     // ── Parse body ──
 
     const body = await req.json()
-    const { slideType, slideId, editableFields, parentId, slideNumber, imagePath } = body
+    const { slideType, slideId, editableFields, includeRule, parentId, slideNumber, imagePath } = body
+    // Product slides exist per locale; packs carry their own locale so intro/closing rows don't need it
+    const locale: string = body.locale ?? "en"
 
-    console.log("[save-slide-fields] Request:", JSON.stringify({ slideType, slideId, parentId, slideNumber, fieldCount: editableFields?.length }))
+    console.log("[save-slide-fields] Request:", JSON.stringify({ slideType, slideId, parentId, slideNumber, fieldCount: editableFields?.length, hasRule: includeRule !== undefined ? !!includeRule : undefined }))
 
     if (!slideType || !["intro", "product", "closing"].includes(slideType)) {
       return jsonResponse({ error: "slideType must be 'intro', 'product', or 'closing'" }, 400)
     }
+    if (!LOCALES.includes(locale)) {
+      return jsonResponse({ error: `locale must be one of ${LOCALES.join(", ")}` }, 400)
+    }
 
-    if (!Array.isArray(editableFields)) {
+    // Either part may be saved on its own — includeRule undefined leaves the rule alone, null clears it
+    if (editableFields !== undefined && !Array.isArray(editableFields)) {
       return jsonResponse({ error: "editableFields must be an array" }, 400)
     }
+    if (editableFields !== undefined) {
+      const fieldError = validateFields(editableFields)
+      if (fieldError) {
+        return jsonResponse({ error: fieldError }, 400)
+      }
+    }
+    if (editableFields === undefined && includeRule === undefined) {
+      return jsonResponse({ error: "editableFields or includeRule required" }, 400)
+    }
+
+    if (includeRule !== undefined) {
+      if (slideType === "closing") {
+        return jsonResponse({ error: "Inclusion rules apply to intro and product slides only" }, 400)
+      }
+      if (
+        includeRule !== null &&
+        (!["all", "any"].includes(includeRule.match) || !Array.isArray(includeRule.conditions))
+      ) {
+        return jsonResponse({ error: "includeRule must be { match: 'all' | 'any', conditions: [] } or null" }, 400)
+      }
+    }
 
     const tableMap: Record<string, string> = {
       intro: "intro_slides",
@@ -90,17 +168,25 @@ Deno.serve(async (req) => {
     }
     const table = tableMap[slideType]
     const parentKey = parentKeyMap[slideType]
-    const slideTypeValue = editableFields.length > 0 ? "editable" : "static"
+
+    const updates: Record<string, unknown> = {}
+    if (editableFields !== undefined) {
+      updates.editable_fields = editableFields
+      updates.slide_type = editableFields.length > 0 ? "editable" : "static"
+    }
+    if (includeRule !== undefined) {
+      updates.include_rule = includeRule
+    }
 
     // ── Save ──
 
     if (slideId) {
       // UPDATE existing row by explicit ID
-      console.log(`[save-slide-fields] UPDATE ${table} SET editable_fields (${editableFields.length} fields) WHERE id = ${slideId}`)
+      console.log(`[save-slide-fields] UPDATE ${table} SET ${Object.keys(updates).join(", ")} WHERE id = ${slideId}`)
 
       const { data, error } = await supabase
         .from(table)
-        .update({ editable_fields: editableFields, slide_type: slideTypeValue })
+        .update(updates)
         .eq("id", slideId)
         .select("*")
         .single()
@@ -121,12 +207,15 @@ Deno.serve(async (req) => {
     }
 
     // Check for existing rows (may have duplicates from the INSERT bug)
-    const { data: existingRows, error: findErr } = await supabase
+    let findQuery = supabase
       .from(table)
       .select("id, created_at")
       .eq(parentKey, parentId)
       .eq("slide_number", slideNumber)
-      .order("created_at", { ascending: true })
+    if (slideType === "product") {
+      findQuery = findQuery.eq("locale", locale)
+    }
+    const { data: existingRows, error: findErr } = await findQuery.order("created_at", { ascending: true })
 
     if (findErr) {
       console.error(`[save-slide-fields] Find existing error:`, findErr)
@@ -146,7 +235,7 @@ Deno.serve(async (req) => {
 
       const { data, error } = await supabase
         .from(table)
-        .update({ editable_fields: editableFields, slide_type: slideTypeValue })
+        .update(updates)
         .eq("id", keepId)
         .select("*")
         .single()
@@ -165,9 +254,11 @@ Deno.serve(async (req) => {
       [parentKey]: parentId,
       slide_number: slideNumber,
       title: `Slide ${slideNumber}`,
-      slide_type: slideTypeValue,
+      slide_type: "static",
       image_path: imagePath || "",
-      editable_fields: editableFields,
+      editable_fields: [],
+      ...(slideType === "product" && { locale }),
+      ...updates,
     }
 
     console.log(`[save-slide-fields] INSERT into ${table}:`, JSON.stringify(insertPayload))
@@ -0,0 +1,311 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { sendEmail } from "../_shared/mail.ts"
+import {
+  type AdviserDigest,
+  type DigestPeriod,
+  emptyDigest,
+  isEmptyDigest,
+  renderAdviserDigest,
+  renderTeamDigest,
+} from "../_shared/digest-email.ts"
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  })
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// The job runs daily at roughly the same time; this keeps a 7-day cadence from
+// slipping a day when a run starts a few minutes earlier than the last one
+const SCHEDULE_SLACK_MS = 2 * 60 * 60 * 1000
+
+type DigestKind = "adviser" | "team"
+
+const ADVISER_ROLES = ["planner", "power_planner", "planner_admin"]
+
+interface Settings {
+  enabled: boolean
+  every_days: number
+  adviser_digest: boolean
+  team_digest: boolean
+  stale_draft_days: number
+  expiring_within_days: number
+}
+
+interface Profile {
+  id: string
+  full_name: string
+  email: string
+  role: string
+  assigned_advisors: string[] | null
+}
+
+/** Digest contents for each adviser in `advisorIds`, for activity since `since` */
+async function buildDigests(
+  supabase: SupabaseClient,
+  advisorIds: string[],
+  since: Date,
+  settings: Settings,
+  now: number,
+): Promise<Map<string, AdviserDigest>> {
+  const digests = new Map<string, AdviserDigest>(advisorIds.map((id) => [id, emptyDigest()]))
+  if (advisorIds.length === 0) return digests
+
+  const [{ data: proposals }, { data: events }, { data: links }] = await Promise.all([
+    supabase
+      .from("proposals")
+      .select("id, advisor_id, client_name, status, updated_at")
+      .in("advisor_id", advisorIds)
+      .in("status", ["draft", "pending_approval"]),
+    supabase
+      .from("proposal_events")
+      .select("proposal_id, event_type, proposals!inner(advisor_id, client_name)")
+      .in("proposals.advisor_id", advisorIds)
+      .in("event_type", ["opened", "downloaded", "approved", "rejected"])
+      .gte("created_at", since.toISOString()),
+    supabase
+      .from("proposal_links")
+      .select("recipient_name, expires_at, proposals!inner(advisor_id, client_name)")
+      .in("proposals.advisor_id", advisorIds)
+      .eq("is_active", true)
+      .gt("expires_at", new Date(now).toISOString())
+      .lte("expires_at", new Date(now + settings.expiring_within_days * DAY_MS).toISOString())
+      .order("expires_at"),
+  ])
+
+  // ── Opens, downloads and approval decisions in the period ──
+
+  const counts: Record<string, Record<string, Map<string, number>>> = {}
+  for (const e of events ?? []) {
+    const proposal = e.proposals as unknown as { advisor_id: string; client_name: string }
+    const digest = digests.get(proposal.advisor_id)
+    if (!digest) continue
+
+    if (e.event_type === "approved") digest.approved.push(proposal.client_name)
+    else if (e.event_type === "rejected") digest.rejected.push(proposal.client_name)
+    else {
+      counts[proposal.advisor_id] ??= {}
+      const byProposal = (counts[proposal.advisor_id][e.event_type] ??= new Map())
+      const key = `${e.proposal_id}\n${proposal.client_name}`
+      byProposal.set(key, (byProposal.get(key) ?? 0) + 1)
+    }
+  }
+  for (const [advisorId, byType] of Object.entries(counts)) {
+    const digest = digests.get(advisorId)!
+    const toList = (m: Map<string, number> | undefined) =>
+      [...(m ?? new Map<string, number>()).entries()]
+        .map(([key, count]) => ({ clientName: key.split("\n")[1], count }))
+        .sort((a, b) => b.count - a.count)
+    digest.opened = toList(byType.opened)
+    digest.downloads = toList(byType.downloaded)
+  }
+
+  // ── Current state: pending approvals and stale drafts ──
+
+  const staleBefore = new Date(now - settings.stale_draft_days * DAY_MS).toISOString()
+  for (const p of proposals ?? []) {
+    const digest = digests.get(p.advisor_id)
+    if (!digest) continue
+    if (p.status === "pending_approval") digest.pendingApproval++
+    else if (p.updated_at < staleBefore) digest.staleDrafts.push({ clientName: p.client_name, updatedAt: p.updated_at })
+  }
+  for (const digest of digests.values()) {
+    digest.staleDrafts.sort((a, b) => a.updatedAt.localeCompare(b.updatedAt))
+  }
+
+  for (const l of links ?? []) {
+    const proposal = l.proposals as unknown as { advisor_id: string; client_name: string }
+    digests.get(proposal.advisor_id)?.expiringLinks.push({
+      clientName: proposal.client_name,
+      recipientName: l.recipient_name,
+      expiresAt: l.expires_at,
+    })
+  }
+
+  return digests
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders })
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, 405)
+    }
+
+    // ── Auth: called by the scheduler with CRON_SECRET (or the service role key) ──
+
+    const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "")
+    const allowed = [Deno.env.get("CRON_SECRET"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")].filter(Boolean)
+    if (!token || !allowed.includes(token)) {
+      return jsonResponse({ error: "Unauthorized" }, 401)
+    }
+
+    // Service-role client — bypasses RLS
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+    )
+
+    const { data } = await supabase
+      .from("digest_settings")
+      .select("*")
+      .maybeSingle()
+    const settings = data as Settings | null
+
+    if (!settings?.enabled || (!settings.adviser_digest && !settings.team_digest)) {
+      return jsonResponse({ skipped: "Digests are turned off" })
+    }
+
+    const now = Date.now()
+    const end = new Date(now)
+
+    const { data: profiles, error: profilesError } = await supabase
+      .from("profiles")
+      .select("id, full_name, email, role, assigned_advisors")
+      .eq("is_active", true)
+
+    if (profilesError) {
+      console.error("[send-analytics-digests] Failed to load profiles:", profilesError.message)
+      return jsonResponse({ error: "Failed to load profiles" }, 500)
+    }
+
+    const { data: previous } = await supabase
+      .from("digest_runs")
+      .select("recipient_id, kind, created_at")
+      .neq("email_status", "failed")
+      .gte("created_at", new Date(now - 2 * settings.every_days * DAY_MS).toISOString())
+
+    const lastSent: Record<string, string> = {}
+    for (const r of previous ?? []) {
+      const key = `${r.kind}:${r.recipient_id}`
+      if (!lastSent[key] || r.created_at > lastSent[key]) lastSent[key] = r.created_at
+    }
+
+    /** Start of the period a digest should cover, or null when one isn't due yet */
+    function dueSince(kind: DigestKind, recipientId: string): Date | null {
+      const last = lastSent[`${kind}:${recipientId}`]
+      if (!last) return new Date(now - settings!.every_days * DAY_MS)
+      if (now - new Date(last).getTime() < settings!.every_days * DAY_MS - SCHEDULE_SLACK_MS) return null
+      return new Date(last)
+    }
+
+    const byId = new Map((profiles as Profile[]).map((p) => [p.id, p]))
+    const appUrl = (Deno.env.get("APP_URL") ?? "").replace(/\/$/, "")
+    let sent = 0
+    let skipped = 0
+
+    async function deliver(
+      recipient: Profile,
+      kind: DigestKind,
+      period: DigestPeriod,
+      rendered: { subject: string; html: string; text: string },
+      summary: Record<string, unknown>,
+    ) {
+      const result = await sendEmail({
+        to: recipient.email,
+        subject: rendered.subject,
+        html: rendered.html,
+        text: rendered.text,
+        fallbackLog: `${kind} digest\n${rendered.text}`,
+      })
+      await supabase.from("digest_runs").insert({
+        recipient_id: recipient.id,
+        kind,
+        period_start: period.start.toISOString(),
+        period_end: period.end.toISOString(),
+        email_status: result.status,
+        summary,
+      })
+      if (result.status !== "failed") sent++
+    }
+
+    // ── Adviser digests: everyone who writes proposals (empty digests aren't sent) ──
+
+    if (settings.adviser_digest) {
+      const advisorIds = (profiles as Profile[])
+        .filter((p) => ADVISER_ROLES.includes(p.role))
+        .map((p) => p.id)
+
+      // Group advisers by period start so each group is one set of queries
+      const groups = new Map<number, string[]>()
+      for (const id of advisorIds) {
+        const since = dueSince("adviser", id)
+        if (!since) continue
+        const list = groups.get(since.getTime()) ?? []
+        list.push(id)
+        groups.set(since.getTime(), list)
+      }
+
+      for (const [since, ids] of groups) {
+        const period = { start: new Date(since), end }
+        const digests = await buildDigests(supabase, ids, period.start, settings, now)
+        for (const id of ids) {
+          const digest = digests.get(id)!
+          // Nothing to report: try again tomorrow, still counting from the last digest
+          if (isEmptyDigest(digest)) {
+            skipped++
+            continue
+          }
+          const adviser = byId.get(id)!
+          await deliver(adviser, "adviser", period, renderAdviserDigest(adviser.full_name, period, digest, appUrl), {
+            opens: digest.opened.reduce((n, p) => n + p.count, 0),
+            downloads: digest.downloads.reduce((n, p) => n + p.count, 0),
+            approved: digest.approved.length,
+            rejected: digest.rejected.length,
+            pending_approval: digest.pendingApproval,
+            stale_drafts: digest.staleDrafts.length,
+            expiring_links: digest.expiringLinks.length,
+          })
+        }
+      }
+    }
+
+    // ── Team digests: planner admins, covering their assigned advisers ──
+
+    if (settings.team_digest) {
+      const managers = (profiles as Profile[]).filter(
+        (p) => p.role === "planner_admin" && (p.assigned_advisors?.length ?? 0) > 0,
+      )
+
+      for (const manager of managers) {
+        const since = dueSince("team", manager.id)
+        if (!since) continue
+
+        const team = manager.assigned_advisors!.filter((id) => byId.has(id))
+        const period = { start: since, end }
+        const digests = await buildDigests(supabase, team, since, settings, now)
+        if (team.every((id) => isEmptyDigest(digests.get(id)!))) {
+          skipped++
+          continue
+        }
+
+        const rows = team
+          .map((id) => ({ adviserName: byId.get(id)!.full_name, digest: digests.get(id)! }))
+          .sort((a, b) => a.adviserName.localeCompare(b.adviserName))
+        await deliver(manager, "team", period, renderTeamDigest(manager.full_name, period, rows, appUrl), {
+          advisers: team.length,
+          opens: rows.reduce((n, r) => n + r.digest.opened.reduce((m, p) => m + p.count, 0), 0),
+          pending_approval: rows.reduce((n, r) => n + r.digest.pendingApproval, 0),
+        })
+      }
+    }
+
+    console.log(`[send-analytics-digests] Sent ${sent} digests, ${skipped} had nothing to report`)
+    return jsonResponse({ sent, skipped })
+  } catch (err) {
+    console.error("[send-analytics-digests] Error:", err)
+    return jsonResponse({ error: "Internal server error" }, 500)
+  }
+})
@@ -0,0 +1,260 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { sendEmail } from "../_shared/mail.ts"
+import { formatExpiry, loadTemplate, mergeFields, renderBody } from "../_shared/proposal-email.ts"
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  })
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// A view counts as complete once it reaches this share of the deck — same
+// threshold as the completion rate on the analytics tab
+const COMPLETION_THRESHOLD = 0.8
+
+type FollowUpReason = "unopened" | "low_completion"
+
+interface ViewRow {
+  id: string
+  link_id: string
+  started_at: string
+  total_slides: number | null
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders })
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, 405)
+    }
+
+    // ── Auth: called by the scheduler with CRON_SECRET (or the service role key) ──
+
+    const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "")
+    const allowed = [Deno.env.get("CRON_SECRET"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")].filter(Boolean)
+    if (!token || !allowed.includes(token)) {
+      return jsonResponse({ error: "Unauthorized" }, 401)
+    }
+
+    // Service-role client — bypasses RLS
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+    )
+
+    const { data: settings } = await supabase
+      .from("follow_up_settings")
+      .select("*")
+      .maybeSingle()
+
+    if (!settings?.enabled || (!settings.email_client && !settings.notify_adviser)) {
+      return jsonResponse({ skipped: "Follow-ups are turned off" })
+    }
+
+    const now = Date.now()
+    const earliestDays = Math.min(settings.unopened_after_days, settings.low_completion_after_days)
+
+    // ── Candidates: live links on proposals that haven't opted out ──
+
+    const { data: links, error: linksError } = await supabase
+      .from("proposal_links")
+      .select(
+        "id, proposal_id, token, recipient_email, recipient_name, expires_at, sent_at, " +
+        "proposals!inner(client_name, region_id, advisor_id, follow_ups_enabled)",
+      )
+      .eq("is_active", true)
+      .eq("proposals.follow_ups_enabled", true)
+      .lte("sent_at", new Date(now - earliestDays * DAY_MS).toISOString())
+      .or(`expires_at.is.null,expires_at.gt.${new Date(now).toISOString()}`)
+
+    if (linksError) {
+      console.error("[send-follow-up-reminders] Failed to load links:", linksError.message)
+      return jsonResponse({ error: "Failed to load links" }, 500)
+    }
+    if (!links || links.length === 0) {
+      return jsonResponse({ checked: 0, reminded: 0 })
+    }
+
+    const linkIds = links.map((l) => l.id)
+
+    const [{ data: views }, { data: previous }] = await Promise.all([
+      supabase
+        .from("link_views")
+        .select("id, link_id, started_at, total_slides")
+        .in("link_id", linkIds),
+      supabase
+        .from("proposal_follow_ups")
+        .select("link_id, created_at")
+        .in("link_id", linkIds),
+    ])
+
+    const viewIds = (views ?? []).map((v: ViewRow) => v.id)
+    const { data: slideRows } = viewIds.length > 0
+      ? await supabase.from("slide_analytics").select("view_id, slide_index").in("view_id", viewIds)
+      : { data: [] }
+
+    const slidesByView: Record<string, Set<number>> = {}
+    for (const s of slideRows ?? []) {
+      if (!slidesByView[s.view_id]) slidesByView[s.view_id] = new Set()
+      slidesByView[s.view_id].add(s.slide_index)
+    }
+
+    const viewsByLink: Record<string, ViewRow[]> = {}
+    for (const v of (views ?? []) as ViewRow[]) {
+      if (!viewsByLink[v.link_id]) viewsByLink[v.link_id] = []
+      viewsByLink[v.link_id].push(v)
+    }
+
+    const previousByLink: Record<string, string[]> = {}
+    for (const f of previous ?? []) {
+      if (!previousByLink[f.link_id]) previousByLink[f.link_id] = []
+      previousByLink[f.link_id].push(f.created_at)
+    }
+
+    const appUrl = (Deno.env.get("APP_URL") ?? "").replace(/\/$/, "")
+    const adviserCache: Record<string, { full_name: string; email: string } | null> = {}
+    const regionCache: Record<string, string> = {}
+    let reminded = 0
+
+    for (const link of links) {
+      const proposal = link.proposals as unknown as {
+        client_name: string
+        region_id: string
+        advisor_id: string
+      }
+
+      // ── Cadence: cap the number of reminders and space them out ──
+
+      const sentBefore = previousByLink[link.id] ?? []
+      if (sentBefore.length >= settings.max_reminders) continue
+      const lastReminder = sentBefore.reduce((latest, d) => (d > latest ? d : latest), "")
+      if (lastReminder && now - new Date(lastReminder).getTime() < settings.repeat_every_days * DAY_MS) continue
+
+      // ── Is a reminder due? ──
+
+      const linkViews = viewsByLink[link.id] ?? []
+      let reason: FollowUpReason
+      let completionPercent: number | null = null
+
+      if (linkViews.length === 0) {
+        if (now - new Date(link.sent_at).getTime() < settings.unopened_after_days * DAY_MS) continue
+        reason = "unopened"
+      } else {
+        // Views recorded before total_slides existed can't be measured — leave those alone
+        const measurable = linkViews.filter((v) => v.total_slides && v.total_slides > 0)
+        if (measurable.length === 0) continue
+
+        const completed = measurable.some(
+          (v) => (slidesByView[v.id]?.size ?? 0) >= Math.ceil(v.total_slides! * COMPLETION_THRESHOLD),
+        )
+        if (completed) continue
+
+        const lastViewed = linkViews.reduce((latest, v) => (v.started_at > latest ? v.started_at : latest), "")
+        if (now - new Date(lastViewed).getTime() < settings.low_completion_after_days * DAY_MS) continue
+
+        reason = "low_completion"
+        completionPercent = Math.max(
+          ...measurable.map((v) => Math.round(((slidesByView[v.id]?.size ?? 0) / v.total_slides!) * 100)),
+        )
+      }
+
+      if (!(proposal.advisor_id in adviserCache)) {
+        const { data: adviser } = await supabase
+          .from("profiles")
+          .select("full_name, email")
+          .eq("id", proposal.advisor_id)
+          .maybeSingle()
+        adviserCache[proposal.advisor_id] = adviser
+      }
+      const adviser = adviserCache[proposal.advisor_id]
+
+      const eventData = {
+        recipient_name: link.recipient_name,
+        recipient_email: link.recipient_email,
+        reason,
+        completion_percent: completionPercent,
+      }
+
+      // ── Email the client ──
+
+      let emailStatus: string | null = null
+      if (settings.email_client) {
+        if (!(proposal.region_id in regionCache)) {
+          const { data: region } = await supabase
+            .from("regions")
+            .select("display_name")
+            .eq("id", proposal.region_id)
+            .maybeSingle()
+          regionCache[proposal.region_id] = region?.display_name ?? ""
+        }
+
+        const template = await loadTemplate(supabase, "follow_up_reminder", proposal.region_id)
+        const viewerUrl = `${appUrl}/view/${link.token}`
+        const values: Record<string, string> = {
+          client_name: proposal.client_name,
+          recipient_name: link.recipient_name,
+          adviser_name: adviser?.full_name ?? "Your Hoxton Wealth adviser",
+          adviser_email: adviser?.email ?? "",
+          region_name: regionCache[proposal.region_id],
+          expiry_date: formatExpiry(link.expires_at),
+          proposal_link: viewerUrl,
+        }
+
+        const result = await sendEmail({
+          to: link.recipient_email,
+          subject: mergeFields(template.subject, values),
+          html: renderBody(template.body, values, viewerUrl),
+          replyTo: adviser?.email || undefined,
+          fallbackLog: `Follow-up reminder ${viewerUrl}`,
+        })
+        emailStatus = result.status
+
+        if (result.status !== "failed") {
+          await supabase.from("proposal_events").insert({
+            proposal_id: link.proposal_id,
+            event_type: "follow_up_sent",
+            event_data: eventData,
+          })
+        }
+      }
+
+      // ── Notify the adviser ──
+
+      if (settings.notify_adviser) {
+        await supabase.from("proposal_events").insert({
+          proposal_id: link.proposal_id,
+          event_type: "follow_up_due",
+          event_data: { ...eventData, client_emailed: emailStatus !== null && emailStatus !== "failed" },
+        })
+      }
+
+      await supabase.from("proposal_follow_ups").insert({
+        link_id: link.id,
+        proposal_id: link.proposal_id,
+        reason,
+        completion_percent: completionPercent,
+        email_status: emailStatus,
+        adviser_notified: settings.notify_adviser,
+      })
+      reminded++
+    }
+
+    console.log(`[send-follow-up-reminders] Checked ${links.length} links, sent ${reminded} reminders`)
+    return jsonResponse({ checked: links.length, reminded })
+  } catch (err) {
+    console.error("[send-follow-up-reminders] Error:", err)
+    return jsonResponse({ error: "Internal server error" }, 500)
+  }
+})
@@ -0,0 +1,150 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { sendEmail } from "../_shared/mail.ts"
+import { formatExpiry, loadTemplate, mergeFields, renderBody } from "../_shared/proposal-email.ts"
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  })
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders })
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, 405)
+    }
+
+    // ── Auth: the caller must be able to see the link (its sender or an admin) ──
+
+    const authHeader = req.headers.get("Authorization")
+    if (!authHeader) {
+      return jsonResponse({ error: "Missing authorization" }, 401)
+    }
+
+    const supabaseAuth = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { global: { headers: { Authorization: authHeader } } },
+    )
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseAuth.auth.getUser()
+
+    if (authError || !user) {
+      console.error("[send-proposal-email] Auth failed:", authError?.message)
+      return jsonResponse({ error: "Unauthorized" }, 401)
+    }
+
+    const { link_id } = await req.json()
+    if (!link_id) {
+      return jsonResponse({ error: "link_id required" }, 400)
+    }
+
+    // RLS on proposal_links limits this to links the caller sent (or any, for admins)
+    const { data: link } = await supabaseAuth
+      .from("proposal_links")
+      .select("id, proposal_id, token, recipient_email, recipient_name, is_active, expires_at, email_send_count")
+      .eq("id", link_id)
+      .maybeSingle()
+
+    if (!link) {
+      return jsonResponse({ error: "Link not found" }, 404)
+    }
+    if (!link.is_active) {
+      return jsonResponse({ error: "Link has been revoked" }, 400)
+    }
+    if (link.expires_at && new Date(link.expires_at) < new Date()) {
+      return jsonResponse({ error: "Link has expired" }, 400)
+    }
+
+    // Service-role client — bypasses RLS
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+    )
+
+    const { data: proposal } = await supabase
+      .from("proposals")
+      .select("client_name, region_id, advisor_id")
+      .eq("id", link.proposal_id)
+      .single()
+
+    if (!proposal) {
+      return jsonResponse({ error: "Proposal not found" }, 404)
+    }
+
+    const [{ data: adviser }, { data: region }, template] = await Promise.all([
+      supabase.from("profiles").select("full_name, email").eq("id", proposal.advisor_id).maybeSingle(),
+      supabase.from("regions").select("display_name").eq("id", proposal.region_id).maybeSingle(),
+      loadTemplate(supabase, "proposal_invite", proposal.region_id),
+    ])
+
+    const appUrl = Deno.env.get("APP_URL") ?? req.headers.get("origin") ?? ""
+    const viewerUrl = `${appUrl.replace(/\/$/, "")}/view/${link.token}`
+
+    const values: Record<string, string> = {
+      client_name: proposal.client_name,
+      recipient_name: link.recipient_name,
+      adviser_name: adviser?.full_name ?? "Your Hoxton Wealth adviser",
+      adviser_email: adviser?.email ?? "",
+      region_name: region?.display_name ?? "",
+      expiry_date: formatExpiry(link.expires_at),
+      proposal_link: viewerUrl,
+    }
+
+    const result = await sendEmail({
+      to: link.recipient_email,
+      subject: mergeFields(template.subject, values),
+      html: renderBody(template.body, values, viewerUrl),
+      replyTo: adviser?.email || undefined,
+      fallbackLog: `Proposal link ${viewerUrl}`,
+    })
+
+    const sentAt = new Date().toISOString()
+    await supabase
+      .from("proposal_links")
+      .update({
+        email_status: result.status,
+        email_sent_at: sentAt,
+        email_error: result.error ?? null,
+        email_send_count: (link.email_send_count ?? 0) + 1,
+        email_provider_id: result.providerId ?? null,
+      })
+      .eq("id", link.id)
+
+    if (result.status !== "failed") {
+      await supabase.from("proposal_events").insert({
+        proposal_id: link.proposal_id,
+        event_type: "email_sent",
+        event_data: {
+          recipient_name: link.recipient_name,
+          recipient_email: link.recipient_email,
+          resend: (link.email_send_count ?? 0) > 0,
+        },
+        actor_id: user.id,
+      }).then(() => {}, () => {}) // fire-and-forget
+    }
+
+    return jsonResponse({
+      status: result.status,
+      sent_at: sentAt,
+      error: result.error,
+    })
+  } catch (err) {
+    console.error("[send-proposal-email] Error:", err)
+    return jsonResponse({ error: "Internal server error" }, 500)
+  }
+})
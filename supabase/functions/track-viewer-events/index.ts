@@ -0,0 +1,356 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { clientIp, lookupCountry } from "../_shared/geoip.ts"
+
+/**
+ * Ingests the proposal viewer's analytics beacons. The viewer batches events and
+ * posts them with the link token and its OTP session token; each batch is checked
+ * against the link, and rows are written with the caller's IP, country and server
+ * time. Event ids are generated by the viewer so retries are idempotent.
+ *
+ *   { token, session_token, sent_at, events: [
+ *       { type: "view",  id, at, session_id, total_slides, device_type, referrer },
+ *       { type: "enter", id, at, view_id, slide_index, slide_id, slide_title },
+ *       { type: "exit",  id, at },
+ *   ] }
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  })
+}
+
+const MAX_EVENTS = 50
+const MAX_TEXT_LENGTH = 500
+const DEVICE_TYPES = new Set(["mobile", "tablet", "desktop"])
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const SLIDE_ID_RE = /^(intro-\d+|closing-\d+|product-.+-\d+|divider-aof|context-summary|custom-[\w-]+)$/
+/** OTP sessions last two hours (see verify-proposal-access) */
+const SESSION_LENGTH_MS = 2 * 60 * 60 * 1000
+
+interface ViewerEvent {
+  type?: unknown
+  id?: unknown
+  at?: unknown
+  session_id?: unknown
+  total_slides?: unknown
+  device_type?: unknown
+  referrer?: unknown
+  view_id?: unknown
+  slide_index?: unknown
+  slide_id?: unknown
+  slide_title?: unknown
+}
+
+function text(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim().slice(0, MAX_TEXT_LENGTH) : null
+}
+
+function isUuid(value: unknown): value is string {
+  return typeof value === "string" && UUID_RE.test(value)
+}
+
+/**
+ * Upper bound on the number of slides the proposal's viewer can show — every
+ * pack, module and custom slide, before exclusions. Beacons past it are forged.
+ */
+async function deckSizeLimit(supabase: SupabaseClient, proposalId: string): Promise<number> {
+  const { data: proposal } = await supabase
+    .from("proposals")
+    .select("region_id, intro_pack_id, closing_pack_id, selected_products, product_slides_snapshot, custom_slides")
+    .eq("id", proposalId)
+    .single()
+  if (!proposal) return 0
+
+  const { data: region } = await supabase
+    .from("regions")
+    .select("intro_slides_count, closing_slides_count")
+    .eq("id", proposal.region_id)
+    .maybeSingle()
+
+  async function packSlides(table: string, column: string, packId: string | null) {
+    if (!packId) return 0
+    const { count } = await supabase
+      .from(table)
+      .select("id", { count: "exact", head: true })
+      .eq(column, packId)
+    return count ?? 0
+  }
+
+  const intro = Math.max(
+    region?.intro_slides_count ?? 0,
+    await packSlides("intro_slides", "intro_pack_id", proposal.intro_pack_id)
+  )
+  const closing = Math.max(
+    region?.closing_slides_count ?? 0,
+    await packSlides("closing_slides", "closing_pack_id", proposal.closing_pack_id)
+  )
+
+  const selected: string[] = proposal.selected_products ?? []
+  const snapshot = (proposal.product_slides_snapshot ?? {}) as Record<string, unknown[]>
+  const { data: modules } = selected.length
+    ? await supabase.from("product_modules").select("id, slides_count").in("id", selected)
+    : { data: [] }
+  const products = (modules ?? []).reduce(
+    (sum: number, m: { id: string; slides_count: number | null }) =>
+      sum + Math.max(m.slides_count ?? 0, snapshot[m.id]?.length ?? 0),
+    0
+  )
+
+  // Divider and context summary
+  const fixed = 2
+  const custom = Array.isArray(proposal.custom_slides) ? proposal.custom_slides.length : 0
+  return intro + closing + products + fixed + custom
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders })
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405)
+  }
+
+  try {
+    const { token, session_token, sent_at, events } = await req.json()
+
+    if (!token || !session_token) {
+      return jsonResponse({ error: "Token and session_token required" }, 400)
+    }
+    if (!Array.isArray(events) || events.length === 0) {
+      return jsonResponse({ error: "events must be a non-empty array" }, 400)
+    }
+    if (events.length > MAX_EVENTS) {
+      return jsonResponse({ error: `At most ${MAX_EVENTS} events per batch` }, 400)
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    )
+
+    // ── Link and session ──
+    const { data: link } = await supabaseAdmin
+      .from("proposal_links")
+      .select("id, proposal_id, is_active, expires_at")
+      .eq("token", token)
+      .single()
+
+    if (!link) {
+      return jsonResponse({ error: "Invalid link" }, 404)
+    }
+
+    if (!link.is_active) {
+      return jsonResponse({ error: "Link has been revoked" }, 403)
+    }
+
+    if (link.expires_at && new Date(link.expires_at) < new Date()) {
+      return jsonResponse({ error: "Link has expired" }, 403)
+    }
+
+    const { data: otp } = await supabaseAdmin
+      .from("link_otps")
+      .select("id, session_expires_at")
+      .eq("link_id", link.id)
+      .eq("session_token", session_token)
+      .eq("is_used", true)
+      .gte("session_expires_at", new Date().toISOString())
+      .limit(1)
+      .single()
+
+    if (!otp) {
+      return jsonResponse({ error: "Invalid or expired session" }, 401)
+    }
+
+    // ── Server time ──
+    // Client times are shifted by the batch's clock offset, then kept between the
+    // start of the session and now.
+    const now = Date.now()
+    const sentAt = typeof sent_at === "string" ? Date.parse(sent_at) : NaN
+    const offset = Number.isNaN(sentAt) ? null : now - sentAt
+    const sessionStart = new Date(otp.session_expires_at).getTime() - SESSION_LENGTH_MS
+
+    function serverTime(at: unknown): string {
+      const client = typeof at === "string" ? Date.parse(at) : NaN
+      const time = offset === null || Number.isNaN(client) ? now : client + offset
+      return new Date(Math.min(now, Math.max(sessionStart, time))).toISOString()
+    }
+
+    const ip = clientIp(req)
+    const country = await lookupCountry(ip)
+    const userAgent = text(req.headers.get("user-agent"))
+
+    // Views this batch may write to: id → deck size recorded for the view
+    const views = new Map<string, number>()
+    let deckLimit: number | null = null
+
+    async function viewSize(viewId: string): Promise<number | null> {
+      if (views.has(viewId)) return views.get(viewId)!
+      const { data: view } = await supabaseAdmin
+        .from("link_views")
+        .select("id, total_slides")
+        .eq("id", viewId)
+        .eq("link_id", link.id)
+        .maybeSingle()
+      if (!view) return null
+      views.set(viewId, view.total_slides ?? 0)
+      return view.total_slides ?? 0
+    }
+
+    let accepted = 0
+    const rejected: { index: number; reason: string }[] = []
+
+    for (const [index, raw] of (events as ViewerEvent[]).entries()) {
+      const event = raw ?? {}
+      if (!isUuid(event.id)) {
+        rejected.push({ index, reason: "Invalid event id" })
+        continue
+      }
+      const time = serverTime(event.at)
+
+      // ── VIEW ──
+      if (event.type === "view") {
+        deckLimit ??= await deckSizeLimit(supabaseAdmin, link.proposal_id)
+        const total = Number(event.total_slides)
+        if (!Number.isInteger(total) || total < 1 || total > deckLimit) {
+          rejected.push({ index, reason: "total_slides out of range" })
+          continue
+        }
+
+        const sessionId = text(event.session_id)
+        let isUnique = true
+        if (sessionId) {
+          const { count } = await supabaseAdmin
+            .from("link_views")
+            .select("id", { count: "exact", head: true })
+            .eq("link_id", link.id)
+            .eq("session_id", sessionId)
+          isUnique = !count
+        }
+
+        const { error } = await supabaseAdmin.from("link_views").upsert(
+          {
+            id: event.id,
+            link_id: link.id,
+            otp_id: otp.id,
+            viewer_ip: ip,
+            country,
+            user_agent: userAgent,
+            device_type: DEVICE_TYPES.has(event.device_type as string) ? event.device_type : null,
+            referrer: text(event.referrer),
+            session_id: sessionId,
+            is_unique_visitor: isUnique,
+            total_slides: total,
+            started_at: time,
+          },
+          { onConflict: "id", ignoreDuplicates: true }
+        )
+        if (error) {
+          console.error("[track-viewer-events] View insert failed:", error.message)
+          rejected.push({ index, reason: "Could not record view" })
+          continue
+        }
+        views.set(event.id, total)
+        accepted++
+        continue
+      }
+
+      // ── SLIDE ENTER ──
+      if (event.type === "enter") {
+        const size = isUuid(event.view_id) ? await viewSize(event.view_id) : null
+        if (size === null) {
+          rejected.push({ index, reason: "Unknown view" })
+          continue
+        }
+        const slideIndex = Number(event.slide_index)
+        if (!Number.isInteger(slideIndex) || slideIndex < 0 || slideIndex >= size) {
+          rejected.push({ index, reason: "slide_index out of range" })
+          continue
+        }
+        const slideId = text(event.slide_id)
+        if (slideId && !SLIDE_ID_RE.test(slideId)) {
+          rejected.push({ index, reason: "Invalid slide_id" })
+          continue
+        }
+
+        const { error } = await supabaseAdmin.from("slide_analytics").upsert(
+          {
+            id: event.id,
+            view_id: event.view_id,
+            link_id: link.id,
+            slide_index: slideIndex,
+            slide_id: slideId,
+            slide_title: text(event.slide_title),
+            time_entered: time,
+          },
+          { onConflict: "id", ignoreDuplicates: true }
+        )
+        if (error) {
+          console.error("[track-viewer-events] Slide insert failed:", error.message)
+          rejected.push({ index, reason: "Could not record slide" })
+          continue
+        }
+        accepted++
+        continue
+      }
+
+      // ── SLIDE EXIT ──
+      if (event.type === "exit") {
+        const { data: row } = await supabaseAdmin
+          .from("slide_analytics")
+          .select("id, view_id, time_entered, time_exited")
+          .eq("id", event.id)
+          .eq("link_id", link.id)
+          .maybeSingle()
+        if (!row) {
+          rejected.push({ index, reason: "Unknown slide" })
+          continue
+        }
+        // Already closed — a retried beacon
+        if (row.time_exited) {
+          accepted++
+          continue
+        }
+
+        const exited = new Date(Math.max(Date.parse(time), Date.parse(row.time_entered)))
+        const durationSeconds = (exited.getTime() - Date.parse(row.time_entered)) / 1000
+
+        await supabaseAdmin
+          .from("slide_analytics")
+          .update({
+            time_exited: exited.toISOString(),
+            duration_seconds: Math.round(durationSeconds * 100) / 100,
+          })
+          .eq("id", row.id)
+
+        await supabaseAdmin
+          .from("link_views")
+          .update({ ended_at: exited.toISOString() })
+          .eq("id", row.view_id)
+
+        accepted++
+        continue
+      }
+
+      rejected.push({ index, reason: "Unknown event type" })
+    }
+
+    if (rejected.length > 0) {
+      console.warn(`[track-viewer-events] Link ${link.id}: rejected ${rejected.length} of ${events.length} events`)
+    }
+
+    return jsonResponse({ accepted, rejected })
+  } catch (err) {
+    console.error("[track-viewer-events] Error:", err)
+    return jsonResponse({ error: "Internal server error" }, 500)
+  }
+})
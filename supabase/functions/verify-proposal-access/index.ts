@@ -1,4 +1,5 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { emailLayout, escapeHtml, sendEmail } from "../_shared/mail.ts"
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -30,81 +31,94 @@ function generateOtpCode(): string {
   return String(arr[0] % 1000000).padStart(6, "0")
 }
 
-/** Send OTP email via Resend API (falls back to console.log) */
+// ── Client-facing text, per proposal language (mirrors src/lib/viewer-i18n.ts) ──
+
+type Locale = "en" | "ja" | "fr"
+
+interface OtpStrings {
+  subject: (clientName: string) => string
+  heading: string
+  intro: (clientName: string) => string
+  expiry: string
+  linkRevoked: string
+  linkExpired: string
+  tooManyRequests: string
+  codeExpired: string
+  tooManyAttempts: string
+  invalidCode: string
+}
+
+const OTP_STRINGS: Record<Locale, OtpStrings> = {
+  en: {
+    subject: (name) => `Your verification code for ${name}'s proposal`,
+    heading: "Your verification code",
+    intro: (name) => `Enter this code to view the proposal for <strong>${name}</strong>.`,
+    expiry: "This code expires in <strong>10 minutes</strong>. If you didn't request this, you can safely ignore this email.",
+    linkRevoked: "Link has been revoked",
+    linkExpired: "Link has expired",
+    tooManyRequests: "Too many code requests. Please try again later.",
+    codeExpired: "Code expired. Please request a new one.",
+    tooManyAttempts: "Too many failed attempts. Please request a new code.",
+    invalidCode: "Invalid code. Please try again.",
+  },
+  ja: {
+    subject: (name) => `${name} 様のご提案書 確認コード`,
+    heading: "確認コード",
+    intro: (name) => `<strong>${name} 様</strong>のご提案書を表示するには、以下のコードを入力してください。`,
+    expiry: "このコードの有効期限は<strong>10分</strong>です。お心当たりのない場合は、このメールを破棄してください。",
+    linkRevoked: "このリンクは無効になりました",
+    linkExpired: "このリンクの有効期限が切れています",
+    tooManyRequests: "コードのリクエストが多すぎます。しばらくしてからもう一度お試しください。",
+    codeExpired: "コードの有効期限が切れました。新しいコードをリクエストしてください。",
+    tooManyAttempts: "入力の失敗が多すぎます。新しいコードをリクエストしてください。",
+    invalidCode: "コードが正しくありません。もう一度お試しください。",
+  },
+  fr: {
+    subject: (name) => `Votre code de vérification pour la proposition de ${name}`,
+    heading: "Votre code de vérification",
+    intro: (name) => `Saisissez ce code pour consulter la proposition destinée à <strong>${name}</strong>.`,
+    expiry: "Ce code expire dans <strong>10 minutes</strong>. Si vous n'êtes pas à l'origine de cette demande, vous pouvez ignorer cet e-mail.",
+    linkRevoked: "Ce lien a été révoqué",
+    linkExpired: "Ce lien a expiré",
+    tooManyRequests: "Trop de demandes de code. Veuillez réessayer plus tard.",
+    codeExpired: "Code expiré. Veuillez en demander un nouveau.",
+    tooManyAttempts: "Trop de tentatives infructueuses. Veuillez demander un nouveau code.",
+    invalidCode: "Code invalide. Veuillez réessayer.",
+  },
+}
+
+/** Strings for the linked proposal's language — English when unknown */
+function otpStrings(proposal: { locale?: string } | null | undefined): OtpStrings {
+  return OTP_STRINGS[proposal?.locale as Locale] ?? OTP_STRINGS.en
+}
+
+/** Send OTP email through the shared mail provider (falls back to console.log) */
 async function sendOtpEmail(
   to: string,
   code: string,
-  clientName: string
+  clientName: string,
+  strings: OtpStrings
 ): Promise<boolean> {
-  const resendApiKey = Deno.env.get("RESEND_API_KEY")
-
-  const htmlBody = `
-<!DOCTYPE html>
-<html>
-<head><meta charset="utf-8"></head>
-<body style="margin:0;padding:0;background:#f0f7f6;font-family:'Helvetica Neue',Helvetica,Arial,sans-serif;">
-  <table width="100%" cellpadding="0" cellspacing="0" style="background:#f0f7f6;padding:40px 20px;">
-    <tr><td align="center">
-      <table width="480" cellpadding="0" cellspacing="0" style="background:#ffffff;border-radius:12px;overflow:hidden;">
-        <tr><td style="background:#033839;padding:28px 32px;text-align:center;">
-          <img src="https://www.hoxtonwealth.com/wp-content/themes/developer/assets/img/hoxton-wealth-logo.svg" alt="Hoxton Wealth" height="32" style="height:32px;" />
-        </td></tr>
-        <tr><td style="padding:36px 32px 16px;">
-          <h1 style="margin:0 0 8px;font-size:22px;color:#033839;font-weight:600;">Your verification code</h1>
+  const html = emailLayout(`
+          <h1 style="margin:0 0 8px;font-size:22px;color:#033839;font-weight:600;">${strings.heading}</h1>
           <p style="margin:0 0 28px;font-size:15px;color:#527C7E;line-height:1.5;">
-            Enter this code to view the proposal for <strong>${clientName}</strong>.
+            ${strings.intro(escapeHtml(clientName))}
           </p>
           <div style="background:#f0f7f6;border-radius:10px;padding:24px;text-align:center;margin-bottom:28px;">
             <span style="font-size:36px;font-weight:700;letter-spacing:8px;color:#033839;font-family:'Courier New',monospace;">${code}</span>
           </div>
           <p style="margin:0;font-size:13px;color:#527C7E;line-height:1.5;">
-            This code expires in <strong>10 minutes</strong>. If you didn't request this, you can safely ignore this email.
-          </p>
-        </td></tr>
-        <tr><td style="padding:20px 32px 28px;border-top:1px solid #D7E5E3;">
-          <p style="margin:0;font-size:12px;color:#527C7E;text-align:center;">
-            Hoxton Wealth &mdash; Trusted financial advice, worldwide.
-          </p>
-        </td></tr>
-      </table>
-    </td></tr>
-  </table>
-</body>
-</html>`
-
-  if (!resendApiKey) {
-    console.log(`[OTP FALLBACK] Code for ${to}: ${code}`)
-    return true
-  }
-
-  try {
-    const res = await fetch("https://api.resend.com/emails", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${resendApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        from: "Hoxton Wealth <proposals@notifications.hoxtonwealth.com>",
-        to: [to],
-        subject: `Your verification code for ${clientName}'s proposal`,
-        html: htmlBody,
-      }),
-    })
-
-    if (!res.ok) {
-      const err = await res.text()
-      console.error(`Resend API error: ${res.status} ${err}`)
-      // Fall back to logging
-      console.log(`[OTP FALLBACK] Code for ${to}: ${code}`)
-    }
-
-    return true
-  } catch (err) {
-    console.error("Email send failed:", err)
-    console.log(`[OTP FALLBACK] Code for ${to}: ${code}`)
-    return true
-  }
+            ${strings.expiry}
+          </p>`)
+
+  // The code is always logged on fallback, so the viewer flow never blocks on mail
+  await sendEmail({
+    to,
+    subject: strings.subject(clientName),
+    html,
+    fallbackLog: `OTP code ${code}`,
+  })
+  return true
 }
 
 Deno.serve(async (req) => {
@@ -135,7 +149,7 @@ Deno.serve(async (req) => {
       const { data: link, error: linkErr } = await supabaseAdmin
         .from("proposal_links")
         .select(
-          "id, proposal_id, recipient_email, recipient_name, is_active, expires_at"
+          "id, proposal_id, recipient_email, recipient_name, is_active, expires_at, proposals(client_name, locale)"
         )
         .eq("token", token)
         .single()
@@ -144,12 +158,15 @@ Deno.serve(async (req) => {
         return jsonResponse({ error: "Invalid link" }, 404)
       }
 
+      const proposal = link.proposals as { client_name?: string; locale?: string } | null
+      const strings = otpStrings(proposal)
+
       if (!link.is_active) {
-        return jsonResponse({ error: "Link has been revoked" }, 403)
+        return jsonResponse({ error: strings.linkRevoked }, 403)
       }
 
       if (link.expires_at && new Date(link.expires_at) < new Date()) {
-        return jsonResponse({ error: "Link has expired" }, 403)
+        return jsonResponse({ error: strings.linkExpired }, 403)
       }
 
       // Rate limit: max 10 OTPs per link per hour (tighten to 3-5 for production)
@@ -164,18 +181,11 @@ Deno.serve(async (req) => {
 
       if (recentCount !== null && recentCount >= 10) {
         return jsonResponse(
-          { error: "Too many code requests. Please try again later." },
+          { error: strings.tooManyRequests },
           429
         )
       }
 
-      // Get client name for the email
-      const { data: proposal } = await supabaseAdmin
-        .from("proposals")
-        .select("client_name")
-        .eq("id", link.proposal_id)
-        .single()
-
       const clientName = proposal?.client_name || "your adviser"
 
       // Generate and hash OTP
@@ -198,7 +208,7 @@ Deno.serve(async (req) => {
       }
 
       // Send email
-      await sendOtpEmail(link.recipient_email, otpCode, clientName)
+      await sendOtpEmail(link.recipient_email, otpCode, clientName, strings)
 
       return jsonResponse({ success: true, expires_in: 600 })
     }
@@ -212,7 +222,7 @@ Deno.serve(async (req) => {
       // Look up link (include proposal_id + recipient info for event logging)
       const { data: link } = await supabaseAdmin
         .from("proposal_links")
-        .select("id, proposal_id, recipient_name, recipient_email")
+        .select("id, proposal_id, recipient_name, recipient_email, proposals(locale)")
         .eq("token", token)
         .single()
 
@@ -220,6 +230,8 @@ Deno.serve(async (req) => {
         return jsonResponse({ error: "Invalid link" }, 404)
       }
 
+      const strings = otpStrings(link.proposals as { locale?: string } | null)
+
       // Find the latest unused, non-expired OTP for this link
       const { data: otp } = await supabaseAdmin
         .from("link_otps")
@@ -235,7 +247,7 @@ Deno.serve(async (req) => {
         return jsonResponse(
           {
             verified: false,
-            error: "Code expired. Please request a new one.",
+            error: strings.codeExpired,
           },
           200
         )
@@ -246,7 +258,7 @@ Deno.serve(async (req) => {
         return jsonResponse(
           {
             verified: false,
-            error: "Too many failed attempts. Please request a new code.",
+            error: strings.tooManyAttempts,
           },
           200
         )
@@ -265,7 +277,7 @@ Deno.serve(async (req) => {
         const remaining = 4 - otp.attempts // 5 max, 0-indexed after this attempt
         return jsonResponse({
           verified: false,
-          error: "Invalid code. Please try again.",
+          error: strings.invalidCode,
           attempts_remaining: Math.max(remaining, 0),
         })
       }
@@ -0,0 +1,134 @@
+-- Pack versioning: proposals are pinned to the intro/closing pack version and
+-- product slide set they were generated with, so later template edits don't
+-- silently change proposals that have already been sent.
+
+-- ── Proposal pins ──
+-- intro_pack_id already exists on proposals (initial schema)
+ALTER TABLE public.proposals
+  ADD COLUMN IF NOT EXISTS closing_pack_id UUID REFERENCES public.closing_packs(id),
+  ADD COLUMN IF NOT EXISTS product_slides_snapshot JSONB,
+  ADD COLUMN IF NOT EXISTS templates_pinned_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.proposals.product_slides_snapshot IS 'JSONB map of moduleId -> [{ slide_number, title, slide_type, image_path, editable_fields }] captured at generation time';
+COMMENT ON COLUMN public.proposals.templates_pinned_at IS 'When intro_pack_id / closing_pack_id / product_slides_snapshot were last pinned';
+
+CREATE INDEX IF NOT EXISTS idx_proposals_intro_pack ON public.proposals(intro_pack_id);
+CREATE INDEX IF NOT EXISTS idx_proposals_closing_pack ON public.proposals(closing_pack_id);
+
+-- ── Pack versions ──
+ALTER TABLE public.intro_packs
+  ADD COLUMN IF NOT EXISTS published_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS published_by UUID REFERENCES public.profiles(id);
+
+ALTER TABLE public.closing_packs
+  ADD COLUMN IF NOT EXISTS published_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS published_by UUID REFERENCES public.profiles(id);
+
+-- Packs were inserted without a version, so most regions have several version-1 rows.
+-- Number each region's packs in order (keeping any existing ordering by version) so
+-- (region, version) is unique.
+UPDATE public.intro_packs ip
+SET version = numbered.rn
+FROM (
+  SELECT id, row_number() OVER (
+    PARTITION BY region_id
+    ORDER BY COALESCE(version, 1), COALESCE(created_at, '-infinity'), id
+  ) AS rn
+  FROM public.intro_packs
+) numbered
+WHERE numbered.id = ip.id AND ip.version IS DISTINCT FROM numbered.rn;
+
+UPDATE public.closing_packs cp
+SET version = numbered.rn
+FROM (
+  SELECT id, row_number() OVER (
+    PARTITION BY region_id
+    ORDER BY COALESCE(version, 1), COALESCE(created_at, '-infinity'), id
+  ) AS rn
+  FROM public.closing_packs
+) numbered
+WHERE numbered.id = cp.id AND cp.version IS DISTINCT FROM numbered.rn;
+
+-- Keep only the newest active pack per region so the active indexes below can be built
+UPDATE public.intro_packs ip
+SET is_active = false
+WHERE ip.is_active
+  AND EXISTS (
+    SELECT 1 FROM public.intro_packs newer
+    WHERE newer.region_id = ip.region_id
+      AND newer.is_active
+      AND (COALESCE(newer.version, 1), COALESCE(newer.created_at, '-infinity'), newer.id)
+        > (COALESCE(ip.version, 1), COALESCE(ip.created_at, '-infinity'), ip.id)
+  );
+
+UPDATE public.closing_packs cp
+SET is_active = false
+WHERE cp.is_active
+  AND EXISTS (
+    SELECT 1 FROM public.closing_packs newer
+    WHERE newer.region_id = cp.region_id
+      AND newer.is_active
+      AND (COALESCE(newer.version, 1), COALESCE(newer.created_at, '-infinity'), newer.id)
+        > (COALESCE(cp.version, 1), COALESCE(cp.created_at, '-infinity'), cp.id)
+  );
+
+-- One row per (region, version) and at most one active version per region
+CREATE UNIQUE INDEX IF NOT EXISTS idx_intro_packs_region_version
+  ON public.intro_packs(region_id, version);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_intro_packs_region_active
+  ON public.intro_packs(region_id) WHERE is_active;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_closing_packs_region_version
+  ON public.closing_packs(region_id, version);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_closing_packs_region_active
+  ON public.closing_packs(region_id) WHERE is_active;
+
+-- ── Backfill: pin proposals that were already generated or sent to the current templates ──
+UPDATE public.proposals p
+SET
+  intro_pack_id = COALESCE(p.intro_pack_id, (
+    SELECT ip.id FROM public.intro_packs ip
+    WHERE ip.region_id = p.region_id AND ip.is_active
+    LIMIT 1
+  )),
+  closing_pack_id = (
+    SELECT cp.id FROM public.closing_packs cp
+    WHERE cp.region_id = p.region_id AND cp.is_active
+    LIMIT 1
+  ),
+  product_slides_snapshot = (
+    SELECT COALESCE(jsonb_object_agg(m.module_id, m.slides), '{}'::jsonb)
+    FROM (
+      SELECT ps.module_id,
+        jsonb_agg(jsonb_build_object(
+          'slide_number', ps.slide_number,
+          'title', ps.title,
+          'slide_type', ps.slide_type,
+          'image_path', ps.image_path,
+          'editable_fields', ps.editable_fields
+        ) ORDER BY ps.slide_number) AS slides
+      FROM public.product_slides ps
+      WHERE ps.module_id = ANY(p.selected_products)
+      GROUP BY ps.module_id
+    ) m
+  ),
+  templates_pinned_at = now()
+WHERE p.templates_pinned_at IS NULL
+  AND (p.pdf_generated_at IS NOT NULL OR p.status <> 'draft');
+
+-- ── Audit actions ──
+ALTER TABLE public.template_audit_log
+  DROP CONSTRAINT IF EXISTS template_audit_log_action_check;
+
+ALTER TABLE public.template_audit_log
+  ADD CONSTRAINT template_audit_log_action_check
+  CHECK (action IN (
+    'slide_added', 'slide_removed', 'slide_reordered', 'slide_replaced',
+    'slide_bulk_uploaded', 'slide_deleted',
+    'module_created', 'module_updated', 'module_disabled',
+    'region_created', 'region_updated',
+    'category_created', 'category_updated', 'category_deleted',
+    'intro_pack_created', 'intro_pack_published',
+    'closing_pack_created', 'closing_pack_published',
+    'editable_fields_updated'
+  ));
@@ -0,0 +1,7 @@
+-- Client details looked up from the client directory (DOB, nationality, address,
+-- employer, risk profile) so slide autofill works when a draft is reopened.
+
+ALTER TABLE public.proposals
+  ADD COLUMN IF NOT EXISTS client_details JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.proposals.client_details IS 'Client directory fields: { dob, nationality, address, employer, riskProfile }';
@@ -0,0 +1,72 @@
+-- PDF job queue
+-- POST /jobs on the PDF service enqueues a job here; a worker in the service claims
+-- queued jobs, renders them on a shared browser pool and reports progress back.
+
+-- ── pdf_jobs ──
+create table if not exists public.pdf_jobs (
+  id uuid primary key default gen_random_uuid(),
+  proposal_id uuid not null references public.proposals(id) on delete cascade,
+  status text not null default 'queued'
+    check (status in ('queued', 'processing', 'completed', 'failed')),
+  payload jsonb not null,
+  slides_total integer not null default 0,
+  slides_rendered integer not null default 0,
+  attempts integer not null default 0,
+  max_attempts integer not null default 3,
+  run_after timestamptz not null default now(),
+  locked_at timestamptz,
+  error text,
+  pdf_path text,
+  created_at timestamptz not null default now(),
+  started_at timestamptz,
+  completed_at timestamptz
+);
+
+create index idx_pdf_jobs_proposal_id on public.pdf_jobs(proposal_id);
+create index idx_pdf_jobs_queue on public.pdf_jobs(status, run_after) where status in ('queued', 'processing');
+
+alter table public.pdf_jobs enable row level security;
+
+-- Advisers can see jobs for their own proposals (the service role writes)
+create policy "Users can view own pdf jobs"
+  on public.pdf_jobs for select
+  to authenticated
+  using (exists (
+    select 1 from public.proposals p
+    where p.id = proposal_id
+      and (p.advisor_id = auth.uid() or p.created_by = auth.uid())
+  ) or exists (
+    select 1 from public.profiles where id = auth.uid() and role = 'system_admin'
+  ));
+
+-- ── Claim ──
+-- Atomically claims the next runnable job. Jobs stuck in 'processing' longer than
+-- stale_after (worker crashed mid-render) are picked up again.
+create or replace function public.claim_pdf_job(stale_after interval default interval '5 minutes')
+returns setof public.pdf_jobs
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  return query
+  update public.pdf_jobs j
+  set status = 'processing',
+      attempts = j.attempts + 1,
+      locked_at = now(),
+      started_at = coalesce(j.started_at, now()),
+      slides_rendered = 0,
+      error = null
+  where j.id = (
+    select id from public.pdf_jobs
+    where (status = 'queued' and run_after <= now())
+       or (status = 'processing' and locked_at < now() - stale_after)
+    order by run_after
+    limit 1
+    for update skip locked
+  )
+  returning j.*;
+end;
+$$;
+
+revoke execute on function public.claim_pdf_job(interval) from public, anon, authenticated;
@@ -0,0 +1,9 @@
+-- PowerPoint export
+-- The PDF service can export an assembled proposal as an editable PPTX, stored next
+-- to the PDF in the proposals bucket.
+
+alter table public.proposals
+  add column if not exists pptx_path text,
+  add column if not exists pptx_generated_at timestamptz;
+
+comment on column public.proposals.pptx_path is 'Storage path of the latest PPTX export in the proposals bucket';
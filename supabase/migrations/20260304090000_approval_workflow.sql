@@ -0,0 +1,425 @@
+-- Multi-step approval workflow
+-- Admin-configured rules decide which sign-offs a proposal needs (e.g. structured notes
+-- need compliance, then planner admin). Submitting a proposal snapshots the matching
+-- chain into proposal_approval_steps; tracking links can't be created until every step
+-- in the latest round is approved. Chains are built and approval state is changed only
+-- by the functions below, and editing a submitted proposal sends it back to draft.
+
+-- ── Compliance role ──
+alter table public.profiles drop constraint if exists profiles_role_check;
+alter table public.profiles
+  add constraint profiles_role_check
+  check (role in ('system_admin', 'planner', 'planner_admin', 'power_planner', 'compliance'));
+
+-- ── approval_rules ──
+-- A rule applies when ANY of its configured conditions matches the proposal.
+create table if not exists public.approval_rules (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text,
+  -- Conditions (empty / null = not used)
+  product_modules text[] not null default '{}',
+  min_initial_fee numeric,
+  min_ongoing_percent numeric,
+  author_roles text[] not null default '{}',
+  -- Ordered sign-offs, e.g. {compliance, planner_admin}
+  approver_roles text[] not null check (cardinality(approver_roles) > 0),
+  is_active boolean not null default true,
+  sort_order integer not null default 0,
+  created_by uuid references auth.users(id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.approval_rules enable row level security;
+
+create policy "Authenticated users can read approval rules"
+  on public.approval_rules for select
+  to authenticated
+  using (true);
+
+create policy "Admins can manage approval rules"
+  on public.approval_rules for all
+  to authenticated
+  using (public.is_admin(auth.uid()))
+  with check (public.is_admin(auth.uid()));
+
+-- ── proposal_approval_steps ──
+alter table public.proposals
+  add column if not exists approval_round integer not null default 0;
+
+create table if not exists public.proposal_approval_steps (
+  id uuid primary key default gen_random_uuid(),
+  proposal_id uuid not null references public.proposals(id) on delete cascade,
+  round integer not null,
+  step_order integer not null,
+  approver_role text not null,
+  -- Names of the rules that required this sign-off (kept as text so later rule edits don't rewrite history)
+  required_by text[] not null default '{}',
+  status text not null default 'pending'
+    check (status in ('pending', 'approved', 'rejected')),
+  notes text,
+  decided_by uuid references auth.users(id),
+  decided_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (proposal_id, round, step_order)
+);
+
+create index idx_proposal_approval_steps_proposal on public.proposal_approval_steps(proposal_id, round);
+create index idx_proposal_approval_steps_pending on public.proposal_approval_steps(approver_role) where status = 'pending';
+
+alter table public.proposal_approval_steps enable row level security;
+
+create policy "Users can view approval steps"
+  on public.proposal_approval_steps for select
+  to authenticated
+  using (
+    public.is_admin(auth.uid())
+    or exists (
+      select 1 from public.proposals p
+      where p.id = proposal_id
+        and (p.advisor_id = auth.uid() or p.created_by = auth.uid())
+    )
+    or exists (
+      select 1 from public.profiles where id = auth.uid() and role = approver_role
+    )
+  );
+
+-- No insert/update policies: steps are written by submit_proposal_for_approval() and
+-- decide_approval_step() only.
+
+-- Approvers need to see the proposals in their queue. SECURITY DEFINER avoids RLS
+-- recursion (the steps policy above reads proposals).
+create or replace function public.is_proposal_approver(p_proposal_id uuid, user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.proposal_approval_steps s
+    join public.proposals p on p.id = s.proposal_id and s.round = p.approval_round
+    join public.profiles pr on pr.id = user_id and pr.role = s.approver_role
+    where s.proposal_id = p_proposal_id
+  );
+$$;
+
+create policy "Approvers can read proposals awaiting them"
+  on public.proposals for select
+  to authenticated
+  using (public.is_proposal_approver(id, auth.uid()));
+
+-- ── Chain ──
+-- Mirrors buildApprovalChain() in src/lib/approvals.ts: matching rules in sort order,
+-- each role once at its earliest position. Rules are evaluated against the adviser's
+-- role, falling back to the caller's.
+create or replace function public.proposal_approval_chain(p_proposal_id uuid)
+returns table (step_order integer, approver_role text, required_by text[])
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_proposal public.proposals;
+  v_author_role text;
+  v_initial numeric;
+  v_ongoing numeric;
+  v_band_max numeric;
+  v_rule public.approval_rules;
+  v_role text;
+  v_roles text[] := '{}';
+  v_required jsonb := '{}';
+begin
+  select * into v_proposal from public.proposals where id = p_proposal_id;
+  if not found then
+    return;
+  end if;
+
+  v_author_role := coalesce(
+    (select role from public.profiles where id = v_proposal.advisor_id),
+    (select role from public.profiles where id = auth.uid())
+  );
+
+  -- Same coercion as normaliseFeeData(): anything that isn't a number counts as unset
+  if v_proposal.fee_data->>'initialAdviceFee' ~ '^-?[0-9]+(\.[0-9]+)?$' then
+    v_initial := (v_proposal.fee_data->>'initialAdviceFee')::numeric;
+  end if;
+  if v_proposal.fee_data->>'ongoingPercent' ~ '^-?[0-9]+(\.[0-9]+)?$' then
+    v_ongoing := (v_proposal.fee_data->>'ongoingPercent')::numeric;
+  end if;
+  if jsonb_typeof(v_proposal.fee_data->'aumBands') = 'array' then
+    select max((b->>'percent')::numeric) into v_band_max
+    from jsonb_array_elements(v_proposal.fee_data->'aumBands') b
+    where b->>'percent' ~ '^-?[0-9]+(\.[0-9]+)?$';
+  end if;
+  -- Tiered fees are compared by their highest band
+  v_ongoing := greatest(v_ongoing, v_band_max);
+
+  for v_rule in
+    select * from public.approval_rules where is_active order by sort_order
+  loop
+    continue when not (
+      v_rule.product_modules && coalesce(v_proposal.selected_products, '{}')
+      or (v_rule.min_initial_fee is not null and coalesce(v_initial, 0) > v_rule.min_initial_fee)
+      or (v_rule.min_ongoing_percent is not null and coalesce(v_ongoing, 0) > v_rule.min_ongoing_percent)
+      or coalesce(v_author_role = any(v_rule.author_roles), false)
+    );
+
+    foreach v_role in array v_rule.approver_roles loop
+      if not v_role = any(v_roles) then
+        v_roles := v_roles || v_role;
+        v_required := v_required || jsonb_build_object(v_role, jsonb_build_array(v_rule.name));
+      elsif not (v_required->v_role) ? v_rule.name then
+        v_required := jsonb_set(v_required, array[v_role], (v_required->v_role) || to_jsonb(v_rule.name));
+      end if;
+    end loop;
+  end loop;
+
+  return query
+  select r.n::integer, r.role, array(select jsonb_array_elements_text(v_required->r.role))
+  from unnest(v_roles) with ordinality as r(role, n)
+  order by r.n;
+end;
+$$;
+
+revoke execute on function public.proposal_approval_chain(uuid) from public, anon;
+grant execute on function public.proposal_approval_chain(uuid) to authenticated;
+
+-- ── Submission ──
+-- Starts a new round from the rules that match now; when none match, a single system
+-- admin sign-off is used.
+create or replace function public.submit_proposal_for_approval(p_proposal_id uuid)
+returns setof public.proposal_approval_steps
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_proposal public.proposals;
+  v_round integer;
+begin
+  select * into v_proposal from public.proposals where id = p_proposal_id for update;
+  if not found or not (v_proposal.created_by = auth.uid() or public.is_admin(auth.uid())) then
+    raise exception 'Proposal not found';
+  end if;
+  if v_proposal.status = 'pending_approval' then
+    raise exception 'This proposal is already awaiting approval';
+  end if;
+
+  v_round := v_proposal.approval_round + 1;
+
+  insert into public.proposal_approval_steps (proposal_id, round, step_order, approver_role, required_by)
+  select p_proposal_id, v_round, c.step_order, c.approver_role, c.required_by
+  from public.proposal_approval_chain(p_proposal_id) c;
+
+  if not found then
+    insert into public.proposal_approval_steps (proposal_id, round, step_order, approver_role)
+    values (p_proposal_id, v_round, 1, 'system_admin');
+  end if;
+
+  update public.proposals
+  set status = 'pending_approval',
+      approval_round = v_round,
+      approval_notes = null,
+      approved_by = null
+  where id = p_proposal_id;
+
+  return query
+  select * from public.proposal_approval_steps
+  where proposal_id = p_proposal_id and round = v_round
+  order by step_order;
+end;
+$$;
+
+revoke execute on function public.submit_proposal_for_approval(uuid) from public, anon;
+grant execute on function public.submit_proposal_for_approval(uuid) to authenticated;
+
+-- ── Decisions ──
+-- Records a decision on the current (lowest pending) step of the latest round.
+-- Rejection ends the round; approving the last step approves the proposal.
+create or replace function public.decide_approval_step(
+  p_step_id uuid,
+  p_decision text,
+  p_notes text default null
+)
+returns public.proposal_approval_steps
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_step public.proposal_approval_steps;
+  v_round integer;
+  v_status text;
+  v_role text;
+  v_current_order integer;
+begin
+  if p_decision not in ('approved', 'rejected') then
+    raise exception 'Invalid decision: %', p_decision;
+  end if;
+
+  select * into v_step from public.proposal_approval_steps where id = p_step_id for update;
+  if not found then
+    raise exception 'Approval step not found';
+  end if;
+
+  select approval_round, status into v_round, v_status
+  from public.proposals where id = v_step.proposal_id for update;
+  if v_status <> 'pending_approval' or v_step.round <> v_round or v_step.status <> 'pending' then
+    raise exception 'This approval step is no longer open';
+  end if;
+
+  select min(step_order) into v_current_order
+  from public.proposal_approval_steps
+  where proposal_id = v_step.proposal_id and round = v_round and status = 'pending';
+  if v_step.step_order <> v_current_order then
+    raise exception 'An earlier sign-off is still pending';
+  end if;
+
+  select role into v_role from public.profiles where id = auth.uid();
+  if v_role is null or (v_role <> v_step.approver_role and v_role <> 'system_admin') then
+    raise exception 'You are not an approver for this step';
+  end if;
+
+  update public.proposal_approval_steps
+  set status = p_decision,
+      notes = nullif(trim(p_notes), ''),
+      decided_by = auth.uid(),
+      decided_at = now()
+  where id = p_step_id
+  returning * into v_step;
+
+  if p_decision = 'rejected' then
+    update public.proposals
+    set status = 'rejected',
+        approved_by = auth.uid(),
+        approval_notes = v_step.notes
+    where id = v_step.proposal_id;
+  elsif not exists (
+    select 1 from public.proposal_approval_steps
+    where proposal_id = v_step.proposal_id and round = v_round and status = 'pending'
+  ) then
+    update public.proposals
+    set status = 'approved',
+        approved_by = auth.uid(),
+        approval_notes = v_step.notes
+    where id = v_step.proposal_id;
+  end if;
+
+  return v_step;
+end;
+$$;
+
+revoke execute on function public.decide_approval_step(uuid, text, text) from public, anon;
+grant execute on function public.decide_approval_step(uuid, text, text) to authenticated;
+
+-- ── Approval state ──
+-- Clients can only send a proposal back to draft; every other status, the round and the
+-- decision columns are set by the functions above. Changing the content of a submitted
+-- or decided proposal also returns it to draft, so an approval never covers content the
+-- approvers didn't see. Definer functions and the service role run as other database
+-- roles and aren't affected.
+create or replace function public.guard_proposal_approval_state()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  -- Columns that don't change what the client is shown
+  v_bookkeeping text[] := array[
+    'status', 'approval_round', 'approved_by', 'approval_notes', 'updated_at',
+    'pdf_path', 'pdf_generated_at', 'pptx_path', 'pptx_generated_at',
+    'viewer_token', 'sent_at', 'follow_ups_enabled', 'templates_pinned_at'
+  ];
+begin
+  if current_user not in ('authenticated', 'anon') then
+    return new;
+  end if;
+
+  -- The first export pins the template versions the approvers were previewing, so
+  -- approve → export → send keeps the approval. Moving an existing pin to newer
+  -- templates changes the slides and goes back through approval.
+  if old.templates_pinned_at is null then
+    v_bookkeeping := v_bookkeeping || array['intro_pack_id', 'closing_pack_id', 'product_slides_snapshot'];
+  end if;
+
+  if new.approval_round is distinct from old.approval_round
+    or new.approved_by is distinct from old.approved_by
+    or new.approval_notes is distinct from old.approval_notes
+    or (new.status is distinct from old.status and new.status <> 'draft')
+  then
+    raise exception 'Approval status can only be changed through the approval workflow';
+  end if;
+
+  if old.status in ('pending_approval', 'approved', 'rejected')
+    and (to_jsonb(new) - v_bookkeeping) is distinct from (to_jsonb(old) - v_bookkeeping)
+  then
+    new.status := 'draft';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists on_proposal_approval_state on public.proposals;
+create trigger on_proposal_approval_state
+  before update on public.proposals
+  for each row execute function public.guard_proposal_approval_state();
+
+-- ── Send gate ──
+-- True when the proposal's latest round is approved, or when it is a draft that no
+-- active rule applies to.
+create or replace function public.proposal_approval_complete(p_proposal_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.proposals p
+    where p.id = p_proposal_id
+      and case
+        when p.status = 'approved' then not exists (
+          select 1 from public.proposal_approval_steps s
+          where s.proposal_id = p.id and s.round = p.approval_round and s.status <> 'approved'
+        )
+        when p.status in ('pending_approval', 'rejected') then false
+        else not exists (select 1 from public.proposal_approval_chain(p.id))
+      end
+  );
+$$;
+
+drop policy if exists "Users can insert own links" on public.proposal_links;
+create policy "Users can insert own links"
+  on public.proposal_links for insert
+  to authenticated
+  with check (sent_by = auth.uid() and public.proposal_approval_complete(proposal_id));
+
+-- ── Audit actions ──
+alter table public.template_audit_log
+  drop constraint if exists template_audit_log_action_check;
+
+alter table public.template_audit_log
+  add constraint template_audit_log_action_check
+  check (action in (
+    'slide_added', 'slide_removed', 'slide_reordered', 'slide_replaced',
+    'slide_bulk_uploaded', 'slide_deleted',
+    'module_created', 'module_updated', 'module_disabled',
+    'region_created', 'region_updated',
+    'category_created', 'category_updated', 'category_deleted',
+    'intro_pack_created', 'intro_pack_published',
+    'closing_pack_created', 'closing_pack_published',
+    'editable_fields_updated',
+    'approval_rule_created', 'approval_rule_updated', 'approval_rule_deleted'
+  ));
+
+-- ── Seed rules ──
+insert into public.approval_rules (name, description, product_modules, author_roles, approver_roles, sort_order)
+values
+  ('Complex products', 'Structured notes and FPCF need compliance and planner admin sign-off',
+    '{structured-notes,fpcf}', '{}', '{compliance,planner_admin}', 0),
+  ('Junior planners', 'Proposals authored by planners need planner admin sign-off',
+    '{}', '{planner}', '{planner_admin}', 1);
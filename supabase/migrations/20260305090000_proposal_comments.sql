@@ -0,0 +1,203 @@
+-- Inline review comments
+-- Reviewers pin threaded comments to a slide (e.g. 'product-sipp-intl-3') or to one
+-- editable field on it. Root comments can be resolved / reopened; a proposal step
+-- can't be approved while any root comment is still open.
+
+-- ── proposal_comments ──
+create table if not exists public.proposal_comments (
+  id uuid primary key default gen_random_uuid(),
+  proposal_id uuid not null references public.proposals(id) on delete cascade,
+  -- Same ids the builder uses: 'intro-N' / 'product-<module>-N'
+  slide_id text not null,
+  -- Editable field name on the slide; null = the slide as a whole
+  field_name text,
+  -- Replies point at the root comment of their thread
+  parent_id uuid references public.proposal_comments(id) on delete cascade,
+  body text not null check (length(trim(body)) > 0),
+  author_id uuid not null references public.profiles(id),
+  resolved_at timestamptz,
+  resolved_by uuid references public.profiles(id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index idx_proposal_comments_proposal on public.proposal_comments(proposal_id, slide_id);
+create index idx_proposal_comments_open on public.proposal_comments(proposal_id)
+  where parent_id is null and resolved_at is null;
+
+alter table public.proposal_comments enable row level security;
+
+-- Owners, admins and anyone in the proposal's approval chain can take part in review
+create or replace function public.can_review_proposal(p_proposal_id uuid, user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_admin(user_id)
+    or public.is_proposal_approver(p_proposal_id, user_id)
+    or exists (
+      select 1 from public.proposals p
+      where p.id = p_proposal_id
+        and (p.advisor_id = user_id or p.created_by = user_id)
+    );
+$$;
+
+create policy "Reviewers can view comments"
+  on public.proposal_comments for select
+  to authenticated
+  using (public.can_review_proposal(proposal_id, auth.uid()));
+
+create policy "Reviewers can add comments"
+  on public.proposal_comments for insert
+  to authenticated
+  with check (
+    author_id = auth.uid()
+    and resolved_at is null
+    and public.can_review_proposal(proposal_id, auth.uid())
+    -- Replies go under a top-level comment on the same proposal
+    and (
+      parent_id is null
+      or exists (
+        select 1 from public.proposal_comments c
+        where c.id = parent_id
+          and c.proposal_id = proposal_comments.proposal_id
+          and c.parent_id is null
+      )
+    )
+  );
+
+-- Authors can edit their own text; resolving goes through set_comment_resolved()
+create policy "Authors can update own comments"
+  on public.proposal_comments for update
+  to authenticated
+  using (author_id = auth.uid())
+  with check (author_id = auth.uid());
+
+revoke update on public.proposal_comments from authenticated;
+grant update (body, updated_at) on public.proposal_comments to authenticated;
+
+create policy "Authors can delete own comments"
+  on public.proposal_comments for delete
+  to authenticated
+  using (author_id = auth.uid());
+
+-- ── Resolving ──
+-- Resolving / reopening is open to every reviewer, not just the author, but only
+-- touches the resolved columns.
+create or replace function public.set_comment_resolved(p_comment_id uuid, p_resolved boolean)
+returns public.proposal_comments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_comment public.proposal_comments;
+begin
+  select * into v_comment from public.proposal_comments where id = p_comment_id for update;
+  if not found or not public.can_review_proposal(v_comment.proposal_id, auth.uid()) then
+    raise exception 'Comment not found';
+  end if;
+  if v_comment.parent_id is not null then
+    raise exception 'Only a thread''s first comment can be resolved';
+  end if;
+
+  update public.proposal_comments
+  set resolved_at = case when p_resolved then now() end,
+      resolved_by = case when p_resolved then auth.uid() end,
+      updated_at = now()
+  where id = p_comment_id
+  returning * into v_comment;
+
+  return v_comment;
+end;
+$$;
+
+revoke execute on function public.set_comment_resolved(uuid, boolean) from public, anon;
+grant execute on function public.set_comment_resolved(uuid, boolean) to authenticated;
+
+-- ── Decisions ──
+-- Same as 20260304090000_approval_workflow.sql, plus the open-comments check on approval.
+create or replace function public.decide_approval_step(
+  p_step_id uuid,
+  p_decision text,
+  p_notes text default null
+)
+returns public.proposal_approval_steps
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_step public.proposal_approval_steps;
+  v_round integer;
+  v_status text;
+  v_role text;
+  v_current_order integer;
+  v_open_comments integer;
+begin
+  if p_decision not in ('approved', 'rejected') then
+    raise exception 'Invalid decision: %', p_decision;
+  end if;
+
+  select * into v_step from public.proposal_approval_steps where id = p_step_id for update;
+  if not found then
+    raise exception 'Approval step not found';
+  end if;
+
+  select approval_round, status into v_round, v_status
+  from public.proposals where id = v_step.proposal_id for update;
+  if v_status <> 'pending_approval' or v_step.round <> v_round or v_step.status <> 'pending' then
+    raise exception 'This approval step is no longer open';
+  end if;
+
+  select min(step_order) into v_current_order
+  from public.proposal_approval_steps
+  where proposal_id = v_step.proposal_id and round = v_round and status = 'pending';
+  if v_step.step_order <> v_current_order then
+    raise exception 'An earlier sign-off is still pending';
+  end if;
+
+  select role into v_role from public.profiles where id = auth.uid();
+  if v_role is null or (v_role <> v_step.approver_role and v_role <> 'system_admin') then
+    raise exception 'You are not an approver for this step';
+  end if;
+
+  if p_decision = 'approved' then
+    select count(*) into v_open_comments
+    from public.proposal_comments
+    where proposal_id = v_step.proposal_id and parent_id is null and resolved_at is null;
+    if v_open_comments > 0 then
+      raise exception 'Resolve the % open review comment(s) before approving', v_open_comments;
+    end if;
+  end if;
+
+  update public.proposal_approval_steps
+  set status = p_decision,
+      notes = nullif(trim(p_notes), ''),
+      decided_by = auth.uid(),
+      decided_at = now()
+  where id = p_step_id
+  returning * into v_step;
+
+  if p_decision = 'rejected' then
+    update public.proposals
+    set status = 'rejected',
+        approved_by = auth.uid(),
+        approval_notes = v_step.notes
+    where id = v_step.proposal_id;
+  elsif not exists (
+    select 1 from public.proposal_approval_steps
+    where proposal_id = v_step.proposal_id and round = v_round and status = 'pending'
+  ) then
+    update public.proposals
+    set status = 'approved',
+        approved_by = auth.uid(),
+        approval_notes = v_step.notes
+    where id = v_step.proposal_id;
+  end if;
+
+  return v_step;
+end;
+$$;
@@ -0,0 +1,160 @@
+-- Proposal revision history
+-- Every save or PDF generation that changes a proposal's content snapshots it into
+-- proposal_revisions. Revisions are written only by the trigger below and are never
+-- updated or deleted, so older PDFs and edits stay recoverable.
+
+-- ── proposal_revisions ──
+create table if not exists public.proposal_revisions (
+  id uuid primary key default gen_random_uuid(),
+  proposal_id uuid not null references public.proposals(id) on delete cascade,
+  revision_number integer not null,
+  -- saved: builder save · generated: new PDF · restored: copied from an earlier revision
+  reason text not null check (reason in ('saved', 'generated', 'restored')),
+  restored_from uuid references public.proposal_revisions(id) on delete set null,
+  summary_context jsonb,
+  selected_products text[] not null default '{}',
+  disabled_slides jsonb not null default '[]',
+  editable_fields_data jsonb not null default '{}',
+  fee_data jsonb,
+  pdf_path text,
+  -- Null when written by the PDF service
+  created_by uuid references public.profiles(id),
+  created_at timestamptz not null default now(),
+  unique (proposal_id, revision_number)
+);
+
+create index idx_proposal_revisions_proposal on public.proposal_revisions(proposal_id, revision_number desc);
+
+alter table public.proposal_revisions enable row level security;
+
+create policy "Reviewers can view revisions"
+  on public.proposal_revisions for select
+  to authenticated
+  using (public.can_review_proposal(proposal_id, auth.uid()));
+
+-- ── Snapshot trigger ──
+create or replace function public.snapshot_proposal_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reason text;
+  v_restored_from uuid;
+  v_next integer;
+begin
+  if tg_op = 'UPDATE'
+    and new.summary_context is not distinct from old.summary_context
+    and new.selected_products is not distinct from old.selected_products
+    and new.disabled_slides is not distinct from old.disabled_slides
+    and new.editable_fields_data is not distinct from old.editable_fields_data
+    and new.fee_data is not distinct from old.fee_data
+    and new.pdf_path is not distinct from old.pdf_path
+  then
+    return new;
+  end if;
+
+  -- Set by restore_proposal_revision() for the duration of its transaction
+  v_restored_from := nullif(current_setting('app.restored_revision', true), '')::uuid;
+
+  if v_restored_from is not null then
+    v_reason := 'restored';
+  elsif tg_op = 'UPDATE' and new.pdf_path is distinct from old.pdf_path then
+    v_reason := 'generated';
+  else
+    v_reason := 'saved';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext(new.id::text));
+  select coalesce(max(revision_number), 0) + 1 into v_next
+  from public.proposal_revisions where proposal_id = new.id;
+
+  insert into public.proposal_revisions (
+    proposal_id, revision_number, reason, restored_from,
+    summary_context, selected_products, disabled_slides, editable_fields_data, fee_data, pdf_path,
+    created_by
+  ) values (
+    new.id, v_next, v_reason, v_restored_from,
+    new.summary_context, coalesce(new.selected_products, '{}'), coalesce(new.disabled_slides, '[]'::jsonb),
+    coalesce(new.editable_fields_data, '{}'::jsonb), new.fee_data, new.pdf_path,
+    auth.uid()
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists on_proposal_revision on public.proposals;
+create trigger on_proposal_revision
+  after insert or update on public.proposals
+  for each row execute function public.snapshot_proposal_revision();
+
+-- ── Restore ──
+-- Copies a revision back onto the proposal as a new draft. Runs as the caller, so the
+-- proposals update policy decides who may restore; the trigger records a 'restored' revision.
+create or replace function public.restore_proposal_revision(p_revision_id uuid)
+returns public.proposal_revisions
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_rev public.proposal_revisions;
+  v_status text;
+  v_new public.proposal_revisions;
+begin
+  select * into v_rev from public.proposal_revisions where id = p_revision_id;
+  if not found then
+    raise exception 'Revision not found';
+  end if;
+
+  select status into v_status from public.proposals where id = v_rev.proposal_id;
+  if v_status = 'pending_approval' then
+    raise exception 'This proposal is awaiting approval and can''t be restored right now';
+  end if;
+
+  perform set_config('app.restored_revision', p_revision_id::text, true);
+
+  update public.proposals
+  set summary_context = v_rev.summary_context,
+      selected_products = v_rev.selected_products,
+      disabled_slides = v_rev.disabled_slides,
+      editable_fields_data = v_rev.editable_fields_data,
+      fee_data = v_rev.fee_data,
+      pdf_path = v_rev.pdf_path,
+      status = 'draft',
+      updated_at = now()
+  where id = v_rev.proposal_id;
+
+  if not found then
+    raise exception 'You can''t edit this proposal';
+  end if;
+
+  perform set_config('app.restored_revision', '', true);
+
+  select * into v_new from public.proposal_revisions
+  where proposal_id = v_rev.proposal_id
+  order by revision_number desc
+  limit 1;
+
+  return v_new;
+end;
+$$;
+
+revoke execute on function public.restore_proposal_revision(uuid) from public, anon;
+grant execute on function public.restore_proposal_revision(uuid) to authenticated;
+
+-- ── Backfill ──
+-- One 'saved' revision per existing proposal so history starts from the current state.
+insert into public.proposal_revisions (
+  proposal_id, revision_number, reason,
+  summary_context, selected_products, disabled_slides, editable_fields_data, fee_data, pdf_path,
+  created_by, created_at
+)
+select
+  p.id, 1, 'saved',
+  p.summary_context, coalesce(p.selected_products, '{}'), coalesce(p.disabled_slides, '[]'::jsonb),
+  coalesce(p.editable_fields_data, '{}'::jsonb), p.fee_data, p.pdf_path,
+  p.created_by, p.updated_at
+from public.proposals p
+where not exists (select 1 from public.proposal_revisions r where r.proposal_id = p.id);
@@ -0,0 +1,81 @@
+-- Proposal email delivery
+-- The send-proposal-email edge function emails tracking links to clients using an
+-- admin-editable template (per region, with a default fallback) and records the
+-- delivery status on the link.
+
+-- ── email_templates ──
+create table if not exists public.email_templates (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null default 'proposal_invite'
+    check (kind in ('proposal_invite')),
+  -- Null = default template used when a region has none of its own
+  region_id text references public.regions(id) on delete cascade,
+  subject text not null,
+  -- Plain text with {{merge_fields}}; blank lines separate paragraphs
+  body text not null,
+  updated_by uuid references auth.users(id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index idx_email_templates_kind_region
+  on public.email_templates(kind, coalesce(region_id, ''));
+
+alter table public.email_templates enable row level security;
+
+create policy "Authenticated users can read email templates"
+  on public.email_templates for select
+  to authenticated
+  using (true);
+
+create policy "Admins can manage email templates"
+  on public.email_templates for all
+  to authenticated
+  using (public.is_admin(auth.uid()))
+  with check (public.is_admin(auth.uid()));
+
+insert into public.email_templates (kind, region_id, subject, body)
+values (
+  'proposal_invite',
+  null,
+  'Your Hoxton Wealth proposal, {{client_name}}',
+  E'Dear {{recipient_name}},\n\n'
+  'Thank you for taking the time to speak with me. I''ve prepared your personalised proposal, '
+  'which you can view securely using the button below. For your security you''ll be asked for a '
+  'one-time code sent to this email address.\n\n'
+  'This link is valid until {{expiry_date}}.\n\n'
+  'If you have any questions, just reply to this email or contact me at {{adviser_email}}.\n\n'
+  'Kind regards,\n{{adviser_name}}'
+)
+on conflict do nothing;
+
+-- ── Delivery status on links ──
+alter table public.proposal_links
+  add column if not exists email_status text
+    check (email_status in ('sent', 'logged', 'failed')),
+  add column if not exists email_sent_at timestamptz,
+  add column if not exists email_error text,
+  add column if not exists email_send_count integer not null default 0,
+  add column if not exists email_provider_id text;
+
+comment on column public.proposal_links.email_status is
+  'Last email delivery: sent (accepted by provider), logged (no provider configured, console fallback) or failed';
+
+-- ── Audit actions ──
+alter table public.template_audit_log
+  drop constraint if exists template_audit_log_action_check;
+
+alter table public.template_audit_log
+  add constraint template_audit_log_action_check
+  check (action in (
+    'slide_added', 'slide_removed', 'slide_reordered', 'slide_replaced',
+    'slide_bulk_uploaded', 'slide_deleted',
+    'module_created', 'module_updated', 'module_disabled',
+    'region_created', 'region_updated',
+    'category_created', 'category_updated', 'category_deleted',
+    'intro_pack_created', 'intro_pack_published',
+    'closing_pack_created', 'closing_pack_published',
+    'editable_fields_updated',
+    'approval_rule_created', 'approval_rule_updated', 'approval_rule_deleted',
+    'email_template_updated', 'email_template_deleted'
+  ));
@@ -0,0 +1,114 @@
+-- Automated follow-up reminders
+-- The send-follow-up-reminders edge function runs on a schedule and picks up links
+-- that were never opened, or opened but not read through (same 80% completion
+-- threshold as the analytics tab). Depending on the admin settings it emails the
+-- client a reminder and/or raises a notification for the adviser. Advisers can
+-- opt individual proposals out.
+
+-- ── Per-proposal opt-out ──
+alter table public.proposals
+  add column if not exists follow_ups_enabled boolean not null default true;
+
+-- ── Slide count per view (completion needs the deck size at view time) ──
+alter table public.link_views
+  add column if not exists total_slides integer;
+
+-- ── follow_up_settings (single row) ──
+create table if not exists public.follow_up_settings (
+  id boolean primary key default true check (id),
+  enabled boolean not null default true,
+  -- Days after sending before an unopened link gets a reminder
+  unopened_after_days integer not null default 3 check (unopened_after_days > 0),
+  -- Days after the latest view before a partially-read link gets a reminder
+  low_completion_after_days integer not null default 5 check (low_completion_after_days > 0),
+  -- Minimum gap between reminders for the same link
+  repeat_every_days integer not null default 7 check (repeat_every_days > 0),
+  max_reminders integer not null default 2 check (max_reminders between 1 and 10),
+  email_client boolean not null default true,
+  notify_adviser boolean not null default true,
+  updated_by uuid references auth.users(id),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.follow_up_settings enable row level security;
+
+create policy "Authenticated users can read follow-up settings"
+  on public.follow_up_settings for select
+  to authenticated
+  using (true);
+
+create policy "Admins can manage follow-up settings"
+  on public.follow_up_settings for all
+  to authenticated
+  using (public.is_admin(auth.uid()))
+  with check (public.is_admin(auth.uid()));
+
+insert into public.follow_up_settings (id) values (true)
+on conflict do nothing;
+
+-- ── proposal_follow_ups (one row per reminder sent) ──
+create table if not exists public.proposal_follow_ups (
+  id uuid primary key default gen_random_uuid(),
+  link_id uuid not null references public.proposal_links(id) on delete cascade,
+  proposal_id uuid not null references public.proposals(id) on delete cascade,
+  reason text not null check (reason in ('unopened', 'low_completion')),
+  -- Best completion across the link's views at the time (null when unopened)
+  completion_percent integer,
+  -- Null when the client wasn't emailed
+  email_status text check (email_status in ('sent', 'logged', 'failed')),
+  adviser_notified boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index idx_proposal_follow_ups_link on public.proposal_follow_ups(link_id, created_at desc);
+create index idx_proposal_follow_ups_proposal on public.proposal_follow_ups(proposal_id);
+
+alter table public.proposal_follow_ups enable row level security;
+
+-- Written only by the edge function (service role)
+create policy "Reviewers can view follow-ups"
+  on public.proposal_follow_ups for select
+  to authenticated
+  using (public.can_review_proposal(proposal_id, auth.uid()));
+
+-- ── Reminder email template ──
+alter table public.email_templates
+  drop constraint if exists email_templates_kind_check;
+
+alter table public.email_templates
+  add constraint email_templates_kind_check
+  check (kind in ('proposal_invite', 'follow_up_reminder'));
+
+insert into public.email_templates (kind, region_id, subject, body)
+values (
+  'follow_up_reminder',
+  null,
+  'A reminder about your Hoxton Wealth proposal',
+  E'Dear {{recipient_name}},\n\n'
+  'I wanted to check in about the proposal I sent you recently. You can pick up where you left off '
+  'using the button below.\n\n'
+  'This link is valid until {{expiry_date}}.\n\n'
+  'If you have any questions, just reply to this email or contact me at {{adviser_email}}.\n\n'
+  'Kind regards,\n{{adviser_name}}'
+)
+on conflict do nothing;
+
+-- ── Audit actions ──
+alter table public.template_audit_log
+  drop constraint if exists template_audit_log_action_check;
+
+alter table public.template_audit_log
+  add constraint template_audit_log_action_check
+  check (action in (
+    'slide_added', 'slide_removed', 'slide_reordered', 'slide_replaced',
+    'slide_bulk_uploaded', 'slide_deleted',
+    'module_created', 'module_updated', 'module_disabled',
+    'region_created', 'region_updated',
+    'category_created', 'category_updated', 'category_deleted',
+    'intro_pack_created', 'intro_pack_published',
+    'closing_pack_created', 'closing_pack_published',
+    'editable_fields_updated',
+    'approval_rule_created', 'approval_rule_updated', 'approval_rule_deleted',
+    'email_template_updated', 'email_template_deleted',
+    'follow_up_settings_updated'
+  ));
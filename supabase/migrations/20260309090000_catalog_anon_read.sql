@@ -0,0 +1,9 @@
+-- Catalog read access for the public viewer
+-- The app now loads regions, product modules and categories from the database
+-- everywhere (lib/catalog), including the unauthenticated proposal viewer.
+-- Regions and product modules were already readable by anon; categories were not.
+
+create policy "Anon can read categories"
+  on public.categories for select
+  to anon
+  using (true);
@@ -0,0 +1,105 @@
+-- Slide inclusion rules
+-- Admins can attach a rule to an intro or product slide (client nationality, risk
+-- profile, another module being selected, a fee component being present). The
+-- wizard evaluates rules against the draft to build the default slide set; the
+-- adviser's explicit include/exclude choices are kept separately so they survive
+-- re-evaluation when the client details or products change.
+
+-- ── Rules on slides ──
+-- { "match": "all" | "any", "conditions": [{ "type", "values": [...], "negate"? }] }
+alter table public.intro_slides
+  add column if not exists include_rule jsonb;
+
+alter table public.product_slides
+  add column if not exists include_rule jsonb;
+
+-- ── Adviser overrides on proposals ──
+-- Map of slide id -> true (include) / false (exclude). disabled_slides stays the
+-- effective list the PDF service and viewer read.
+alter table public.proposals
+  add column if not exists slide_overrides jsonb;
+
+-- Existing proposals: every disabled slide was a manual choice
+update public.proposals
+set slide_overrides = coalesce(
+  (select jsonb_object_agg(slide_id, false)
+   from jsonb_array_elements_text(disabled_slides) as slide_id),
+  '{}'::jsonb
+)
+where slide_overrides is null
+  and jsonb_typeof(disabled_slides) = 'array';
+
+-- ── Restore ──
+-- Revisions don't record overrides; clearing them makes the wizard treat the restored
+-- disabled_slides as the adviser's choices (same as proposals from before this migration).
+create or replace function public.restore_proposal_revision(p_revision_id uuid)
+returns public.proposal_revisions
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_rev public.proposal_revisions;
+  v_status text;
+  v_new public.proposal_revisions;
+begin
+  select * into v_rev from public.proposal_revisions where id = p_revision_id;
+  if not found then
+    raise exception 'Revision not found';
+  end if;
+
+  select status into v_status from public.proposals where id = v_rev.proposal_id;
+  if v_status = 'pending_approval' then
+    raise exception 'This proposal is awaiting approval and can''t be restored right now';
+  end if;
+
+  perform set_config('app.restored_revision', p_revision_id::text, true);
+
+  update public.proposals
+  set summary_context = v_rev.summary_context,
+      selected_products = v_rev.selected_products,
+      disabled_slides = v_rev.disabled_slides,
+      slide_overrides = null,
+      editable_fields_data = v_rev.editable_fields_data,
+      fee_data = v_rev.fee_data,
+      pdf_path = v_rev.pdf_path,
+      status = 'draft',
+      updated_at = now()
+  where id = v_rev.proposal_id;
+
+  if not found then
+    raise exception 'You can''t edit this proposal';
+  end if;
+
+  perform set_config('app.restored_revision', '', true);
+
+  select * into v_new from public.proposal_revisions
+  where proposal_id = v_rev.proposal_id
+  order by revision_number desc
+  limit 1;
+
+  return v_new;
+end;
+$$;
+
+revoke execute on function public.restore_proposal_revision(uuid) from public, anon;
+grant execute on function public.restore_proposal_revision(uuid) to authenticated;
+
+-- ── Audit actions ──
+alter table public.template_audit_log
+  drop constraint if exists template_audit_log_action_check;
+
+alter table public.template_audit_log
+  add constraint template_audit_log_action_check
+  check (action in (
+    'slide_added', 'slide_removed', 'slide_reordered', 'slide_replaced',
+    'slide_bulk_uploaded', 'slide_deleted',
+    'module_created', 'module_updated', 'module_disabled',
+    'region_created', 'region_updated',
+    'category_created', 'category_updated', 'category_deleted',
+    'intro_pack_created', 'intro_pack_published',
+    'closing_pack_created', 'closing_pack_published',
+    'editable_fields_updated', 'slide_rule_updated',
+    'approval_rule_created', 'approval_rule_updated', 'approval_rule_deleted',
+    'email_template_updated', 'email_template_deleted',
+    'follow_up_settings_updated'
+  ));
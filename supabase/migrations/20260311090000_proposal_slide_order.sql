@@ -0,0 +1,10 @@
+-- Custom slide order
+-- Advisers can reorder slides and whole sections in the builder. The order is stored
+-- as a list of slide ids (intro-1, context-summary, product-<module>-2, closing-3, …)
+-- and applied by the viewer; PDF and PPTX exports receive it in the slideOrder payload.
+-- Null means the standard order: intro, divider, context, products, closing.
+
+alter table public.proposals
+  add column if not exists slide_order jsonb;
+
+comment on column public.proposals.slide_order is 'JSON array of slide ids in the adviser''s order; null = default order. Slides not listed keep their default position.';
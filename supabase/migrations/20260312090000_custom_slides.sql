@@ -0,0 +1,63 @@
+-- Ad-hoc slides
+-- Advisers can add one-off slides to a single proposal: an uploaded image, a page
+-- rendered from a PDF, or a blank branded slide with a title and body. They live in
+-- proposals.custom_slides and use `custom-<uuid>` ids, so slide_order, disabled_slides
+-- and editable_fields_data treat them like any other slide.
+
+-- ── Proposals ──
+alter table public.proposals
+  add column if not exists custom_slides jsonb not null default '[]';
+
+comment on column public.proposals.custom_slides is 'JSON array of { id, kind: image|pdf|blank, label, imagePath, editableFields } added by the adviser for this proposal only';
+
+-- ── Viewer analytics ──
+-- Which slide a row belongs to, so template-level analytics can leave out custom-* slides
+-- (slide_index alone shifts with each proposal's order)
+alter table public.slide_analytics
+  add column if not exists slide_id text;
+
+-- ── Storage ──
+-- Uploads (ad-hoc slide images and image field values) go in the private adhoc-slides
+-- bucket under adhoc/<adviser id>/<random name>.png and are only ever served through
+-- signed URLs: to the app while the proposal is visible to the user, to the viewer via
+-- get-viewer-images and to the PDF service with the service role. Advisers write and
+-- delete inside their own folder only; the wizard deletes an upload once the proposal
+-- has been saved without it.
+insert into storage.buckets (id, name, public)
+values ('adhoc-slides', 'adhoc-slides', false)
+on conflict (id) do update set public = false;
+
+create policy "adhoc-slides: adviser insert own"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'adhoc-slides'
+    and (storage.foldername(name))[1] = 'adhoc'
+    and (storage.foldername(name))[2] = auth.uid()::text
+  );
+
+create policy "adhoc-slides: adviser delete own"
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id = 'adhoc-slides'
+    and (storage.foldername(name))[1] = 'adhoc'
+    and (storage.foldername(name))[2] = auth.uid()::text
+  );
+
+-- Readable by the uploader, and by anyone who can see a proposal using the image
+-- (the proposals select policy decides who that is)
+create policy "adhoc-slides: read own or on visible proposal"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'adhoc-slides'
+    and (
+      (storage.foldername(name))[2] = auth.uid()::text
+      or exists (
+        select 1 from public.proposals p
+        where p.custom_slides @> jsonb_build_array(jsonb_build_object('imagePath', name))
+          or jsonb_path_exists(p.editable_fields_data, '$.*.* ? (@ == $path)', jsonb_build_object('path', name))
+      )
+    )
+  );
@@ -0,0 +1,47 @@
+-- Proposal languages
+-- Intro packs, closing packs and product slides can exist in several locales. A
+-- proposal records the language the adviser picked; wherever a pack or module has
+-- no slides in that language the English ones are used. Existing rows are English.
+
+-- ── Packs ──
+alter table public.intro_packs
+  add column if not exists locale text not null default 'en'
+  check (locale in ('en', 'ja', 'fr'));
+
+alter table public.closing_packs
+  add column if not exists locale text not null default 'en'
+  check (locale in ('en', 'ja', 'fr'));
+
+-- Versions and the active pack are now per (region, locale)
+drop index if exists public.idx_intro_packs_region_version;
+drop index if exists public.idx_intro_packs_region_active;
+drop index if exists public.idx_closing_packs_region_version;
+drop index if exists public.idx_closing_packs_region_active;
+
+create unique index if not exists idx_intro_packs_region_locale_version
+  on public.intro_packs(region_id, locale, version);
+create unique index if not exists idx_intro_packs_region_locale_active
+  on public.intro_packs(region_id, locale) where is_active;
+
+create unique index if not exists idx_closing_packs_region_locale_version
+  on public.closing_packs(region_id, locale, version);
+create unique index if not exists idx_closing_packs_region_locale_active
+  on public.closing_packs(region_id, locale) where is_active;
+
+-- ── Product slides ──
+alter table public.product_slides
+  add column if not exists locale text not null default 'en'
+  check (locale in ('en', 'ja', 'fr'));
+
+drop index if exists public.idx_product_slides_module;
+create index if not exists idx_product_slides_module
+  on public.product_slides(module_id, locale, slide_number);
+
+comment on column public.product_modules.slides_count is 'Number of English slides; translations are expected to match';
+
+-- ── Proposals ──
+alter table public.proposals
+  add column if not exists locale text not null default 'en'
+  check (locale in ('en', 'ja', 'fr'));
+
+comment on column public.proposals.locale is 'Language of the slides, viewer, emails and AI summary. Pins and snapshots record the packs actually used, which may be English fallbacks.';
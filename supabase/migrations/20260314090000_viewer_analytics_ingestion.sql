@@ -0,0 +1,89 @@
+-- Server-side viewer analytics
+-- The viewer used to insert link_views / slide_analytics rows straight from the
+-- browser under anon policies, so anyone could write arbitrary rows. Beacons now go
+-- through the track-viewer-events edge function, which checks the OTP session,
+-- validates slide indexes and stamps IP, country and server time. Anon keeps no
+-- access to either table, nor to link_otps or the proposal_links tokens a session
+-- could be forged from.
+
+-- ── Drop anon access ──
+drop policy if exists "Anon can insert views" on public.link_views;
+drop policy if exists "Anon can insert link views" on public.link_views;
+drop policy if exists "Anon can update link views" on public.link_views;
+drop policy if exists "Anon can read link views" on public.link_views;
+
+drop policy if exists "Anon can insert slide analytics" on public.slide_analytics;
+drop policy if exists "Anon can update slide analytics" on public.slide_analytics;
+
+-- ── Session the view was recorded under ──
+alter table public.link_views
+  add column if not exists otp_id uuid references public.link_otps(id) on delete set null;
+
+create index if not exists idx_link_views_link_session
+  on public.link_views(link_id, session_id);
+
+comment on column public.link_views.viewer_ip is 'Client IP as seen by track-viewer-events';
+comment on column public.link_views.country is 'ISO country code from the GeoIP database; null when unknown';
+comment on column public.link_views.otp_id is 'Verified OTP session the view was recorded under';
+
+-- ── OTPs: edge functions only ──
+-- verify-proposal-access and track-viewer-events use the service role
+drop policy if exists "Anon can insert link_otps" on public.link_otps;
+drop policy if exists "Anon can update link_otps" on public.link_otps;
+drop policy if exists "Anon can select link_otps" on public.link_otps;
+
+-- ── Viewer reads ──
+-- Anon could read every link (tokens included) and every proposal with an active link.
+-- The viewer now looks up its own link by token, and reads the proposal only with a
+-- verified OTP session.
+drop policy if exists "Anon can view link by token" on public.proposal_links;
+drop policy if exists "Anon can read proposal_links" on public.proposal_links;
+drop policy if exists "Anon can read proposals with active links" on public.proposals;
+
+create or replace function public.get_viewer_link(p_token text)
+returns table (
+  id uuid,
+  proposal_id uuid,
+  is_active boolean,
+  expires_at timestamptz,
+  allow_download boolean,
+  recipient_name text,
+  recipient_email text,
+  locale text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select l.id, l.proposal_id, l.is_active, l.expires_at, l.allow_download,
+    l.recipient_name, l.recipient_email, p.locale
+  from public.proposal_links l
+  join public.proposals p on p.id = l.proposal_id
+  where l.token = p_token;
+$$;
+
+create or replace function public.get_viewer_proposal(p_token text, p_session_token text)
+returns setof public.proposals
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.*
+  from public.proposal_links l
+  join public.proposals p on p.id = l.proposal_id
+  where l.token = p_token
+    and l.is_active
+    and (l.expires_at is null or l.expires_at > now())
+    and exists (
+      select 1 from public.link_otps o
+      where o.link_id = l.id
+        and o.session_token = p_session_token
+        and o.is_used
+        and o.session_expires_at > now()
+    );
+$$;
+
+grant execute on function public.get_viewer_link(text) to anon, authenticated;
+grant execute on function public.get_viewer_proposal(text, text) to anon, authenticated;
@@ -0,0 +1,58 @@
+-- Engagement scoring
+-- Each proposal gets a 0-100 engagement score from its viewer analytics so advisers
+-- can see whom to call first. The score blends recency, repeat visits, time on fee
+-- and product slides, completion, PDF downloads and views from a new device; admins
+-- set how much each counts. The scoring itself runs in the app (src/lib/engagement.ts).
+
+-- ── engagement_settings (single row) ──
+create table if not exists public.engagement_settings (
+  id boolean primary key default true check (id),
+  -- Relative weights, 0 = ignored
+  recency_weight integer not null default 5 check (recency_weight between 0 and 10),
+  repeat_visits_weight integer not null default 3 check (repeat_visits_weight between 0 and 10),
+  fee_time_weight integer not null default 4 check (fee_time_weight between 0 and 10),
+  product_time_weight integer not null default 3 check (product_time_weight between 0 and 10),
+  completion_weight integer not null default 3 check (completion_weight between 0 and 10),
+  download_weight integer not null default 2 check (download_weight between 0 and 10),
+  new_device_weight integer not null default 2 check (new_device_weight between 0 and 10),
+  -- A view older than this no longer counts towards recency
+  recency_window_days integer not null default 14 check (recency_window_days between 1 and 90),
+  updated_by uuid references auth.users(id),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.engagement_settings enable row level security;
+
+create policy "Authenticated users can read engagement settings"
+  on public.engagement_settings for select
+  to authenticated
+  using (true);
+
+create policy "Admins can manage engagement settings"
+  on public.engagement_settings for all
+  to authenticated
+  using (public.is_admin(auth.uid()))
+  with check (public.is_admin(auth.uid()));
+
+insert into public.engagement_settings (id) values (true)
+on conflict do nothing;
+
+-- ── Audit actions ──
+alter table public.template_audit_log
+  drop constraint if exists template_audit_log_action_check;
+
+alter table public.template_audit_log
+  add constraint template_audit_log_action_check
+  check (action in (
+    'slide_added', 'slide_removed', 'slide_reordered', 'slide_replaced',
+    'slide_bulk_uploaded', 'slide_deleted',
+    'module_created', 'module_updated', 'module_disabled',
+    'region_created', 'region_updated',
+    'category_created', 'category_updated', 'category_deleted',
+    'intro_pack_created', 'intro_pack_published',
+    'closing_pack_created', 'closing_pack_published',
+    'editable_fields_updated', 'slide_rule_updated',
+    'approval_rule_created', 'approval_rule_updated', 'approval_rule_deleted',
+    'email_template_updated', 'email_template_deleted',
+    'follow_up_settings_updated', 'engagement_settings_updated'
+  ));
@@ -0,0 +1,81 @@
+-- Analytics digest emails
+-- The send-analytics-digests edge function runs daily and, once a digest is due,
+-- emails each adviser a summary of the period: proposals opened, PDF downloads,
+-- approval decisions, stale drafts and links about to expire. Planner admins also
+-- get a team digest covering their assigned_advisors. Admins set the cadence.
+
+-- ── digest_settings (single row) ──
+create table if not exists public.digest_settings (
+  id boolean primary key default true check (id),
+  enabled boolean not null default true,
+  -- Days between digests for the same person (7 = weekly)
+  every_days integer not null default 7 check (every_days between 1 and 31),
+  adviser_digest boolean not null default true,
+  team_digest boolean not null default true,
+  -- A draft untouched for this long is listed as stale
+  stale_draft_days integer not null default 14 check (stale_draft_days between 1 and 90),
+  -- Active links expiring within this many days are listed
+  expiring_within_days integer not null default 7 check (expiring_within_days between 1 and 30),
+  updated_by uuid references auth.users(id),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.digest_settings enable row level security;
+
+create policy "Authenticated users can read digest settings"
+  on public.digest_settings for select
+  to authenticated
+  using (true);
+
+create policy "Admins can manage digest settings"
+  on public.digest_settings for all
+  to authenticated
+  using (public.is_admin(auth.uid()))
+  with check (public.is_admin(auth.uid()));
+
+insert into public.digest_settings (id) values (true)
+on conflict do nothing;
+
+-- ── digest_runs (one row per digest sent) ──
+create table if not exists public.digest_runs (
+  id uuid primary key default gen_random_uuid(),
+  recipient_id uuid not null references public.profiles(id) on delete cascade,
+  kind text not null check (kind in ('adviser', 'team')),
+  period_start timestamptz not null,
+  period_end timestamptz not null,
+  email_status text not null check (email_status in ('sent', 'logged', 'failed')),
+  -- Counts that went into the email
+  summary jsonb not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create index idx_digest_runs_recipient on public.digest_runs(recipient_id, kind, created_at desc);
+
+alter table public.digest_runs enable row level security;
+
+-- Written only by the edge function (service role)
+create policy "Users can view own digests"
+  on public.digest_runs for select
+  to authenticated
+  using (recipient_id = auth.uid() or public.is_admin(auth.uid()));
+
+-- ── Audit actions ──
+alter table public.template_audit_log
+  drop constraint if exists template_audit_log_action_check;
+
+alter table public.template_audit_log
+  add constraint template_audit_log_action_check
+  check (action in (
+    'slide_added', 'slide_removed', 'slide_reordered', 'slide_replaced',
+    'slide_bulk_uploaded', 'slide_deleted',
+    'module_created', 'module_updated', 'module_disabled',
+    'region_created', 'region_updated',
+    'category_created', 'category_updated', 'category_deleted',
+    'intro_pack_created', 'intro_pack_published',
+    'closing_pack_created', 'closing_pack_published',
+    'editable_fields_updated', 'slide_rule_updated',
+    'approval_rule_created', 'approval_rule_updated', 'approval_rule_deleted',
+    'email_template_updated', 'email_template_deleted',
+    'follow_up_settings_updated', 'engagement_settings_updated',
+    'digest_settings_updated'
+  ));
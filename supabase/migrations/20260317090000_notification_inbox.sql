@@ -0,0 +1,120 @@
+-- Notification inbox
+-- Notifications used to be read straight from proposal_events, with a last-seen time
+-- in localStorage, so read state didn't follow advisers across devices. A trigger now
+-- copies each notifiable event into a per-user notifications row with its own read
+-- and dismissed state, filtered by the user's preferences. The table is published to
+-- Realtime so the sidebar bell updates as events arrive.
+
+-- ── notification_preferences ──
+create table if not exists public.notification_preferences (
+  user_id uuid primary key references public.profiles(id) on delete cascade,
+  -- Event types the user wants in their inbox
+  event_types text[] not null default '{opened,downloaded,approved,rejected,pdf_generated,follow_up_due}',
+  updated_at timestamptz not null default now()
+);
+
+alter table public.notification_preferences enable row level security;
+
+create policy "Users can view own notification preferences"
+  on public.notification_preferences for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users can insert own notification preferences"
+  on public.notification_preferences for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+create policy "Users can update own notification preferences"
+  on public.notification_preferences for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- ── notifications ──
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  event_id uuid not null references public.proposal_events(id) on delete cascade,
+  proposal_id uuid not null references public.proposals(id) on delete cascade,
+  event_type text not null,
+  event_data jsonb not null default '{}',
+  read_at timestamptz,
+  dismissed_at timestamptz,
+  -- When the event happened
+  created_at timestamptz not null default now(),
+  unique (user_id, event_id)
+);
+
+create index idx_notifications_inbox on public.notifications(user_id, created_at desc)
+  where dismissed_at is null;
+
+alter table public.notifications enable row level security;
+
+-- Rows are written by the trigger below; users can only mark theirs read or dismissed
+create policy "Users can view own notifications"
+  on public.notifications for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users can update own notifications"
+  on public.notifications for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+revoke update on public.notifications from authenticated;
+grant update (read_at, dismissed_at) on public.notifications to authenticated;
+
+-- ── Fan-out from proposal_events ──
+create or replace function public.notify_proposal_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  owner_id uuid;
+begin
+  if new.event_type not in ('opened', 'downloaded', 'approved', 'rejected', 'pdf_generated', 'follow_up_due') then
+    return new;
+  end if;
+
+  select advisor_id into owner_id from public.proposals where id = new.proposal_id;
+  if owner_id is null then
+    return new;
+  end if;
+
+  -- No preferences row = every type
+  if exists (
+    select 1 from public.notification_preferences np
+    where np.user_id = owner_id and not (new.event_type = any(np.event_types))
+  ) then
+    return new;
+  end if;
+
+  insert into public.notifications (user_id, event_id, proposal_id, event_type, event_data, created_at)
+  values (owner_id, new.id, new.proposal_id, new.event_type, coalesce(new.event_data, '{}'), coalesce(new.created_at, now()))
+  on conflict (user_id, event_id) do nothing;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_notify_proposal_event on public.proposal_events;
+create trigger trg_notify_proposal_event
+  after insert on public.proposal_events
+  for each row execute function public.notify_proposal_event();
+
+-- ── Backfill ──
+-- The last 30 days, already read: the old last-seen time lived in each browser
+insert into public.notifications (user_id, event_id, proposal_id, event_type, event_data, read_at, created_at)
+select p.advisor_id, e.id, e.proposal_id, e.event_type, coalesce(e.event_data, '{}'), now(), e.created_at
+from public.proposal_events e
+join public.proposals p on p.id = e.proposal_id
+where e.event_type in ('opened', 'downloaded', 'approved', 'rejected', 'pdf_generated', 'follow_up_due')
+  and e.created_at > now() - interval '30 days'
+on conflict (user_id, event_id) do nothing;
+
+-- ── Realtime ──
+alter publication supabase_realtime add table public.notifications;